@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  // EHS data packs and the regulation corpus are read from disk at runtime; ship them with every API route
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./data/ehs-packs/**/*', './data/ehs-overlays/**/*', './data/rag-corpus/**/*'],
+  },
+};
 
 module.exports = nextConfig;
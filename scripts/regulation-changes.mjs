@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+/**
+ * Report generated videos whose cited regulations changed, through a running server.
+ * Requires EHS_ADMIN_TOKEN (the server's admin token) in the environment.
+ *
+ * Usage: node scripts/regulation-changes.mjs [baseUrl] [--as-of YYYY-MM-DD]
+ * Example (weekly cron): 0 6 * * 1  EHS_ADMIN_TOKEN=... npm run regulations:check
+ *
+ * Exits 0 when nothing changed, 2 when videos are affected, 1 on error.
+ */
+
+const args = process.argv.slice(2);
+const asOfIndex = args.indexOf('--as-of');
+const asOf = asOfIndex >= 0 ? args[asOfIndex + 1] : undefined;
+const BASE_URL =
+  args.find((a, i) => !a.startsWith('--') && (asOfIndex < 0 || i !== asOfIndex + 1)) || 'http://localhost:3000';
+const TOKEN = process.env.EHS_ADMIN_TOKEN;
+
+/** Removed words as [-…-], added words as {+…+}. */
+function formatDiff(diff) {
+  return diff
+    .map((s) => (s.op === 'removed' ? `[-${s.text.trim()}-] ` : s.op === 'added' ? `{+${s.text.trim()}+} ` : s.text))
+    .join('');
+}
+
+async function main() {
+  if (!TOKEN) {
+    console.error('Set EHS_ADMIN_TOKEN to the server admin token.');
+    process.exit(1);
+  }
+
+  try {
+    const res = await fetch(`${BASE_URL}/api/regulations/changes${asOf ? `?asOf=${asOf}` : ''}`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    const report = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(report?.error || `HTTP ${res.status}`);
+
+    console.log(`Checked ${report.citationsChecked} cited regulation versions against ${report.asOf}`);
+    if (report.unavailable.length) console.warn(`Could not fetch: ${report.unavailable.join(', ')}`);
+    if (report.changes.length === 0) {
+      console.log('No cited regulation changed.');
+      return;
+    }
+
+    for (const change of report.changes) {
+      console.log(`\n${change.citation}: changed between ${change.fromDate} and ${change.toDate}`);
+      console.log(change.diff ? `  ${formatDiff(change.diff)}` : '  (earlier text no longer available to diff)');
+    }
+    console.log(`\nAffected videos (${report.affectedVideos.length}):`);
+    for (const video of report.affectedVideos) {
+      console.log(`  ${video.jobId}  ${video.title}  (${video.createdAt.slice(0, 10)}, ${video.status}): ${video.citations.join(', ')}`);
+    }
+    process.exit(2);
+  } catch (err) {
+    console.error('Check failed:', err.message);
+    if (err.message?.includes('fetch') || err.message?.includes('ECONNREFUSED')) {
+      console.error('Make sure the server is running: npm run dev');
+    }
+    process.exit(1);
+  }
+}
+
+main();
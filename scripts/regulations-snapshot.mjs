@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+/**
+ * Export or import an eCFR snapshot bundle through a running server (npm run dev / npm start).
+ * Requires EHS_ADMIN_TOKEN (the server's admin token) in the environment.
+ *
+ * Usage:
+ *   node scripts/regulations-snapshot.mjs export <file> [baseUrl] [--refresh]
+ *   node scripts/regulations-snapshot.mjs import <file> [baseUrl]
+ *
+ * Export on a connected install (--refresh first fetches every section the US pack cites), copy
+ * the file to the offline install, then import it there.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+
+const [command, file, ...rest] = process.argv.slice(2);
+const refresh = rest.includes('--refresh');
+const BASE_URL = rest.find((a) => !a.startsWith('--')) || 'http://localhost:3000';
+const TOKEN = process.env.EHS_ADMIN_TOKEN;
+
+async function request(path, init = {}) {
+  const res = await fetch(`${BASE_URL}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}`, ...init.headers },
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+  return data;
+}
+
+function printStatus(status) {
+  const snapshot = status.lastSnapshot;
+  console.log(`Store: ${status.records} records, ${status.sections} sections (${status.origins.ecfr} from eCFR, ${status.origins.snapshot} from snapshots)`);
+  console.log(`Newest effective date: ${status.latestEffectiveDate ?? 'none'}${status.stale ? ` (stale, ${status.ageDays} days old)` : ''}`);
+  if (snapshot) console.log(`Last snapshot: ${snapshot.id}, created ${snapshot.createdAt}, imported ${snapshot.importedAt}`);
+}
+
+async function main() {
+  if (!['export', 'import'].includes(command) || !file) {
+    console.error('Usage: node scripts/regulations-snapshot.mjs export|import <file> [baseUrl] [--refresh]');
+    process.exit(1);
+  }
+  if (!TOKEN) {
+    console.error('Set EHS_ADMIN_TOKEN to the server admin token.');
+    process.exit(1);
+  }
+
+  try {
+    if (command === 'export') {
+      const data = await request(`/api/regulations/snapshot${refresh ? '?refresh=1' : ''}`);
+      if (data.refresh?.failed.length) console.warn(`Could not fetch: ${data.refresh.failed.join(', ')}`);
+      writeFileSync(file, `${JSON.stringify(data.snapshot, null, 2)}\n`);
+      console.log(`Wrote ${data.snapshot.records.length} records to ${file} (snapshot ${data.snapshot.id})`);
+      printStatus(data.status);
+    } else {
+      const bundle = JSON.parse(readFileSync(file, 'utf8'));
+      const data = await request('/api/regulations/snapshot', { method: 'POST', body: JSON.stringify(bundle) });
+      console.log(`Imported ${data.import.imported} records from ${data.import.id} (${data.import.skipped} already up to date)`);
+      printStatus(data.status);
+    }
+  } catch (err) {
+    console.error(`${command} failed:`, err.message);
+    if (err.message?.includes('fetch') || err.message?.includes('ECONNREFUSED')) {
+      console.error('Make sure the server is running: npm run dev');
+    }
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,29 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET } from './route';
+
+describe('GET /api/ehs/overlay', () => {
+  const origEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...origEnv };
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
+  });
+
+  it('returns null without a configured overlay', async () => {
+    delete process.env.EHS_OVERLAY_FILE;
+    const data = await (await GET()).json();
+    expect(data).toEqual({ pack: { id: 'us-osha', version: '1.0.0' }, overlay: null, conflicts: [] });
+  });
+
+  it('returns the overlay and its conflicts with the base pack', async () => {
+    process.env.EHS_OVERLAY_FILE = 'data/ehs-overlays/example-plant.yaml';
+    const data = await (await GET()).json();
+    expect(data.overlay).toMatchObject({ id: 'example-plant', version: '1.0.0' });
+    expect(data.conflicts).toContainEqual(
+      expect.objectContaining({ topicId: 'fire-evacuation', kind: 'overrides_base', baseText: 'assembly' })
+    );
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * EHS site-rule overlay: the org overlay (EHS_OVERLAY_FILE) applied to the active data pack.
+ *
+ * GET    overlay id, version and name (null when none is configured), the pack it is applied
+ *        to, and conflicts where the overlay drops or contradicts the base reference
+ */
+
+import { NextResponse } from 'next/server';
+import { getActiveEHSOverlay } from '@/lib/ehs-overlay';
+import { getActiveEHSPack } from '@/lib/ehs-packs';
+import { getEHSOverlayConflicts } from '@/lib/ehs-reference';
+
+export async function GET(): Promise<NextResponse> {
+  const pack = getActiveEHSPack();
+  const overlay = getActiveEHSOverlay();
+  return NextResponse.json({
+    pack: { id: pack.id, version: pack.version },
+    overlay: overlay
+      ? { id: overlay.id, version: overlay.version, name: overlay.name, description: overlay.description }
+      : null,
+    conflicts: getEHSOverlayConflicts(),
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Single EHS topic in the active data pack.
+ *
+ * GET     topic as stored in the pack, without site overlay rules (so it can be edited and PUT
+ *         back), with its edit history (history only, topic null, once deleted)
+ * PUT     replace the topic (admin token); body { topic, editor?, note? }, topic.id must match
+ * DELETE  remove the topic (admin token); ?editor= and ?note= go into the history
+ */
+
+import { NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin-auth';
+import { apiError } from '@/lib/api-errors';
+import {
+  deleteEHSTopic,
+  getActiveEHSPack,
+  getActiveEHSPackVersion,
+  getEHSTopicHistory,
+  updateEHSTopic,
+} from '@/lib/ehs-packs';
+import { ehsTopicEditBodySchema, formatValidationErrors } from '@/lib/schemas';
+import { withApiHandler } from '@/lib/with-api-handler';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound(): NextResponse {
+  return NextResponse.json(apiError('Topic not found', { code: 'NOT_FOUND' }), { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const topic = getActiveEHSPack().topics.find((t) => t.id === id) ?? null;
+  const history = getEHSTopicHistory(id);
+  if (!topic && history.length === 0) return notFound();
+  return NextResponse.json({ pack: getActiveEHSPackVersion(), topic, history });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  return withApiHandler('ehs-topics', async () => {
+    const denied = checkAdminToken(request);
+    if (denied) return denied;
+
+    const parseResult = ehsTopicEditBodySchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
+    }
+    const { topic, editor, note } = parseResult.data;
+    if (topic.id !== id) {
+      return NextResponse.json(apiError('topic.id must match the URL', { code: 'BAD_REQUEST' }), {
+        status: 400,
+      });
+    }
+
+    const result = updateEHSTopic(topic, { editor, note });
+    if (!result.ok) return notFound();
+    return NextResponse.json({ pack: result.pack, topic, edit: result.edit });
+  })(request);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  return withApiHandler('ehs-topics', async () => {
+    const denied = checkAdminToken(request);
+    if (denied) return denied;
+
+    const searchParams = new URL(request.url).searchParams;
+    const result = deleteEHSTopic(id, {
+      editor: searchParams.get('editor')?.trim() || undefined,
+      note: searchParams.get('note')?.trim() || undefined,
+    });
+    if (!result.ok) return notFound();
+    return NextResponse.json({ pack: result.pack, edit: result.edit });
+  })(request);
+}
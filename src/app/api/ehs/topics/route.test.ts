@@ -0,0 +1,101 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET as getTopic, PUT } from './[id]/route';
+import { GET, POST } from './route';
+
+const topic = {
+  id: 'ladders',
+  label: 'Ladder safety',
+  keywords: ['ladder'],
+  keyFacts: ['Maintain three points of contact.'],
+  bestPractices: [],
+  commonHazards: [],
+  regulatoryRefs: [],
+  correctTerminology: [],
+  mythsOrAvoid: [],
+  shouldMention: [],
+};
+
+function request(method: string, body: unknown, token?: string) {
+  return new Request('http://test/api/ehs/topics', {
+    method,
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+  });
+}
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('/api/ehs/topics', () => {
+  const origEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...origEnv,
+      EHS_DATA_DIR: mkdtempSync(join(tmpdir(), 'ehs-data-')),
+      EHS_ADMIN_TOKEN: 'secret',
+    };
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
+  });
+
+  it('lists the active pack with its version', async () => {
+    const res = await GET(new Request('http://test/api/ehs/topics'));
+    const data = await res.json();
+    expect(data.pack).toMatchObject({ id: 'us-osha', version: '1.0.0' });
+    expect(data.topics.length).toBeGreaterThan(0);
+  });
+
+  it('rejects writes without the admin token, or when none is configured', async () => {
+    expect((await POST(request('POST', { topic }, 'wrong'))).status).toBe(401);
+    delete process.env.EHS_ADMIN_TOKEN;
+    const res = await POST(request('POST', { topic }, 'secret'));
+    expect(res.status).toBe(403);
+    expect((await res.json()).code).toBe('FORBIDDEN');
+  });
+
+  it('validates topics before saving', async () => {
+    const res = await POST(request('POST', { topic: { ...topic, keywords: [] } }, 'secret'));
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('creates and updates topics, bumping the version and keeping history', async () => {
+    const created = await POST(request('POST', { topic, editor: 'ehs@plant' }, 'secret'));
+    expect(created.status).toBe(201);
+    expect((await created.json()).pack.version).toBe('1.0.1');
+    expect((await POST(request('POST', { topic }, 'secret'))).status).toBe(409);
+
+    const mismatch = await PUT(request('PUT', { topic }, 'secret'), params('forklift'));
+    expect(mismatch.status).toBe(400);
+
+    const updated = await PUT(
+      request('PUT', { topic: { ...topic, label: 'Portable ladders' }, note: 'Rename' }, 'secret'),
+      params('ladders')
+    );
+    expect((await updated.json()).pack.version).toBe('1.0.2');
+
+    const res = await getTopic(new Request('http://test/api/ehs/topics/ladders'), params('ladders'));
+    const data = await res.json();
+    expect(data.topic.label).toBe('Portable ladders');
+    expect(data.history.map((e: { action: string }) => e.action)).toEqual(['update', 'create']);
+  });
+
+  it('reads a topic without the site overlay, so it can be saved back unchanged', async () => {
+    process.env.EHS_OVERLAY_FILE = join(__dirname, '../../../../../data/ehs-overlays/example-plant.yaml');
+    const res = await getTopic(new Request('http://test/api/ehs/topics/forklift'), params('forklift'));
+    const { topic: forklift } = await res.json();
+    expect(forklift.siteRules).toBeUndefined();
+    expect(forklift.keyFacts.some((f: string) => f.startsWith('Site rule'))).toBe(false);
+
+    const saved = await PUT(request('PUT', { topic: forklift }, 'secret'), params('forklift'));
+    expect(saved.status).toBe(200);
+  });
+});
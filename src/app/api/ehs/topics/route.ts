@@ -0,0 +1,55 @@
+/**
+ * EHS reference admin API: topics of the active data pack.
+ *
+ * GET    list topics with the pack id and version; ?history=1 adds the pack's edit history.
+ *        `conflicts` lists edits not replayed onto a newer bundled pack (see ehs-packs.ts)
+ * POST   add a topic (admin token); body { topic, editor?, note? }
+ *
+ * Edits bump the pack's patch version and are recorded in its history; see
+ * /api/ehs/topics/:id for single-topic reads, updates and deletes.
+ */
+
+import { NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin-auth';
+import { apiError } from '@/lib/api-errors';
+import {
+  createEHSTopic,
+  getActiveEHSPack,
+  getEHSPackConflicts,
+  getEHSTopicHistory,
+} from '@/lib/ehs-packs';
+import { ehsTopicEditBodySchema, formatValidationErrors } from '@/lib/schemas';
+import { withApiHandler } from '@/lib/with-api-handler';
+
+export async function GET(request: Request): Promise<NextResponse> {
+  const { id, version, name, description, topics } = getActiveEHSPack();
+  const withHistory = new URL(request.url).searchParams.get('history') === '1';
+  const conflicts = getEHSPackConflicts();
+  return NextResponse.json({
+    pack: { id, version, name, description },
+    topics,
+    ...(conflicts.length > 0 && { conflicts }),
+    ...(withHistory && { history: getEHSTopicHistory() }),
+  });
+}
+
+async function handleCreateTopic(request: Request): Promise<NextResponse> {
+  const denied = checkAdminToken(request);
+  if (denied) return denied;
+
+  const parseResult = ehsTopicEditBodySchema.safeParse(await request.json());
+  if (!parseResult.success) {
+    return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
+  }
+  const { topic, editor, note } = parseResult.data;
+
+  const result = createEHSTopic(topic, { editor, note });
+  if (!result.ok) {
+    return NextResponse.json(apiError(`Topic "${topic.id}" already exists`, { code: 'CONFLICT' }), {
+      status: 409,
+    });
+  }
+  return NextResponse.json({ pack: result.pack, topic, edit: result.edit }, { status: 201 });
+}
+
+export const POST = withApiHandler('ehs-topics', handleCreateTopic);
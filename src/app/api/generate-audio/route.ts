@@ -14,7 +14,7 @@ async function handleGenerateAudio(
   if (!parseResult.success) {
     return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
   }
-  const { text, voice, draft } = parseResult.data;
+  const { text, voice, draft, language } = parseResult.data;
 
   const provider = getTTSProvider();
   try {
@@ -22,6 +22,7 @@ async function handleGenerateAudio(
       text,
       voice,
       draft: draft ?? false,
+      language,
     });
     return NextResponse.json({
       audioBase64,
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from './route';
+import type { QuizResult } from '@/lib/types';
+
+const mockCreate = vi.fn();
+vi.mock('@/lib/openai-client', () => ({
+  openai: {
+    chat: { completions: { create: (...args: unknown[]) => mockCreate(...args) } },
+  },
+}));
+
+const script = {
+  title: 'Forklift Safety',
+  scenes: [
+    { narration: 'Sound the forklift horn at blind corners.', imagePrompt: 'Alex pressing horn' },
+    { narration: 'Never exceed rated capacity.', imagePrompt: 'Alex reading the data plate' },
+  ],
+};
+
+function generateQuiz(body: unknown) {
+  return POST(
+    new Request('http://test/api/generate-quiz', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    })
+  );
+}
+
+function modelReturns(output: unknown) {
+  mockCreate.mockResolvedValue({ choices: [{ message: { content: JSON.stringify(output) } }] });
+}
+
+describe('POST /api/generate-quiz', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 400 without a script', async () => {
+    const res = await generateQuiz({ topicIds: ['forklift'] });
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 400 when no topic has reference facts', async () => {
+    const res = await generateQuiz({
+      script: { title: 'Team lunch', scenes: [{ narration: 'Enjoy lunch.', imagePrompt: 'Table' }] },
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe('BAD_REQUEST');
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('returns questions grounded in the reference for the given topics', async () => {
+    modelReturns({
+      questions: [
+        {
+          type: 'true_false',
+          question: 'Only trained and certified operators may operate forklifts.',
+          correctAnswer: 'True',
+          distractors: ['False'],
+          rationale: 'OSHA 1910.178(l) requires operator training.',
+          sceneIndex: 0,
+          referenceId: 'R1',
+        },
+        {
+          type: 'true_false',
+          question: 'Ungrounded question.',
+          correctAnswer: 'True',
+          distractors: ['False'],
+          rationale: '',
+          sceneIndex: 0,
+          referenceId: 'R404',
+        },
+      ],
+    });
+
+    const res = await generateQuiz({ script, topicIds: ['forklift'], questionCount: 2 });
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as QuizResult;
+    expect(data.topicIds).toEqual(['forklift']);
+    expect(data.questions).toHaveLength(1);
+    expect(data.questions[0]).toMatchObject({ sceneIndex: 0, topicId: 'forklift' });
+  });
+
+  it('detects topics from the script when none are given', async () => {
+    modelReturns({ questions: [] });
+    const res = await generateQuiz({ script });
+    expect(res.status).toBe(500);
+    expect(mockCreate.mock.calls[0][0].messages[1].content).toContain('[R1] (Forklift');
+  });
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { getTopicsForPrompt } from '@/lib/ehs-reference';
+import { buildQuizReferences, generateQuiz } from '@/lib/quiz-generation';
+import { formatValidationErrors, generateQuizBodySchema } from '@/lib/schemas';
+import { withApiHandler, type ApiHandlerContext } from '@/lib/with-api-handler';
+import type { QuizQuestion, QuizResult } from '@/lib/types';
+
+async function handleGenerateQuiz(
+  request: Request,
+  _ctx: ApiHandlerContext
+): Promise<NextResponse> {
+  const body = await request.json();
+  const parseResult = generateQuizBodySchema.safeParse(body);
+  if (!parseResult.success) {
+    return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
+  }
+  const { script, questionCount } = parseResult.data;
+
+  const topicIds =
+    parseResult.data.topicIds.length > 0
+      ? parseResult.data.topicIds
+      : getTopicsForPrompt(
+          `${script.title} ${script.scenes.map((s) => s.narration).join(' ')}`,
+          script.jurisdiction
+        ).map((t) => t.id);
+  const references = buildQuizReferences(topicIds, script.jurisdiction);
+  if (references.length === 0) {
+    return NextResponse.json(
+      apiError('No EHS reference facts for these topics; quiz questions must be grounded in the reference', {
+        code: 'BAD_REQUEST',
+      }),
+      { status: 400 }
+    );
+  }
+
+  let questions: QuizQuestion[];
+  try {
+    questions = await generateQuiz(script, references, questionCount);
+  } catch (e) {
+    const errMsg = e instanceof Error ? e.message : 'Quiz generation failed';
+    return NextResponse.json(apiError(errMsg, { code: 'INTERNAL_ERROR' }), { status: 500 });
+  }
+  if (questions.length === 0) {
+    return NextResponse.json(
+      apiError('No questions could be grounded in the EHS reference', { code: 'INTERNAL_ERROR' }),
+      { status: 500 }
+    );
+  }
+
+  const result: QuizResult = {
+    title: script.title,
+    topicIds: [...new Set(references.map((r) => r.topicId))],
+    questions,
+  };
+  return NextResponse.json(result);
+}
+
+export const POST = withApiHandler('generate-quiz', handleGenerateQuiz);
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { verifyScriptFacts } from '@/lib/fact-verification';
+import { fetchRegulationsForCitations } from '@/lib/regulatory-api';
+import { readSseEvents } from '@/lib/sse';
 import { POST } from './route';
+import type { ScriptStreamEvent } from '@/lib/types';
 
 const mockParse = vi.fn();
 const mockCreate = vi.fn();
@@ -15,7 +19,7 @@ vi.mock('@/lib/regulatory-api', () => ({
   getRegulatoryApiStatus: vi.fn().mockReturnValue({ enabled: true, effectiveDate: '2024-01-15' }),
 }));
 vi.mock('@/lib/fact-verification', () => ({
-  verifyScriptFacts: vi.fn().mockResolvedValue([]),
+  verifyScriptFacts: vi.fn().mockResolvedValue({ results: [], complete: true }),
 }));
 
 describe('POST /api/generate-script', () => {
@@ -85,5 +89,413 @@ describe('POST /api/generate-script', () => {
     expect(data.scenes).toHaveLength(2);
     expect(data.scenes[0]).toHaveProperty('narration');
     expect(data.scenes[0]).toHaveProperty('imagePrompt');
+    expect(data.ehsPack).toEqual({ id: 'us-osha', version: '1.0.0' });
+    expect(data.topicMatches[0]).toMatchObject({
+      topicId: 'forklift',
+      matchedTerms: [expect.objectContaining({ term: 'forklift', keyword: 'forklift' })],
+    });
+    expect(data.retrievedSources[0].citation).toMatch(/^29 CFR 1910\.178\(/);
+    const systemPrompt = mockParse.mock.calls[0][0].messages[0].content as string;
+    expect(systemPrompt).toContain(`[${data.retrievedSources[0].citation}]`);
+    expect(data.coverageReport.topics[0]).toMatchObject({ topicId: 'forklift', label: 'Forklift / powered industrial truck safety' });
+    expect(data.coverageReport.percent).toBeLessThan(50);
+    expect(data.coverageReport.topMissing[0]).toMatchObject({ topicId: 'forklift', kind: 'keyFact', severity: 'high' });
+  });
+
+  it('asks for narration in the requested language and echoes it back', async () => {
+    mockParse.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            parsed: {
+              title: 'Seguridad con montacargas',
+              visualStyle: 'Flat illustration',
+              scenes: [{ narration: 'Toque la bocina.', imagePrompt: 'Worker pressing horn' }],
+            },
+          },
+        },
+      ],
+    });
+    const req = new Request('http://test/api/generate-script', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'forklift safety', language: 'es' }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.language).toBe('es');
+    const userMessage = mockParse.mock.calls[0][0].messages[1].content as string;
+    expect(userMessage).toContain('every "narration" in Spanish');
+    expect(userMessage).toContain('"imagePrompt" in English');
+  });
+
+  it('checks the script against the requested jurisdiction', async () => {
+    mockParse.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            parsed: {
+              title: 'Hi-vis in the Yard',
+              visualStyle: 'Flat illustration',
+              scenes: [
+                { narration: 'Put on your high-visibility vest before entering.', imagePrompt: 'Worker in hi-vis' },
+                { narration: 'Walk to the FIRE ASSEMBLY POINT by the gate.', imagePrompt: 'Green assembly point sign' },
+              ],
+            },
+          },
+        },
+      ],
+    });
+    const req = new Request('http://test/api/generate-script', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'PPE and hi-vis in the yard', jurisdiction: 'uk' }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.jurisdiction).toBe('uk');
+    expect(data.ehsPack).toEqual({ id: 'uk-hse', version: '1.0.0' });
+    expect(data.unverifiedSignMentions).toBeUndefined();
+    expect(data.ehsValidation.terminologySuggestions).toContainEqual({
+      found: 'high-visibility vest',
+      prefer: 'hi-vis',
+    });
+    expect(data.ehsValidation.sceneFindings).toContainEqual({
+      sceneIndex: 0,
+      field: 'narration',
+      kind: 'terminology',
+      start: 12,
+      end: 32,
+      text: 'high-visibility vest',
+      match: 'high-visibility vest',
+      replacement: 'hi-vis',
+    });
+    expect(fetchRegulationsForCitations).not.toHaveBeenCalled();
+    const systemPrompt = mockParse.mock.calls[0][0].messages[0].content as string;
+    expect(systemPrompt).toContain('ISO 7010');
+    expect(systemPrompt).toContain('UK HSE');
+    expect(data.retrievedSources).toBeUndefined();
+  });
+
+  it('sizes the script to targetDurationSeconds and reports the estimate', async () => {
+    mockParse.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            parsed: {
+              title: 'Toolbox Talk',
+              visualStyle: 'Flat illustration',
+              scenes: [{ narration: 'Sound the horn.', imagePrompt: 'Worker pressing horn' }],
+            },
+          },
+        },
+      ],
+    });
+    const req = new Request('http://test/api/generate-script', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'forklift safety', targetDurationSeconds: 90, sceneCount: 4 }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const data = await (await POST(req)).json();
+    const userMessage = mockParse.mock.calls[0][0].messages[1].content as string;
+    expect(userMessage).toContain('Create exactly 4 scenes.');
+    expect(userMessage).toContain('about 90 seconds of narration');
+    expect(data.scenes[0].duration).toBe(1.2);
+    expect(data.durationCheck).toMatchObject({ targetSeconds: 90, status: 'too_short', trimmed: false });
+  });
+
+  it('returns 400 for a target duration out of range', async () => {
+    const req = new Request('http://test/api/generate-script', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'forklift safety', targetDurationSeconds: 5 }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    expect((await POST(req)).status).toBe(400);
+  });
+
+  it('generates from a source document and links each scene to its section', async () => {
+    mockParse.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            parsed: {
+              title: 'Forklift Pre-use Check',
+              visualStyle: 'Flat illustration',
+              scenes: [
+                { narration: 'Lock out the truck before inspecting.', imagePrompt: 'Worker with lock', sourceSection: 'S1' },
+                { narration: 'Keep the load low.', imagePrompt: 'Forklift with low load', sourceSection: null },
+              ],
+            },
+          },
+        },
+      ],
+    });
+    const content = 'Step,Hazard,Control\nInspect truck,Pinch points,Lock out first\nLift load,Load falls,Keep load low\n';
+    const req = new Request('http://test/api/generate-script', {
+      method: 'POST',
+      body: JSON.stringify({ sourceDocument: { name: 'forklift-jsa.csv', format: 'csv', content } }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    const userMessage = mockParse.mock.calls[0][0].messages[1].content as string;
+    expect(userMessage).toContain('SOURCE DOCUMENT "forklift-jsa.csv"');
+    expect(userMessage).toContain('[S2] Step 2: Lift load');
+    expect(data.scenes[0].sourceRef).toEqual({
+      sectionId: 'S1',
+      heading: 'Step 1: Inspect truck',
+      documentName: 'forklift-jsa.csv',
+    });
+    expect(data.scenes[1].sourceRef).toBeUndefined();
+    expect(data.sourceDocument).toMatchObject({ name: 'forklift-jsa.csv', uncoveredSectionIds: ['S2'] });
+  });
+
+  it('returns 400 for a source document without text', async () => {
+    const req = new Request('http://test/api/generate-script', {
+      method: 'POST',
+      body: JSON.stringify({ sourceDocument: { name: 'blank.txt', format: 'text', content: '\n\n' } }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe('BAD_REQUEST');
+    expect(mockParse).not.toHaveBeenCalled();
+  });
+
+  it('rewrites unverified claims when autoCorrect is set and records the change', async () => {
+    mockParse.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            parsed: {
+              title: 'Forklift Safety',
+              visualStyle: 'Flat illustration',
+              scenes: [{ narration: 'You may ride on the forks.', imagePrompt: 'Worker on forks' }],
+            },
+          },
+        },
+      ],
+    });
+    vi.mocked(verifyScriptFacts)
+      .mockResolvedValueOnce({
+        results: [
+          {
+            claim: 'You may ride on the forks.',
+            sceneIndex: 0,
+            type: 'regulation',
+            status: 'unverified',
+            confidence: 0.9,
+            correction: 'Never ride on the forks.',
+          },
+        ],
+        complete: true,
+      })
+      .mockResolvedValueOnce({ results: [], complete: true });
+    mockCreate.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              scenes: [{ sceneIndex: 0, narration: 'Never ride on the forks.', imagePrompt: 'Worker beside forks' }],
+            }),
+          },
+        },
+      ],
+    });
+
+    const req = new Request('http://test/api/generate-script', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'forklift safety', autoCorrect: true }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const data = await (await POST(req)).json();
+    expect(data.scenes[0].narration).toBe('Never ride on the forks.');
+    expect(data.factVerification).toBeUndefined();
+    expect(data.autoCorrections).toEqual([
+      expect.objectContaining({
+        claim: 'You may ride on the forks.',
+        narrationBefore: 'You may ride on the forks.',
+        narrationAfter: 'Never ride on the forks.',
+        resolved: true,
+      }),
+    ]);
+  });
+
+  describe('stream: true', () => {
+    const scriptJson = JSON.stringify({
+      title: 'Forklift Safety',
+      visualStyle: 'Flat cartoon style',
+      scenes: [
+        { narration: 'Always sound the horn.', imagePrompt: 'Worker at forklift' },
+        { narration: 'Check your blind spots.', imagePrompt: 'Warehouse aisle' },
+      ],
+    });
+
+    function mockStreamedCompletion(text: string, chunkSize = 17) {
+      mockCreate.mockResolvedValue(
+        (async function* () {
+          for (let i = 0; i < text.length; i += chunkSize) {
+            yield { choices: [{ delta: { content: text.slice(i, i + chunkSize) } }] };
+          }
+        })()
+      );
+    }
+
+    async function collectEvents(res: Response): Promise<ScriptStreamEvent[]> {
+      const events: ScriptStreamEvent[] = [];
+      for await (const event of readSseEvents<ScriptStreamEvent>(res.body!)) events.push(event);
+      return events;
+    }
+
+    it('streams title and scenes as they are parsed, then the final result', async () => {
+      mockStreamedCompletion(scriptJson);
+      const req = new Request('http://test/api/generate-script', {
+        method: 'POST',
+        body: JSON.stringify({ prompt: 'forklift safety training', draft: true, stream: true }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const res = await POST(req);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toContain('text/event-stream');
+
+      const events = await collectEvents(res);
+      const types = events.map((e) => e.type);
+      expect(types.slice(0, 5)).toEqual(['retrievedSources', 'title', 'scene', 'scene', 'script']);
+      expect(types[types.length - 1]).toBe('done');
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ stream: true }));
+
+      const scenes = events.filter((e) => e.type === 'scene');
+      expect(scenes.map((e) => e.type === 'scene' && e.index)).toEqual([0, 1]);
+      const done = events[events.length - 1];
+      expect(done.type === 'done' && done.result.scenes).toHaveLength(2);
+      const coverage = events.find((e) => e.type === 'coverageReport');
+      expect(coverage?.type === 'coverageReport' && coverage.coverageReport).toEqual(
+        done.type === 'done' && done.result.coverageReport
+      );
+    });
+
+    it('re-estimates the duration of scenes rewritten by auto-correct', async () => {
+      const corrected = Array(12).fill('Never ride on the forks, and keep every passenger off the truck.').join(' ');
+      mockCreate.mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            choices: [
+              {
+                delta: {
+                  content: JSON.stringify({
+                    title: 'Forklift Safety',
+                    visualStyle: 'Flat cartoon style',
+                    scenes: [{ narration: 'You may ride on the forks.', imagePrompt: 'Worker on forks' }],
+                  }),
+                },
+              },
+            ],
+          };
+        })()
+      );
+      mockCreate.mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                scenes: [{ sceneIndex: 0, narration: corrected, imagePrompt: 'Worker beside forks' }],
+              }),
+            },
+          },
+        ],
+      });
+      vi.mocked(verifyScriptFacts).mockResolvedValueOnce({
+        results: [
+          {
+            claim: 'You may ride on the forks.',
+            sceneIndex: 0,
+            type: 'regulation',
+            status: 'unverified',
+            confidence: 0.9,
+            correction: 'Never ride on the forks.',
+          },
+        ],
+        complete: true,
+      });
+      const req = new Request('http://test/api/generate-script', {
+        method: 'POST',
+        body: JSON.stringify({ prompt: 'forklift safety', stream: true, autoCorrect: true, targetDurationSeconds: 60 }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      const events = await collectEvents(await POST(req));
+      const done = events[events.length - 1];
+      if (done.type !== 'done') throw new Error(`expected done, got ${done.type}`);
+      const [scene] = done.result.scenes;
+      expect(scene.narration).toBe(corrected);
+      expect(scene.duration).toBeGreaterThan(30);
+      expect(done.result.durationCheck).toMatchObject({
+        targetSeconds: 60,
+        estimatedSeconds: Math.round(scene.duration!),
+        status: 'ok',
+      });
+      const rewritten = events.find((e) => e.type === 'autoCorrections');
+      expect(rewritten?.type === 'autoCorrections' && rewritten.scenes[0].duration).toBe(scene.duration);
+    });
+
+    it('emits an error event when the model output is not valid JSON', async () => {
+      mockStreamedCompletion('{"title": "Broken", "scenes": [');
+      const req = new Request('http://test/api/generate-script', {
+        method: 'POST',
+        body: JSON.stringify({ prompt: 'forklift safety training', stream: true }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const res = await POST(req);
+      const events = await collectEvents(res);
+      const last = events[events.length - 1];
+      expect(last.type).toBe('error');
+      expect(last.type === 'error' && last.error).toBe('Invalid script format from model');
+    });
+
+    it('stops the model stream and sends nothing more when the client disconnects', async () => {
+      let chunksRead = 0;
+      let streamEnded = false;
+      mockCreate.mockResolvedValue(
+        (async function* () {
+          try {
+            for (;;) {
+              chunksRead += 1;
+              yield { choices: [{ delta: { content: chunksRead === 1 ? scriptJson.slice(0, 40) : ' ' } }] };
+              await new Promise((resolve) => setTimeout(resolve, 5));
+            }
+          } finally {
+            streamEnded = true;
+          }
+        })()
+      );
+      const req = new Request('http://test/api/generate-script', {
+        method: 'POST',
+        body: JSON.stringify({ prompt: 'forklift safety training', stream: true }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const res = await POST(req);
+      const reader = res.body!.getReader();
+      await reader.read();
+      await reader.cancel();
+
+      await vi.waitFor(() => expect(streamEnded).toBe(true));
+      const readAtCancel = chunksRead;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(chunksRead).toBe(readAtCancel);
+      expect(verifyScriptFacts).not.toHaveBeenCalled();
+    });
+
+    it('still returns 400 JSON for an invalid body', async () => {
+      const req = new Request('http://test/api/generate-script', {
+        method: 'POST',
+        body: JSON.stringify({ prompt: '', stream: true }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const res = await POST(req);
+      expect(res.status).toBe(400);
+    });
   });
 });
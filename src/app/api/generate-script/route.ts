@@ -1,39 +1,77 @@
 import { NextResponse } from 'next/server';
-import { zodResponseFormat } from 'openai/helpers/zod';
 import { z } from 'zod';
 import { apiError } from '@/lib/api-errors';
 import {
   OPENAI_REQUEST_TIMEOUT_MS,
   SCRIPT_MAX_TOKENS,
-  OPENAI_SCRIPT_MODEL,
   MAX_SCENES,
   VISUAL_STYLE_PRESETS,
+  DEFAULT_JURISDICTION,
+  getJurisdictionOption,
+  getLanguageOption,
+  type Jurisdiction,
+  type LanguageCode,
+  type UsState,
   type VisualStylePreset,
 } from '@/lib/constants';
+import { getActiveEHSPackVersion } from '@/lib/ehs-packs';
 import {
   getContextForPrompt,
   getTopicsForPrompt,
+  matchTopicsForPrompt,
   getCitationsForTopics,
-  validateContentAgainstReference,
 } from '@/lib/ehs-reference';
-import { verifyScriptFacts } from '@/lib/fact-verification';
-import { openai } from '@/lib/openai-client';
+import { logError } from '@/lib/logger';
+import { extractPartialScript } from '@/lib/partial-script';
+import { getLLMProvider, type LLMMessage } from '@/lib/providers/llm-providers';
+import { getRAGContextForPrompt } from '@/lib/rag-client';
 import { fetchRegulationsForCitations } from '@/lib/regulatory-api';
 import { withRetry } from '@/lib/retry';
-import { getUnverifiedSignMentions, ALLOWED_SIGNAL_WORDS } from '@/lib/safety-signs-reference';
+import { getAllowedSigns } from '@/lib/safety-signs-reference';
 import {
   generateScriptBodySchema,
+  sceneSchema,
   scriptResultSchema,
   formatValidationErrors,
+  type GenerateScriptBody,
+  type ScriptResultValidated,
 } from '@/lib/schemas';
+import {
+  buildScriptResponse,
+  getAutoCorrection,
+  getCoverageReport,
+  getEhsValidation,
+  getFactVerification,
+  getUnverifiedSignMentionsForScript,
+} from '@/lib/script-checks';
+import {
+  buildLengthInstruction,
+  checkScriptDuration,
+  fitScriptToDuration,
+  withEstimatedDurations,
+} from '@/lib/script-duration';
+import {
+  attachSourceRefs,
+  formatSourceSections,
+  parseSourceDocument,
+  summarizeSourceCoverage,
+  type SourceSection,
+} from '@/lib/source-documents';
+import { condenseSourceSections } from '@/lib/source-summary';
+import { formatSseEvent, SSE_HEADERS } from '@/lib/sse';
 import { withTimeout } from '@/lib/timeout';
 import { withApiHandler, type ApiHandlerContext } from '@/lib/with-api-handler';
-import type { FactVerificationResult } from '@/lib/types';
+import type {
+  DurationCheck,
+  RetrievedSource,
+  ScriptStreamEvent,
+  SourceDocumentInput,
+  SourceDocumentSummary,
+} from '@/lib/types';
 
-const FACT_VERIFICATION_ENABLED = process.env.FACT_VERIFICATION_ENABLED !== 'false';
 const REGULATORY_API_ENABLED = process.env.REGULATORY_API_ENABLED !== 'false';
 
-/** Strict schema for OpenAI structured outputs (all fields required). */
+/** Strict schema for structured outputs (all fields required). */
 const scriptStructuredSchema = z.object({
   title: z.string(),
   visualStyle: z.string(),
@@ -42,12 +80,11 @@ const scriptStructuredSchema = z.object({
       narration: z.string(),
       imagePrompt: z.string(),
       duration: z.union([z.number(), z.null()]).optional(),
+      sourceSection: z.union([z.string(), z.null()]).optional(),
     })
   ).min(1).max(MAX_SCENES),
 });
 
-const ALLOWED_SIGNS_HINT = ALLOWED_SIGNAL_WORDS.slice(0, 12).join(', ') + '.';
-
 /**
  * SCRIPT GENERATION SYSTEM PROMPT
  * 
@@ -113,8 +150,16 @@ Make the KEY ACTION visible with CONCRETE details:
 
 ## ADDITIONAL RULES
 
-- visualStyle: Brief description with recurring character INCLUDING PPE (e.g., "illustration of Alex, a worker wearing a yellow hard hat and bright orange safety vest")
-- Signs: Only include when relevant. Standard types: ${ALLOWED_SIGNS_HINT}`;
+- visualStyle: Brief description with recurring character INCLUDING PPE (e.g., "illustration of Alex, a worker wearing a yellow hard hat and bright orange safety vest")`;
+
+/** Sign rule for the jurisdiction's sign standard, plus whose law to follow outside the US. */
+function getJurisdictionRules(jurisdiction: Jurisdiction | undefined): string {
+  const option = getJurisdictionOption(jurisdiction);
+  const signsLine = `\n- Signs: Only include when relevant. Standard types: ${getAllowedSigns(option.signStandard).slice(0, 12).join(', ')}.`;
+  if (option.value === DEFAULT_JURISDICTION) return signsLine;
+  return `${signsLine} Show them as ${option.signStandard} signs (pictogram with supporting text).
+- Jurisdiction: This video is for workplaces in ${option.promptName}. Cite that jurisdiction's law and guidance, never US OSHA or ANSI, and use its terminology and spelling.`;
+}
 
 function getVisualStylePreferenceLine(preset: VisualStylePreset | undefined): string {
   const effective = (preset ?? 'illustration') as VisualStylePreset;
@@ -123,20 +168,26 @@ function getVisualStylePreferenceLine(preset: VisualStylePreset | undefined): st
   return ` Visual style preference: ${hint}`;
 }
 
-async function buildSystemPrompt(prompt: string): Promise<{ systemPrompt: string; regulatorySources?: string[] }> {
-  const ehsContext = getContextForPrompt(prompt);
+async function buildSystemPrompt(
+  prompt: string,
+  jurisdiction: Jurisdiction | undefined,
+  siteState: UsState | undefined
+): Promise<{ systemPrompt: string; regulatorySources?: string[]; retrievedSources?: RetrievedSource[] }> {
+  const ehsContext = getContextForPrompt(prompt, jurisdiction);
   let liveContext = '';
   let regulatorySources: string[] = [];
 
-  if (ehsContext && REGULATORY_API_ENABLED) {
-    const topicIds = getTopicsForPrompt(prompt).map((t) => t.id);
-    const citations = getCitationsForTopics(topicIds);
+  // eCFR only covers US federal regulations; other jurisdictions use the static pack
+  if (ehsContext && REGULATORY_API_ENABLED && getJurisdictionOption(jurisdiction).ecfr) {
+    const topicIds = getTopicsForPrompt(prompt, jurisdiction).map((t) => t.id);
+    const citations = getCitationsForTopics(topicIds, jurisdiction, siteState);
     if (citations.length > 0) {
       try {
-        const { context, snippets } = await fetchRegulationsForCitations(citations);
+        const { context, snippets } = await fetchRegulationsForCitations(citations, { siteState });
         if (context) {
           liveContext = '\n\n' + context;
-          regulatorySources = snippets.map((s) => `${s.citation} (${s.effectiveDate})`);
+          // Pending rules inform the prompt but are not cited as sources of current law
+          regulatorySources = snippets.filter((s) => !s.pending).map((s) => `${s.citation} (${s.effectiveDate})`);
         }
       } catch {
         // Fallback to static only
@@ -144,30 +195,57 @@ async function buildSystemPrompt(prompt: string): Promise<{ systemPrompt: string
     }
   }
 
-  const fullContext = ehsContext ? ehsContext + liveContext : '';
-  const systemPrompt = fullContext
-    ? `${SYSTEM_PROMPT_BASE}\n\n${fullContext}`
-    : SYSTEM_PROMPT_BASE;
+  // Offline retrieval over the bundled regulation text; adds paragraph-level citations
+  const rag = getRAGContextForPrompt(prompt, jurisdiction);
+
+  const fullContext = [ehsContext ? ehsContext + liveContext : '', rag.context].filter(Boolean).join('\n\n');
+  const basePrompt = SYSTEM_PROMPT_BASE + getJurisdictionRules(jurisdiction);
+  const systemPrompt = fullContext ? `${basePrompt}\n\n${fullContext}` : basePrompt;
   return {
     systemPrompt,
     ...(regulatorySources.length > 0 && { regulatorySources }),
+    ...(rag.sources.length > 0 && { retrievedSources: rag.sources }),
   };
 }
 
-async function handleGenerateScript(
-  request: Request,
-  _ctx: ApiHandlerContext
-): Promise<NextResponse> {
-  const body = await request.json();
-  const parseResult = generateScriptBodySchema.safeParse(body);
-  if (!parseResult.success) {
-    return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
-  }
-  const { prompt, draft, audience, visualStylePreset, safetyKeywords } = parseResult.data;
+/** Non-English scripts: narration in the target language, image prompts kept in English. */
+function getLanguageLine(language: LanguageCode | undefined): string {
+  if (!language || language === 'en') return '';
+  const { promptName } = getLanguageOption(language);
+  return ` LANGUAGE: Write "title" and every "narration" in ${promptName}, using the plain, everyday safety vocabulary workers on site would use. Keep "visualStyle" and every "imagePrompt" in English. Keep regulation citations (e.g. 29 CFR 1910.178) and sign words (DANGER, CAUTION, EXIT) exactly as written.`;
+}
+
+/** Uploaded document parsed into citable sections (condensed when long). */
+interface PreparedSource {
+  input: SourceDocumentInput;
+  sections: SourceSection[];
+}
+
+/** Source-document mode: the document's sections and how the script must follow and cite them. */
+function getSourceDocumentBlock({ input, sections }: PreparedSource): string {
+  return `\n\nSOURCE DOCUMENT "${input.name}" (sections are marked [S1], [S2], ...):\n${formatSourceSections(sections)}\n\nBase the script on this document: cover its steps in the order given, keep its hazards, controls, PPE and figures exactly as written, and do not add procedures or rules it does not contain. Every scene must include "sourceSection" with the id of the section it comes from (e.g. "S3").`;
+}
+
+/** Text used to detect EHS topics: the prompt plus the source document, when there is one. */
+function getTopicText(prompt: string, source: PreparedSource | undefined): string {
+  if (!source) return prompt;
+  return [prompt, ...source.sections.map((s) => `${s.heading}\n${s.text}`)].join('\n');
+}
 
-  const sceneInstruction = draft
-    ? 'Create exactly 3 scenes to keep the video short and low-cost.'
-    : 'Create 3 to 6 scenes.';
+function buildUserContent(
+  {
+    prompt,
+    draft,
+    audience,
+    visualStylePreset,
+    safetyKeywords,
+    language,
+    sceneCount,
+    targetDurationSeconds,
+  }: GenerateScriptBody,
+  source?: PreparedSource
+): string {
+  const sceneInstruction = buildLengthInstruction({ draft, sceneCount, targetDurationSeconds, language });
   const audienceLine = audience?.trim()
     ? ` Target audience: ${audience.trim()}. Adjust tone and depth (new hires = clearer basics, refresher = concise reminders).`
     : '';
@@ -176,149 +254,346 @@ async function handleGenerateScript(
     ? ` KEY SAFETY CONCEPTS TO EMPHASIZE: ${safetyKeywords.trim()}. Every imagePrompt MUST visually feature at least one of these concepts prominently. The background, equipment, and actions should directly relate to these safety topics.`
     : '';
 
-  const userContent = `Topic: ${prompt}.${audienceLine}${styleLine}${keywordsLine} ${sceneInstruction} JSON only.`;
+  const languageLine = getLanguageLine(language);
 
-  const { systemPrompt, regulatorySources } = await buildSystemPrompt(prompt);
+  const topic = prompt.trim() || `Safe work procedure from "${source?.input.name ?? 'the source document'}"`;
+  const sourceBlock = source ? getSourceDocumentBlock(source) : '';
 
-  const useStructuredOutputs = ['gpt-4o-mini', 'gpt-4o', 'gpt-4o-2024-08-06'].some(
-    (m) => OPENAI_SCRIPT_MODEL.includes(m)
-  );
+  return `Topic: ${topic}.${audienceLine}${styleLine}${keywordsLine}${languageLine} ${sceneInstruction} JSON only.${sourceBlock}`;
+}
+
+/** Longer target runtimes need room for more narration in the completion. */
+function getMaxTokens(targetDurationSeconds: number | undefined): number {
+  return targetDurationSeconds && targetDurationSeconds > 180 ? SCRIPT_MAX_TOKENS * 2 : SCRIPT_MAX_TOKENS;
+}
+
+/** Post-check against the target runtime (trimming first when requested); no-op without a target. */
+function applyTargetDuration(
+  data: ScriptResultValidated,
+  { targetDurationSeconds, trimToTarget, language }: GenerateScriptBody
+): { data: ScriptResultValidated; durationCheck?: DurationCheck } {
+  if (!targetDurationSeconds) return { data };
+  const { scenes, durationCheck } = fitScriptToDuration(data.scenes, targetDurationSeconds, {
+    language,
+    trim: trimToTarget,
+  });
+  return { data: { ...data, scenes }, durationCheck };
+}
+
+/**
+ * Re-estimates scene durations and the runtime check after auto-correct rewrote scenes, without
+ * trimming again; no-op without a target.
+ */
+function recheckTargetDuration<T extends ScriptResultValidated>(
+  data: T,
+  durationCheck: DurationCheck | undefined,
+  language: GenerateScriptBody['language']
+): { data: T; durationCheck?: DurationCheck } {
+  if (!durationCheck) return { data };
+  const scenes = withEstimatedDurations(data.scenes, language);
+  return {
+    data: { ...data, scenes },
+    durationCheck: checkScriptDuration(scenes, durationCheck.targetSeconds, language, durationCheck.trimmed),
+  };
+}
+
+/** Maps scene citations to source sections and reports uncovered sections; no-op without a document. */
+function applySourceDocument(
+  data: ScriptResultValidated,
+  source: PreparedSource | undefined
+): { data: ScriptResultValidated; sourceDocument?: SourceDocumentSummary } {
+  if (!source) return { data };
+  const scenes = attachSourceRefs(data.scenes, source.sections, source.input.name);
+  return {
+    data: { ...data, scenes },
+    sourceDocument: summarizeSourceCoverage(source.input, source.sections, scenes),
+  };
+}
+
+/** Thrown for model output problems; message is safe to return to the client. */
+class ScriptFormatError extends Error {}
+
+function validateScript(value: unknown): ScriptResultValidated {
+  const scriptResult = scriptResultSchema.safeParse(value);
+  if (!scriptResult.success) {
+    console.error('[generate-script] Schema validation failed:', JSON.stringify(scriptResult.error.errors, null, 2));
+    console.error('[generate-script] Raw parsed data:', JSON.stringify(value, null, 2).slice(0, 1000));
+    throw new ScriptFormatError('Invalid script format');
+  }
+  return scriptResult.data;
+}
 
-  let data: z.infer<typeof scriptResultSchema>;
+function parseScriptJson(raw: string | null | undefined): ScriptResultValidated {
+  if (!raw) throw new ScriptFormatError('No script generated');
+  let parsedManual: unknown;
   try {
-    const completion = await withTimeout(
-      useStructuredOutputs
-        ? withRetry(() =>
-            openai.beta.chat.completions.parse({
-              model: OPENAI_SCRIPT_MODEL,
-              messages: [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: userContent },
-              ],
-              response_format: zodResponseFormat(scriptStructuredSchema, 'script'),
-              temperature: 0.6,
-              max_tokens: SCRIPT_MAX_TOKENS,
-            })
-          )
-        : withRetry(() =>
-            openai.chat.completions.create({
-              model: OPENAI_SCRIPT_MODEL,
-              messages: [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: userContent },
-              ],
-              response_format: { type: 'json_object' },
-              temperature: 0.6,
-              max_tokens: SCRIPT_MAX_TOKENS,
-            })
-          ),
-      OPENAI_REQUEST_TIMEOUT_MS,
-      'Script generation timed out'
-    );
+    parsedManual = JSON.parse(raw);
+  } catch {
+    throw new ScriptFormatError('Invalid script format from model');
+  }
+  return validateScript(parsedManual);
+}
 
-    if (useStructuredOutputs) {
-      const msg = (completion as { choices?: Array<{ message?: { parsed?: unknown; refusal?: string } }> })?.choices?.[0]?.message;
-      if (msg?.refusal) {
-        return NextResponse.json(
-          apiError(msg.refusal || 'Request was refused', { code: 'INTERNAL_ERROR' }),
-          { status: 500 }
-        );
-      }
-      const rawParsed = msg?.parsed;
-      if (!rawParsed) {
-        return NextResponse.json(
-          apiError('No script generated', { code: 'INTERNAL_ERROR' }),
-          { status: 500 }
-        );
-      }
-      const scriptResult = scriptResultSchema.safeParse(rawParsed);
-      if (!scriptResult.success) {
-        console.error('[generate-script] Schema validation failed:', JSON.stringify(scriptResult.error.errors, null, 2));
-        console.error('[generate-script] Raw parsed data:', JSON.stringify(rawParsed, null, 2).slice(0, 1000));
-        return NextResponse.json(
-          apiError('Invalid script format', { code: 'INTERNAL_ERROR' }),
-          { status: 500 }
-        );
-      }
-      data = scriptResult.data;
-    } else {
-      const raw = (completion as { choices?: Array<{ message?: { content?: string } }> })?.choices?.[0]?.message?.content;
-      if (!raw) {
-        return NextResponse.json(
-          apiError('No script generated', { code: 'INTERNAL_ERROR' }),
-          { status: 500 }
-        );
-      }
-      let parsedManual: unknown;
+function scriptMessages(systemPrompt: string, userContent: string): LLMMessage[] {
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userContent },
+  ];
+}
+
+/**
+ * Streamed completion: reports the title and each scene as soon as its JSON closes,
+ * then returns the fully validated script. Stops reading (which ends the model request)
+ * and throws once `signal` aborts.
+ */
+async function streamScriptCompletion(
+  systemPrompt: string,
+  userContent: string,
+  maxTokens: number,
+  send: (event: ScriptStreamEvent) => void,
+  signal: AbortSignal
+): Promise<ScriptResultValidated> {
+  const stream = await withRetry(() =>
+    getLLMProvider().stream({
+      task: 'script',
+      messages: scriptMessages(systemPrompt, userContent),
+      schema: { name: 'script', zod: scriptStructuredSchema },
+      temperature: 0.6,
+      maxTokens,
+    })
+  );
+
+  let raw = '';
+  let refusal = '';
+  let titleSent = false;
+  let scenesSent = 0;
+  for await (const chunk of stream) {
+    if (signal.aborted) break;
+    if (chunk.refusal) refusal += chunk.refusal;
+    if (!chunk.content) continue;
+    raw += chunk.content;
+
+    const partial = extractPartialScript(raw);
+    if (!titleSent && partial.title) {
+      titleSent = true;
+      send({ type: 'title', title: partial.title, visualStyle: partial.visualStyle });
+    }
+    for (; scenesSent < partial.scenes.length; scenesSent++) {
+      const scene = sceneSchema.safeParse(partial.scenes[scenesSent]);
+      if (scene.success) send({ type: 'scene', index: scenesSent, scene: scene.data });
+    }
+  }
+  signal.throwIfAborted();
+
+  if (refusal) throw new ScriptFormatError(refusal);
+  return parseScriptJson(raw);
+}
+
+function streamGenerateScript(
+  options: GenerateScriptBody,
+  userContent: string,
+  source: PreparedSource | undefined
+): NextResponse {
+  const { prompt, language, jurisdiction, siteState, autoCorrect, targetDurationSeconds } = options;
+  const topicText = getTopicText(prompt, source);
+  const encoder = new TextEncoder();
+  // Aborted when the client disconnects; nothing is sent after that and the model stream stops
+  const closed = new AbortController();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ScriptStreamEvent) => {
+        if (!closed.signal.aborted) controller.enqueue(encoder.encode(formatSseEvent(event)));
+      };
       try {
-        parsedManual = JSON.parse(raw);
-      } catch {
-        return NextResponse.json(
-          apiError('Invalid script format from model', { code: 'INTERNAL_ERROR' }),
-          { status: 500 }
+        const ehsPack = getActiveEHSPackVersion(jurisdiction);
+        const { systemPrompt, regulatorySources, retrievedSources } = await buildSystemPrompt(
+          topicText,
+          jurisdiction,
+          siteState
         );
-      }
-      const scriptResult = scriptResultSchema.safeParse(parsedManual);
-      if (!scriptResult.success) {
-        console.error('[generate-script] Schema validation failed:', JSON.stringify(scriptResult.error.errors, null, 2));
-        console.error('[generate-script] Raw manual parsed:', JSON.stringify(parsedManual, null, 2).slice(0, 1000));
-        return NextResponse.json(
-          apiError('Invalid script format', { code: 'INTERNAL_ERROR' }),
-          { status: 500 }
+        if (regulatorySources) send({ type: 'regulatorySources', regulatorySources });
+        if (retrievedSources) send({ type: 'retrievedSources', retrievedSources });
+
+        const generated = await withTimeout(
+          streamScriptCompletion(
+            systemPrompt,
+            userContent,
+            getMaxTokens(targetDurationSeconds),
+            send,
+            closed.signal
+          ),
+          OPENAI_REQUEST_TIMEOUT_MS,
+          'Script generation timed out'
         );
+        const sourced = applySourceDocument(generated, source);
+        const fitted = applyTargetDuration(sourced.data, options);
+        let data = { ...fitted.data, jurisdiction, siteState };
+        let durationCheck = fitted.durationCheck;
+        send({ type: 'script', script: data });
+
+        let unverifiedSignMentions = getUnverifiedSignMentionsForScript(data);
+        if (unverifiedSignMentions.length > 0) {
+          send({ type: 'unverifiedSignMentions', unverifiedSignMentions });
+        }
+
+        const topicMatches = matchTopicsForPrompt(topicText, { jurisdiction });
+        const topicIds = topicMatches.map((m) => m.topicId);
+        let ehsValidation = getEhsValidation(data, topicIds);
+        if (ehsValidation) send({ type: 'ehsValidation', ehsValidation });
+        let coverageReport = getCoverageReport(data, topicIds);
+        if (coverageReport) send({ type: 'coverageReport', coverageReport });
+
+        let factVerification = await getFactVerification(data, topicIds);
+        if (factVerification && factVerification.length > 0) {
+          send({ type: 'factVerification', factVerification });
+        }
+
+        const corrected = autoCorrect
+          ? await getAutoCorrection(data, factVerification, topicIds)
+          : undefined;
+        if (corrected) {
+          ({ factVerification } = corrected);
+          ({ data, durationCheck } = recheckTargetDuration(corrected.data, durationCheck, language));
+          send({
+            type: 'autoCorrections',
+            scenes: data.scenes,
+            factVerification,
+            autoCorrections: corrected.autoCorrections,
+          });
+          // Rewritten scenes need the sign, EHS and duration checks again; `done` carries the final results
+          unverifiedSignMentions = getUnverifiedSignMentionsForScript(data);
+          ehsValidation = getEhsValidation(data, topicIds);
+          coverageReport = getCoverageReport(data, topicIds);
+        }
+
+        send({
+          type: 'done',
+          result: buildScriptResponse(data, {
+            unverifiedSignMentions,
+            factVerification,
+            regulatorySources,
+            retrievedSources,
+            topicMatches,
+            ehsValidation,
+            coverageReport,
+            language,
+            autoCorrections: corrected?.autoCorrections,
+            durationCheck,
+            sourceDocument: sourced.sourceDocument,
+            ehsPack,
+          }),
+        });
+      } catch (e) {
+        if (closed.signal.aborted) return;
+        logError('generate-script', e);
+        send({
+          type: 'error',
+          error: e instanceof Error ? e.message : 'Script generation failed',
+          code: 'INTERNAL_ERROR',
+        });
+      } finally {
+        if (!closed.signal.aborted) controller.close();
       }
-      data = scriptResult.data;
+    },
+    cancel() {
+      closed.abort();
+    },
+  });
+  return new NextResponse(body, { headers: SSE_HEADERS });
+}
+
+async function handleGenerateScript(
+  request: Request,
+  _ctx: ApiHandlerContext
+): Promise<NextResponse> {
+  const body = await request.json();
+  const parseResult = generateScriptBodySchema.safeParse(body);
+  if (!parseResult.success) {
+    return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
+  }
+  const { prompt, stream, language, jurisdiction, siteState, autoCorrect, targetDurationSeconds, sourceDocument } =
+    parseResult.data;
+
+  let source: PreparedSource | undefined;
+  if (sourceDocument) {
+    let sections: SourceSection[];
+    try {
+      sections = await parseSourceDocument(sourceDocument);
+    } catch (e) {
+      const errMsg = e instanceof Error ? e.message : 'Could not read source document';
+      return NextResponse.json(apiError(errMsg, { code: 'BAD_REQUEST' }), { status: 400 });
     }
+    source = { input: sourceDocument, sections: await condenseSourceSections(sections) };
+  }
+
+  const userContent = buildUserContent(parseResult.data, source);
+  const maxTokens = getMaxTokens(targetDurationSeconds);
+
+  if (stream) return streamGenerateScript(parseResult.data, userContent, source);
+
+  const topicText = getTopicText(prompt, source);
+  const ehsPack = getActiveEHSPackVersion(jurisdiction);
+  const { systemPrompt, regulatorySources, retrievedSources } = await buildSystemPrompt(topicText, jurisdiction, siteState);
+
+  let data: ScriptResultValidated;
+  try {
+    const completion = await withTimeout(
+      withRetry(() =>
+        getLLMProvider().complete({
+          task: 'script',
+          messages: scriptMessages(systemPrompt, userContent),
+          schema: { name: 'script', zod: scriptStructuredSchema },
+          temperature: 0.6,
+          maxTokens,
+        })
+      ),
+      OPENAI_REQUEST_TIMEOUT_MS,
+      'Script generation timed out'
+    );
+    if (completion.refusal) throw new ScriptFormatError(completion.refusal);
+    // Structured outputs arrive parsed; otherwise parse the JSON text
+    data = completion.parsed !== undefined ? validateScript(completion.parsed) : parseScriptJson(completion.content);
   } catch (e) {
     const errMsg = e instanceof Error ? e.message : 'Script generation failed';
     return NextResponse.json(apiError(errMsg, { code: 'INTERNAL_ERROR' }), { status: 500 });
   }
-  const unverifiedSignMentions: { sceneIndex: number; mentions: string[] }[] = [];
-  data.scenes.forEach((scene, i) => {
-    const fromPrompt = getUnverifiedSignMentions(scene.imagePrompt);
-    const fromNarration = getUnverifiedSignMentions(scene.narration ?? '');
-    const mentions = [...new Set([...fromPrompt, ...fromNarration])];
-    if (mentions.length > 0) unverifiedSignMentions.push({ sceneIndex: i, mentions });
-  });
-
-  const topicIds = getTopicsForPrompt(prompt).map((t) => t.id);
-  const combinedContent = data.scenes
-    .map((s) => `${s.narration ?? ''} ${s.imagePrompt ?? ''}`)
-    .join(' ');
-  const ehsValidation = validateContentAgainstReference(combinedContent, {
-    topicIds: topicIds.length ? topicIds : undefined,
-  });
-
-  const hasEhsFlags =
-    ehsValidation.warnings.length > 0 ||
-    ehsValidation.mythsFlagged.length > 0 ||
-    ehsValidation.terminologySuggestions.length > 0 ||
-    ehsValidation.missingRecommendations.length > 0;
 
-  let factVerification: FactVerificationResult[] | undefined;
-  if (FACT_VERIFICATION_ENABLED && topicIds.length > 0) {
-    try {
-      factVerification = await verifyScriptFacts(data, topicIds);
-    } catch {
-      factVerification = undefined;
-    }
+  const sourced = applySourceDocument(data, source);
+  const fitted = applyTargetDuration(sourced.data, parseResult.data);
+  data = { ...fitted.data, jurisdiction, siteState };
+  let durationCheck = fitted.durationCheck;
+
+  const topicMatches = matchTopicsForPrompt(topicText, { jurisdiction });
+  const topicIds = topicMatches.map((m) => m.topicId);
+  let factVerification = await getFactVerification(data, topicIds);
+  const corrected = autoCorrect
+    ? await getAutoCorrection(data, factVerification, topicIds)
+    : undefined;
+  if (corrected) {
+    ({ factVerification } = corrected);
+    ({ data, durationCheck } = recheckTargetDuration(corrected.data, durationCheck, language));
   }
 
-  return NextResponse.json({
-    ...data,
-    ...(unverifiedSignMentions.length > 0 && { unverifiedSignMentions }),
-    ...(factVerification && factVerification.length > 0 && { factVerification }),
-    ...(regulatorySources && regulatorySources.length > 0 && { regulatorySources }),
-    ...(hasEhsFlags && {
-      ehsValidation: {
-        topicIds: ehsValidation.topicIds,
-        warnings: ehsValidation.warnings,
-        terminologySuggestions: ehsValidation.terminologySuggestions,
-        mythsFlagged: ehsValidation.mythsFlagged,
-        missingRecommendations: ehsValidation.missingRecommendations,
-      },
-    }),
-  });
+  const unverifiedSignMentions = getUnverifiedSignMentionsForScript(data);
+  const ehsValidation = getEhsValidation(data, topicIds);
+  const coverageReport = getCoverageReport(data, topicIds);
+
+  return NextResponse.json(
+    buildScriptResponse(data, {
+      unverifiedSignMentions,
+      factVerification,
+      regulatorySources,
+      retrievedSources,
+      topicMatches,
+      ehsValidation,
+      coverageReport,
+      language,
+      autoCorrections: corrected?.autoCorrections,
+      durationCheck,
+      sourceDocument: sourced.sourceDocument,
+      ehsPack,
+    })
+  );
 }
 
 export const POST = withApiHandler('generate-script', handleGenerateScript);
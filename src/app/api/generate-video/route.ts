@@ -18,9 +18,9 @@
 
 import { NextResponse } from 'next/server';
 import { apiError } from '@/lib/api-errors';
-import { refinePromptForProvider } from '@/lib/prompt-refinement';
 import { wrapProviderError } from '@/lib/provider-errors';
-import { getVideoProvider, isVideoProviderEnabled, getVideoProviderId } from '@/lib/providers/video-providers';
+import { isVideoProviderEnabled } from '@/lib/providers/video-providers';
+import { generateSceneVideo } from '@/lib/scene-assets';
 import { generateVideoBodySchema, formatValidationErrors } from '@/lib/schemas';
 import { withApiHandler } from '@/lib/with-api-handler';
 
@@ -40,31 +40,8 @@ async function handleGenerateVideo(request: Request): Promise<NextResponse> {
     return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
   }
 
-  const { prompt, styleGuide, narration, sceneIndex } = parseResult.data;
-  const providerId = getVideoProviderId();
-
-  // Two-stage refinement: Use OpenAI to optimize the prompt for the video model
-  // Video models need temporal descriptions (motion, camera, atmosphere) that image prompts lack
-  const { refinedPrompt, wasRefined } = await refinePromptForProvider({
-    basePrompt: prompt,
-    narration,
-    styleGuide,
-    providerId,
-  });
-
-  console.warn(`[generate-video] Scene ${sceneIndex ?? 0}: Provider: ${providerId}, Refined: ${wasRefined}`);
-
-  const provider = getVideoProvider();
-
   try {
-    const { videoBase64, durationSeconds } = await provider.generate({
-      prompt: refinedPrompt,
-      styleGuide,
-      narration,
-      // Pass flag indicating prompt was already refined (skip internal buildVideoPrompt)
-      wasRefined,
-    });
-
+    const { videoBase64, durationSeconds } = await generateSceneVideo(parseResult.data);
     return NextResponse.json({
       videoBase64,
       durationSeconds,
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { TTS_PROVIDER } from '@/lib/constants';
 import { getImageProviderId } from '@/lib/providers/image-providers';
+import { getLLMProvider, isLLMProviderConfigured } from '@/lib/providers/llm-providers';
 import { isVideoProviderEnabled, getVideoProviderId } from '@/lib/providers/video-providers';
 import { getRegulatoryApiStatus } from '@/lib/regulatory-api';
 
@@ -15,6 +16,8 @@ export async function GET() {
   const imageProvider = getImageProviderId();
   const ttsProvider = TTS_PROVIDER;
   const videoProvider = getVideoProviderId();
+  const llmProvider = getLLMProvider();
+  const llmConfigured = isLLMProviderConfigured();
 
   // Determine which providers need Replicate
   const imageNeedsReplicate = imageProvider === 'sdxl' || imageProvider === 'flux';
@@ -46,9 +49,9 @@ export async function GET() {
       backend: videoProvider === 'off' ? 'disabled' : 'replicate',
     },
     script: {
-      provider: 'gpt-4o-mini',
-      configured: openaiConfigured,
-      backend: 'openai',
+      provider: llmProvider.getModel('script'),
+      configured: llmConfigured,
+      backend: llmProvider.id,
     },
   };
 
@@ -62,13 +65,24 @@ export async function GET() {
     openaiConfigured,
     replicateConfigured: replicateOk,
     redisConfigured: redisConfigured || null,
-    regulatoryApi: regulatory.enabled ? { effectiveDate: regulatory.effectiveDate } : null,
+    regulatoryApi: regulatory.enabled
+      ? { effectiveDate: regulatory.effectiveDate, offline: regulatory.offline, store: regulatory.store }
+      : null,
     // Warnings for misconfiguration
     warnings: [
       ...(needsReplicate && !replicateConfigured
         ? [`REPLICATE_API_TOKEN required for ${imageProvider}/${ttsProvider}/${videoProvider}`]
         : []),
-      ...(!openaiConfigured ? ['OPENAI_API_KEY required for script generation'] : []),
+      ...(!llmConfigured
+        ? [
+            llmProvider.id === 'openai-compatible'
+              ? 'LLM_BASE_URL required for LLM_PROVIDER=openai-compatible'
+              : 'OPENAI_API_KEY required for script generation',
+          ]
+        : []),
+      ...(regulatory.enabled && regulatory.offline && regulatory.store.stale
+        ? [`Stored regulation text is ${regulatory.store.ageDays} days old; import a newer eCFR snapshot`]
+        : []),
     ].filter(Boolean),
   };
 
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DELETE, GET } from './route';
+
+vi.mock('@/lib/job-store', () => ({
+  isValidJobId: vi.fn((id: string) => id.startsWith('00000000')),
+  loadJob: vi.fn(() => null),
+  loadJobVideo: vi.fn(() => null),
+}));
+
+vi.mock('@/lib/video-jobs', () => ({
+  cancelVideoJob: vi.fn(() => null),
+  getVideoJobAssets: vi.fn(() => null),
+  pruneVideoJobs: vi.fn(),
+  resumeVideoJobs: vi.fn(),
+  retryVideoJob: vi.fn(() => null),
+  toJobStatusResponse: vi.fn((job) => job),
+}));
+
+const JOB_ID = '00000000-0000-4000-8000-000000000001';
+
+function context(id = JOB_ID) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe('/api/jobs/:id', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 404 JSON for unknown jobs', async () => {
+    const res = await GET(new Request(`http://test/api/jobs/${JOB_ID}`), context());
+    expect(res.status).toBe(404);
+    expect((await res.json()).code).toBe('NOT_FOUND');
+
+    const deleted = await DELETE(new Request(`http://test/api/jobs/${JOB_ID}`, { method: 'DELETE' }), context('bad'));
+    expect(deleted.status).toBe(404);
+  });
+
+  it('returns a JSON 500 when loading the job throws', async () => {
+    const { loadJob } = await import('@/lib/job-store');
+    vi.mocked(loadJob).mockImplementationOnce(() => {
+      throw new Error('EACCES');
+    });
+    const res = await GET(new Request(`http://test/api/jobs/${JOB_ID}`), context());
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({ error: 'EACCES', code: 'INTERNAL_ERROR' });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Status and output for a server-side video job.
+ *
+ * GET                 job status with per-scene progress
+ * GET ?format=mp4     final video (404 until the job completes)
+ * GET ?format=assets  generated SceneAssets, for regenerating single scenes client-side
+ * POST                retry a failed job, keeping scenes that already completed
+ * DELETE              cancel a queued or running job
+ */
+
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { isValidJobId, loadJob, loadJobVideo } from '@/lib/job-store';
+import {
+  cancelVideoJob,
+  getVideoJobAssets,
+  pruneVideoJobs,
+  resumeVideoJobs,
+  retryVideoJob,
+  toJobStatusResponse,
+} from '@/lib/video-jobs';
+import { withApiHandler } from '@/lib/with-api-handler';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound(message = 'Job not found'): NextResponse {
+  return NextResponse.json(apiError(message, { code: 'NOT_FOUND' }), { status: 404 });
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  return withApiHandler('jobs', async () => {
+    resumeVideoJobs();
+    pruneVideoJobs();
+
+    const job = isValidJobId(id) ? loadJob(id) : null;
+    if (!job) return notFound();
+
+    const format = new URL(request.url).searchParams.get('format');
+    if (format === 'mp4') {
+      const video = job.status === 'completed' ? loadJobVideo(id) : null;
+      if (!video) return notFound('Video not ready');
+      return new NextResponse(video, {
+        headers: {
+          'Content-Type': 'video/mp4',
+          'Content-Disposition': `attachment; filename="safety-video-${id}.mp4"`,
+        },
+      });
+    }
+    if (format === 'assets') {
+      const assets = getVideoJobAssets(id);
+      if (!assets) return notFound('Scene assets not ready');
+      return NextResponse.json({ assets });
+    }
+
+    return NextResponse.json(toJobStatusResponse(job));
+  })(request);
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  return withApiHandler('jobs', async () => {
+    const job = isValidJobId(id) ? retryVideoJob(id) : null;
+    if (!job) return notFound();
+    return NextResponse.json(toJobStatusResponse(job), { status: 202 });
+  })(request);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  return withApiHandler('jobs', async () => {
+    const job = isValidJobId(id) ? cancelVideoJob(id) : null;
+    if (!job) return notFound();
+    return NextResponse.json(toJobStatusResponse(job));
+  })(request);
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from './route';
+
+vi.mock('@/lib/video-jobs', () => ({
+  pruneVideoJobs: vi.fn(),
+  resumeVideoJobs: vi.fn(),
+  createVideoJob: vi.fn((script, options) => ({
+    id: '00000000-0000-4000-8000-000000000001',
+    status: 'queued',
+    phase: 'assets',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    script,
+    options,
+    useVideo: false,
+    scenes: script.scenes.map(() => ({ status: 'pending' })),
+  })),
+  toJobStatusResponse: vi.fn((job) => ({ ...job, completedScenes: 0 })),
+}));
+
+const validScript = {
+  title: 'Ladder Safety',
+  scenes: [{ narration: 'Inspect the ladder before use.', imagePrompt: 'Worker inspecting a ladder' }],
+};
+
+describe('POST /api/jobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 400 when script is missing', async () => {
+    const req = new Request('http://test/api/jobs', {
+      method: 'POST',
+      body: JSON.stringify({}),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(400);
+    const data = await res.json();
+    expect(data.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 400 for an invalid voice', async () => {
+    const req = new Request('http://test/api/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ script: validScript, options: { voice: 'not-a-voice' } }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 202 with a queued job and default options', async () => {
+    const { createVideoJob } = await import('@/lib/video-jobs');
+    const req = new Request('http://test/api/jobs', {
+      method: 'POST',
+      body: JSON.stringify({ script: validScript }),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const res = await POST(req);
+    expect(res.status).toBe(202);
+    const data = await res.json();
+    expect(data.status).toBe('queued');
+    expect(data.scenes).toHaveLength(1);
+    expect(createVideoJob).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Ladder Safety' }),
+      expect.objectContaining({ voice: 'onyx', captions: true, draft: false, highQuality: false }),
+      []
+    );
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Server-side video jobs: POST a validated script to start generation in the background.
+ *
+ * Returns 202 with the job; poll GET /api/jobs/:id for per-scene progress and fetch the
+ * final MP4 from the videoUrl it reports once completed. Jobs are persisted under
+ * JOBS_DIR and resume from the last completed scene after a server restart.
+ *
+ * The text of each regulation the script cites is hashed onto the job, so a later change to it
+ * can be reported (GET /api/regulations/changes).
+ */
+
+import { NextResponse } from 'next/server';
+import { recordRegulationBaselines } from '@/lib/regulation-changes';
+import { createVideoJobBodySchema, formatValidationErrors } from '@/lib/schemas';
+import { createVideoJob, pruneVideoJobs, resumeVideoJobs, toJobStatusResponse } from '@/lib/video-jobs';
+import { withApiHandler } from '@/lib/with-api-handler';
+
+const REGULATORY_API_ENABLED = process.env.REGULATORY_API_ENABLED !== 'false';
+
+async function handleCreateJob(request: Request): Promise<NextResponse> {
+  resumeVideoJobs();
+  pruneVideoJobs();
+
+  const body = await request.json();
+  const parseResult = createVideoJobBodySchema.safeParse(body);
+  if (!parseResult.success) {
+    return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
+  }
+  const { script, options } = parseResult.data;
+
+  const regulations = REGULATORY_API_ENABLED ? await recordRegulationBaselines(script) : [];
+  const job = createVideoJob(script, options, regulations);
+  return NextResponse.json(toJobStatusResponse(job), { status: 202 });
+}
+
+export const POST = withApiHandler('jobs', handleCreateJob);
@@ -0,0 +1,45 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET } from './route';
+
+function request(query = '', token?: string) {
+  return new Request(`http://test/api/regulations/changes${query}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('GET /api/regulations/changes', () => {
+  const origEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...origEnv,
+      JOBS_DIR: mkdtempSync(join(tmpdir(), 'jobs-')),
+      REGULATORY_CACHE_DIR: mkdtempSync(join(tmpdir(), 'regulations-')),
+      EHS_ADMIN_TOKEN: 'secret',
+    };
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
+  });
+
+  it('requires the admin token and a valid date', async () => {
+    expect((await GET(request())).status).toBe(401);
+    const res = await GET(request('?asOf=June', 'secret'));
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns an empty report when no video cites a regulation', async () => {
+    const data = await (await GET(request('?asOf=2026-06-01', 'secret'))).json();
+    expect(data).toMatchObject({ asOf: '2026-06-01', citationsChecked: 0, changes: [], affectedVideos: [] });
+  });
+
+  it('returns 503 when the regulatory API is disabled', async () => {
+    process.env.REGULATORY_API_ENABLED = 'false';
+    expect((await GET(request('', 'secret'))).status).toBe(503);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Regulation change report for generated videos (admin token).
+ *
+ * GET    compare the regulation text each video job's script cited with the text as of a newer
+ *        effective date (?asOf=YYYY-MM-DD, default ECFR_DATE or today); returns the changed
+ *        citations with a word-level diff and the affected videos
+ *
+ * Meant to be called on a schedule; see scripts/regulation-changes.mjs.
+ */
+
+import { NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin-auth';
+import { apiError } from '@/lib/api-errors';
+import { checkRegulationChanges } from '@/lib/regulation-changes';
+import { withApiHandler } from '@/lib/with-api-handler';
+
+async function handleCheckChanges(request: Request): Promise<NextResponse> {
+  const denied = checkAdminToken(request);
+  if (denied) return denied;
+
+  if (process.env.REGULATORY_API_ENABLED === 'false') {
+    return NextResponse.json(
+      apiError('Regulatory API is disabled; set REGULATORY_API_ENABLED to check for changes', {
+        code: 'SERVICE_UNAVAILABLE',
+      }),
+      { status: 503 }
+    );
+  }
+  const asOf = new URL(request.url).searchParams.get('asOf') ?? undefined;
+  if (asOf !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    return NextResponse.json(apiError('asOf must be YYYY-MM-DD', { code: 'VALIDATION_ERROR' }), {
+      status: 400,
+    });
+  }
+  return NextResponse.json(await checkRegulationChanges(asOf));
+}
+
+export const GET = withApiHandler('regulations-changes', handleCheckChanges);
@@ -0,0 +1,75 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GET, POST } from './route';
+
+const bundle = {
+  format: 1,
+  id: 'ecfr-2026-01-01-abc',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  source: 'eCFR.gov',
+  records: [
+    {
+      section: '1910.178',
+      snippet: { citation: '29 CFR 1910.178', text: 'Powered industrial trucks.', source: 'eCFR.gov', effectiveDate: '2026-01-01' },
+      fetchedAt: '2026-01-01T00:00:00.000Z',
+    },
+  ],
+};
+
+function request(method: string, body?: unknown, token?: string) {
+  return new Request('http://test/api/regulations/snapshot', {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+  });
+}
+
+describe('/api/regulations/snapshot', () => {
+  const origEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...origEnv,
+      REGULATORY_CACHE_DIR: mkdtempSync(join(tmpdir(), 'regulations-')),
+      EHS_ADMIN_TOKEN: 'secret',
+      ECFR_DATE: '2026-02-01',
+    };
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
+  });
+
+  it('requires the admin token', async () => {
+    expect((await GET(request('GET'))).status).toBe(401);
+    expect((await POST(request('POST', bundle, 'wrong'))).status).toBe(401);
+  });
+
+  it('rejects a malformed bundle', async () => {
+    const res = await POST(request('POST', { ...bundle, records: [{ section: '../etc' }] }, 'secret'));
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('imports a bundle and exports the stored records with their provenance', async () => {
+    const imported = await (await POST(request('POST', bundle, 'secret'))).json();
+    expect(imported.import).toMatchObject({ id: bundle.id, imported: 1, skipped: 0 });
+    expect(imported.status).toMatchObject({
+      records: 1,
+      origins: { fetched: 0, snapshot: 1 },
+      latestEffectiveDate: '2026-01-01',
+      ageDays: 31,
+      stale: false,
+      lastSnapshot: { id: bundle.id },
+    });
+
+    const exported = await (await GET(request('GET', undefined, 'secret'))).json();
+    expect(exported.snapshot.records).toEqual(bundle.records);
+    expect(exported.refresh).toBeUndefined();
+  });
+});
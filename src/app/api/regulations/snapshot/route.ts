@@ -0,0 +1,66 @@
+/**
+ * Regulation snapshot bundles for installs without network access (admin token).
+ *
+ * GET    export every stored regulation record as a bundle; ?refresh=1 first fetches every
+ *        section the eCFR jurisdictions' EHS packs cite (subparts and ranges expanded, state-plan
+ *        references included, with pending Federal Register rules) for the current effective date
+ * POST   import a bundle into the store; body is the bundle as exported
+ *
+ * Both return the store status (provenance and staleness); see scripts/regulations-snapshot.mjs.
+ */
+
+import { NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin-auth';
+import { JURISDICTIONS, type UsState } from '@/lib/constants';
+import { getAllEHSTopics, getCitationsForTopics } from '@/lib/ehs-reference';
+import { exportRegulationSnapshot, importRegulationSnapshot } from '@/lib/regulation-store';
+import { getRegulatoryApiStatus, refreshRegulationStore } from '@/lib/regulatory-api';
+import { STATE_PLAN_SOURCES } from '@/lib/regulatory-sources';
+import { formatValidationErrors, regulationSnapshotSchema } from '@/lib/schemas';
+import { withApiHandler } from '@/lib/with-api-handler';
+
+/**
+ * Regulatory references of every topic in the packs of jurisdictions covered by eCFR, with the
+ * references for each state with a state-plan source.
+ */
+function packCitations(): string[] {
+  const states = [undefined, ...(Object.keys(STATE_PLAN_SOURCES) as UsState[])];
+  const citations = JURISDICTIONS.filter((j) => j.ecfr).flatMap((j) =>
+    states.flatMap((state) =>
+      getCitationsForTopics(
+        getAllEHSTopics(j.value).map((t) => t.id),
+        j.value,
+        state
+      )
+    )
+  );
+  return [...new Set(citations)];
+}
+
+async function handleExportSnapshot(request: Request): Promise<NextResponse> {
+  const denied = checkAdminToken(request);
+  if (denied) return denied;
+
+  const refresh =
+    new URL(request.url).searchParams.get('refresh') === '1' ? await refreshRegulationStore(packCitations()) : undefined;
+  return NextResponse.json({
+    snapshot: exportRegulationSnapshot(),
+    ...(refresh && { refresh }),
+    status: getRegulatoryApiStatus().store,
+  });
+}
+
+async function handleImportSnapshot(request: Request): Promise<NextResponse> {
+  const denied = checkAdminToken(request);
+  if (denied) return denied;
+
+  const parseResult = regulationSnapshotSchema.safeParse(await request.json());
+  if (!parseResult.success) {
+    return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
+  }
+  const result = importRegulationSnapshot(parseResult.data);
+  return NextResponse.json({ import: result, status: getRegulatoryApiStatus().store });
+}
+
+export const GET = withApiHandler('regulations-snapshot', handleExportSnapshot);
+export const POST = withApiHandler('regulations-snapshot', handleImportSnapshot);
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { verifyScriptFacts } from '@/lib/fact-verification';
+import { POST } from './route';
+import type { ScriptRevisionResult } from '@/lib/types';
+
+const mockCreate = vi.fn();
+vi.mock('@/lib/openai-client', () => ({
+  openai: {
+    chat: { completions: { create: (...args: unknown[]) => mockCreate(...args) } },
+  },
+}));
+vi.mock('@/lib/fact-verification', () => ({
+  verifyScriptFacts: vi.fn().mockResolvedValue({ results: [], complete: true }),
+}));
+
+const script = {
+  title: 'Forklift Safety',
+  visualStyle: 'Flat illustration of Alex',
+  scenes: [
+    { narration: 'Always sound the horn at corners.', imagePrompt: 'Alex pressing horn' },
+    { narration: 'Check your blind spots.', imagePrompt: 'Alex looking left' },
+  ],
+  factVerification: [
+    {
+      claim: 'Sound the horn at corners.',
+      sceneIndex: 0,
+      type: 'procedure' as const,
+      status: 'verified' as const,
+      confidence: 0.9,
+    },
+  ],
+};
+
+function revise(body: unknown) {
+  return POST(
+    new Request('http://test/api/revise-script', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    })
+  );
+}
+
+function modelReturns(output: unknown) {
+  mockCreate.mockResolvedValue({ choices: [{ message: { content: JSON.stringify(output) } }] });
+}
+
+describe('POST /api/revise-script', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 400 without an instruction', async () => {
+    const res = await revise({ script, instruction: ' ' });
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 400 for scene indices outside the script', async () => {
+    const res = await revise({ script, instruction: 'Shorter', sceneIndices: [5] });
+    expect(res.status).toBe(400);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('returns the revised script with a diff and re-checks only changed scenes', async () => {
+    modelReturns({
+      title: 'Forklift Safety',
+      scenes: [
+        { sourceIndex: 0, ...script.scenes[0] },
+        { sourceIndex: 1, narration: 'Look both ways.', imagePrompt: 'Alex looking left' },
+        { sourceIndex: null, narration: 'Wear your seatbelt.', imagePrompt: 'Alex buckling up' },
+      ],
+    });
+    vi.mocked(verifyScriptFacts).mockResolvedValueOnce({
+      results: [{ claim: 'Wear your seatbelt.', sceneIndex: 1, type: 'procedure', status: 'verified', confidence: 0.8 }],
+      complete: true,
+    });
+
+    const res = await revise({ script, instruction: 'Add a scene about the seatbelt' });
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as ScriptRevisionResult;
+
+    expect(data.script.scenes).toHaveLength(3);
+    expect(data.diff.map((d) => d.status)).toEqual(['unchanged', 'modified', 'added']);
+    expect(data.changedSceneIndices).toEqual([1, 2]);
+
+    const checked = vi.mocked(verifyScriptFacts).mock.calls[0][0];
+    expect(checked.scenes.map((s) => s.narration)).toEqual(['Look both ways.', 'Wear your seatbelt.']);
+    expect(data.script.factVerification?.map((f) => [f.sceneIndex, f.claim])).toEqual([
+      [0, 'Sound the horn at corners.'],
+      [2, 'Wear your seatbelt.'],
+    ]);
+    // Coverage is scored over the whole revised script
+    const horn = data.script.coverageReport?.topics[0].items.find((i) => i.text.startsWith('Sound the horn'));
+    expect(horn).toMatchObject({ topicId: 'forklift', sceneIndices: [0] });
+  });
+
+  it('locates EHS findings in the revised scenes', async () => {
+    const withTerm = {
+      ...script,
+      scenes: [script.scenes[0], { narration: 'Do your pre-op check.', imagePrompt: 'Alex inspecting tires' }],
+      ehsValidation: {
+        topicIds: ['forklift'],
+        warnings: [],
+        terminologySuggestions: [{ found: 'pre-op check', prefer: 'pre-operation inspection' }],
+        mythsFlagged: [],
+        missingRecommendations: [],
+        sceneFindings: [
+          {
+            sceneIndex: 1,
+            field: 'narration' as const,
+            kind: 'terminology' as const,
+            start: 8,
+            end: 20,
+            text: 'pre-op check',
+            match: 'pre-op check',
+            replacement: 'pre-operation inspection',
+          },
+        ],
+      },
+    };
+    modelReturns({
+      title: 'Forklift Safety',
+      scenes: [
+        { sourceIndex: null, narration: 'Know your max weight.', imagePrompt: 'Load chart' },
+        { sourceIndex: 0, ...withTerm.scenes[0] },
+        { sourceIndex: 1, ...withTerm.scenes[1] },
+      ],
+    });
+
+    const res = await revise({ script: withTerm, instruction: 'Add a scene about load limits first' });
+    expect(res.status).toBe(200);
+    const { script: revised } = (await res.json()) as ScriptRevisionResult;
+    expect(revised.ehsValidation?.sceneFindings?.map((f) => [f.sceneIndex, f.text, f.replacement])).toEqual([
+      [0, 'max weight', 'rated capacity'],
+      [2, 'pre-op check', 'pre-operation inspection'],
+    ]);
+  });
+
+  it('reports recommendations that only a removed scene covered as missing', async () => {
+    const missing = ['pedestrian', 'inspection', 'speed', 'capacity'].map(
+      (m) => `[Forklift / powered industrial truck safety] Consider mentioning: ${m}`
+    );
+    const checked = {
+      ...script,
+      ehsValidation: {
+        topicIds: ['forklift'],
+        warnings: [],
+        terminologySuggestions: [],
+        mythsFlagged: [],
+        missingRecommendations: missing,
+      },
+    };
+    modelReturns({ title: 'Forklift Safety', scenes: [{ sourceIndex: 1, ...script.scenes[1] }] });
+
+    const res = await revise({ script: checked, instruction: 'Remove the first scene' });
+    const data = (await res.json()) as ScriptRevisionResult;
+    expect(data.changedSceneIndices).toEqual([]);
+    expect(data.script.ehsValidation?.missingRecommendations).toEqual([
+      '[Forklift / powered industrial truck safety] Consider mentioning: horn',
+      ...missing,
+    ]);
+  });
+
+  it('keeps scenes outside sceneIndices unchanged', async () => {
+    modelReturns({
+      title: 'Forklift Safety',
+      scenes: [
+        { sourceIndex: 0, narration: 'Honk.', imagePrompt: 'Alex pressing horn' },
+        { sourceIndex: 1, narration: 'Look both ways.', imagePrompt: 'Alex looking left' },
+      ],
+    });
+    const res = await revise({
+      script: { ...script, jurisdiction: 'us', siteState: 'CA' },
+      instruction: 'Make it shorter',
+      sceneIndices: [1],
+    });
+    const data = (await res.json()) as ScriptRevisionResult;
+    expect(data.script.scenes[0]).toEqual(script.scenes[0]);
+    expect(data.changedSceneIndices).toEqual([1]);
+    expect(data.script).toMatchObject({ jurisdiction: 'us', siteState: 'CA' });
+  });
+
+  it('returns 500 when the model output is not a script', async () => {
+    mockCreate.mockResolvedValue({ choices: [{ message: { content: 'not json' } }] });
+    const res = await revise({ script, instruction: 'Friendlier tone' });
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toBe('Invalid script format from model');
+  });
+});
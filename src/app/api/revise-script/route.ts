@@ -0,0 +1,161 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { OPENAI_REQUEST_TIMEOUT_MS, SCRIPT_MAX_TOKENS } from '@/lib/constants';
+import { withSceneFindings } from '@/lib/ehs-findings';
+import { getActiveEHSPackVersion } from '@/lib/ehs-packs';
+import { getTopicsForPrompt } from '@/lib/ehs-reference';
+import { getLLMProvider } from '@/lib/providers/llm-providers';
+import { withRetry } from '@/lib/retry';
+import {
+  formatValidationErrors,
+  reviseScriptBodySchema,
+  scriptResultSchema,
+} from '@/lib/schemas';
+import {
+  buildScriptResponse,
+  getCoverageReport,
+  getEhsValidation,
+  getFactVerification,
+  getUnverifiedSignMentionsForScript,
+} from '@/lib/script-checks';
+import {
+  REVISION_SYSTEM_PROMPT,
+  buildRevisionUserContent,
+  carryOverSceneResults,
+  diffScenes,
+  getChangedSceneIndices,
+  mergeEhsValidation,
+  resolveRevisedScenes,
+  revisionOutputSchema,
+} from '@/lib/script-revision';
+import { withTimeout } from '@/lib/timeout';
+import { withApiHandler, type ApiHandlerContext } from '@/lib/with-api-handler';
+import type { ScriptResult, ScriptRevisionResult } from '@/lib/types';
+
+function sceneText(scenes: ScriptResult['scenes']): string {
+  return scenes.map((s) => `${s.narration}\n${s.imagePrompt}`).join('\n');
+}
+
+async function handleReviseScript(
+  request: Request,
+  _ctx: ApiHandlerContext
+): Promise<NextResponse> {
+  const body = await request.json();
+  const parseResult = reviseScriptBodySchema.safeParse(body);
+  if (!parseResult.success) {
+    return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
+  }
+  const { script, instruction, sceneIndices } = parseResult.data;
+
+  let raw: string | null | undefined;
+  try {
+    const completion = await withTimeout(
+      withRetry(() =>
+        getLLMProvider().complete({
+          task: 'revision',
+          messages: [
+            { role: 'system', content: REVISION_SYSTEM_PROMPT },
+            { role: 'user', content: buildRevisionUserContent(script, instruction, sceneIndices) },
+          ],
+          json: true,
+          temperature: 0.4,
+          maxTokens: SCRIPT_MAX_TOKENS,
+        })
+      ),
+      OPENAI_REQUEST_TIMEOUT_MS,
+      'Script revision timed out'
+    );
+    raw = completion.content;
+  } catch (e) {
+    const errMsg = e instanceof Error ? e.message : 'Script revision failed';
+    return NextResponse.json(apiError(errMsg, { code: 'INTERNAL_ERROR' }), { status: 500 });
+  }
+
+  let output: unknown;
+  try {
+    output = raw ? JSON.parse(raw) : null;
+  } catch {
+    output = null;
+  }
+  const revision = revisionOutputSchema.safeParse(output);
+  if (!revision.success) {
+    console.error('[revise-script] Invalid revision output:', String(raw).slice(0, 1000));
+    return NextResponse.json(apiError('Invalid script format from model', { code: 'INTERNAL_ERROR' }), {
+      status: 500,
+    });
+  }
+
+  const revisedScenes = resolveRevisedScenes(script.scenes, revision.data.scenes, sceneIndices);
+  const revisedScript = scriptResultSchema.safeParse({
+    title: revision.data.title,
+    visualStyle: script.visualStyle,
+    scenes: revisedScenes.map(({ sourceIndex: _sourceIndex, ...scene }) => scene),
+    language: script.language,
+    jurisdiction: script.jurisdiction,
+    siteState: script.siteState,
+  });
+  if (!revisedScript.success) {
+    return NextResponse.json(
+      apiError(formatValidationErrors(revisedScript).error, { code: 'INTERNAL_ERROR' }),
+      { status: 500 }
+    );
+  }
+  const data = revisedScript.data;
+
+  const diff = diffScenes(script.scenes, revisedScenes);
+  const changedSceneIndices = getChangedSceneIndices(diff);
+  const changedScenes = changedSceneIndices.map((i) => data.scenes[i]);
+  const unchangedScenes = data.scenes.filter((_, i) => !changedSceneIndices.includes(i));
+  // Checks on the changed scenes report indices within that subset; map them back
+  const toRevisedIndex = <T extends { sceneIndex: number }>(results: T[] | undefined): T[] =>
+    (results ?? []).map((r) => ({ ...r, sceneIndex: changedSceneIndices[r.sceneIndex] }));
+
+  const topicIds =
+    script.ehsValidation?.topicIds ??
+    script.topicMatches?.map((m) => m.topicId) ??
+    getTopicsForPrompt(`${data.title} ${sceneText(data.scenes)}`, data.jurisdiction).map((t) => t.id);
+
+  const unverifiedSignMentions = [
+    ...carryOverSceneResults(script.unverifiedSignMentions, diff),
+    ...toRevisedIndex(getUnverifiedSignMentionsForScript({ ...data, scenes: changedScenes })),
+  ].sort((a, b) => a.sceneIndex - b.sceneIndex);
+
+  // Offsets into the revised scenes are located after merging, over the whole script
+  const ehsValidation = withSceneFindings(
+    mergeEhsValidation(
+      script.ehsValidation,
+      changedScenes.length > 0 ? getEhsValidation({ ...data, scenes: changedScenes }, topicIds) : undefined,
+      sceneText(unchangedScenes),
+      getEhsValidation(data, topicIds)?.missingRecommendations ?? []
+    ),
+    data.scenes
+  );
+
+  const freshFacts =
+    changedScenes.length > 0
+      ? await getFactVerification({ ...data, scenes: changedScenes }, topicIds)
+      : undefined;
+  const factVerification = [
+    ...carryOverSceneResults(script.factVerification, diff),
+    ...toRevisedIndex(freshFacts),
+  ].sort((a, b) => a.sceneIndex - b.sceneIndex);
+
+  const result: ScriptRevisionResult = {
+    script: buildScriptResponse(data, {
+      unverifiedSignMentions,
+      factVerification,
+      regulatorySources: script.regulatorySources,
+      retrievedSources: script.retrievedSources,
+      topicMatches: script.topicMatches,
+      ehsValidation,
+      coverageReport: getCoverageReport(data, topicIds),
+      language: data.language,
+      ehsPack: getActiveEHSPackVersion(data.jurisdiction),
+    }),
+    diff,
+    changedSceneIndices,
+  };
+  return NextResponse.json(result);
+}
+
+export const POST = withApiHandler('revise-script', handleReviseScript);
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { verifyScriptFacts } from '@/lib/fact-verification';
+import { openai } from '@/lib/openai-client';
+import { fetchRegulationsForCitations } from '@/lib/regulatory-api';
+import { clearVerificationCache } from '@/lib/script-verification';
+import { POST } from './route';
+import type { ScriptVerificationResult } from '@/lib/types';
+
+vi.mock('@/lib/openai-client', () => ({
+  openai: { chat: { completions: { create: vi.fn() } } },
+}));
+vi.mock('@/lib/fact-verification', () => ({
+  verifyScriptFacts: vi.fn().mockResolvedValue({ results: [], complete: true }),
+}));
+vi.mock('@/lib/regulatory-api', () => ({
+  fetchRegulationsForCitations: vi.fn().mockResolvedValue({ context: '', snippets: [] }),
+  fetchRegulationSection: vi.fn().mockResolvedValue(null),
+  getCfrUrl: vi.fn(() => 'https://www.ecfr.gov/'),
+  splitRegulationParagraphs: vi.fn(() => []),
+}));
+
+const script = {
+  title: 'Forklift Safety',
+  visualStyle: 'Flat illustration of Alex',
+  scenes: [
+    { narration: 'Always sound the horn at corners.', imagePrompt: 'Alex pressing horn' },
+    { narration: 'Check your blind spots.', imagePrompt: 'Alex looking left' },
+  ],
+  ehsValidation: {
+    topicIds: ['forklift'],
+    warnings: [],
+    terminologySuggestions: [],
+    mythsFlagged: [],
+    missingRecommendations: [],
+  },
+};
+
+function verify(body: unknown) {
+  return POST(
+    new Request('http://test/api/verify-script', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    })
+  );
+}
+
+describe('POST /api/verify-script', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(verifyScriptFacts).mockResolvedValue({ results: [], complete: true });
+    clearVerificationCache();
+  });
+
+  it('returns 400 for a script without scenes', async () => {
+    const res = await verify({ script: { title: 'Empty', scenes: [] } });
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('re-verifies only the scenes that changed since the last check', async () => {
+    vi.mocked(verifyScriptFacts).mockResolvedValueOnce({
+      results: [
+        { claim: 'Sound the horn at corners.', sceneIndex: 0, type: 'procedure', status: 'verified', confidence: 0.9 },
+        { claim: 'Check blind spots.', sceneIndex: 1, type: 'procedure', status: 'verified', confidence: 0.8 },
+      ],
+      complete: true,
+    });
+    const first = (await (await verify({ script })).json()) as ScriptVerificationResult;
+    expect(first.checkedSceneIndices).toEqual([0, 1]);
+    expect(first.cachedSceneIndices).toEqual([]);
+
+    vi.mocked(verifyScriptFacts).mockResolvedValueOnce({
+      results: [{ claim: 'Ride on the forks.', sceneIndex: 0, type: 'procedure', status: 'unverified', confidence: 0.9 }],
+      complete: true,
+    });
+    const edited = {
+      ...first.script,
+      scenes: [
+        script.scenes[0],
+        { narration: "It's fine to give your buddy a quick ride on the forks.", imagePrompt: 'Alex on the forks' },
+      ],
+    };
+    const res = await verify({ script: edited });
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as ScriptVerificationResult;
+
+    expect(vi.mocked(verifyScriptFacts).mock.calls[1][0].scenes).toEqual([edited.scenes[1]]);
+    expect(data.checkedSceneIndices).toEqual([1]);
+    expect(data.cachedSceneIndices).toEqual([0]);
+    expect(data.script.factVerification?.map((r) => [r.sceneIndex, r.claim])).toEqual([
+      [0, 'Sound the horn at corners.'],
+      [1, 'Ride on the forks.'],
+    ]);
+    // The cheap checks run on every scene of the edited script
+    expect(data.script.ehsValidation?.mythsFlagged).toEqual(['It is okay to give a coworker a ride on the forks.']);
+    expect(data.script.ehsValidation?.sceneFindings?.[0]).toMatchObject({ sceneIndex: 1, kind: 'myth' });
+    expect(data.script.coverageReport?.topics[0].topicId).toBe('forklift');
+    expect(data.script.ehsPack?.id).toBe('us-osha');
+  });
+
+  it('matches topics on the edited text instead of the earlier result', async () => {
+    const edited = {
+      ...script,
+      title: 'Ladder Safety',
+      scenes: [
+        { narration: 'Keep three points of contact on the ladder.', imagePrompt: 'Alex climbing a ladder' },
+        { narration: 'Never stand on the top rung of a stepladder.', imagePrompt: 'Alex on a stepladder' },
+      ],
+    };
+    const data = (await (await verify({ script: edited })).json()) as ScriptVerificationResult;
+    expect(data.script.ehsValidation?.topicIds).toEqual(['fall-protection']);
+    expect(data.script.topicMatches?.map((m) => m.topicId)).toEqual(['fall-protection']);
+  });
+
+  it('reuses results when only an image prompt changed, not when the language or site state did', async () => {
+    await verify({ script });
+    const reprompted = { ...script, scenes: [script.scenes[0], { ...script.scenes[1], imagePrompt: 'Alex checking mirrors' }] };
+    const cached = (await (await verify({ script: reprompted })).json()) as ScriptVerificationResult;
+    expect(cached.checkedSceneIndices).toEqual([]);
+
+    const spanish = (await (await verify({ script: { ...script, language: 'es' } })).json()) as ScriptVerificationResult;
+    expect(spanish.checkedSceneIndices).toEqual([0, 1]);
+
+    await verify({ script: { ...script, jurisdiction: 'us' } });
+    const californiaScript = { ...script, jurisdiction: 'us', siteState: 'CA' };
+    const california = (await (await verify({ script: californiaScript })).json()) as ScriptVerificationResult;
+    expect(california.checkedSceneIndices).toEqual([0, 1]);
+  });
+
+  it('does not cache scenes whose check failed', async () => {
+    vi.mocked(verifyScriptFacts).mockRejectedValueOnce(new Error('timeout'));
+    const failed = (await (await verify({ script })).json()) as ScriptVerificationResult;
+    expect(failed.checkedSceneIndices).toEqual([]);
+    expect(failed.script.factVerification).toBeUndefined();
+
+    const retried = (await (await verify({ script })).json()) as ScriptVerificationResult;
+    expect(retried.checkedSceneIndices).toEqual([0, 1]);
+    expect(verifyScriptFacts).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries scenes whose model check failed on the next call', async () => {
+    const actual = await vi.importActual<{ verifyScriptFacts: typeof verifyScriptFacts }>('@/lib/fact-verification');
+    vi.mocked(verifyScriptFacts).mockImplementation(actual.verifyScriptFacts);
+    vi.mocked(openai.chat.completions.create).mockRejectedValue(new Error('provider down'));
+    const failed = (await (await verify({ script })).json()) as ScriptVerificationResult;
+    expect(failed.checkedSceneIndices).toEqual([0, 1]);
+    expect(failed.script.factVerification ?? []).toEqual([]);
+
+    vi.mocked(openai.chat.completions.create).mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              claims: [{ claim: 'Sound the horn at corners.', sceneIndex: 0, type: 'procedure', status: 'verified', confidence: 0.9 }],
+            }),
+          },
+        },
+      ],
+    } as never);
+    const retried = (await (await verify({ script })).json()) as ScriptVerificationResult;
+    expect(retried.checkedSceneIndices).toEqual([0, 1]);
+    expect(retried.script.factVerification?.map((r) => r.claim)).toEqual(['Sound the horn at corners.']);
+
+    const cached = (await (await verify({ script })).json()) as ScriptVerificationResult;
+    expect(cached.cachedSceneIndices).toEqual([0, 1]);
+    expect(openai.chat.completions.create).toHaveBeenCalledTimes(4);
+  });
+
+  it('looks up live regulations for the script topics', async () => {
+    vi.mocked(fetchRegulationsForCitations).mockResolvedValueOnce({
+      context: '',
+      snippets: [{ citation: '29 CFR 1910.178', text: 'Powered industrial trucks.', source: 'eCFR', effectiveDate: '2026-01-01' }],
+    });
+    const data = (await (await verify({ script })).json()) as ScriptVerificationResult;
+    expect(fetchRegulationsForCitations).toHaveBeenCalledWith(
+      expect.arrayContaining([expect.stringContaining('1910.178')]),
+      { siteState: undefined }
+    );
+    expect(data.script.regulatorySources).toEqual(['29 CFR 1910.178 (2026-01-01)']);
+  });
+
+  it("adds the site state's plan to the lookup and leaves pending rules out of the sources", async () => {
+    vi.mocked(fetchRegulationsForCitations).mockResolvedValueOnce({
+      context: '',
+      snippets: [
+        { citation: '8 CCR 3668', text: 'Operator training.', source: 'dir.ca.gov', effectiveDate: '2026-01-01' },
+        {
+          citation: 'Federal Register, 29 CFR 1910',
+          text: 'Proposed Rule.',
+          source: 'FederalRegister.gov',
+          effectiveDate: '2026-01-01',
+          pending: true,
+        },
+      ],
+    });
+    const data = (await (await verify({ script: { ...script, siteState: 'CA' } })).json()) as ScriptVerificationResult;
+    expect(fetchRegulationsForCitations).toHaveBeenCalledWith(expect.arrayContaining(['OSHA 1910.178', '8 CCR 3668']), {
+      siteState: 'CA',
+    });
+    expect(data.script.regulatorySources).toEqual(['8 CCR 3668 (2026-01-01)']);
+  });
+});
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getActiveEHSPackVersion } from '@/lib/ehs-packs';
+import { matchTopicsForPrompt } from '@/lib/ehs-reference';
+import { formatValidationErrors, verifyScriptBodySchema } from '@/lib/schemas';
+import {
+  buildScriptResponse,
+  getCoverageReport,
+  getEhsValidation,
+  getUnverifiedSignMentionsForScript,
+} from '@/lib/script-checks';
+import { getCitationSources, verifyScriptFactsCached } from '@/lib/script-verification';
+import { withApiHandler, type ApiHandlerContext } from '@/lib/with-api-handler';
+import type { ScriptVerificationResult } from '@/lib/types';
+
+/**
+ * Re-runs the post-generation checks on a script as edited. Topics are matched again on the
+ * edited text, since an edit can change what the script is about. Fact verification only sends
+ * scenes that changed since they were last checked; the other checks are cheap and run on every scene.
+ */
+async function handleVerifyScript(
+  request: Request,
+  _ctx: ApiHandlerContext
+): Promise<NextResponse> {
+  const body = await request.json();
+  const parseResult = verifyScriptBodySchema.safeParse(body);
+  if (!parseResult.success) {
+    return NextResponse.json(formatValidationErrors(parseResult), { status: 400 });
+  }
+  const { script } = parseResult.data;
+  const {
+    unverifiedSignMentions: _unverifiedSignMentions,
+    ehsValidation: _ehsValidation,
+    factVerification: _factVerification,
+    regulatorySources: _regulatorySources,
+    retrievedSources: _retrievedSources,
+    topicMatches: _topicMatches,
+    ...data
+  } = script;
+
+  const topicMatches = matchTopicsForPrompt(
+    `${data.title} ${data.scenes.map((s) => `${s.narration ?? ''}\n${s.imagePrompt}`).join('\n')}`,
+    { jurisdiction: data.jurisdiction }
+  );
+  const topicIds = topicMatches.map((m) => m.topicId);
+
+  const [{ factVerification, checkedSceneIndices, cachedSceneIndices }, sources] = await Promise.all([
+    verifyScriptFactsCached(data, topicIds),
+    getCitationSources(data, topicIds),
+  ]);
+
+  const result: ScriptVerificationResult = {
+    script: buildScriptResponse(data, {
+      unverifiedSignMentions: getUnverifiedSignMentionsForScript(data),
+      factVerification,
+      ...sources,
+      topicMatches,
+      ehsValidation: getEhsValidation(data, topicIds),
+      coverageReport: getCoverageReport(data, topicIds),
+      language: data.language,
+      ehsPack: getActiveEHSPackVersion(data.jurisdiction),
+    }),
+    checkedSceneIndices,
+    cachedSceneIndices,
+  };
+  return NextResponse.json(result);
+}
+
+export const POST = withApiHandler('verify-script', handleVerifyScript);
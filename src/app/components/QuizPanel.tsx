@@ -0,0 +1,177 @@
+'use client';
+
+import { Button } from '@/app/components/shared/Button';
+import { Card } from '@/app/components/shared/Card';
+import { useVideoFlow } from '@/app/contexts/VideoFlowContext';
+import type { QuizQuestion } from '@/lib/types';
+
+const inputClass =
+  'w-full px-3 py-2 border border-[var(--card-border)] rounded-card bg-[var(--card)] text-[var(--foreground)] text-sm placeholder:text-[var(--muted)] focus:ring-2 focus:ring-primary focus:border-transparent';
+
+function downloadQuiz(title: string, questions: QuizQuestion[]) {
+  const blob = new Blob([JSON.stringify({ title, questions }, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${title.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'quiz'}-quiz.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function QuestionCard({
+  index,
+  question,
+  onChange,
+  onRemove,
+}: {
+  index: number;
+  question: QuizQuestion;
+  onChange: (changes: Partial<QuizQuestion>) => void;
+  onRemove: () => void;
+}) {
+  const questionId = `quiz-question-${index}`;
+
+  return (
+    <Card padding="md" as="li" role="listitem">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <label htmlFor={questionId} className="text-sm font-medium text-[var(--muted)]">
+          Q{index + 1} · {question.type === 'true_false' ? 'True/false' : 'Multiple choice'} · scene{' '}
+          {question.sceneIndex + 1}
+        </label>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="px-1.5 py-0.5 text-xs rounded text-[var(--muted)] hover:text-red-600 dark:hover:text-red-400 hover:bg-[var(--background)]"
+          aria-label={`Delete question ${index + 1}`}
+        >
+          Delete
+        </button>
+      </div>
+      <textarea
+        id={questionId}
+        className={`${inputClass} min-h-[3rem] resize-y`}
+        value={question.question}
+        onChange={(e) => onChange({ question: e.target.value })}
+        placeholder="Question"
+      />
+      {question.type === 'true_false' ? (
+        <label className="mt-2 flex items-center gap-2 text-sm text-[var(--foreground)]">
+          Answer
+          <select
+            value={question.correctAnswer}
+            onChange={(e) =>
+              onChange({
+                correctAnswer: e.target.value,
+                distractors: [e.target.value === 'True' ? 'False' : 'True'],
+              })
+            }
+            className="px-3 py-2 border border-[var(--card-border)] rounded-card bg-[var(--card)] text-[var(--foreground)] focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            <option value="True">True</option>
+            <option value="False">False</option>
+          </select>
+        </label>
+      ) : (
+        <div className="mt-2 space-y-2">
+          <input
+            type="text"
+            aria-label={`Correct answer for question ${index + 1}`}
+            className={`${inputClass} border-l-4 border-l-emerald-500`}
+            value={question.correctAnswer}
+            onChange={(e) => onChange({ correctAnswer: e.target.value })}
+            placeholder="Correct answer"
+          />
+          {question.distractors.map((d, i) => (
+            <input
+              key={`distractor-${i}`}
+              type="text"
+              aria-label={`Distractor ${i + 1} for question ${index + 1}`}
+              className={inputClass}
+              value={d}
+              onChange={(e) =>
+                onChange({
+                  distractors: question.distractors.map((x, j) => (j === i ? e.target.value : x)),
+                })
+              }
+              placeholder="Wrong answer"
+            />
+          ))}
+        </div>
+      )}
+      <textarea
+        aria-label={`Rationale for question ${index + 1}`}
+        className={`${inputClass} mt-2 min-h-[2.5rem] resize-y text-xs`}
+        value={question.rationale}
+        onChange={(e) => onChange({ rationale: e.target.value })}
+        placeholder="Why this answer is correct"
+      />
+      <p className="mt-2 text-xs text-[var(--muted)]">Reference: {question.reference}</p>
+    </Card>
+  );
+}
+
+export function QuizPanel() {
+  const {
+    script,
+    scriptStreamPhase,
+    quiz,
+    quizError,
+    isGeneratingQuiz,
+    handleGenerateQuiz,
+    updateQuizQuestion,
+    removeQuizQuestion,
+  } = useVideoFlow();
+
+  if (!script) return null;
+
+  return (
+    <section className="mt-8 space-y-4" aria-labelledby="quiz-heading">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 id="quiz-heading" className="text-lg font-display font-semibold text-[var(--foreground)]">
+            Knowledge check
+          </h2>
+          <p className="text-xs text-[var(--muted)]">
+            Questions drawn from the EHS reference facts this script covers.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {quiz && quiz.questions.length > 0 ? (
+            <Button variant="outline" size="sm" onClick={() => downloadQuiz(quiz.title, quiz.questions)}>
+              Download JSON
+            </Button>
+          ) : null}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleGenerateQuiz}
+            isLoading={isGeneratingQuiz}
+            disabled={scriptStreamPhase !== null}
+          >
+            {quiz ? 'Regenerate quiz' : 'Generate quiz'}
+          </Button>
+        </div>
+      </div>
+      {quizError ? (
+        <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+          {quizError}
+        </p>
+      ) : null}
+      {quiz ? (
+        <ol className="space-y-3 list-none pl-0" aria-label="Quiz questions">
+          {quiz.questions.map((q, i) => (
+            <QuestionCard
+              key={`quiz-${i}`}
+              index={i}
+              question={q}
+              onChange={(changes) => updateQuizQuestion(i, changes)}
+              onRemove={() => removeQuizQuestion(i)}
+            />
+          ))}
+        </ol>
+      ) : null}
+    </section>
+  );
+}
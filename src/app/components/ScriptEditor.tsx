@@ -5,7 +5,21 @@ import { Button } from '@/app/components/shared/Button';
 import { Card } from '@/app/components/shared/Card';
 import { useCostContext, estimateVideoCost } from '@/app/contexts/CostContext';
 import { useVideoFlow } from '@/app/contexts/VideoFlowContext';
-import type { Scene, EHSValidation, FactVerificationResult } from '@/lib/types';
+import { MAX_SCENES, getJurisdictionOption } from '@/lib/constants';
+import { coverageReportToCsv } from '@/lib/ehs-coverage';
+import { applyFindingReplacement, resolveFindingSpan } from '@/lib/ehs-findings';
+import { canAddScene, canRemoveScene } from '@/lib/scene-editing';
+import type {
+  ClaimCorrection,
+  Scene,
+  EHSCoverageReport,
+  EHSPackVersion,
+  EHSSceneFinding,
+  EHSValidation,
+  FactVerificationResult,
+  SourceDocumentSummary,
+  TopicMatch,
+} from '@/lib/types';
 
 function FactVerificationBanner({ results }: { results: FactVerificationResult[] }) {
   const [expanded, setExpanded] = useState(false);
@@ -64,7 +78,18 @@ function FactVerificationBanner({ results }: { results: FactVerificationResult[]
               >
                 ({r.status.replace('_', ' ')})
               </span>
-              {r.source ? <p className="mt-0.5 text-xs text-[var(--muted)]">Source: {r.source}</p> : null}
+              {r.source === 'rule' ? <p className="mt-0.5 text-xs text-[var(--muted)]">Rule check: {r.reasoning}</p> : r.source ? <p className="mt-0.5 text-xs text-[var(--muted)]">Source: {r.source}</p> : null}
+              {r.passage ? <blockquote className="mt-1 pl-2 border-l-2 border-[var(--card-border)] text-xs text-[var(--foreground)]">
+                  &ldquo;{r.passage.text}&rdquo;
+                  <footer className="mt-0.5 text-[var(--muted)]">
+                    {r.passage.origin === 'ehs-reference' ? 'EHS reference' : r.passage.origin === 'ecfr' ? 'eCFR' : 'Regulation text'}
+                    {r.passage.citation ? ' · ' : null}
+                    {r.passage.citation && r.passage.url ? <a href={r.passage.url} target="_blank" rel="noopener noreferrer" className="underline">
+                        {r.passage.citation}
+                      </a> : r.passage.citation}
+                    {r.passage.effectiveDate ? ` (as of ${r.passage.effectiveDate})` : null}
+                  </footer>
+                </blockquote> : null}
               {r.correction ? <p className="mt-0.5 text-xs text-red-600 dark:text-red-400">
                   Suggested: {r.correction}
                 </p> : null}
@@ -75,14 +100,180 @@ function FactVerificationBanner({ results }: { results: FactVerificationResult[]
   );
 }
 
-function EHSValidationBanner({ validation }: { validation: EHSValidation }) {
+function AutoCorrectionsBanner({ corrections }: { corrections: ClaimCorrection[] }) {
   const [expanded, setExpanded] = useState(false);
-  const { warnings, mythsFlagged, terminologySuggestions, missingRecommendations } = validation;
+  const unresolved = corrections.filter((c) => !c.resolved);
+
+  return (
+    <Card padding="sm" className="border-l-4 border-l-amber-500">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 w-full text-left font-medium text-[var(--foreground)] hover:text-primary transition-colors"
+        aria-expanded={expanded}
+      >
+        Auto-corrected claims
+        <span className="text-xs font-normal text-[var(--muted)]">
+          {corrections.length} rewritten
+          {unresolved.length > 0 && ` · ${unresolved.length} still unverified`}
+        </span>
+        <span
+          className={`ml-auto text-[var(--muted)] transform transition-transform duration-200 ${
+            expanded ? 'rotate-180' : ''
+          }`}
+        >
+          ▼
+        </span>
+      </button>
+      {expanded ? <ul className="mt-3 space-y-3 list-none pl-0 border-t border-[var(--card-border)] pt-3 text-sm">
+          {corrections.map((c, i) => (
+            <li key={`ac-${i}`} className="pl-3 border-l-2 border-amber-500">
+              <span className="font-medium text-[var(--foreground)]">
+                Scene {c.sceneIndex + 1} · round {c.round}:
+              </span>{' '}
+              <span className="italic">&quot;{c.claim}&quot;</span>
+              <span
+                className={`ml-1 text-xs ${
+                  c.resolved ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
+                }`}
+              >
+                ({c.resolved ? 'resolved' : 'still unverified'})
+              </span>
+              <p className="mt-0.5 text-xs text-[var(--muted)]">Correction: {c.correction}</p>
+              {c.reason ? <p className="mt-0.5 text-xs text-[var(--muted)]">Why: {c.reason}</p> : null}
+              <p className="mt-1 text-xs text-[var(--muted)] line-through">{c.narrationBefore}</p>
+              <p className="text-xs text-[var(--foreground)]">{c.narrationAfter}</p>
+            </li>
+          ))}
+        </ul> : null}
+    </Card>
+  );
+}
+
+function SourceCoverageBanner({ summary }: { summary: SourceDocumentSummary }) {
+  const uncovered = summary.sections.filter((s) => summary.uncoveredSectionIds.includes(s.id));
+
+  return (
+    <Card
+      padding="sm"
+      className="border-amber-500/50 bg-amber-500/5 dark:bg-amber-500/10"
+      role="status"
+    >
+      <span className="font-medium text-amber-800 dark:text-amber-200">
+        {uncovered.length} of {summary.sections.length} sections of {summary.name} are not referenced
+        by any scene (check for omitted steps):
+      </span>
+      <ul className="mt-1 list-disc list-inside text-sm text-amber-700 dark:text-amber-300">
+        {uncovered.map((s) => (
+          <li key={s.id}>
+            {s.id} · {s.heading}
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
+
+/** Why a topic was selected: each prompt phrase, with the keyword it matched when it's a synonym. */
+function formatMatchedTerms(match: TopicMatch): string {
+  return match.matchedTerms
+    .map((m) => (m.term === m.keyword.toLowerCase() ? `"${m.term}"` : `"${m.term}" (≈ ${m.keyword})`))
+    .join(', ');
+}
+
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function CoverageReportBanner({ report, title }: { report: EHSCoverageReport; title: string }) {
+  const [expanded, setExpanded] = useState(false);
+  const baseName = `${title.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'script'}-ehs-coverage`;
+
+  return (
+    <Card padding="sm" className="border-l-4 border-l-accent">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 w-full text-left font-medium text-[var(--foreground)] hover:text-primary transition-colors"
+        aria-expanded={expanded}
+      >
+        EHS coverage
+        <span className="text-xs font-normal text-[var(--muted)]">
+          {report.percent}% of reference facts, hazards and practices
+        </span>
+        <span
+          className={`ml-auto text-[var(--muted)] transform transition-transform duration-200 ${
+            expanded ? 'rotate-180' : ''
+          }`}
+        >
+          ▼
+        </span>
+      </button>
+      {expanded ? <div className="mt-3 space-y-2 text-sm text-[var(--muted)] border-t border-[var(--card-border)] pt-3">
+          <ul className="space-y-1 list-disc list-inside">
+            {report.topics.map((t) => (
+              <li key={t.topicId}>
+                {t.label}: {t.percent}% ({t.items.filter((i) => i.status === 'covered').length} of {t.items.length}{' '}
+                covered)
+              </li>
+            ))}
+          </ul>
+          {report.topMissing.length > 0 ? <>
+              <p className="font-medium text-[var(--foreground)]">Top missing</p>
+              <ul className="space-y-1 list-disc list-inside">
+                {report.topMissing.map((i) => (
+                  <li key={`${i.topicId}-${i.text}`}>
+                    [{i.severity}] {i.text}
+                  </li>
+                ))}
+              </ul>
+            </> : null}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                downloadFile(`${baseName}.json`, JSON.stringify(report, null, 2), 'application/json')
+              }
+            >
+              Download JSON
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadFile(`${baseName}.csv`, coverageReportToCsv(report), 'text/csv')}
+            >
+              Download CSV
+            </Button>
+          </div>
+        </div> : null}
+    </Card>
+  );
+}
+
+function EHSValidationBanner({
+  validation,
+  topicMatches,
+  pack,
+}: {
+  validation?: EHSValidation;
+  topicMatches?: TopicMatch[];
+  pack?: EHSPackVersion;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const { warnings, mythsFlagged, terminologySuggestions, missingRecommendations } = validation ?? {};
   const hasWarnings = (warnings?.length ?? 0) > 0;
   const hasTerminology = (terminologySuggestions?.length ?? 0) > 0;
   const hasMyths = (mythsFlagged?.length ?? 0) > 0;
   const hasMissing = (missingRecommendations?.length ?? 0) > 0;
-  if (!hasWarnings && !hasTerminology && !hasMyths && !hasMissing) return null;
+  const hasTopics = (topicMatches?.length ?? 0) > 0;
+  const findingScenes = [...new Set((validation?.sceneFindings ?? []).map((f) => f.sceneIndex + 1))];
+  if (!hasWarnings && !hasTerminology && !hasMyths && !hasMissing && !hasTopics) return null;
 
   return (
     <Card padding="sm" className="border-l-4 border-l-accent">
@@ -93,6 +284,10 @@ function EHSValidationBanner({ validation }: { validation: EHSValidation }) {
         aria-expanded={expanded}
       >
         EHS reference check
+        {pack ? <span className="text-xs font-normal text-[var(--muted)]">
+            {pack.id} v{pack.version}
+            {pack.overlay ? ` + site rules ${pack.overlay.id} v${pack.overlay.version}` : ''}
+          </span> : null}
         <span
           className={`ml-auto text-[var(--muted)] transform transition-transform duration-200 ${
             expanded ? 'rotate-180' : ''
@@ -102,8 +297,16 @@ function EHSValidationBanner({ validation }: { validation: EHSValidation }) {
         </span>
       </button>
       {expanded ? <ul className="mt-3 space-y-1 list-disc list-inside text-sm text-[var(--muted)] border-t border-[var(--card-border)] pt-3">
+          {hasTopics ? topicMatches!.map((m) => (
+              <li key={`t-${m.topicId}`}>
+                Topic: {m.label} ({Math.round(m.confidence * 100)}% match) — {formatMatchedTerms(m)}
+              </li>
+            )) : null}
           {hasWarnings ? warnings!.map((w, i) => <li key={`w-${i}`}>{w}</li>) : null}
           {hasMyths ? <li>Myths / avoid: {mythsFlagged!.join('; ')}</li> : null}
+          {findingScenes.length > 0 ? <li>
+              Highlighted in {findingScenes.length > 1 ? 'scenes' : 'scene'} {findingScenes.join(', ')} below.
+            </li> : null}
           {hasTerminology ? <li>
               Prefer:{' '}
               {terminologySuggestions!.map((s) => `"${s.prefer}" over "${s.found}"`).join('; ')}
@@ -114,17 +317,18 @@ function EHSValidationBanner({ validation }: { validation: EHSValidation }) {
   );
 }
 
-/** Stable key for scene list items. */
-function sceneKey(s: Scene, i: number): string {
-  return `scene-${i}-${s.narration.slice(0, 20)}`;
-}
-
 export function ScriptEditor() {
   const {
     script,
     scenesForVideo,
+    sceneKeys,
     getSceneNarration,
     updateSceneNarration,
+    updateSceneImagePrompt,
+    addScene,
+    removeScene,
+    moveScene,
+    duplicateScene,
     handleCreateVideo,
     step,
     draftMode,
@@ -133,6 +337,10 @@ export function ScriptEditor() {
     isCostBlocked,
     error,
     retryCreateVideo,
+    scriptStreamPhase,
+    checksOutOfDate,
+    isVerifyingScript,
+    handleVerifyScript,
   } = useVideoFlow();
   const { providerConfig } = useCostContext();
 
@@ -149,6 +357,10 @@ export function ScriptEditor() {
   if (!script) return null;
 
   const showCreateButton = step === 'script';
+  // Scene structure is only editable before the video exists; assets are matched by index
+  const canEditStructure = step === 'script' && scriptStreamPhase !== 'scenes';
+  const sceneCount = scenesForVideo.length;
+  const canAdd = canEditStructure && canAddScene(sceneCount);
   const costBlockedMessage = isCostBlocked
     ? 'Session cost limit reached. Start over to reset.'
     : undefined;
@@ -157,6 +369,19 @@ export function ScriptEditor() {
     <div ref={scriptResultRef as React.Ref<HTMLDivElement>} className="space-y-5" tabIndex={-1}>
       <h2 className="text-xl font-display font-semibold text-[var(--foreground)]">{script.title}</h2>
 
+      {checksOutOfDate ? <Card
+          padding="sm"
+          className="flex flex-wrap items-center justify-between gap-3 border-amber-500/50 bg-amber-500/5 dark:bg-amber-500/10"
+          role="status"
+        >
+          <span className="text-sm text-amber-800 dark:text-amber-200">
+            Scenes changed since the safety checks ran, so the results below may be out of date.
+          </span>
+          <Button variant="outline" size="sm" onClick={handleVerifyScript} disabled={isVerifyingScript}>
+            {isVerifyingScript ? 'Re-checking…' : 'Re-check script'}
+          </Button>
+        </Card> : null}
+
       {script.unverifiedSignMentions && script.unverifiedSignMentions.length > 0 ? <Card
           padding="sm"
           className="border-amber-500/50 bg-amber-500/5 dark:bg-amber-500/10"
@@ -168,22 +393,65 @@ export function ScriptEditor() {
           <ul className="mt-1 list-disc list-inside text-sm text-amber-700 dark:text-amber-300">
             {script.unverifiedSignMentions.map(({ sceneIndex, mentions }) => (
               <li key={sceneIndex}>
-                Scene {sceneIndex + 1}: {mentions.join(', ')} — use standard signs (EXIT, CAUTION,
-                DANGER, PPE, etc.) when possible.
+                Scene {sceneIndex + 1}: {mentions.join(', ')} — use standard{' '}
+                {getJurisdictionOption(script.jurisdiction).signStandard} signs (EXIT, CAUTION, DANGER, PPE,
+                etc.) when possible.
               </li>
             ))}
           </ul>
         </Card> : null}
 
-      {script.ehsValidation ? <EHSValidationBanner validation={script.ehsValidation} /> : null}
+      {script.durationCheck?.message ? <Card
+          padding="sm"
+          className="border-amber-500/50 bg-amber-500/5 dark:bg-amber-500/10"
+          role="status"
+        >
+          <span className="text-sm text-amber-800 dark:text-amber-200">
+            {script.durationCheck.message}
+            {script.durationCheck.trimmed && script.durationCheck.status !== 'ok'
+              ? ' Some sentences were already trimmed.'
+              : null}
+          </span>
+        </Card> : null}
+
+      {script.sourceDocument && script.sourceDocument.uncoveredSectionIds.length > 0 ? <SourceCoverageBanner summary={script.sourceDocument} /> : null}
+
+      {script.ehsValidation || script.topicMatches?.length ? <EHSValidationBanner
+          validation={script.ehsValidation}
+          topicMatches={script.topicMatches}
+          pack={script.ehsPack}
+        /> : null}
+      {script.coverageReport ? <CoverageReportBanner report={script.coverageReport} title={script.title} /> : null}
       {script.factVerification && script.factVerification.length > 0 ? <FactVerificationBanner results={script.factVerification} /> : null}
+      {script.autoCorrections && script.autoCorrections.length > 0 ? <AutoCorrectionsBanner corrections={script.autoCorrections} /> : null}
 
       {script.regulatorySources && script.regulatorySources.length > 0 ? <p className="text-xs text-[var(--muted)]" role="status">
           Live regulations used: {script.regulatorySources.join(', ')}
         </p> : null}
+      {script.retrievedSources && script.retrievedSources.length > 0 ? <p className="text-xs text-[var(--muted)]" role="status">
+          Regulation text used:{' '}
+          {script.retrievedSources.map((s, i) => (
+            <span key={s.citation}>
+              {i > 0 ? ', ' : null}
+              {s.url ? <a href={s.url} target="_blank" rel="noopener noreferrer" className="underline" title={s.title}>
+                  {s.citation}
+                </a> : <span title={s.title}>{s.citation}</span>}
+            </span>
+          ))}
+        </p> : null}
+
+      {scriptStreamPhase ? <p className="text-sm text-[var(--muted)] flex items-center gap-2" role="status" aria-live="polite">
+          <span
+            className="h-3 w-3 border-2 border-primary border-t-transparent rounded-full animate-spin"
+            aria-hidden
+          />
+          {scriptStreamPhase === 'checks'
+            ? 'Checking against the safety reference…'
+            : `Writing scenes… (${script.scenes.length} so far)`}
+        </p> : null}
 
       <p className="text-sm text-[var(--muted)]">
-        Edit narration below if you like, then create the video. Approx.{' '}
+        Edit, add, remove or reorder scenes below if you like, then create the video. Approx.{' '}
         <strong className="text-[var(--foreground)]">${estCost.toFixed(2)}</strong> per video.
         {providerConfig?.videoProvider === 'wan' && (
           <span className="block mt-1">Using AI video clips (Wan 2.1) for each scene.</span>
@@ -193,15 +461,41 @@ export function ScriptEditor() {
       <ul className="space-y-4" role="list" aria-label="Script scenes">
         {scenesForVideo.map((s, i) => (
           <SceneCard
-            key={sceneKey(s, i)}
+            key={sceneKeys[i]}
             index={i}
             scene={s}
             narration={getSceneNarration(i)}
+            findings={script.ehsValidation?.sceneFindings?.filter((f) => f.sceneIndex === i)}
             onNarrationChange={(v) => updateSceneNarration(i, v)}
+            onImagePromptChange={(v) => updateSceneImagePrompt(i, v)}
+            actions={
+              canEditStructure
+                ? {
+                    onMoveUp: i > 0 ? () => moveScene(i, i - 1) : undefined,
+                    onMoveDown: i < sceneCount - 1 ? () => moveScene(i, i + 1) : undefined,
+                    onDuplicate: canAdd ? () => duplicateScene(i) : undefined,
+                    onRemove: canRemoveScene(sceneCount) ? () => removeScene(i) : undefined,
+                  }
+                : undefined
+            }
           />
         ))}
       </ul>
 
+      {canEditStructure ? <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => addScene(sceneCount - 1)}
+            disabled={!canAdd}
+          >
+            Add scene
+          </Button>
+          <span className="text-xs text-[var(--muted)]">
+            {sceneCount} of {MAX_SCENES} scenes
+          </span>
+        </div> : null}
+
       {showCreateButton ? <div className="space-y-4 pt-2">
           {error ? <Card
               padding="md"
@@ -224,7 +518,7 @@ export function ScriptEditor() {
             </p> : null}
           <Button
             onClick={handleCreateVideo}
-            disabled={isCostBlocked}
+            disabled={isCostBlocked || scriptStreamPhase === 'scenes'}
             aria-label="Create video from script"
             fullWidth
             size="lg"
@@ -250,24 +544,102 @@ export function ScriptEditor() {
   );
 }
 
+interface SceneCardActions {
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  onDuplicate?: () => void;
+  onRemove?: () => void;
+}
+
+/** Characters of context shown either side of a highlighted finding. */
+const FINDING_CONTEXT_CHARS = 40;
+
+/**
+ * Flagged myths and avoided terms in one scene, highlighted in context; terminology findings
+ * get a one-click replacement. Findings whose text was edited away are not shown.
+ */
+function SceneFindings({
+  findings,
+  texts,
+  onReplace,
+}: {
+  findings: EHSSceneFinding[];
+  texts: Record<EHSSceneFinding['field'], string>;
+  onReplace: (field: EHSSceneFinding['field'], text: string) => void;
+}) {
+  const located = findings
+    .map((f) => ({ finding: f, span: resolveFindingSpan(texts[f.field], f) }))
+    .filter((l): l is { finding: EHSSceneFinding; span: { start: number; end: number } } => l.span !== null);
+  if (located.length === 0) return null;
+
+  return (
+    <ul className="mt-2 space-y-1 list-none pl-0 text-xs" aria-label="EHS reference findings">
+      {located.map(({ finding, span }) => {
+        const text = texts[finding.field];
+        const before = text.slice(Math.max(0, span.start - FINDING_CONTEXT_CHARS), span.start);
+        const after = text.slice(span.end, span.end + FINDING_CONTEXT_CHARS);
+        return (
+          <li
+            key={`${finding.field}-${finding.kind}-${finding.start}-${finding.match}`}
+            className="flex flex-wrap items-baseline gap-x-2 pl-2 border-l-2 border-amber-500"
+          >
+            <span className="font-medium text-amber-800 dark:text-amber-200">
+              {finding.kind === 'myth' ? 'Possible myth' : 'Terminology'}
+              {finding.field === 'imagePrompt' ? ' (image prompt)' : ''}:
+            </span>
+            <span className="text-[var(--muted)]">
+              {span.start > FINDING_CONTEXT_CHARS ? '…' : ''}
+              {before}
+              <mark className="bg-amber-200/70 dark:bg-amber-500/40 text-[var(--foreground)] rounded px-0.5">
+                {text.slice(span.start, span.end)}
+              </mark>
+              {after}
+              {span.end + FINDING_CONTEXT_CHARS < text.length ? '…' : ''}
+            </span>
+            {finding.replacement !== undefined ? <button
+                type="button"
+                onClick={() => onReplace(finding.field, applyFindingReplacement(text, finding))}
+                className="text-primary hover:underline"
+              >
+                Replace with “{finding.replacement}”
+              </button> : null}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
 function SceneCard({
   index,
   scene,
   narration,
+  findings,
   onNarrationChange,
+  onImagePromptChange,
+  actions,
 }: {
   index: number;
   scene: Scene;
   narration: string;
+  /** EHS findings recorded for this scene index. */
+  findings?: EHSSceneFinding[];
   onNarrationChange: (v: string) => void;
+  onImagePromptChange: (v: string) => void;
+  /** Structure controls; omitted when the scene list is locked. Missing handlers render disabled. */
+  actions?: SceneCardActions;
 }) {
-  const [showPrompt, setShowPrompt] = useState(false);
+  // New scenes start without a prompt, so open the field for them
+  const [showPrompt, setShowPrompt] = useState(!scene.imagePrompt);
   const textareaId = `scene-narration-${index}`;
   const labelId = `scene-label-${index}`;
+  const promptId = `image-prompt-${index}`;
+  const actionClass =
+    'px-1.5 py-0.5 text-xs rounded text-[var(--muted)] hover:text-primary hover:bg-[var(--background)] disabled:opacity-40 disabled:hover:text-[var(--muted)] disabled:cursor-not-allowed';
 
   return (
     <Card padding="md" as="li" role="listitem">
-      <div className="flex items-center justify-between mb-2">
+      <div className="flex items-center justify-between gap-2 mb-2">
         <label
           id={labelId}
           htmlFor={textareaId}
@@ -275,27 +647,74 @@ function SceneCard({
         >
           Scene {index + 1}
         </label>
-        <button
-          type="button"
-          onClick={() => setShowPrompt(!showPrompt)}
-          className="text-xs text-primary hover:underline"
-          aria-expanded={showPrompt}
-          aria-controls={`image-prompt-${index}`}
-        >
-          {showPrompt ? 'Hide image prompt' : 'Show image prompt'}
-        </button>
+        <div className="flex items-center gap-1">
+          {actions ? <>
+              <button
+                type="button"
+                onClick={actions.onMoveUp}
+                disabled={!actions.onMoveUp}
+                className={actionClass}
+                aria-label={`Move scene ${index + 1} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={actions.onMoveDown}
+                disabled={!actions.onMoveDown}
+                className={actionClass}
+                aria-label={`Move scene ${index + 1} down`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={actions.onDuplicate}
+                disabled={!actions.onDuplicate}
+                className={actionClass}
+                aria-label={`Duplicate scene ${index + 1}`}
+              >
+                Duplicate
+              </button>
+              <button
+                type="button"
+                onClick={actions.onRemove}
+                disabled={!actions.onRemove}
+                className={`${actionClass} hover:text-red-600 dark:hover:text-red-400`}
+                aria-label={`Delete scene ${index + 1}`}
+              >
+                Delete
+              </button>
+            </> : null}
+          <button
+            type="button"
+            onClick={() => setShowPrompt(!showPrompt)}
+            className="ml-1 text-xs text-primary hover:underline"
+            aria-expanded={showPrompt}
+            aria-controls={promptId}
+          >
+            {showPrompt ? 'Hide image prompt' : 'Edit image prompt'}
+          </button>
+        </div>
       </div>
-      {showPrompt ? <p
-          id={`image-prompt-${index}`}
-          className="text-xs text-[var(--muted)] italic mb-3 p-2 rounded bg-[var(--background)]"
-          title={scene.imagePrompt}
-        >
-          {scene.imagePrompt}
+      {scene.sourceRef ? <p className="-mt-1 mb-2 text-xs text-[var(--muted)]" title={scene.sourceRef.documentName}>
+          Source: {scene.sourceRef.sectionId} · {scene.sourceRef.heading}
         </p> : null}
+      {showPrompt ? <textarea
+          id={promptId}
+          aria-label={`Image prompt for scene ${index + 1}`}
+          className="w-full min-h-[3.5rem] mb-3 px-3 py-2 border border-[var(--card-border)] rounded-card
+            bg-[var(--background)] text-[var(--foreground)] text-xs italic
+            placeholder:text-[var(--muted)]
+            focus:ring-2 focus:ring-primary focus:border-transparent
+            resize-y"
+          value={scene.imagePrompt}
+          onChange={(e) => onImagePromptChange(e.target.value)}
+          placeholder="What the image for this scene should show"
+        /> : null}
       <textarea
         id={textareaId}
         aria-labelledby={labelId}
-        aria-describedby={showPrompt ? `image-prompt-${index}` : undefined}
         className="w-full min-h-[5rem] px-3 py-2 border border-[var(--card-border)] rounded-card
           bg-[var(--card)] text-[var(--foreground)]
           placeholder:text-[var(--muted)]
@@ -305,6 +724,11 @@ function SceneCard({
         onChange={(e) => onNarrationChange(e.target.value)}
         placeholder="Narration for this scene"
       />
+      {findings?.length ? <SceneFindings
+          findings={findings}
+          texts={{ narration, imagePrompt: scene.imagePrompt }}
+          onReplace={(field, text) => (field === 'narration' ? onNarrationChange(text) : onImagePromptChange(text))}
+        /> : null}
     </Card>
   );
 }
@@ -5,9 +5,23 @@ import { Button } from '@/app/components/shared/Button';
 import { Card } from '@/app/components/shared/Card';
 import { useCostContext } from '@/app/contexts/CostContext';
 import { useVideoFlow } from '@/app/contexts/VideoFlowContext';
-import { VOICES, AUDIENCES, TEMPLATES, VISUAL_STYLE_PRESETS, getRecommendedVoice } from '@/lib/constants';
-import { MAX_PROMPT_LENGTH } from '@/lib/constants';
-import type { VisualStylePreset } from '@/lib/constants';
+import {
+  VOICES,
+  AUDIENCES,
+  JURISDICTIONS,
+  LANGUAGES,
+  TARGET_DURATIONS,
+  TEMPLATES,
+  US_STATE_NAMES,
+  VISUAL_STYLE_PRESETS,
+  SOURCE_DOCUMENT_ACCEPT,
+  getJurisdictionOption,
+  getRecommendedVoice,
+  getSourceDocumentFormat,
+} from '@/lib/constants';
+import { MAX_PROMPT_LENGTH, MAX_SCENES, MAX_SOURCE_DOCUMENT_BYTES } from '@/lib/constants';
+import type { Jurisdiction, LanguageCode, UsState, VisualStylePreset } from '@/lib/constants';
+import type { SourceDocumentInput } from '@/lib/types';
 
 const TEMPLATE_ICONS: Record<string, string> = {
   'Forklift safety': '🚜',
@@ -16,6 +30,22 @@ const TEMPLATE_ICONS: Record<string, string> = {
   'Fire evacuation': '🚒',
 };
 
+/** Reads an uploaded SOP/JSA for the generate-script request; DOCX is sent as base64. */
+async function readSourceDocument(file: File): Promise<SourceDocumentInput> {
+  const format = getSourceDocumentFormat(file.name);
+  if (!format) throw new Error('Use a .txt, .md, .docx or .csv file');
+  if (file.size > MAX_SOURCE_DOCUMENT_BYTES) {
+    throw new Error(`File is too large (max ${MAX_SOURCE_DOCUMENT_BYTES / (1024 * 1024)} MB)`);
+  }
+  if (format !== 'docx') return { name: file.name, format, content: await file.text() };
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return { name: file.name, format, content: btoa(binary) };
+}
+
 export function ScriptForm() {
   const {
     prompt,
@@ -34,6 +64,22 @@ export function ScriptForm() {
     setVisualStylePreset,
     safetyKeywords,
     setSafetyKeywords,
+    language,
+    setLanguage,
+    jurisdiction,
+    setJurisdiction,
+    siteState,
+    setSiteState,
+    autoCorrect,
+    setAutoCorrect,
+    targetDurationSeconds,
+    setTargetDurationSeconds,
+    sceneCount,
+    setSceneCount,
+    trimToTarget,
+    setTrimToTarget,
+    sourceDocument,
+    setSourceDocument,
     handleGenerateScript,
     script,
     step,
@@ -42,12 +88,14 @@ export function ScriptForm() {
   const useVideo = providerConfig?.videoProvider === 'wan';
   const [optionsOpen, setOptionsOpen] = useState(false);
   const [promptTouched, setPromptTouched] = useState(false);
+  const [sourceError, setSourceError] = useState<string | null>(null);
 
   const isGenerating = step === 'script' && !script;
   const hasScript = !!script;
   const charCount = prompt.length;
   const nearLimit = charCount >= MAX_PROMPT_LENGTH * 0.9;
-  const promptIsEmpty = !prompt.trim();
+  // A source document can stand in for the prompt
+  const promptIsEmpty = !prompt.trim() && !sourceDocument;
   const showPromptError = promptTouched && promptIsEmpty;
 
   const handleGenerateClick = () => {
@@ -56,6 +104,17 @@ export function ScriptForm() {
     handleGenerateScript();
   };
 
+  const handleSourceFile = async (file: File | undefined) => {
+    if (!file) return;
+    setSourceError(null);
+    try {
+      setSourceDocument(await readSourceDocument(file));
+    } catch (e) {
+      setSourceDocument(null);
+      setSourceError(e instanceof Error ? e.message : 'Could not read the file');
+    }
+  };
+
   return (
     <div className="space-y-5">
       <div>
@@ -81,7 +140,7 @@ export function ScriptForm() {
           onBlur={() => setPromptTouched(true)}
         />
         {showPromptError ? <p id="prompt-error" className="mt-2 text-xs text-red-600 dark:text-red-400" role="alert">
-            Please enter a short description to generate a script.
+            Please enter a short description or attach a source document to generate a script.
           </p> : null}
         <div
           id="prompt-count"
@@ -93,6 +152,49 @@ export function ScriptForm() {
         </div>
       </div>
 
+      <div>
+        <label
+          htmlFor="source-document-input"
+          className="block text-sm font-medium text-[var(--foreground)] mb-2"
+        >
+          Generate from an SOP or JSA <span className="text-xs font-normal text-[var(--muted)]">(optional)</span>
+        </label>
+        {sourceDocument ? (
+          <div className="flex items-center justify-between gap-3 px-3 py-2 border border-[var(--card-border)] rounded-card bg-[var(--card)] text-sm">
+            <span className="truncate text-[var(--foreground)]">📄 {sourceDocument.name}</span>
+            <button
+              type="button"
+              onClick={() => setSourceDocument(null)}
+              className="shrink-0 text-xs text-primary hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        ) : (
+          <input
+            id="source-document-input"
+            type="file"
+            accept={SOURCE_DOCUMENT_ACCEPT}
+            aria-describedby="source-document-desc"
+            onChange={(e) => {
+              void handleSourceFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="block w-full text-sm text-[var(--muted)]
+              file:mr-3 file:px-3 file:py-2 file:rounded-card file:border-0
+              file:bg-[var(--card-border)] file:text-[var(--foreground)]
+              focus-visible:ring-2 focus-visible:ring-primary"
+          />
+        )}
+        <p id="source-document-desc" className="mt-1 text-xs text-[var(--muted)]">
+          Text, Markdown, DOCX or a CSV JSA table (step, hazard, control). The script follows the
+          document&apos;s steps in order and each scene links back to its section.
+        </p>
+        {sourceError ? <p className="mt-1 text-xs text-red-600 dark:text-red-400" role="alert">
+            {sourceError}
+          </p> : null}
+      </div>
+
       <div>
         <p className="text-sm font-medium text-[var(--foreground)] mb-3">
           Quick templates
@@ -197,6 +299,101 @@ export function ScriptForm() {
                   ))}
                 </select>
               </label>
+              <label className="flex flex-col gap-1.5 text-sm">
+                <span className="text-[var(--muted)]">Language</span>
+                <select
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value as LanguageCode)}
+                  className="px-3 py-2 border border-[var(--card-border)] rounded-card
+                    bg-[var(--card)] text-[var(--foreground)]
+                    focus:ring-2 focus:ring-primary focus:border-transparent"
+                >
+                  {LANGUAGES.map((l) => (
+                    <option key={l.value} value={l.value}>
+                      {l.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1.5 text-sm">
+                <span className="text-[var(--muted)]">Jurisdiction</span>
+                <select
+                  value={jurisdiction}
+                  onChange={(e) => setJurisdiction(e.target.value as Jurisdiction)}
+                  className="px-3 py-2 border border-[var(--card-border)] rounded-card
+                    bg-[var(--card)] text-[var(--foreground)]
+                    focus:ring-2 focus:ring-primary focus:border-transparent"
+                >
+                  {JURISDICTIONS.map((j) => (
+                    <option key={j.value} value={j.value}>
+                      {j.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {!!getJurisdictionOption(jurisdiction).ecfr && (
+                <label className="flex flex-col gap-1.5 text-sm">
+                  <span className="text-[var(--muted)]">Site state</span>
+                  <select
+                    value={siteState ?? ''}
+                    onChange={(e) => setSiteState((e.target.value || undefined) as UsState | undefined)}
+                    className="px-3 py-2 border border-[var(--card-border)] rounded-card
+                      bg-[var(--card)] text-[var(--foreground)]
+                      focus:ring-2 focus:ring-primary focus:border-transparent"
+                  >
+                    <option value="">Not specified</option>
+                    {Object.entries(US_STATE_NAMES).map(([code, name]) => (
+                      <option key={code} value={code}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex flex-col gap-1.5 text-sm">
+                <span className="text-[var(--muted)]">Target length</span>
+                <select
+                  value={targetDurationSeconds}
+                  onChange={(e) => setTargetDurationSeconds(Number(e.target.value))}
+                  className="px-3 py-2 border border-[var(--card-border)] rounded-card
+                    bg-[var(--card)] text-[var(--foreground)]
+                    focus:ring-2 focus:ring-primary focus:border-transparent"
+                >
+                  {TARGET_DURATIONS.map((d) => (
+                    <option key={d.value} value={d.value}>
+                      {d.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1.5 text-sm">
+                <span className="text-[var(--muted)]">Scenes</span>
+                <select
+                  value={sceneCount}
+                  onChange={(e) => setSceneCount(Number(e.target.value))}
+                  className="px-3 py-2 border border-[var(--card-border)] rounded-card
+                    bg-[var(--card)] text-[var(--foreground)]
+                    focus:ring-2 focus:ring-primary focus:border-transparent"
+                >
+                  <option value={0}>Auto</option>
+                  {Array.from({ length: MAX_SCENES }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {targetDurationSeconds > 0 && (
+                <label className="flex items-center gap-2 text-sm text-[var(--foreground)] sm:col-span-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={trimToTarget}
+                    onChange={(e) => setTrimToTarget(e.target.checked)}
+                    className="rounded border-[var(--card-border)] text-primary focus:ring-primary"
+                  />
+                  Trim narration that runs over the target length (otherwise just warn)
+                </label>
+              )}
               <label className="flex flex-col gap-1.5 text-sm sm:col-span-2">
                 <span className="text-[var(--muted)]">
                   Voice
@@ -246,6 +443,12 @@ export function ScriptForm() {
                     ))}
                   </optgroup>
                 </select>
+                {language !== 'en' && (
+                  <span className="text-xs text-[var(--muted)]">
+                    Narration uses a native {LANGUAGES.find((l) => l.value === language)?.promptName} voice
+                    of the same gender where the TTS provider has one
+                  </span>
+                )}
               </label>
               <label className="flex items-center gap-2 text-sm text-[var(--foreground)] sm:col-span-2 cursor-pointer">
                 <input
@@ -254,7 +457,7 @@ export function ScriptForm() {
                   onChange={(e) => setDraftMode(e.target.checked)}
                   className="rounded border-[var(--card-border)] text-primary focus:ring-primary"
                 />
-                Draft mode (lower cost, 3 scenes)
+                Draft mode (lower cost, 3 scenes unless a scene count or target length is set)
               </label>
               {!useVideo && (
                 <label className="flex items-center gap-2 text-sm text-[var(--foreground)] sm:col-span-2 cursor-pointer">
@@ -278,6 +481,17 @@ export function ScriptForm() {
                   <strong>Closed captions</strong> (burn narration into the video)
                 </span>
               </label>
+              <label className="flex items-center gap-2 text-sm text-[var(--foreground)] sm:col-span-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={autoCorrect}
+                  onChange={(e) => setAutoCorrect(e.target.checked)}
+                  className="rounded border-[var(--card-border)] text-primary focus:ring-primary"
+                />
+                <span>
+                  <strong>Auto-correct unverified claims</strong> (rewrites flagged scenes; changes are listed for review)
+                </span>
+              </label>
             </div>
           </Card> : null}
       </div>
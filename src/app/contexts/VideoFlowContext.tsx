@@ -11,11 +11,21 @@ import {
 } from 'react';
 import { useCostContext } from '@/app/contexts/CostContext';
 import { useHealthCheck } from '@/app/hooks/useHealthCheck';
-import { useScriptGeneration } from '@/app/hooks/useScriptGeneration';
+import { useQuizGeneration } from '@/app/hooks/useQuizGeneration';
+import { useScriptGeneration, type ScriptStreamPhase } from '@/app/hooks/useScriptGeneration';
 import { useVideoGeneration } from '@/app/hooks/useVideoGeneration';
+import { DEFAULT_JURISDICTION } from '@/lib/constants';
+import { getScriptEditError } from '@/lib/scene-editing';
 import type { VideoProgress } from '@/app/hooks/useVideoGeneration';
-import type { VisualStylePreset } from '@/lib/constants';
-import type { ScriptResult, Scene, SceneAssets } from '@/lib/types';
+import type { Jurisdiction, LanguageCode, UsState, VisualStylePreset } from '@/lib/constants';
+import type {
+  QuizQuestion,
+  QuizResult,
+  ScriptResult,
+  Scene,
+  SceneAssets,
+  SourceDocumentInput,
+} from '@/lib/types';
 
 export type Step = 'idle' | 'script' | 'generating' | 'video';
 
@@ -41,16 +51,55 @@ interface VideoFlowContextValue {
   setVisualStylePreset: (v: VisualStylePreset) => void;
   safetyKeywords: string;
   setSafetyKeywords: (v: string) => void;
+  language: LanguageCode;
+  setLanguage: (v: LanguageCode) => void;
+  jurisdiction: Jurisdiction;
+  setJurisdiction: (v: Jurisdiction) => void;
+  /** US state of the site; a state-plan state adds its regulations. */
+  siteState: UsState | undefined;
+  setSiteState: (v: UsState | undefined) => void;
+  autoCorrect: boolean;
+  setAutoCorrect: (v: boolean) => void;
+  /** Target narration runtime in seconds; 0 uses the default scene range. */
+  targetDurationSeconds: number;
+  setTargetDurationSeconds: (v: number) => void;
+  /** Exact scene count; 0 lets draft mode or the target decide. */
+  sceneCount: number;
+  setSceneCount: (v: number) => void;
+  trimToTarget: boolean;
+  setTrimToTarget: (v: boolean) => void;
+  /** Uploaded SOP/JSA to generate from; null for prompt-only scripts. */
+  sourceDocument: SourceDocumentInput | null;
+  setSourceDocument: (v: SourceDocumentInput | null) => void;
 
   // Script
   script: ScriptResult | null;
   scenesForVideo: Scene[];
+  /** Stable React keys for scenesForVideo that follow scenes through reorders. */
+  sceneKeys: string[];
+  /** Set while the script stream is still delivering scenes or check results. */
+  scriptStreamPhase: ScriptStreamPhase | null;
+  /** The scenes were edited since the sign, EHS and fact checks last ran. */
+  checksOutOfDate: boolean;
+  isVerifyingScript: boolean;
   error: string | null;
   clearError: () => void;
   scriptResultRef: React.RefObject<HTMLDivElement | null>;
   updateSceneNarration: (index: number, narration: string) => void;
   getSceneNarration: (index: number) => string;
   flushNarrationUpdates: () => void;
+  updateSceneImagePrompt: (index: number, imagePrompt: string) => void;
+  addScene: (afterIndex: number) => void;
+  removeScene: (index: number) => void;
+  moveScene: (from: number, to: number) => void;
+  duplicateScene: (index: number) => void;
+
+  // Quiz
+  quiz: QuizResult | null;
+  quizError: string | null;
+  isGeneratingQuiz: boolean;
+  updateQuizQuestion: (index: number, changes: Partial<QuizQuestion>) => void;
+  removeQuizQuestion: (index: number) => void;
 
   // Video
   progress: VideoProgress;
@@ -62,6 +111,8 @@ interface VideoFlowContextValue {
   // Actions
   handleGenerateScript: () => Promise<void>;
   handleCreateVideo: () => Promise<void>;
+  handleGenerateQuiz: () => Promise<void>;
+  handleVerifyScript: () => Promise<void>;
   handleRegenerateScene: (index: number) => void | Promise<void>;
   handleStartOver: () => void;
   cancelVideoGeneration: () => void;
@@ -88,20 +139,39 @@ export function VideoFlowProvider({ children }: { children: ReactNode }) {
   const [captions, setCaptions] = useState(true);
   const [visualStylePreset, setVisualStylePreset] = useState<VisualStylePreset>('illustration');
   const [safetyKeywords, setSafetyKeywords] = useState('');
+  const [language, setLanguage] = useState<LanguageCode>('en');
+  const [jurisdiction, setJurisdiction] = useState<Jurisdiction>(DEFAULT_JURISDICTION);
+  const [siteState, setSiteState] = useState<UsState | undefined>(undefined);
+  const [autoCorrect, setAutoCorrect] = useState(false);
+  const [targetDurationSeconds, setTargetDurationSeconds] = useState(0);
+  const [sceneCount, setSceneCount] = useState(0);
+  const [trimToTarget, setTrimToTarget] = useState(false);
+  const [sourceDocument, setSourceDocument] = useState<SourceDocumentInput | null>(null);
   const [showRetry, setShowRetry] = useState(false);
   const createVideoRef = useRef<(() => Promise<void>) | null>(null);
+  const resumeCheckedRef = useRef(false);
 
   const openaiConfigured = useHealthCheck();
   const { totalCost, reset: resetCost, isWarned: isCostWarned, isBlocked: isCostBlocked } = useCostContext();
   const {
     script,
     scenesForVideo,
+    sceneKeys,
     getSceneNarration,
     error,
     setError,
+    scriptStreamPhase,
     scriptResultRef,
     generateScript,
+    verifyScript,
+    isVerifyingScript,
+    checksOutOfDate,
     updateSceneNarration,
+    updateSceneImagePrompt,
+    addScene,
+    removeScene,
+    moveScene,
+    duplicateScene,
     flushNarrationUpdates,
     setScript,
     setEditedScenes,
@@ -114,35 +184,101 @@ export function VideoFlowProvider({ children }: { children: ReactNode }) {
     setAssets,
     videoResultRef,
     createVideo,
+    resumeVideoJob,
     regenerateScene,
     cancelVideoGeneration,
     regeneratingSceneIndex,
     cancelRegenerateScene,
   } = useVideoGeneration();
+  const {
+    quiz,
+    quizError,
+    isGeneratingQuiz,
+    generateQuiz,
+    updateQuizQuestion,
+    removeQuizQuestion,
+    clearQuiz,
+  } = useQuizGeneration();
 
   const handleGenerateScript = useCallback(async () => {
     setStep('script');
-    const ok = await generateScript({ prompt, draft: draftMode, audience, visualStylePreset, safetyKeywords });
+    clearQuiz();
+    const ok = await generateScript({
+      prompt,
+      draft: draftMode,
+      audience,
+      visualStylePreset,
+      safetyKeywords,
+      language,
+      jurisdiction,
+      siteState,
+      autoCorrect,
+      targetDurationSeconds,
+      sceneCount,
+      trimToTarget,
+      sourceDocument,
+    });
     if (!ok) setStep('idle');
-  }, [prompt, draftMode, audience, visualStylePreset, safetyKeywords, generateScript]);
+  }, [
+    prompt,
+    draftMode,
+    audience,
+    visualStylePreset,
+    safetyKeywords,
+    language,
+    jurisdiction,
+    siteState,
+    autoCorrect,
+    targetDurationSeconds,
+    sceneCount,
+    trimToTarget,
+    sourceDocument,
+    generateScript,
+    clearQuiz,
+  ]);
+
+  /** Quiz on the script as edited, including narration changes not yet applied. */
+  const handleGenerateQuiz = useCallback(async () => {
+    if (!script || scenesForVideo.length === 0) return;
+    flushNarrationUpdates();
+    await generateQuiz({
+      ...script,
+      scenes: scenesForVideo.map((s, i) => ({ ...s, narration: getSceneNarration(i) || s.narration })),
+    });
+  }, [script, scenesForVideo, getSceneNarration, flushNarrationUpdates, generateQuiz]);
+
+  /** Re-runs the script checks on the scenes as edited, including narration not yet applied. */
+  const handleVerifyScript = useCallback(async () => {
+    if (!script || scenesForVideo.length === 0) return;
+    flushNarrationUpdates();
+    await verifyScript(scenesForVideo.map((s, i) => ({ ...s, narration: getSceneNarration(i) })));
+  }, [script, scenesForVideo, getSceneNarration, flushNarrationUpdates, verifyScript]);
 
   const handleCreateVideo = useCallback(async () => {
     if (!script?.scenes?.length || scenesForVideo.length === 0) return;
     flushNarrationUpdates();
-    setError(null);
-    setVideoBlobUrl(null);
-    setAssets(null);
-    setStep('generating');
     const scenesToUse = scenesForVideo.map((s, i) => ({
       ...s,
       narration: getSceneNarration(i) || s.narration,
     }));
-    const result = await createVideo(scenesToUse, script.title, script.visualStyle, {
+    const editedScript = { ...script, scenes: scenesToUse };
+    const editError = getScriptEditError(editedScript);
+    if (editError) {
+      setError(editError);
+      setShowRetry(false);
+      return;
+    }
+    setError(null);
+    setVideoBlobUrl(null);
+    setAssets(null);
+    setStep('generating');
+    const result = await createVideo(editedScript, {
       highQuality: highQualityImages,
       voice,
       draft: draftMode,
       captions,
       safetyKeywords: safetyKeywords || undefined,
+      language: script.language,
     });
     if (result.ok) {
       setStep('video');
@@ -172,6 +308,32 @@ export function VideoFlowProvider({ children }: { children: ReactNode }) {
     createVideoRef.current = handleCreateVideo as () => Promise<void>;
   }, [handleCreateVideo]);
 
+  // Video jobs run server-side; after a reload, reattach to one that is still in progress
+  useEffect(() => {
+    if (resumeCheckedRef.current) return;
+    resumeCheckedRef.current = true;
+    resumeVideoJob().then(async (resumed) => {
+      if (!resumed) return;
+      setScript(resumed.script);
+      setVoice(resumed.options.voice);
+      setDraftMode(resumed.options.draft);
+      setHighQualityImages(resumed.options.highQuality);
+      setCaptions(resumed.options.captions);
+      setSafetyKeywords(resumed.options.safetyKeywords ?? '');
+      setLanguage(resumed.script.language ?? 'en');
+      setJurisdiction(resumed.script.jurisdiction ?? DEFAULT_JURISDICTION);
+      setSiteState(resumed.script.siteState);
+      setStep('generating');
+      const result = await resumed.result;
+      if (result.ok) {
+        setStep('video');
+      } else {
+        setError(result.message);
+        setStep('script');
+      }
+    });
+  }, [resumeVideoJob, setScript, setError]);
+
   const handleRegenerateScene = useCallback(
     async (index: number) => {
       if (!script || !assets) return;
@@ -184,7 +346,14 @@ export function VideoFlowProvider({ children }: { children: ReactNode }) {
         assets,
         script.title,
         script.visualStyle,
-        { highQuality: highQualityImages, voice, draft: draftMode, captions, safetyKeywords: safetyKeywords || undefined },
+        {
+          highQuality: highQualityImages,
+          voice,
+          draft: draftMode,
+          captions,
+          safetyKeywords: safetyKeywords || undefined,
+          language: script.language,
+        },
         videoBlobUrl
       );
       if (!result.ok) setError(result.message);
@@ -210,10 +379,11 @@ export function VideoFlowProvider({ children }: { children: ReactNode }) {
     setAssets(null);
     setScript(null);
     setEditedScenes(null);
+    clearQuiz();
     setShowRetry(false);
     resetCost();
     setStep('idle');
-  }, [videoBlobUrl, setVideoBlobUrl, setAssets, setScript, setEditedScenes, resetCost]);
+  }, [videoBlobUrl, setVideoBlobUrl, setAssets, setScript, setEditedScenes, clearQuiz, resetCost]);
 
   const clearError = useCallback(() => {
     setError(null);
@@ -242,14 +412,44 @@ export function VideoFlowProvider({ children }: { children: ReactNode }) {
     setVisualStylePreset,
     safetyKeywords,
     setSafetyKeywords,
+    language,
+    setLanguage,
+    jurisdiction,
+    setJurisdiction,
+    siteState,
+    setSiteState,
+    autoCorrect,
+    setAutoCorrect,
+    targetDurationSeconds,
+    setTargetDurationSeconds,
+    sceneCount,
+    setSceneCount,
+    trimToTarget,
+    setTrimToTarget,
+    sourceDocument,
+    setSourceDocument,
     script,
     scenesForVideo,
+    sceneKeys,
+    scriptStreamPhase,
+    checksOutOfDate,
+    isVerifyingScript,
     error,
     clearError,
     scriptResultRef,
     updateSceneNarration,
     getSceneNarration,
     flushNarrationUpdates,
+    updateSceneImagePrompt,
+    addScene,
+    removeScene,
+    moveScene,
+    duplicateScene,
+    quiz,
+    quizError,
+    isGeneratingQuiz,
+    updateQuizQuestion,
+    removeQuizQuestion,
     progress,
     videoBlobUrl,
     assets,
@@ -257,6 +457,8 @@ export function VideoFlowProvider({ children }: { children: ReactNode }) {
     regeneratingSceneIndex,
     handleGenerateScript,
     handleCreateVideo,
+    handleGenerateQuiz,
+    handleVerifyScript,
     handleRegenerateScene,
     handleStartOver,
     cancelVideoGeneration,
@@ -0,0 +1,82 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useCostContext } from '@/app/contexts/CostContext';
+import { fetchWithRetry, getApiError } from '@/lib/api-client';
+import { EST_COST_QUIZ } from '@/lib/constants';
+import type { QuizQuestion, QuizResult, ScriptResult } from '@/lib/types';
+
+export function useQuizGeneration() {
+  const { addCost } = useCostContext();
+  const [quiz, setQuiz] = useState<QuizResult | null>(null);
+  const [quizError, setQuizError] = useState<string | null>(null);
+  const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
+
+  /**
+   * Generates questions for the script, drawn from the topics matched for it (in its
+   * jurisdiction's pack) and grounded in that pack.
+   */
+  const generateQuiz = useCallback(
+    async (script: ScriptResult) => {
+      setQuizError(null);
+      setIsGeneratingQuiz(true);
+      try {
+        const res = await fetchWithRetry('/api/generate-quiz', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            script: {
+              title: script.title,
+              visualStyle: script.visualStyle,
+              scenes: script.scenes,
+              language: script.language,
+              jurisdiction: script.jurisdiction,
+              siteState: script.siteState,
+            },
+            topicIds: script.topicMatches?.map((m) => m.topicId) ?? script.ehsValidation?.topicIds ?? [],
+          }),
+        });
+        if (!res.ok) {
+          setQuizError((await getApiError(res)).message);
+          return;
+        }
+        setQuiz((await res.json()) as QuizResult);
+        addCost(EST_COST_QUIZ, 'quiz');
+      } catch (e) {
+        setQuizError(e instanceof Error ? e.message : 'Quiz generation failed');
+      } finally {
+        setIsGeneratingQuiz(false);
+      }
+    },
+    [addCost]
+  );
+
+  const updateQuizQuestion = useCallback((index: number, changes: Partial<QuizQuestion>) => {
+    setQuiz((prev) =>
+      prev
+        ? { ...prev, questions: prev.questions.map((q, i) => (i === index ? { ...q, ...changes } : q)) }
+        : prev
+    );
+  }, []);
+
+  const removeQuizQuestion = useCallback((index: number) => {
+    setQuiz((prev) =>
+      prev ? { ...prev, questions: prev.questions.filter((_, i) => i !== index) } : prev
+    );
+  }, []);
+
+  const clearQuiz = useCallback(() => {
+    setQuiz(null);
+    setQuizError(null);
+  }, []);
+
+  return {
+    quiz,
+    quizError,
+    isGeneratingQuiz,
+    generateQuiz,
+    updateQuizQuestion,
+    removeQuizQuestion,
+    clearQuiz,
+  };
+}
@@ -2,11 +2,19 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { useCostContext } from '@/app/contexts/CostContext';
-import { fetchJson } from '@/lib/api-client';
-import { EST_COST_SCRIPT } from '@/lib/constants';
+import { fetchWithRetry, getApiError } from '@/lib/api-client';
+import { EST_COST_SCRIPT, getJurisdictionOption } from '@/lib/constants';
+import { duplicateAt, insertAt, moveItem, removeAt } from '@/lib/scene-editing';
+import { readSseEvents } from '@/lib/sse';
 import { useDebouncedCallback } from '@/lib/useDebouncedCallback';
-import type { VisualStylePreset } from '@/lib/constants';
-import type { ScriptResult, Scene } from '@/lib/types';
+import type { Jurisdiction, LanguageCode, UsState, VisualStylePreset } from '@/lib/constants';
+import type {
+  ScriptResult,
+  ScriptStreamEvent,
+  ScriptVerificationResult,
+  Scene,
+  SourceDocumentInput,
+} from '@/lib/types';
 
 export interface ScriptGenerationOptions {
   prompt: string;
@@ -14,43 +22,171 @@ export interface ScriptGenerationOptions {
   audience: string;
   visualStylePreset?: VisualStylePreset;
   safetyKeywords?: string;
+  language?: LanguageCode;
+  /** Whose EHS pack, sign standard and terminology to check against; omitted means US. */
+  jurisdiction?: Jurisdiction;
+  /** US state of the site (US only); adds its state-plan regulations. */
+  siteState?: UsState;
+  /** Rewrite scenes with unverified claims using the verifier's corrections. */
+  autoCorrect?: boolean;
+  targetDurationSeconds?: number;
+  sceneCount?: number;
+  /** Trim narration that runs over the target instead of only warning. */
+  trimToTarget?: boolean;
+  /** Generate from this SOP/JSA; the prompt may then be empty. */
+  sourceDocument?: SourceDocumentInput | null;
 }
 
+export type ScriptStreamPhase = 'scenes' | 'checks';
+
 export function useScriptGeneration() {
   const { addCost } = useCostContext();
   const [script, setScript] = useState<ScriptResult | null>(null);
   const [editedScenes, setEditedScenes] = useState<Scene[] | null>(null);
   const [error, setError] = useState<string | null>(null);
+  /** What the script stream is still delivering: scenes, then check results; null when idle. */
+  const [scriptStreamPhase, setScriptStreamPhase] = useState<ScriptStreamPhase | null>(null);
+  const [isVerifyingScript, setIsVerifyingScript] = useState(false);
   const scriptResultRef = useRef<HTMLDivElement>(null);
+  /** Stable React keys for editedScenes, kept in step with every insert, remove and move. */
+  const [sceneIds, setSceneIds] = useState<string[]>([]);
+  const nextSceneIdRef = useRef(0);
+
+  const newSceneId = useCallback(() => `scene-${nextSceneIdRef.current++}`, []);
 
   const focusScriptResult = useCallback(() => {
     scriptResultRef.current?.focus({ preventScroll: true });
   }, []);
 
+  /**
+   * Streams the script over SSE: scenes render as the model writes them, and the sign,
+   * EHS and fact-check results are merged in as each check finishes.
+   */
   const generateScript = useCallback(
     async (options: ScriptGenerationOptions) => {
-      const { prompt, draft, audience, visualStylePreset, safetyKeywords } = options;
-      if (!prompt.trim()) return false;
+      const {
+        prompt,
+        draft,
+        audience,
+        visualStylePreset,
+        safetyKeywords,
+        language,
+        jurisdiction,
+        siteState,
+        autoCorrect,
+        targetDurationSeconds,
+        sceneCount,
+        trimToTarget,
+        sourceDocument,
+      } = options;
+      if (!prompt.trim() && !sourceDocument) return false;
       setError(null);
+      setScript(null);
       setEditedScenes(null);
-      const result = await fetchJson<ScriptResult>('/api/generate-script', {
-        prompt: prompt.trim(),
-        draft,
-        audience: audience || undefined,
-        visualStylePreset: visualStylePreset || undefined,
-        safetyKeywords: safetyKeywords?.trim() || undefined,
-      });
-      if (result.ok) {
-        addCost(EST_COST_SCRIPT, 'script');
-        setScript(result.data);
-        setEditedScenes(result.data.scenes ? [...result.data.scenes] : null);
-        setTimeout(focusScriptResult, 0);
-        return true;
+      setScriptStreamPhase('scenes');
+
+      let current: ScriptResult = { title: '', scenes: [] };
+      const show = (next: ScriptResult) => {
+        current = next;
+        if (current.title || current.scenes.length > 0) setScript(current);
+      };
+
+      try {
+        const res = await fetchWithRetry('/api/generate-script', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            prompt: prompt.trim(),
+            draft,
+            audience: audience || undefined,
+            visualStylePreset: visualStylePreset || undefined,
+            safetyKeywords: safetyKeywords?.trim() || undefined,
+            language: language && language !== 'en' ? language : undefined,
+            jurisdiction: jurisdiction && jurisdiction !== 'us' ? jurisdiction : undefined,
+            siteState: getJurisdictionOption(jurisdiction).ecfr ? siteState : undefined,
+            autoCorrect: autoCorrect || undefined,
+            targetDurationSeconds: targetDurationSeconds || undefined,
+            sceneCount: sceneCount || undefined,
+            trimToTarget: (targetDurationSeconds && trimToTarget) || undefined,
+            sourceDocument: sourceDocument || undefined,
+            stream: true,
+          }),
+        });
+        if (!res.ok || !res.body) {
+          setError((await getApiError(res)).message);
+          return false;
+        }
+
+        for await (const event of readSseEvents<ScriptStreamEvent>(res.body)) {
+          switch (event.type) {
+            case 'title':
+              show({ ...current, title: event.title, visualStyle: event.visualStyle });
+              break;
+            case 'scene': {
+              const scenes = [...current.scenes];
+              scenes[event.index] = event.scene;
+              show({ ...current, scenes });
+              break;
+            }
+            case 'script':
+              show({ ...current, ...event.script });
+              setEditedScenes([...event.script.scenes]);
+              setSceneIds(event.script.scenes.map(() => newSceneId()));
+              setScriptStreamPhase('checks');
+              break;
+            case 'regulatorySources':
+              show({ ...current, regulatorySources: event.regulatorySources });
+              break;
+            case 'retrievedSources':
+              show({ ...current, retrievedSources: event.retrievedSources });
+              break;
+            case 'unverifiedSignMentions':
+              show({ ...current, unverifiedSignMentions: event.unverifiedSignMentions });
+              break;
+            case 'ehsValidation':
+              show({ ...current, ehsValidation: event.ehsValidation });
+              break;
+            case 'coverageReport':
+              show({ ...current, coverageReport: event.coverageReport });
+              break;
+            case 'factVerification':
+              show({ ...current, factVerification: event.factVerification });
+              break;
+            case 'autoCorrections':
+              show({
+                ...current,
+                scenes: event.scenes,
+                factVerification: event.factVerification,
+                autoCorrections: event.autoCorrections,
+              });
+              setEditedScenes([...event.scenes]);
+              break;
+            case 'done':
+              addCost(EST_COST_SCRIPT, 'script');
+              show(event.result);
+              setTimeout(focusScriptResult, 0);
+              return true;
+            case 'error':
+              setScript(null);
+              setEditedScenes(null);
+              setError(event.error);
+              return false;
+          }
+        }
+        setScript(null);
+        setEditedScenes(null);
+        setError('Script generation ended unexpectedly');
+        return false;
+      } catch (e) {
+        setScript(null);
+        setEditedScenes(null);
+        setError(e instanceof Error ? e.message : 'Script generation failed');
+        return false;
+      } finally {
+        setScriptStreamPhase(null);
       }
-      setError(result.error.message);
-      return false;
     },
-    [focusScriptResult, addCost]
+    [focusScriptResult, addCost, newSceneId]
   );
 
   const pendingNarrationRef = useRef<Record<number, string>>({});
@@ -95,18 +231,143 @@ export function useScriptGeneration() {
     [editedScenes, script]
   );
 
+  /**
+   * Applies a structural edit to the scenes and, in step, to their keys. Pending narrations are
+   * flushed first because they are keyed by index; the flush's state update is queued ahead of
+   * the edit, so it lands on the scenes as they were when the user typed.
+   */
+  const editSceneList = useCallback(
+    (editScenes: (scenes: Scene[]) => Scene[], editIds: (ids: string[]) => string[]) => {
+      flushNarrationUpdates();
+      const base = editedScenes ?? script?.scenes;
+      if (!base?.length) return;
+      setEditedScenes((prev) => editScenes(prev ?? base));
+      setSceneIds((prev) =>
+        editIds(prev.length === base.length ? prev : base.map(() => newSceneId()))
+      );
+    },
+    [flushNarrationUpdates, editedScenes, script, newSceneId]
+  );
+
+  const updateSceneImagePrompt = useCallback(
+    (index: number, imagePrompt: string) => {
+      setEditedScenes((prev) => {
+        const base = prev ?? script?.scenes;
+        if (!base || index < 0 || index >= base.length) return prev;
+        const next = [...base];
+        next[index] = { ...next[index], imagePrompt };
+        return next;
+      });
+    },
+    [script]
+  );
+
+  /** Inserts an empty scene after `afterIndex` (use -1 to insert at the start). */
+  const addScene = useCallback(
+    (afterIndex: number) => {
+      const id = newSceneId();
+      editSceneList(
+        (scenes) => insertAt(scenes, afterIndex + 1, { narration: '', imagePrompt: '' }),
+        (ids) => insertAt(ids, afterIndex + 1, id)
+      );
+    },
+    [editSceneList, newSceneId]
+  );
+
+  const removeScene = useCallback(
+    (index: number) =>
+      editSceneList(
+        (scenes) => removeAt(scenes, index),
+        (ids) => removeAt(ids, index)
+      ),
+    [editSceneList]
+  );
+
+  const moveScene = useCallback(
+    (from: number, to: number) =>
+      editSceneList(
+        (scenes) => moveItem(scenes, from, to),
+        (ids) => moveItem(ids, from, to)
+      ),
+    [editSceneList]
+  );
+
+  const duplicateScene = useCallback(
+    (index: number) => {
+      const id = newSceneId();
+      editSceneList(
+        (scenes) => duplicateAt(scenes, index, (scene) => ({ ...scene })),
+        (ids) => duplicateAt(ids, index, () => id)
+      );
+    },
+    [editSceneList, newSceneId]
+  );
+
   const scenesForVideo = (editedScenes?.length ? editedScenes : script?.scenes) ?? [];
+  const sceneKeys = scenesForVideo.map((_, i) =>
+    sceneIds.length === scenesForVideo.length ? sceneIds[i] : `scene-${i}`
+  );
+
+  /**
+   * Re-runs the checks on `scenes` (POST /api/verify-script) and shows the results. The edited
+   * scenes are left alone, so typing during the check marks the new results out of date again.
+   */
+  const verifyScript = useCallback(
+    async (scenes: Scene[]) => {
+      if (!script) return;
+      setError(null);
+      setIsVerifyingScript(true);
+      try {
+        const res = await fetchWithRetry('/api/verify-script', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ script: { ...script, scenes } }),
+        });
+        if (!res.ok) {
+          setError((await getApiError(res)).message);
+          return;
+        }
+        setScript(((await res.json()) as ScriptVerificationResult).script);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Script check failed');
+      } finally {
+        setIsVerifyingScript(false);
+      }
+    },
+    [script]
+  );
+
+  // Check results describe script.scenes; any edit since then (pending narration included) makes them stale
+  const checksOutOfDate =
+    !!script &&
+    scriptStreamPhase === null &&
+    (scenesForVideo.length !== script.scenes.length ||
+      scenesForVideo.some(
+        (s, i) =>
+          getSceneNarration(i) !== script.scenes[i].narration ||
+          s.imagePrompt !== script.scenes[i].imagePrompt
+      ));
 
   return {
     script,
     editedScenes,
     scenesForVideo,
+    sceneKeys,
     getSceneNarration,
     error,
     setError,
+    scriptStreamPhase,
     scriptResultRef,
     generateScript,
+    verifyScript,
+    isVerifyingScript,
+    checksOutOfDate,
     updateSceneNarration,
+    updateSceneImagePrompt,
+    addScene,
+    removeScene,
+    moveScene,
+    duplicateScene,
     flushNarrationUpdates,
     setScript,
     setEditedScenes,
@@ -5,16 +5,21 @@ import { useCostContext, estimateSceneCost } from '@/app/contexts/CostContext';
 import {
   ETA_SECONDS_PER_SCENE,
   ETA_ASSEMBLY_SECONDS,
+  JOB_POLL_INTERVAL_MS,
   SCENE_ASSET_CONCURRENCY,
 } from '@/lib/constants';
 import {
+  ACTIVE_VIDEO_JOB_KEY,
   generateSceneAsset,
   assembleVideo,
+  cancelVideoJob,
   fetchProviderConfig,
+  fetchVideoJobResult,
+  getVideoJobStatus,
+  startVideoJob,
   type VideoGenerationOptions,
-  type GenerateSceneAssetOptions,
 } from '@/lib/video-generation-client';
-import type { Scene, SceneAssets } from '@/lib/types';
+import type { Scene, SceneAssets, ScriptResult, VideoJobOptions } from '@/lib/types';
 
 export interface VideoProgress {
   current: number;
@@ -23,25 +28,20 @@ export interface VideoProgress {
   etaSeconds: number;
 }
 
-/** Run tasks with bounded concurrency. Results are in original order. */
-async function runWithConcurrency<T, R>(
-  items: T[],
-  concurrency: number,
-  fn: (item: T, index: number) => Promise<R>
-): Promise<R[]> {
-  const results: R[] = new Array(items.length);
-  let nextIndex = 0;
-  async function worker(): Promise<void> {
-    while (nextIndex < items.length) {
-      const i = nextIndex++;
-      results[i] = await fn(items[i], i);
-    }
-  }
-  const workers = Array(Math.min(concurrency, items.length))
-    .fill(null)
-    .map(() => worker());
-  await Promise.all(workers);
-  return results;
+type JobOutcome = { ok: true } | { ok: false; message: string };
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      },
+      { once: true }
+    );
+  });
 }
 
 export function useVideoGeneration() {
@@ -75,90 +75,149 @@ export function useVideoGeneration() {
     }
   }, []);
 
-  const createVideo = useCallback(
-    async (
-      scenes: Scene[],
-      scriptTitle: string,
-      visualStyle: string | undefined,
-      options: VideoGenerationOptions
-    ): Promise<{ ok: true } | { ok: false; message: string }> => {
-      if (!canProceed()) {
-        return { ok: false, message: 'Session cost limit reached. Start over to reset.' };
-      }
-      const total = scenes.length;
-      const controller = new AbortController();
-      abortControllerRef.current = controller;
-      const signal = controller.signal;
-
+  /**
+   * Polls a server-side job until it finishes, mirroring its per-scene progress and
+   * charging cost once per scene completed while we watch. Loads the MP4 and assets on success.
+   */
+  const followVideoJob = useCallback(
+    async (jobId: string, signal: AbortSignal): Promise<JobOutcome> => {
       const config = await fetchProviderConfig();
-      const useVideo = config.videoProvider === 'wan';
+      let chargedScenes: number | null = null;
 
-      const opts: GenerateSceneAssetOptions = {
-        ...options,
-        styleGuide: visualStyle ?? scriptTitle,
-        signal,
-        useVideo,
-      };
-
-      try {
-        let completed = 0;
-        const onSceneComplete = () => {
-          completed += 1;
-          const eta =
-            (total - completed) * Math.ceil(ETA_SECONDS_PER_SCENE / SCENE_ASSET_CONCURRENCY) +
-            ETA_ASSEMBLY_SECONDS;
-          const visualLabel = useVideo ? 'video' : 'image';
-          setProgress({
-            current: completed,
-            total,
-            phase: `Scene ${completed}/${total}: ${visualLabel} & audio`,
-            etaSeconds: eta,
-          });
-        };
+      while (true) {
+        const job = await getVideoJobStatus(jobId, { signal });
+        if (!job) return { ok: false, message: 'Video job not found' };
 
-        const newAssets = await runWithConcurrency(
-          scenes,
-          SCENE_ASSET_CONCURRENCY,
-          async (scene, i) => {
-            const asset = await generateSceneAsset(scene, i, opts);
-            const sceneCost = estimateSceneCost(
+        const total = job.scenes.length;
+        // Scenes already done when we start following (e.g. after a reload) were charged before
+        if (chargedScenes === null) chargedScenes = job.completedScenes;
+        job.scenes.forEach((s, i) => {
+          if (s.status !== 'completed' || chargedScenes! >= job.completedScenes) return;
+          const scene = job.script.scenes[i];
+          addCost(
+            estimateSceneCost(
               scene.narration?.length ?? 0,
-              { highQuality: options.highQuality, draft: options.draft, useVideo },
+              { highQuality: job.options.highQuality, draft: job.options.draft, useVideo: job.useVideo },
               config
-            );
-            addCost(sceneCost, `scene-${i}`);
-            onSceneComplete();
-            return asset;
-          }
-        );
-
-        setProgress({
-          current: total,
-          total,
-          phase: 'Assembling video...',
-          etaSeconds: ETA_ASSEMBLY_SECONDS,
+            ),
+            `scene-${i}`
+          );
+          chargedScenes! += 1;
         });
 
-        const blob = await assembleVideo(newAssets, options.captions, { signal });
-        if (videoBlobUrl) URL.revokeObjectURL(videoBlobUrl);
-        setVideoBlobUrl(URL.createObjectURL(blob));
-        setAssets(newAssets);
-        setTimeout(focusVideoResult, 0);
-        return { ok: true };
+        if (job.status === 'completed') {
+          const { blob, assets: newAssets } = await fetchVideoJobResult(jobId, { signal });
+          setVideoBlobUrl((prev) => {
+            if (prev) URL.revokeObjectURL(prev);
+            return URL.createObjectURL(blob);
+          });
+          setAssets(newAssets);
+          setTimeout(focusVideoResult, 0);
+          return { ok: true };
+        }
+        if (job.status === 'failed') return { ok: false, message: job.error ?? 'Video creation failed' };
+        if (job.status === 'cancelled') return { ok: false, message: 'Video generation cancelled' };
+
+        const visualLabel = job.useVideo ? 'video' : 'image';
+        setProgress(
+          job.phase === 'assets'
+            ? {
+                current: job.completedScenes,
+                total,
+                phase: `Scene ${job.completedScenes}/${total}: ${visualLabel} & audio`,
+                etaSeconds:
+                  (total - job.completedScenes) *
+                    Math.ceil(ETA_SECONDS_PER_SCENE / SCENE_ASSET_CONCURRENCY) +
+                  ETA_ASSEMBLY_SECONDS,
+              }
+            : { current: total, total, phase: 'Assembling video...', etaSeconds: ETA_ASSEMBLY_SECONDS }
+        );
+        await sleep(JOB_POLL_INTERVAL_MS, signal);
+      }
+    },
+    [addCost, focusVideoResult]
+  );
+
+  /**
+   * Runs a job to completion; the job id is kept in localStorage so a reload can resume it.
+   * The id is cleared once the job finishes or the user cancels it. When following fails for
+   * another reason (network error, rate limit) the job keeps running on the server, so the id stays.
+   */
+  const runVideoJob = useCallback(
+    async (getJobId: (signal: AbortSignal) => Promise<string>): Promise<JobOutcome> => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      let jobId: string | null = null;
+      let finished = false;
+      try {
+        jobId = await getJobId(controller.signal);
+        localStorage.setItem(ACTIVE_VIDEO_JOB_KEY, jobId);
+        const outcome = await followVideoJob(jobId, controller.signal);
+        finished = true;
+        return outcome;
       } catch (e) {
         const isAborted = e instanceof Error && e.name === 'AbortError';
+        if (isAborted && jobId) await cancelVideoJob(jobId);
+        finished = isAborted;
         return {
           ok: false,
           message: isAborted ? 'Video generation cancelled' : (e instanceof Error ? e.message : 'Video creation failed'),
         };
       } finally {
+        if (finished) localStorage.removeItem(ACTIVE_VIDEO_JOB_KEY);
         abortControllerRef.current = null;
         setProgress({ current: 0, total: 0, phase: '', etaSeconds: 0 });
       }
     },
-    [focusVideoResult, addCost, canProceed, videoBlobUrl]
+    [followVideoJob]
+  );
+
+  /**
+   * Starts a job for the script as edited. The whole script is sent: the job records the
+   * regulations it cites (regulatorySources) for change detection.
+   */
+  const createVideo = useCallback(
+    async (script: ScriptResult, options: VideoGenerationOptions): Promise<JobOutcome> => {
+      if (!canProceed()) {
+        return { ok: false, message: 'Session cost limit reached. Start over to reset.' };
+      }
+      const total = script.scenes.length;
+      setProgress({
+        current: 0,
+        total,
+        phase: 'Starting video job...',
+        etaSeconds:
+          total * Math.ceil(ETA_SECONDS_PER_SCENE / SCENE_ASSET_CONCURRENCY) + ETA_ASSEMBLY_SECONDS,
+      });
+      return runVideoJob(async (signal) => {
+        const job = await startVideoJob(script, { ...options, signal });
+        return job.id;
+      });
+    },
+    [canProceed, runVideoJob]
   );
 
+  /**
+   * Reattaches to a job started before a page reload. Returns the job's script and options
+   * so the caller can restore the editor, or null when there is nothing to resume.
+   */
+  const resumeVideoJob = useCallback(async (): Promise<{
+    script: ScriptResult;
+    options: VideoJobOptions;
+    result: Promise<JobOutcome>;
+  } | null> => {
+    const jobId = localStorage.getItem(ACTIVE_VIDEO_JOB_KEY);
+    if (!jobId) return null;
+    // An unreachable server says nothing about the job; keep its id for the next load
+    const job = await getVideoJobStatus(jobId).catch(() => undefined);
+    if (job === undefined) return null;
+    if (!job || job.status === 'failed' || job.status === 'cancelled') {
+      localStorage.removeItem(ACTIVE_VIDEO_JOB_KEY);
+      return null;
+    }
+    return { script: job.script, options: job.options, result: runVideoJob(async () => jobId) };
+  }, [runVideoJob]);
+
   const regenerateScene = useCallback(
     async (
       sceneIndex: number,
@@ -200,7 +259,10 @@ export function useVideoGeneration() {
         const newAssets = [...currentAssets];
         newAssets[sceneIndex] = asset;
 
-        const blob = await assembleVideo(newAssets, options.captions, { signal });
+        const blob = await assembleVideo(newAssets, options.captions, {
+          signal,
+          language: options.language,
+        });
         if (previousBlobUrl) URL.revokeObjectURL(previousBlobUrl);
         setVideoBlobUrl(URL.createObjectURL(blob));
         setAssets(newAssets);
@@ -232,6 +294,7 @@ export function useVideoGeneration() {
     setAssets,
     videoResultRef,
     createVideo,
+    resumeVideoJob,
     regenerateScene,
     resetProgress,
     cancelVideoGeneration,
@@ -4,6 +4,7 @@ import { ErrorBoundary } from '@/app/components/ErrorBoundary';
 import { Header } from '@/app/components/layout/Header';
 import { Sidebar } from '@/app/components/layout/Sidebar';
 import { StepStepper } from '@/app/components/layout/StepStepper';
+import { QuizPanel } from '@/app/components/QuizPanel';
 import { ScriptEditor } from '@/app/components/ScriptEditor';
 import { ScriptForm } from '@/app/components/ScriptForm';
 import { Card } from '@/app/components/shared/Card';
@@ -23,6 +24,7 @@ function HomeContent() {
     retryCreateVideo,
     openaiConfigured,
     isCostBlocked,
+    scriptStreamPhase,
     handleGenerateScript,
     handleCreateVideo,
     cancelVideoGeneration,
@@ -33,7 +35,9 @@ function HomeContent() {
   useKeyboardShortcuts({
     onGenerate: () => {
       if (step === 'idle') handleGenerateScript();
-      else if (step === 'script' && script && !isCostBlocked) handleCreateVideo();
+      else if (step === 'script' && script && !isCostBlocked && scriptStreamPhase !== 'scenes') {
+        handleCreateVideo();
+      }
     },
     onCancel: () => {
       if (step === 'generating') cancelVideoGeneration();
@@ -108,6 +112,8 @@ function HomeContent() {
 
             {script && (step === 'script' || step === 'generating') ? <ScriptEditor /> : null}
 
+            {script && step === 'script' ? <QuizPanel /> : null}
+
             {step === 'generating' && <VideoProgress />}
 
             {step === 'video' && <VideoResult />}
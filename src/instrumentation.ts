@@ -0,0 +1,34 @@
+/**
+ * Server startup hook (Next.js instrumentation): validates environment variables and loads
+ * the active EHS data pack and site-rule overlay, so a misconfiguration or malformed file
+ * fails the server at boot instead of on the first request. Overlay conflicts with the base
+ * reference are logged for review. The regulation retrieval index is loaded (or rebuilt) here
+ * too so the first script doesn't wait.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const { env } = await import('@/lib/env');
+  const { getActiveEHSPack } = await import('@/lib/ehs-packs');
+  const { getActiveEHSOverlay } = await import('@/lib/ehs-overlay');
+  const { getEHSOverlayConflicts } = await import('@/lib/ehs-reference');
+  const { logInfo, logWarn } = await import('@/lib/logger');
+  logInfo(`Text LLM provider ${env.LLM_PROVIDER}`);
+  const pack = getActiveEHSPack();
+  logInfo(`EHS data pack ${pack.id}@${pack.version} loaded`, { topics: pack.topics.length });
+
+  const { RAG_ENABLED, warmRAGIndex } = await import('@/lib/rag-client');
+  if (RAG_ENABLED) {
+    const index = warmRAGIndex();
+    logInfo(`Regulation retrieval index ${index.rebuilt ? 'built' : 'loaded'}`, { passages: index.passages });
+  }
+
+  const overlay = getActiveEHSOverlay();
+  if (!overlay) return;
+  const conflicts = getEHSOverlayConflicts();
+  logInfo(`EHS site-rule overlay ${overlay.id}@${overlay.version} applied`, {
+    topics: Object.keys(overlay.topics).length,
+    conflicts: conflicts.length,
+  });
+  for (const c of conflicts) logWarn(`EHS overlay conflict: ${c.message}`, { topic: c.topicId, kind: c.kind });
+}
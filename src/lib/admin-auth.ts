@@ -0,0 +1,28 @@
+/**
+ * Bearer-token check for admin API routes (EHS reference editing, regulation snapshots).
+ * Writes are disabled unless EHS_ADMIN_TOKEN is set.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+
+/** Error response when the request may not use admin routes; null when it may. */
+export function checkAdminToken(request: Request): NextResponse | null {
+  const token = process.env.EHS_ADMIN_TOKEN?.trim();
+  if (!token) {
+    return NextResponse.json(
+      apiError('Admin API is disabled; set EHS_ADMIN_TOKEN to enable it', { code: 'FORBIDDEN' }),
+      { status: 403 }
+    );
+  }
+  const provided = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() ?? '';
+  const a = Buffer.from(provided);
+  const b = Buffer.from(token);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) {
+    return NextResponse.json(apiError('Invalid or missing admin token', { code: 'UNAUTHORIZED' }), {
+      status: 401,
+    });
+  }
+  return null;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { autoCorrectScript } from './auto-correct';
+import { verifyScriptFacts } from './fact-verification';
+import type { FactVerificationResult, ScriptResult } from './types';
+
+const mockCreate = vi.fn();
+vi.mock('@/lib/openai-client', () => ({
+  openai: {
+    chat: { completions: { create: (...args: unknown[]) => mockCreate(...args) } },
+  },
+}));
+vi.mock('@/lib/fact-verification', () => ({
+  verifyScriptFacts: vi.fn().mockResolvedValue({ results: [], complete: true }),
+}));
+
+const script: ScriptResult = {
+  title: 'Forklift Safety',
+  scenes: [
+    { narration: 'Sound the horn at corners.', imagePrompt: 'Alex pressing horn' },
+    { narration: 'Forklifts may carry passengers on the forks.', imagePrompt: 'Alex on forks' },
+  ],
+};
+
+const unverified: FactVerificationResult = {
+  claim: 'Forklifts may carry passengers on the forks.',
+  sceneIndex: 1,
+  type: 'regulation',
+  status: 'unverified',
+  confidence: 0.9,
+  reasoning: 'The reference prohibits riders on forks.',
+  correction: 'Never ride on the forks; only the operator rides in the seat.',
+};
+
+function rewriteReturns(narration: string) {
+  mockCreate.mockResolvedValueOnce({
+    choices: [
+      {
+        message: {
+          content: JSON.stringify({
+            scenes: [{ sceneIndex: 1, narration, imagePrompt: 'Alex waving a coworker off the forks' }],
+          }),
+        },
+      },
+    ],
+  });
+}
+
+describe('autoCorrectScript', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does nothing when no claim is correctable', async () => {
+    const result = await autoCorrectScript(script, [{ ...unverified, status: 'needs_review' }], ['forklift']);
+    expect(result.corrections).toEqual([]);
+    expect(result.scenes).toEqual(script.scenes);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('rewrites the flagged scene, re-verifies only that scene and records the change', async () => {
+    rewriteReturns('Never ride on the forks.');
+    vi.mocked(verifyScriptFacts).mockResolvedValueOnce({
+      results: [{ ...unverified, claim: 'Never ride on the forks.', sceneIndex: 0, status: 'verified', correction: undefined }],
+      complete: true,
+    });
+
+    const result = await autoCorrectScript(script, [unverified], ['forklift']);
+
+    expect(vi.mocked(verifyScriptFacts).mock.calls[0][0].scenes).toEqual([
+      { narration: 'Never ride on the forks.', imagePrompt: 'Alex waving a coworker off the forks' },
+    ]);
+    expect(result.scenes[0]).toEqual(script.scenes[0]);
+    expect(result.scenes[1].narration).toBe('Never ride on the forks.');
+    expect(result.factVerification).toEqual([
+      expect.objectContaining({ sceneIndex: 1, status: 'verified' }),
+    ]);
+    expect(result.corrections).toEqual([
+      {
+        round: 1,
+        sceneIndex: 1,
+        claim: unverified.claim,
+        correction: unverified.correction,
+        reason: unverified.reasoning,
+        narrationBefore: script.scenes[1].narration,
+        narrationAfter: 'Never ride on the forks.',
+        resolved: true,
+      },
+    ]);
+    expect(result.rounds).toBe(1);
+  });
+
+  it('stops after the maximum number of rounds', async () => {
+    rewriteReturns('Passengers may ride on the forks briefly.');
+    rewriteReturns('Passengers may ride on the forks sometimes.');
+    vi.mocked(verifyScriptFacts).mockResolvedValue({ results: [{ ...unverified, sceneIndex: 0 }], complete: true });
+
+    const result = await autoCorrectScript(script, [unverified], ['forklift'], 2);
+
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+    expect(result.rounds).toBe(2);
+    expect(result.corrections.map((c) => [c.round, c.resolved])).toEqual([
+      [1, false],
+      [2, false],
+    ]);
+  });
+
+  it('keeps the original scenes when the rewrite fails', async () => {
+    mockCreate.mockRejectedValueOnce(new Error('boom'));
+    const result = await autoCorrectScript(script, [unverified], ['forklift'], 1);
+    expect(result.scenes).toEqual(script.scenes);
+    expect(result.corrections).toEqual([]);
+  });
+});
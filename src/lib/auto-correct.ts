@@ -0,0 +1,166 @@
+/**
+ * Opt-in auto-correct loop for unverified claims.
+ *
+ * Scenes with claims that fact verification marked `unverified` (and supplied a correction for)
+ * are rewritten using the correction and the EHS reference, then only those scenes are
+ * re-verified. Repeats until no correctable claims remain or AUTO_CORRECT_MAX_ROUNDS is hit.
+ * Every rewritten claim is recorded so reviewers can audit what changed and why.
+ */
+
+import { z } from 'zod';
+import {
+  AUTO_CORRECT_MAX_ROUNDS,
+  OPENAI_REQUEST_TIMEOUT_MS,
+  getLanguageOption,
+} from '@/lib/constants';
+import { getVerificationContextForTopics } from '@/lib/ehs-reference';
+import { verifyScriptFacts } from '@/lib/fact-verification';
+import { logWarn } from '@/lib/logger';
+import { getLLMProvider } from '@/lib/providers/llm-providers';
+import { withRetry } from '@/lib/retry';
+import { withTimeout } from '@/lib/timeout';
+import type { ClaimCorrection, FactVerificationResult, Scene, ScriptResult } from '@/lib/types';
+
+export interface AutoCorrectResult {
+  scenes: Scene[];
+  factVerification: FactVerificationResult[];
+  corrections: ClaimCorrection[];
+  rounds: number;
+}
+
+const rewriteOutputSchema = z.object({
+  scenes: z.array(
+    z.object({
+      sceneIndex: z.number().int().min(0),
+      narration: z.string().min(1),
+      imagePrompt: z.string().min(1),
+    })
+  ),
+});
+
+const SYSTEM_PROMPT = `You correct factual errors in safety training video scenes. Output valid JSON only, no markdown.
+Rewrite each scene you are given so the flagged claims match the correction and the EHS reference. Change only what is needed to make the claims accurate; keep the tone, length and everything else. If the narration change affects what should be shown, update the imagePrompt to match, keeping the same character, PPE and people-count ending.
+Output: { "scenes": [ { "sceneIndex": 0, "narration": "string", "imagePrompt": "string" } ] }`;
+
+function isCorrectable(r: FactVerificationResult): boolean {
+  return r.status === 'unverified' && !!r.correction?.trim();
+}
+
+/** Rewrites the flagged scenes; returns the new scenes by index, or null if the call failed. */
+async function rewriteScenes(
+  script: ScriptResult,
+  claimsByScene: Map<number, FactVerificationResult[]>,
+  referenceContext: string
+): Promise<Map<number, Scene> | null> {
+  const scenes = [...claimsByScene].map(([sceneIndex, claims]) => ({
+    sceneIndex,
+    narration: script.scenes[sceneIndex].narration,
+    imagePrompt: script.scenes[sceneIndex].imagePrompt,
+    flaggedClaims: claims.map((c) => ({ claim: c.claim, correction: c.correction })),
+  }));
+  const languageLine =
+    script.language && script.language !== 'en'
+      ? `\nKeep narration in ${getLanguageOption(script.language).promptName} and imagePrompt in English.`
+      : '';
+
+  try {
+    const completion = await withTimeout(
+      withRetry(() =>
+        getLLMProvider().complete({
+          task: 'correction',
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            {
+              role: 'user',
+              content: `${referenceContext}\n\nScenes to correct:\n${JSON.stringify(scenes, null, 2)}${languageLine}\nJSON only.`,
+            },
+          ],
+          json: true,
+          temperature: 0.2,
+          maxTokens: 1024,
+        })
+      ),
+      Math.min(OPENAI_REQUEST_TIMEOUT_MS, 30_000),
+      'Auto-correct timed out'
+    );
+    const raw = completion.content;
+    const parsed = rewriteOutputSchema.safeParse(raw ? JSON.parse(raw) : null);
+    if (!parsed.success) return null;
+
+    const rewritten = new Map<number, Scene>();
+    for (const s of parsed.data.scenes) {
+      if (!claimsByScene.has(s.sceneIndex) || rewritten.has(s.sceneIndex)) continue;
+      const before = script.scenes[s.sceneIndex];
+      if (s.narration === before.narration && s.imagePrompt === before.imagePrompt) continue;
+      rewritten.set(s.sceneIndex, { narration: s.narration, imagePrompt: s.imagePrompt });
+    }
+    return rewritten;
+  } catch (e) {
+    logWarn('Auto-correct rewrite failed', { error: e instanceof Error ? e.message : String(e) });
+    return null;
+  }
+}
+
+/**
+ * Runs the auto-correct loop. Returns the original scenes and results unchanged (with no
+ * corrections) when nothing is correctable or the first rewrite fails.
+ */
+export async function autoCorrectScript(
+  script: ScriptResult,
+  factVerification: FactVerificationResult[],
+  topicIds: string[],
+  maxRounds: number = AUTO_CORRECT_MAX_ROUNDS
+): Promise<AutoCorrectResult> {
+  const referenceContext = getVerificationContextForTopics(topicIds, script.jurisdiction);
+  let scenes = [...script.scenes];
+  let results = factVerification;
+  const corrections: ClaimCorrection[] = [];
+  let rounds = 0;
+
+  while (rounds < maxRounds && referenceContext) {
+    const claimsByScene = new Map<number, FactVerificationResult[]>();
+    for (const r of results) {
+      if (!isCorrectable(r) || r.sceneIndex >= scenes.length) continue;
+      claimsByScene.set(r.sceneIndex, [...(claimsByScene.get(r.sceneIndex) ?? []), r]);
+    }
+    if (claimsByScene.size === 0) break;
+
+    const rewritten = await rewriteScenes({ ...script, scenes }, claimsByScene, referenceContext);
+    if (!rewritten || rewritten.size === 0) break;
+    rounds++;
+
+    const indices = [...rewritten.keys()].sort((a, b) => a - b);
+    const before = scenes;
+    scenes = scenes.map((s, i) => {
+      const r = rewritten.get(i);
+      return r ? { ...r, ...(s.sourceRef && { sourceRef: s.sourceRef }) } : s;
+    });
+
+    // Re-verify only the rewritten scenes; results come back indexed within that subset
+    const reverified = (
+      await verifyScriptFacts({ ...script, scenes: indices.map((i) => scenes[i]) }, topicIds)
+    ).results.map((r) => ({ ...r, sceneIndex: indices[r.sceneIndex] }));
+    results = [...results.filter((r) => !rewritten.has(r.sceneIndex)), ...reverified].sort(
+      (a, b) => a.sceneIndex - b.sceneIndex
+    );
+
+    for (const sceneIndex of indices) {
+      const resolved = !reverified.some((r) => r.sceneIndex === sceneIndex && r.status === 'unverified');
+      for (const claim of claimsByScene.get(sceneIndex) ?? []) {
+        corrections.push({
+          round: rounds,
+          sceneIndex,
+          claim: claim.claim,
+          correction: claim.correction ?? '',
+          ...(claim.reasoning && { reason: claim.reasoning }),
+          ...(claim.source && { source: claim.source }),
+          narrationBefore: before[sceneIndex].narration,
+          narrationAfter: scenes[sceneIndex].narration,
+          resolved,
+        });
+      }
+    }
+  }
+
+  return { scenes, factVerification: results, corrections, rounds };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { compareCfrSections, formatCfrCitation, parseCfrCitation, parseCfrCitations } from './cfr-citation';
+
+describe('cfr-citation', () => {
+  it('parses sections with their paragraph labels', () => {
+    expect(parseCfrCitation('29 CFR 1910.178(l)(4)(iii)')).toEqual({
+      kind: 'section',
+      part: '1910',
+      section: '1910.178',
+      paragraph: ['l', '4', 'iii'],
+    });
+    expect(parseCfrCitation('OSHA 1904.7')).toEqual({ kind: 'section', part: '1904', section: '1904.7', paragraph: [] });
+    expect(parseCfrCitation('§ 1926.501(b)(1)')).toMatchObject({ section: '1926.501', paragraph: ['b', '1'] });
+    expect(parseCfrCitation('29 CFR 1910.252(a)(2)(iii)(A)')).toMatchObject({ paragraph: ['a', '2', 'iii', 'A'] });
+    expect(parseCfrCitation('Employers must train operators (OSHA 1910.178(l)).')).toMatchObject({
+      section: '1910.178',
+      paragraph: ['l'],
+    });
+  });
+
+  it('parses section ranges, full or abbreviated', () => {
+    expect(parseCfrCitation('OSHA 1910.303–399')).toEqual({
+      kind: 'section-range',
+      part: '1910',
+      from: '1910.303',
+      to: '1910.399',
+    });
+    expect(parseCfrCitation('29 CFR 1910.21 through 1910.30')).toMatchObject({ from: '1910.21', to: '1910.30' });
+    expect(parseCfrCitation('1910.21-1926.30')).toMatchObject({ kind: 'section', section: '1910.21' });
+  });
+
+  it('parses subparts in either order, expanding ranges', () => {
+    expect(parseCfrCitation('1910 Subpart D')).toEqual({ kind: 'subpart', part: '1910', subparts: ['D'] });
+    expect(parseCfrCitation('OSHA 1910 Subpart S covers electrical safety')).toMatchObject({ subparts: ['S'] });
+    expect(parseCfrCitation('29 CFR Part 1926, Subparts L-N')).toMatchObject({ part: '1926', subparts: ['L', 'M', 'N'] });
+    expect(parseCfrCitation('Subpart M of Part 1926')).toMatchObject({ part: '1926', subparts: ['M'] });
+    expect(parseCfrCitation('1926 Subparts X through AA')).toMatchObject({ subparts: ['X', 'Y', 'Z', 'AA'] });
+    expect(parseCfrCitation('Subparts D and F, 29 CFR 1910')).toMatchObject({ subparts: ['D', 'F'] });
+  });
+
+  it('finds every citation in order and ignores other titles and parts', () => {
+    expect(
+      parseCfrCitations('See 1910 Subpart D, 29 CFR 1910.28(b)(1)(i), 40 CFR 1910.1 and OSHA 1910.179 and 1926.1427.').map(
+        formatCfrCitation
+      )
+    ).toEqual(['29 CFR 1910 Subpart D', '29 CFR 1910.28(b)(1)(i)', '29 CFR 1910.179', '29 CFR 1926.1427']);
+    expect(parseCfrCitation('29 CFR 1915.12')).toBeNull();
+    expect(parseCfrCitation('ANSI Z358.1')).toBeNull();
+  });
+
+  it('formats canonical citations', () => {
+    expect(formatCfrCitation({ kind: 'section-range', part: '1910', from: '1910.303', to: '1910.399' })).toBe(
+      '29 CFR 1910.303–1910.399'
+    );
+    expect(formatCfrCitation({ kind: 'subpart', part: '1926', subparts: ['L', 'M', 'N'] })).toBe('29 CFR 1926 Subparts L–N');
+    expect(formatCfrCitation({ kind: 'subpart', part: '1910', subparts: ['D', 'F'] })).toBe('29 CFR 1910 Subparts D, F');
+  });
+
+  it('orders sections numerically', () => {
+    expect(['1910.1000', '1910.303', '1910.21'].sort(compareCfrSections)).toEqual(['1910.21', '1910.303', '1910.1000']);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Citation parser for the OSHA parts of 29 CFR: 1904 (recordkeeping), 1910 (general industry)
+ * and 1926 (construction).
+ *
+ * Recognizes the forms used in EHS packs, scripts and regulation text:
+ *   sections with paragraphs   "OSHA 1910.178", "29 CFR 1910.178(l)(4)(iii)", "§ 1926.501(b)(1)"
+ *   section ranges             "1910.303–399", "29 CFR 1910.21 through 1910.30"
+ *   subparts                   "1910 Subpart D", "Part 1926, Subparts L-M", "Subpart M of Part 1926"
+ *
+ * Citations to another CFR title ("40 CFR 1910.1") are not parsed.
+ */
+
+export type CfrPart = '1904' | '1910' | '1926';
+
+export const CFR_PARTS: readonly CfrPart[] = ['1904', '1910', '1926'];
+
+export type CfrCitation =
+  | {
+      kind: 'section';
+      part: CfrPart;
+      /** e.g. "1910.178" */
+      section: string;
+      /** Paragraph labels from the top level down, e.g. ["l", "4", "iii"]; empty for the whole section. */
+      paragraph: string[];
+    }
+  | { kind: 'section-range'; part: CfrPart; from: string; to: string }
+  | {
+      kind: 'subpart';
+      part: CfrPart;
+      /** Subpart letters in order, ranges expanded: "Subparts D-F" → ["D", "E", "F"]. */
+      subparts: string[];
+    };
+
+export type CfrSectionCitation = Extract<CfrCitation, { kind: 'section' }>;
+
+const PART = '(1904|1910|1926)';
+const LABEL = String.raw`\((?:[a-z]{1,4}|\d{1,2}|[A-Z])\)`;
+const RANGE_SEPARATOR = String.raw`\s*(?:[-–—]|\s(?:to|through)\s)\s*`;
+const SUBPART_ID = String.raw`[A-Z]{1,2}\b`;
+const SUBPART_LIST = `${SUBPART_ID}(?:(?:${RANGE_SEPARATOR}|\\s*,\\s*|\\s+and\\s+)${SUBPART_ID})*`;
+
+const SECTION_RE = new RegExp(String.raw`(?<![\d.])${PART}\.(\d+)((?:${LABEL})*)(?!\d)`, 'g');
+const SECTION_RANGE_RE = new RegExp(
+  String.raw`(?<![\d.])${PART}\.(\d+)${RANGE_SEPARATOR}(?:§\s*)?(?:${PART}\.)?(\d+)(?![\d.])`,
+  'g'
+);
+/** "1910 Subpart D", "Part 1926, Subparts L-M" */
+const PART_SUBPART_RE = new RegExp(String.raw`(?<![\d.])${PART}(?:,\s*|\s+)[Ss]ubparts?\s+(${SUBPART_LIST})`, 'g');
+/** "Subpart M of Part 1926", "Subparts D and E, 29 CFR 1910" */
+const SUBPART_PART_RE = new RegExp(
+  String.raw`[Ss]ubparts?\s+(${SUBPART_LIST}),?\s+(?:of\s+)?(?:29\s+CFR\s+)?(?:[Pp]art\s+)?${PART}(?![\d.])`,
+  'g'
+);
+/** Title named right before a match, e.g. "40 CFR " or "29 C.F.R. Part ". */
+const TITLE_PREFIX_RE = /(\d+)\s*C\.?F\.?R\.?\s*(?:[Pp]art\s+|§+\s*)?$/;
+
+/** Subparts run A–Z, then AA, BB, … (e.g. 1926 Subpart CC). */
+function subpartIndex(id: string): number {
+  const offset = id.charCodeAt(0) - 65;
+  if (id.length === 1) return offset;
+  return id[0] === id[1] ? 26 + offset : -1;
+}
+
+function subpartAt(index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26));
+  return index < 26 ? letter : letter + letter;
+}
+
+function expandSubparts(list: string): string[] {
+  const ids: string[] = [];
+  let pendingRange = false;
+  for (const token of list.match(/[A-Z]{1,2}\b|[-–—]|\b(?:to|through)\b/g) ?? []) {
+    if (!/^[A-Z]/.test(token)) {
+      pendingRange = true;
+      continue;
+    }
+    const last = ids[ids.length - 1];
+    if (pendingRange && last !== undefined && subpartIndex(last) >= 0 && subpartIndex(token) > subpartIndex(last)) {
+      for (let i = subpartIndex(last) + 1; i < subpartIndex(token); i++) ids.push(subpartAt(i));
+    }
+    if (subpartIndex(token) >= 0) ids.push(token);
+    pendingRange = false;
+  }
+  return [...new Set(ids)];
+}
+
+/** Numeric order of sections within a part: 1910.21 < 1910.303 < 1910.1000. */
+export function compareCfrSections(a: string, b: string): number {
+  const [partA, numberA] = a.split('.').map(Number);
+  const [partB, numberB] = b.split('.').map(Number);
+  return partA - partB || numberA - numberB;
+}
+
+/** Every 29 CFR 1904/1910/1926 citation in the text, in order of appearance. */
+export function parseCfrCitations(text: string): CfrCitation[] {
+  const found: { start: number; end: number; citation: CfrCitation }[] = [];
+  const add = (m: RegExpMatchArray, citation: CfrCitation | null) => {
+    const start = m.index ?? 0;
+    const title = text.slice(Math.max(0, start - 16), start).match(TITLE_PREFIX_RE)?.[1];
+    if (citation && (title === undefined || title === '29')) found.push({ start, end: start + m[0].length, citation });
+  };
+
+  for (const m of text.matchAll(SECTION_RANGE_RE)) {
+    const [, part, from, toPart, to] = m;
+    const range = { part: part as CfrPart, from: `${part}.${from}`, to: `${part}.${to}` };
+    const valid = (!toPart || toPart === part) && compareCfrSections(range.from, range.to) < 0;
+    add(m, valid ? { kind: 'section-range', ...range } : null);
+  }
+  for (const m of text.matchAll(SECTION_RE)) {
+    const [, part, number, labels] = m;
+    const paragraph = labels.match(/[^()]+/g) ?? [];
+    add(m, { kind: 'section', part: part as CfrPart, section: `${part}.${number}`, paragraph });
+  }
+  for (const m of text.matchAll(PART_SUBPART_RE)) {
+    add(m, { kind: 'subpart', part: m[1] as CfrPart, subparts: expandSubparts(m[2]) });
+  }
+  for (const m of text.matchAll(SUBPART_PART_RE)) {
+    add(m, { kind: 'subpart', part: m[2] as CfrPart, subparts: expandSubparts(m[1]) });
+  }
+
+  // Longest match wins where forms overlap (a range starts with a section)
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  const citations: CfrCitation[] = [];
+  let end = 0;
+  for (const f of found) {
+    if (f.start < end) continue;
+    citations.push(f.citation);
+    end = f.end;
+  }
+  return citations;
+}
+
+/** The first citation in the text; null when it names none. */
+export function parseCfrCitation(text: string): CfrCitation | null {
+  return parseCfrCitations(text)[0] ?? null;
+}
+
+function formatSubparts(subparts: string[]): string {
+  if (subparts.length === 1) return `Subpart ${subparts[0]}`;
+  const contiguous = subparts.every((id, i) => i === 0 || subpartIndex(id) === subpartIndex(subparts[i - 1]) + 1);
+  return contiguous && subparts.length > 2
+    ? `Subparts ${subparts[0]}–${subparts[subparts.length - 1]}`
+    : `Subparts ${subparts.join(', ')}`;
+}
+
+/** Canonical form: "29 CFR 1910.178(l)(4)", "29 CFR 1910.303–1910.399", "29 CFR 1926 Subpart M". */
+export function formatCfrCitation(citation: CfrCitation): string {
+  switch (citation.kind) {
+    case 'section':
+      return `29 CFR ${citation.section}${citation.paragraph.map((l) => `(${l})`).join('')}`;
+    case 'section-range':
+      return `29 CFR ${citation.from}–${citation.to}`;
+    case 'subpart':
+      return `29 CFR ${citation.part} ${formatSubparts(citation.subparts)}`;
+  }
+}
@@ -17,6 +17,36 @@ export const MAX_PROMPT_LENGTH = 4000;
 /** Max completion tokens for script generation (3–6 scenes JSON; caps cost). */
 export const SCRIPT_MAX_TOKENS = 2048;
 
+/** Max rewrite-and-reverify rounds for auto-correcting unverified claims (generate-script). */
+export const AUTO_CORRECT_MAX_ROUNDS = 2;
+
+/** Max source document size for generate-script document mode (DOCX arrives base64-encoded). */
+export const MAX_SOURCE_DOCUMENT_BYTES = 2 * 1024 * 1024;
+
+/** Source document sections are split into chunks of at most this many characters. */
+export const SOURCE_CHUNK_CHARS = 3000;
+
+/** Source text up to this size goes to the script model as-is; larger documents are summarized per chunk. */
+export const SOURCE_DIRECT_CHARS = 12_000;
+
+/** EHS topics with a lower match confidence (0–1) are not used for a prompt. */
+export const TOPIC_MATCH_MIN_CONFIDENCE = 0.3;
+
+/** Max EHS topics matched to one prompt, highest confidence first. */
+export const TOPIC_MATCH_MAX_TOPICS = 5;
+
+/** Missing reference items listed, most severe first, in a script's EHS coverage report. */
+export const COVERAGE_TOP_MISSING = 5;
+
+/** Scenes whose fact-check results POST /api/verify-script keeps, so unchanged scenes are not re-checked. */
+export const VERIFY_CACHE_MAX_SCENES = 500;
+
+/** Knowledge-check questions per quiz when the request doesn't say (generate-quiz). */
+export const QUIZ_DEFAULT_QUESTION_COUNT = 5;
+
+/** Max questions in one quiz (generate-quiz). */
+export const QUIZ_MAX_QUESTION_COUNT = 15;
+
 /** Max characters for TTS text (generate-audio). OpenAI TTS limit is 4096. */
 export const MAX_TTS_TEXT_LENGTH = 4096;
 
@@ -26,6 +56,22 @@ export const MAX_IMAGE_PROMPT_LENGTH = 4000;
 /** Max scenes in a single video (assemble-video). */
 export const MAX_SCENES = 10;
 
+/** Narration pace used to size scripts to a target runtime (words per minute). */
+export const NARRATION_WORDS_PER_MINUTE = 150;
+
+/** Narration pace for languages written without spaces (characters per minute). */
+export const NARRATION_CJK_CHARS_PER_MINUTE = 240;
+
+/** Allowed target runtime range for generate-script (seconds). */
+export const MIN_TARGET_DURATION_SECONDS = 30;
+export const MAX_TARGET_DURATION_SECONDS = 600;
+
+/** Estimated narration may miss the target by this fraction before it is flagged. */
+export const TARGET_DURATION_TOLERANCE = 0.15;
+
+/** Typical narration length per scene when only a target runtime is given (seconds). */
+export const TARGET_SECONDS_PER_SCENE = 20;
+
 /** Max request body size for assemble-video (base64 blobs). 50 MB (Tier 3 video clips are larger). */
 export const MAX_ASSEMBLE_BODY_BYTES = 50 * 1024 * 1024;
 
@@ -90,6 +136,106 @@ export const VOICE_VALUES = [
   'guy', 'jenny', 'aria', 'davis', 'jane', 'jason', 'sara', 'tony', 'nancy', 'andrew', 'emma', 'brian',
 ] as const;
 
+/** Source document formats accepted by generate-script document mode. */
+export const SOURCE_DOCUMENT_FORMAT_VALUES = ['text', 'markdown', 'docx', 'csv'] as const;
+export type SourceDocumentFormat = (typeof SOURCE_DOCUMENT_FORMAT_VALUES)[number];
+
+const SOURCE_DOCUMENT_EXTENSIONS: Record<string, SourceDocumentFormat> = {
+  txt: 'text',
+  text: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  docx: 'docx',
+  csv: 'csv',
+  tsv: 'csv',
+};
+
+/** File input `accept` list for source documents. */
+export const SOURCE_DOCUMENT_ACCEPT = Object.keys(SOURCE_DOCUMENT_EXTENSIONS).map((ext) => `.${ext}`).join(',');
+
+/** Source document format from a file name's extension; null when unsupported. */
+export function getSourceDocumentFormat(fileName: string): SourceDocumentFormat | null {
+  const ext = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return SOURCE_DOCUMENT_EXTENSIONS[ext] ?? null;
+}
+
+export const LANGUAGE_VALUES = ['en', 'es', 'fr', 'vi', 'pt', 'zh'] as const;
+export type LanguageCode = (typeof LANGUAGE_VALUES)[number];
+
+export interface LanguageOption {
+  value: LanguageCode;
+  label: string;
+  /** English name used when instructing the script model */
+  promptName: string;
+  /** Fontconfig family for burned-in captions when FFmpeg's default font lacks the glyphs */
+  captionFont?: string;
+  /** Written without spaces between words: captions wrap by character, not word */
+  cjk?: boolean;
+}
+
+/** Script, narration and caption languages. Image prompts stay in English for the image models. */
+export const LANGUAGES: ReadonlyArray<LanguageOption> = [
+  { value: 'en', label: 'English', promptName: 'English' },
+  { value: 'es', label: 'Español (Spanish)', promptName: 'Spanish' },
+  { value: 'fr', label: 'Français (French)', promptName: 'French' },
+  { value: 'vi', label: 'Tiếng Việt (Vietnamese)', promptName: 'Vietnamese', captionFont: 'Noto Sans' },
+  { value: 'pt', label: 'Português (Portuguese)', promptName: 'Brazilian Portuguese' },
+  { value: 'zh', label: '中文 (Chinese, Simplified)', promptName: 'Simplified Chinese', captionFont: 'Noto Sans CJK SC', cjk: true },
+];
+
+export function getLanguageOption(language: LanguageCode | undefined): LanguageOption {
+  return LANGUAGES.find((l) => l.value === language) ?? LANGUAGES[0];
+}
+
+export const JURISDICTION_VALUES = ['us', 'uk', 'ca', 'eu'] as const;
+export type Jurisdiction = (typeof JURISDICTION_VALUES)[number];
+
+/** Safety sign system: US ANSI Z535 signal-word signs, or ISO 7010 pictogram signs. */
+export type SignStandard = 'ANSI Z535' | 'ISO 7010';
+
+export interface JurisdictionOption {
+  value: Jurisdiction;
+  label: string;
+  /** EHS data pack with this jurisdiction's topic facts, regulatory refs and terminology */
+  pack: string;
+  signStandard: SignStandard;
+  /** Where the video will be used and whose law applies, for the script model */
+  promptName: string;
+  /** Live regulation text is fetched from eCFR (29 CFR), which only covers the US */
+  ecfr?: boolean;
+}
+
+/** Jurisdictions a script can target; each selects its own EHS pack and sign standard. */
+export const JURISDICTIONS: ReadonlyArray<JurisdictionOption> = [
+  { value: 'us', label: 'United States (OSHA / ANSI)', pack: 'us-osha', signStandard: 'ANSI Z535', promptName: 'the United States (OSHA, 29 CFR; ANSI standards)', ecfr: true },
+  { value: 'uk', label: 'United Kingdom (HSE)', pack: 'uk-hse', signStandard: 'ISO 7010', promptName: 'Great Britain (Health and Safety at Work etc. Act 1974 and HSE regulations, ACOPs and guidance)' },
+  { value: 'ca', label: 'Canada (CCOHS / provincial)', pack: 'ca-ccohs', signStandard: 'ISO 7010', promptName: 'Canada (provincial OHS acts and regulations, the Canada Labour Code Part II for federal workplaces, WHMIS and CSA standards)' },
+  { value: 'eu', label: 'European Union (EU-OSHA directives)', pack: 'eu-osha', signStandard: 'ISO 7010', promptName: 'the European Union (Framework Directive 89/391/EEC and its daughter directives as transposed by member states, CLP and EN standards)' },
+];
+
+export const DEFAULT_JURISDICTION: Jurisdiction = 'us';
+
+export function getJurisdictionOption(jurisdiction: Jurisdiction | undefined): JurisdictionOption {
+  return JURISDICTIONS.find((j) => j.value === jurisdiction) ?? JURISDICTIONS[0];
+}
+
+/** US states (and DC) a site can be in; a state-plan state adds its own regulations to eCFR. */
+export const US_STATE_NAMES = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+  HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky',
+  LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio',
+  OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina',
+  SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia',
+  WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+} as const;
+
+export type UsState = keyof typeof US_STATE_NAMES;
+
+export const US_STATE_VALUES = Object.keys(US_STATE_NAMES) as [UsState, ...UsState[]];
+
 export type VoiceCategory = 'authoritative' | 'friendly' | 'professional' | 'warm' | 'energetic';
 
 export interface VoiceOption {
@@ -166,6 +312,16 @@ export const AUDIENCES = [
   { value: 'refresher', label: 'Refresher' },
 ] as const;
 
+/** Target runtime choices in the script form; 0 leaves length to the default scene range. */
+export const TARGET_DURATIONS = [
+  { value: 0, label: 'Default' },
+  { value: 60, label: '1 minute' },
+  { value: 90, label: '90 seconds (toolbox talk)' },
+  { value: 120, label: '2 minutes' },
+  { value: 180, label: '3 minutes' },
+  { value: 300, label: '5 minutes (onboarding)' },
+] as const;
+
 // --- Visual style presets (illustration is default for best narration match) ---
 
 export const VISUAL_STYLE_PRESET_VALUES = [
@@ -212,6 +368,9 @@ export const VISUAL_STYLE_PRESETS: ReadonlyArray<{
 /** Estimated cost per script generation (gpt-4o-mini, ~2k tokens). */
 export const EST_COST_SCRIPT = 0.002;
 
+/** Estimated cost per knowledge-check quiz (gpt-4o-mini, ~3k tokens). */
+export const EST_COST_QUIZ = 0.003;
+
 /** Estimated cost per image by provider. */
 export const EST_COST_IMAGE: Record<string, { standard: number; hd: number }> = {
   'dall-e-3': { standard: 0.04, hd: 0.08 },
@@ -252,3 +411,43 @@ export const TEMPLATES = [
   { label: 'PPE basics', prompt: 'A safety training video about PPE basics: when to wear hard hat, safety glasses, and high-vis vest, and why it matters.' },
   { label: 'Fire evacuation', prompt: 'A safety training video about fire evacuation: knowing exits, not using elevators, and meeting at the assembly point.' },
 ] as const;
+
+/** Directory for persisted video jobs (state, scene assets, final MP4). Override with JOBS_DIR. */
+export const JOBS_DIR = process.env.JOBS_DIR ?? '.data/jobs';
+
+/** Days a completed, failed or cancelled job is kept after its last update. Override with JOB_RETENTION_DAYS. */
+export const JOB_RETENTION_DAYS = Number(process.env.JOB_RETENTION_DAYS) || 30;
+
+/** Directory of bundled EHS data packs (read-only). Override with EHS_PACKS_DIR. */
+export const EHS_PACKS_DIR = process.env.EHS_PACKS_DIR ?? 'data/ehs-packs';
+
+/** Directory for edited EHS packs and their edit history. Override with EHS_DATA_DIR. */
+export const EHS_DATA_DIR = process.env.EHS_DATA_DIR ?? '.data/ehs';
+
+/** EHS data pack used for prompts and validation. Override with EHS_PACK. */
+export const DEFAULT_EHS_PACK = 'us-osha';
+
+/** Directory of bundled regulation text for offline retrieval (read-only). Override with RAG_CORPUS_DIR. */
+export const RAG_CORPUS_DIR = process.env.RAG_CORPUS_DIR ?? 'data/rag-corpus';
+
+/** Directory for the persisted retrieval index built from the corpus. Override with RAG_INDEX_DIR. */
+export const RAG_INDEX_DIR = process.env.RAG_INDEX_DIR ?? '.data/rag';
+
+/** Directory for regulation text fetched from its sources or imported from snapshots. Override with REGULATORY_CACHE_DIR. */
+export const REGULATORY_CACHE_DIR = process.env.REGULATORY_CACHE_DIR ?? '.data/regulations';
+
+/** Where live regulation text comes from: eCFR (29 CFR), state plans, and pending Federal Register rules. */
+export const REGULATORY_SOURCE_VALUES = ['ecfr', 'cal-osha', 'wa-dosh', 'federal-register'] as const;
+export type RegulatorySourceId = (typeof REGULATORY_SOURCE_VALUES)[number];
+
+/** Days after which the newest stored regulation text is reported as stale. Override with REGULATORY_STALE_DAYS. */
+export const REGULATORY_STALE_DAYS = Number(process.env.REGULATORY_STALE_DAYS) || 90;
+
+/** Regulation passages retrieved per prompt or verification request. */
+export const RAG_TOP_K = 4;
+
+/** Max characters per indexed passage; longer paragraphs are split at sentence boundaries. */
+export const RAG_CHUNK_CHARS = 700;
+
+/** Poll interval for video job status on the client (ms); polls count toward the per-IP rate limit. */
+export const JOB_POLL_INTERVAL_MS = 3_000;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { buildCoverageReport, coverageReportToCsv } from '@/lib/ehs-coverage';
+
+const forklift = {
+  id: 'forklift',
+  label: 'Forklift safety',
+  keyFacts: ['Only trained and certified operators may operate forklifts (OSHA 1910.178(l)).'],
+  bestPractices: [
+    'Sound the horn at blind corners, intersections, and when approaching pedestrians.',
+    'Use spotters when visibility is limited; ensure pedestrians stay clear.',
+  ],
+  commonHazards: ['Tip-overs from speeding, sharp turns, or overloaded/uneven loads.'],
+};
+
+const noise = {
+  id: 'hearing-conservation',
+  label: 'Hearing conservation',
+  keyFacts: ['A hearing conservation program is required at 85 dBA averaged over 8 hours.'],
+  bestPractices: ['Roll foam earplugs, then insert them fully.'],
+  commonHazards: [],
+};
+
+describe('ehs-coverage', () => {
+  it('scores each item by the scene that covers most of it, paraphrases included', () => {
+    const report = buildCoverageReport(
+      [
+        { narration: 'Only certified, trained operators can drive a lift truck.', imagePrompt: 'Operator with badge' },
+        { narration: 'Honk the horn at blind corners and intersections.', imagePrompt: 'Forklift at a corner' },
+        { narration: 'Take sharp turns slowly.', imagePrompt: 'Warehouse aisle' },
+      ],
+      [forklift]
+    );
+    const [topic] = report.topics;
+    expect(topic.items.map((i) => [i.kind, i.status, i.sceneIndices])).toEqual([
+      ['keyFact', 'covered', [0]],
+      ['commonHazard', 'partial', [2]],
+      ['bestPractice', 'covered', [1]],
+      ['bestPractice', 'missing', []],
+    ]);
+    expect(topic.percent).toBe(63);
+    expect(report.percent).toBe(63);
+  });
+
+  it('ranks missing items by severity, then topic order', () => {
+    const report = buildCoverageReport([{ narration: 'Watch for pedestrians.', imagePrompt: 'Warehouse' }], [forklift, noise]);
+    expect(report.topMissing.map((i) => [i.topicId, i.severity])).toEqual([
+      ['forklift', 'high'],
+      ['hearing-conservation', 'high'],
+      ['forklift', 'medium'],
+      ['forklift', 'low'],
+      ['forklift', 'low'],
+    ]);
+    expect(report.percent).toBe(0);
+  });
+
+  it('exports one CSV row per item with quoted text', () => {
+    const report = buildCoverageReport([{ narration: 'Roll your foam earplugs and insert them fully.', imagePrompt: 'Earplugs' }], [noise]);
+    const lines = coverageReportToCsv(report).trim().split('\n');
+    expect(lines).toEqual([
+      'topic,kind,severity,status,score,scenes,item',
+      'Hearing conservation,keyFact,high,missing,0,,A hearing conservation program is required at 85 dBA averaged over 8 hours.',
+      'Hearing conservation,bestPractice,low,covered,1,1,"Roll foam earplugs, then insert them fully."',
+      'Overall,,,,50%,,',
+    ]);
+  });
+});
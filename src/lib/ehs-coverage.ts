@@ -0,0 +1,108 @@
+/**
+ * EHS coverage report: which key facts, best practices and common hazards of the matched topics
+ * a script addresses, an overall percentage, and the most severe gaps.
+ *
+ * Items are compared with each scene (narration and image prompt) as content terms, the way
+ * myth detection compares sentences: stems, with paraphrases and topic synonyms mapped onto one
+ * term, so "slow down around people on foot" addresses "slow down near pedestrians". Regulation
+ * references in parentheses are ignored. An item is covered when one scene holds half its terms,
+ * and partially covered when a scene holds a quarter of them or the script as a whole holds half.
+ *
+ * Client-safe: topics are passed in, so the editor can export the report as CSV.
+ */
+
+import { COVERAGE_TOP_MISSING } from '@/lib/constants';
+import { contentTerms } from '@/lib/myth-detection';
+import type { EHSTopic } from '@/lib/ehs-reference';
+import type { EHSCoverageItem, EHSCoverageReport, EHSTopicCoverage, Scene } from '@/lib/types';
+
+/** Share of an item's terms one scene must hold for the item to count as covered. */
+const COVERED_SCORE = 0.5;
+/** Share of an item's terms one scene must hold for partial coverage. */
+const PARTIAL_SCORE = 0.25;
+/** Terms a scene must share with a multi-word item to count toward it at all. */
+const MIN_SHARED_TERMS = 2;
+
+const KINDS = [
+  { kind: 'keyFact', field: 'keyFacts', severity: 'high' },
+  { kind: 'commonHazard', field: 'commonHazards', severity: 'medium' },
+  { kind: 'bestPractice', field: 'bestPractices', severity: 'low' },
+] as const;
+
+const SEVERITY_RANK: Record<EHSCoverageItem['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+function itemScore(itemTerms: Set<string>, sceneTerms: Set<string>): number {
+  let shared = 0;
+  for (const t of itemTerms) if (sceneTerms.has(t)) shared++;
+  if (shared < Math.min(MIN_SHARED_TERMS, itemTerms.size)) return 0;
+  return shared / itemTerms.size;
+}
+
+function percentOf(items: EHSCoverageItem[]): number {
+  if (items.length === 0) return 100;
+  const points = items.reduce((sum, i) => sum + (i.status === 'covered' ? 1 : i.status === 'partial' ? 0.5 : 0), 0);
+  return Math.round((points / items.length) * 100);
+}
+
+/** Coverage of `topics` (in match order) by the script's scenes. */
+export function buildCoverageReport(
+  scenes: Pick<Scene, 'narration' | 'imagePrompt'>[],
+  topics: Pick<EHSTopic, 'id' | 'label' | 'keyFacts' | 'bestPractices' | 'commonHazards'>[]
+): EHSCoverageReport {
+  const sceneTerms = scenes.map((s) => contentTerms(`${s.narration ?? ''}\n${s.imagePrompt ?? ''}`));
+  const scriptTerms = new Set(sceneTerms.flatMap((t) => [...t]));
+
+  const topicCoverage: EHSTopicCoverage[] = topics.map((topic) => {
+    const items: EHSCoverageItem[] = [];
+    for (const { kind, field, severity } of KINDS) {
+      for (const text of topic[field]) {
+        const terms = contentTerms(text.replace(/\([^)]*\)/g, ' '));
+        if (terms.size === 0) continue;
+        const scores = sceneTerms.map((s) => itemScore(terms, s));
+        const score = Math.max(0, ...scores);
+        const status =
+          score >= COVERED_SCORE
+            ? 'covered'
+            : score >= PARTIAL_SCORE || itemScore(terms, scriptTerms) >= COVERED_SCORE
+              ? 'partial'
+              : 'missing';
+        const sceneIndices = scores.flatMap((s, i) => (s >= PARTIAL_SCORE ? [i] : []));
+        items.push({ topicId: topic.id, kind, severity, text, status, score: Math.round(score * 100) / 100, sceneIndices });
+      }
+    }
+    return { topicId: topic.id, label: topic.label, percent: percentOf(items), items };
+  });
+
+  const allItems = topicCoverage.flatMap((t) => t.items);
+  // Stable sort keeps topic order (best match first) and pack order within a severity
+  const topMissing = allItems
+    .filter((i) => i.status === 'missing')
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])
+    .slice(0, COVERAGE_TOP_MISSING);
+  return { percent: percentOf(allItems), topics: topicCoverage, topMissing };
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** The report as CSV, one row per item, for sign-off outside the app. */
+export function coverageReportToCsv(report: EHSCoverageReport): string {
+  const rows: (string | number)[][] = [['topic', 'kind', 'severity', 'status', 'score', 'scenes', 'item']];
+  for (const topic of report.topics) {
+    for (const item of topic.items) {
+      rows.push([
+        topic.label,
+        item.kind,
+        item.severity,
+        item.status,
+        item.score,
+        item.sceneIndices.map((i) => i + 1).join(' '),
+        item.text,
+      ]);
+    }
+  }
+  rows.push(['Overall', '', '', '', `${report.percent}%`, '', '']);
+  return `${rows.map((r) => r.map(csvCell).join(',')).join('\n')}\n`;
+}
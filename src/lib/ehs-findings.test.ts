@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyFindingReplacement,
+  findPhraseSpans,
+  locateEhsFindings,
+  resolveFindingSpan,
+  withSceneFindings,
+} from '@/lib/ehs-findings';
+
+const validation = {
+  topicIds: ['ppe', 'forklift'],
+  warnings: ['Possible myth or avoid-phrase in content: ride on the forks'],
+  mythsFlagged: ['ride on the forks'],
+  terminologySuggestions: [
+    { found: 'high-visibility vest', prefer: 'hi-vis' },
+    { found: 'high-visibility', prefer: 'hi-vis' },
+  ],
+  missingRecommendations: [],
+};
+
+describe('ehs-findings', () => {
+  it('finds phrases ignoring case, punctuation and spacing, with offsets into the original text', () => {
+    const text = 'Never  RIDE on the forks. Riders on-the-forks fall.';
+    expect(findPhraseSpans(text, 'ride on the forks')).toEqual([{ start: 7, end: 24 }]);
+    expect(findPhraseSpans('Wear a High Visibility vest!', 'high-visibility vest')).toEqual([{ start: 7, end: 27 }]);
+    expect(findPhraseSpans('anything', '...')).toEqual([]);
+  });
+
+  it('locates myths and terms per scene and field, longest term first', () => {
+    const findings = locateEhsFindings(
+      [
+        { narration: 'Put on your High-Visibility Vest.', imagePrompt: 'Worker in a high-visibility jacket' },
+        { narration: 'You may ride on the forks if careful.', imagePrompt: 'Forklift' },
+      ],
+      validation
+    );
+    expect(findings).toEqual([
+      {
+        sceneIndex: 0,
+        field: 'narration',
+        kind: 'terminology',
+        start: 12,
+        end: 32,
+        text: 'High-Visibility Vest',
+        match: 'high-visibility vest',
+        replacement: 'Hi-vis',
+      },
+      {
+        sceneIndex: 0,
+        field: 'imagePrompt',
+        kind: 'terminology',
+        start: 12,
+        end: 27,
+        text: 'high-visibility',
+        match: 'high-visibility',
+        replacement: 'hi-vis',
+      },
+      {
+        sceneIndex: 1,
+        field: 'narration',
+        kind: 'myth',
+        start: 8,
+        end: 25,
+        text: 'ride on the forks',
+        match: 'ride on the forks',
+      },
+    ]);
+  });
+
+  it('replaces findings and omits an empty findings list', () => {
+    const scenes = [{ narration: 'Put on your high-visibility vest.', imagePrompt: 'Worker' }];
+    const located = withSceneFindings(validation, scenes);
+    const [finding] = located!.sceneFindings!;
+    expect(applyFindingReplacement(scenes[0].narration, finding)).toBe('Put on your hi-vis.');
+    expect(withSceneFindings(validation, [{ narration: 'Wear hi-vis.', imagePrompt: 'Worker' }])).not.toHaveProperty(
+      'sceneFindings'
+    );
+  });
+
+  it('re-resolves spans after the text was edited', () => {
+    const finding = { start: 12, end: 32, text: 'high-visibility vest', replacement: 'hi-vis' };
+    const edited = 'First, always put on your high-visibility vest.';
+    expect(resolveFindingSpan(edited, finding)).toEqual({ start: 26, end: 46 });
+    expect(applyFindingReplacement(edited, finding)).toBe('First, always put on your hi-vis.');
+    expect(resolveFindingSpan('Put on your hi-vis.', finding)).toBeNull();
+    expect(applyFindingReplacement('Put on your hi-vis.', finding)).toBe('Put on your hi-vis.');
+  });
+});
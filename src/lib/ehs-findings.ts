@@ -0,0 +1,140 @@
+/**
+ * Locates EHS validation findings in the script: where each flagged myth and avoided term
+ * occurs, per scene and field, as character offsets the editor can highlight and replace.
+ *
+ * Terms match the way validateContentAgainstReference matches them (case, punctuation and
+ * runs of whitespace ignored). Myths are found the way it flags them, with detectMyths: each
+ * sentence that endorses a flagged myth gets a span, narrowed to the myth's own words when it
+ * quotes them. Client-safe: no filesystem or pack access, so the editor can re-resolve spans
+ * after edits.
+ */
+
+import { detectMyths } from '@/lib/myth-detection';
+import type { EHSSceneFinding, EHSValidation, Scene } from '@/lib/types';
+
+const FIELDS = ['narration', 'imagePrompt'] as const;
+
+/** Lowercased text with punctuation and whitespace runs collapsed to one space, plus the source index of each character. */
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (/\w/.test(ch)) {
+      for (const c of ch.toLowerCase()) {
+        normalized += c;
+        offsets.push(i);
+      }
+    } else if (normalized.length > 0 && !normalized.endsWith(' ')) {
+      normalized += ' ';
+      offsets.push(i);
+    }
+  }
+  if (normalized.endsWith(' ')) {
+    normalized = normalized.slice(0, -1);
+    offsets.pop();
+  }
+  return { normalized, offsets };
+}
+
+/** Non-overlapping spans of `phrase` in `text`, first to last. */
+export function findPhraseSpans(text: string, phrase: string): { start: number; end: number }[] {
+  const needle = normalizeWithOffsets(phrase).normalized;
+  if (!needle) return [];
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const spans: { start: number; end: number }[] = [];
+  let from = 0;
+  for (;;) {
+    const at = normalized.indexOf(needle, from);
+    if (at === -1) break;
+    spans.push({ start: offsets[at], end: offsets[at + needle.length - 1] + 1 });
+    from = at + needle.length;
+  }
+  return spans;
+}
+
+/** `preferred` cased like `found`: all caps stays all caps, a leading capital is kept. */
+function matchCase(found: string, preferred: string): string {
+  if (/[a-z]/i.test(found) && found === found.toUpperCase()) return preferred.toUpperCase();
+  if (/^[A-Z]/.test(found)) return preferred.charAt(0).toUpperCase() + preferred.slice(1);
+  return preferred;
+}
+
+/** Every occurrence of the validation's flagged myths and terms, in scene, field and text order. */
+export function locateEhsFindings(
+  scenes: Pick<Scene, 'narration' | 'imagePrompt'>[],
+  validation: Pick<EHSValidation, 'mythsFlagged' | 'terminologySuggestions'>
+): EHSSceneFinding[] {
+  const findings: EHSSceneFinding[] = [];
+  scenes.forEach((scene, sceneIndex) => {
+    for (const field of FIELDS) {
+      const text = scene[field] ?? '';
+      if (!text) continue;
+      const candidates: EHSSceneFinding[] = [];
+      for (const { myth, sentence, start: at, end: sentenceEnd, stance } of detectMyths(text, validation.mythsFlagged)) {
+        if (stance !== 'endorses') continue;
+        const quoted = findPhraseSpans(sentence, myth).map((s) => ({ start: at + s.start, end: at + s.end }));
+        for (const { start, end } of quoted.length > 0 ? quoted : [{ start: at, end: sentenceEnd }]) {
+          candidates.push({ sceneIndex, field, kind: 'myth', start, end, text: text.slice(start, end), match: myth });
+        }
+      }
+      for (const { found, prefer } of validation.terminologySuggestions) {
+        for (const { start, end } of findPhraseSpans(text, found)) {
+          const matched = text.slice(start, end);
+          candidates.push({
+            sceneIndex,
+            field,
+            kind: 'terminology',
+            start,
+            end,
+            text: matched,
+            match: found,
+            replacement: matchCase(matched, prefer),
+          });
+        }
+      }
+      // Longest first at each position; a span inside another of the same kind adds nothing
+      candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+      const kept: EHSSceneFinding[] = [];
+      for (const c of candidates) {
+        if (kept.some((k) => k.kind === c.kind && k.start <= c.start && c.end <= k.end)) continue;
+        kept.push(c);
+      }
+      findings.push(...kept);
+    }
+  });
+  return findings;
+}
+
+/** The validation with `sceneFindings` located in `scenes`; omitted when nothing is found. */
+export function withSceneFindings(
+  validation: EHSValidation | undefined,
+  scenes: Pick<Scene, 'narration' | 'imagePrompt'>[]
+): EHSValidation | undefined {
+  if (!validation) return undefined;
+  const { sceneFindings: _previous, ...rest } = validation;
+  const sceneFindings = locateEhsFindings(scenes, validation);
+  return sceneFindings.length > 0 ? { ...rest, sceneFindings } : rest;
+}
+
+/**
+ * Where `finding` is in `text` now: its recorded span if the text there is unchanged, else
+ * the first occurrence of the flagged text (the scene was edited), else null.
+ */
+export function resolveFindingSpan(
+  text: string,
+  finding: Pick<EHSSceneFinding, 'start' | 'end' | 'text'>
+): { start: number; end: number } | null {
+  if (text.slice(finding.start, finding.end) === finding.text) return { start: finding.start, end: finding.end };
+  return findPhraseSpans(text, finding.text)[0] ?? null;
+}
+
+/** `text` with a terminology finding replaced by its preferred term; unchanged when it is no longer there. */
+export function applyFindingReplacement(
+  text: string,
+  finding: Pick<EHSSceneFinding, 'start' | 'end' | 'text' | 'replacement'>
+): string {
+  const span = resolveFindingSpan(text, finding);
+  if (!span || finding.replacement === undefined) return text;
+  return text.slice(0, span.start) + finding.replacement + text.slice(span.end);
+}
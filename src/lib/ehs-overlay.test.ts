@@ -0,0 +1,125 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EHSOverlayError, applyEHSOverlay, loadEHSOverlayFile, type EHSOverlay } from './ehs-overlay';
+import { getActiveEHSPackVersion } from './ehs-packs';
+import { getContextForPrompt, getEHSOverlayConflicts, validateContentAgainstReference } from './ehs-reference';
+import type { EHSTopic } from './ehs-reference';
+
+const base: EHSTopic = {
+  id: 'forklift',
+  label: 'Forklift safety',
+  keywords: ['forklift'],
+  keyFacts: ['Only trained operators may drive forklifts.'],
+  bestPractices: ['Sound the horn at blind corners.', 'Use spotters when visibility is limited.'],
+  commonHazards: [],
+  regulatoryRefs: [],
+  correctTerminology: [{ preferred: 'assembly point', avoid: ['meeting point'] }],
+  mythsOrAvoid: ['It is okay to give a coworker a ride on the forks.'],
+  shouldMention: ['horn', 'speed'],
+};
+
+const overlay = (topics: EHSOverlay['topics']): EHSOverlay => ({
+  id: 'plant-3',
+  version: '1.0.0',
+  name: 'Plant 3',
+  topics,
+});
+
+describe('ehs-overlay', () => {
+  describe('applyEHSOverlay', () => {
+    it('extends fields with site rules first and records them in siteRules', () => {
+      const { topics, conflicts } = applyEHSOverlay(
+        [base],
+        overlay({
+          forklift: {
+            keyFacts: { add: ['Forklift speed is limited to 5 mph on site.'] },
+            shouldMention: { add: ['5 mph'], remove: ['speed'] },
+          },
+        })
+      );
+      expect(topics[0].keyFacts).toEqual(['Forklift speed is limited to 5 mph on site.', ...base.keyFacts]);
+      expect(topics[0].shouldMention).toEqual(['5 mph', 'horn']);
+      expect(topics[0].siteRules).toEqual(['Forklift speed is limited to 5 mph on site.']);
+      expect(conflicts).toEqual([expect.objectContaining({ kind: 'overrides_base', field: 'shouldMention', baseText: 'speed' })]);
+    });
+
+    it('overrides a field with replace and reports each dropped base entry', () => {
+      const { topics, conflicts } = applyEHSOverlay(
+        [base],
+        overlay({ forklift: { bestPractices: { replace: ['A spotter is mandatory when reversing.', 'Sound the horn at blind corners.'] } } })
+      );
+      expect(topics[0].bestPractices).toHaveLength(2);
+      expect(topics[0].siteRules).toEqual(['A spotter is mandatory when reversing.']);
+      expect(conflicts.map((c) => c.baseText)).toEqual(['Use spotters when visibility is limited.']);
+    });
+
+    it('reports contradictions, terminology clashes and unknown topics', () => {
+      const { conflicts } = applyEHSOverlay(
+        [base],
+        overlay({
+          forklift: {
+            bestPractices: { add: ['It is okay to give a coworker a ride on the forks for short trips.'] },
+            mythsOrAvoid: { add: ['Only trained operators may drive forklifts'] },
+            correctTerminology: { add: [{ preferred: 'muster point', avoid: ['assembly point'] }] },
+            shouldMention: { remove: ['seatbelt'] },
+          },
+          cranes: { keyFacts: { add: ['Crane lifts need a permit.'] } },
+        })
+      );
+      expect(conflicts.map((c) => c.kind).sort()).toEqual([
+        'contradicts_base',
+        'endorses_base_myth',
+        'not_in_base',
+        'terminology',
+        'unknown_topic',
+      ]);
+    });
+
+    it('returns the base topics unchanged without an overlay', () => {
+      expect(applyEHSOverlay([base], null)).toEqual({ topics: [base], conflicts: [] });
+    });
+  });
+
+  describe('loadEHSOverlayFile', () => {
+    it('rejects replace combined with add', () => {
+      const file = join(mkdtempSync(join(tmpdir(), 'ehs-overlay-')), 'bad.json');
+      writeFileSync(
+        file,
+        JSON.stringify(overlay({ forklift: { keyFacts: { add: ['a'], replace: ['b'] } } }))
+      );
+      expect(() => loadEHSOverlayFile(file)).toThrow(EHSOverlayError);
+    });
+  });
+
+  describe('active overlay (EHS_OVERLAY_FILE)', () => {
+    const origEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...origEnv, EHS_OVERLAY_FILE: 'data/ehs-overlays/example-plant.yaml' };
+    });
+
+    afterEach(() => {
+      process.env = origEnv;
+    });
+
+    it('feeds site rules into prompt context and validation', () => {
+      expect(getContextForPrompt('forklift safety')).toContain('Site rules');
+      expect(getContextForPrompt('forklift safety')).toContain('5 mph');
+
+      const result = validateContentAgainstReference('Walk to the assembly point when the fire alarm sounds.', {
+        topicIds: ['fire-evacuation'],
+      });
+      expect(result.terminologySuggestions).toContainEqual({ found: 'assembly point', prefer: 'muster point' });
+      expect(result.missingRecommendations.join(' ')).toContain('muster point');
+    });
+
+    it('records the overlay version and reports conflicts with the base pack', () => {
+      expect(getActiveEHSPackVersion().overlay).toEqual({ id: 'example-plant', version: '1.0.0' });
+      expect(getEHSOverlayConflicts()).toContainEqual(
+        expect.objectContaining({ topicId: 'fire-evacuation', kind: 'terminology', overlayText: 'assembly point' })
+      );
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Org site-rule overlay: per-topic changes layered over the active EHS data pack, for plants
+ * whose rules are stricter than the general OSHA/ANSI reference (e.g. a 5 mph forklift limit,
+ * named muster points, mandatory spotters).
+ *
+ * EHS_OVERLAY_FILE points at one JSON or YAML overlay (see data/ehs-overlays/). For each topic
+ * it can extend (add/remove) or override (replace) keyFacts, bestPractices, mythsOrAvoid,
+ * shouldMention and correctTerminology. The merged topics feed prompt context and validation;
+ * places where the overlay drops or contradicts the base reference are reported as conflicts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ehsOverlaySchema, type EHSOverlayData } from '@/lib/schemas';
+import type { EHSTopic } from '@/lib/ehs-reference';
+
+export type EHSOverlay = EHSOverlayData;
+
+export type EHSOverlayField =
+  | 'keyFacts'
+  | 'bestPractices'
+  | 'mythsOrAvoid'
+  | 'shouldMention'
+  | 'correctTerminology';
+
+/**
+ * Where the overlay departs from the base reference:
+ * - unknown_topic: the overlay names a topic the pack doesn't have (ignored)
+ * - not_in_base: a `remove` entry matches nothing in the base topic
+ * - overrides_base: a base entry is dropped by `remove` or `replace`
+ * - endorses_base_myth: a site fact, practice or point matches a base myth
+ * - contradicts_base: a site myth matches a base fact, practice or point
+ * - terminology: a site preferred term is one the base says to avoid, or the reverse
+ */
+export interface EHSOverlayConflict {
+  topicId: string;
+  field?: EHSOverlayField;
+  kind:
+    | 'unknown_topic'
+    | 'not_in_base'
+    | 'overrides_base'
+    | 'endorses_base_myth'
+    | 'contradicts_base'
+    | 'terminology';
+  overlayText?: string;
+  baseText?: string;
+  message: string;
+}
+
+/** An overlay file that is unreadable or fails validation. */
+export class EHSOverlayError extends Error {
+  constructor(
+    readonly filePath: string,
+    readonly issues: string[]
+  ) {
+    super(`Invalid EHS site-rule overlay ${filePath}: ${issues.join('; ')}`);
+    this.name = 'EHSOverlayError';
+  }
+}
+
+/** Reads and validates one overlay file (JSON, or YAML by extension). */
+export function loadEHSOverlayFile(filePath: string): EHSOverlay {
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(filePath, 'utf8');
+    raw = /\.ya?ml$/i.test(filePath) ? parseYaml(text) : JSON.parse(text);
+  } catch (e) {
+    throw new EHSOverlayError(filePath, [e instanceof Error ? e.message : String(e)]);
+  }
+  const result = ehsOverlaySchema.safeParse(raw);
+  if (!result.success) {
+    throw new EHSOverlayError(
+      filePath,
+      result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+    );
+  }
+  return result.data;
+}
+
+let cache: { filePath: string; overlay: EHSOverlay } | null = null;
+
+/** The overlay named by EHS_OVERLAY_FILE, or null when none is configured. */
+export function getActiveEHSOverlay(): EHSOverlay | null {
+  const file = process.env.EHS_OVERLAY_FILE?.trim();
+  if (!file) return null;
+  const filePath = path.resolve(file);
+  if (cache?.filePath !== filePath) cache = { filePath, overlay: loadEHSOverlayFile(filePath) };
+  return cache.overlay;
+}
+
+function normalize(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const STOPWORDS = new Set(['the', 'and', 'for', 'are', 'you', 'your', 'with', 'that', 'this', 'from', 'when']);
+
+function contentWords(s: string): Set<string> {
+  return new Set(normalize(s).split(' ').filter((w) => w.length >= 3 && !STOPWORDS.has(w)));
+}
+
+/** Same statement in other words: one contains the other, or most content words are shared. */
+function sameStatement(a: string, b: string): boolean {
+  const na = normalize(a);
+  const nb = normalize(b);
+  const [shorter, longer] = na.length <= nb.length ? [na, nb] : [nb, na];
+  if (shorter.length >= 10 && longer.includes(shorter)) return true;
+  const wa = contentWords(a);
+  const wb = contentWords(b);
+  if (wa.size === 0 || wb.size === 0) return false;
+  const shared = [...wa].filter((w) => wb.has(w)).length;
+  return shared / (wa.size + wb.size - shared) >= 0.6;
+}
+
+type Term = EHSTopic['correctTerminology'][number];
+type ListPatch<T> = { add?: T[]; remove?: string[]; replace?: T[] };
+
+/** Applies one field patch; overlay entries come first so they survive prompt truncation. */
+function patchList<T extends string | Term>(
+  topicId: string,
+  field: EHSOverlayField,
+  base: T[],
+  patch: ListPatch<T> | undefined,
+  conflicts: EHSOverlayConflict[]
+): { merged: T[]; added: T[] } {
+  if (!patch) return { merged: base, added: [] };
+  const keyOf = (entry: T) => normalize(typeof entry === 'string' ? entry : entry.preferred);
+
+  if (patch.replace) {
+    const kept = new Set(patch.replace.map(keyOf));
+    for (const entry of base) {
+      if (kept.has(keyOf(entry))) continue;
+      const text = typeof entry === 'string' ? entry : entry.preferred;
+      conflicts.push({
+        topicId,
+        field,
+        kind: 'overrides_base',
+        baseText: text,
+        message: `Site rules replace ${field}; base entry dropped: "${text}"`,
+      });
+    }
+    const inBase = new Set(base.map(keyOf));
+    return { merged: patch.replace, added: patch.replace.filter((entry) => !inBase.has(keyOf(entry))) };
+  }
+
+  const removed = new Set((patch.remove ?? []).map(normalize));
+  for (const text of patch.remove ?? []) {
+    const found = base.some((entry) => keyOf(entry) === normalize(text));
+    conflicts.push(
+      found
+        ? { topicId, field, kind: 'overrides_base', baseText: text, message: `Site rules remove ${field} entry "${text}"` }
+        : { topicId, field, kind: 'not_in_base', overlayText: text, message: `Remove entry "${text}" not found in ${field}` }
+    );
+  }
+  const added = (patch.add ?? []).filter((entry) => !base.some((b) => keyOf(b) === keyOf(entry)));
+  return { merged: [...added, ...base.filter((entry) => !removed.has(keyOf(entry)))], added };
+}
+
+function findContradictions(base: EHSTopic, merged: EHSTopic, conflicts: EHSOverlayConflict[]): void {
+  const siteStatements = (field: 'keyFacts' | 'bestPractices' | 'shouldMention') =>
+    merged[field].filter((s) => !base[field].includes(s)).map((text) => ({ field, text }));
+
+  for (const { field, text } of [
+    ...siteStatements('keyFacts'),
+    ...siteStatements('bestPractices'),
+    ...siteStatements('shouldMention'),
+  ]) {
+    const myth = base.mythsOrAvoid.find((m) => sameStatement(text, m));
+    if (myth) {
+      conflicts.push({
+        topicId: base.id,
+        field,
+        kind: 'endorses_base_myth',
+        overlayText: text,
+        baseText: myth,
+        message: `Site rule "${text}" matches base myth "${myth}"`,
+      });
+    }
+  }
+
+  const baseStatements = [...base.keyFacts, ...base.bestPractices, ...base.shouldMention];
+  for (const myth of merged.mythsOrAvoid.filter((m) => !base.mythsOrAvoid.includes(m))) {
+    const fact = baseStatements.find((s) => sameStatement(myth, s));
+    if (fact) {
+      conflicts.push({
+        topicId: base.id,
+        field: 'mythsOrAvoid',
+        kind: 'contradicts_base',
+        overlayText: myth,
+        baseText: fact,
+        message: `Site myth "${myth}" contradicts base reference "${fact}"`,
+      });
+    }
+  }
+
+  const baseAvoid = new Set(base.correctTerminology.flatMap((t) => t.avoid ?? []).map(normalize));
+  const basePreferred = new Set(base.correctTerminology.map((t) => normalize(t.preferred)));
+  for (const term of merged.correctTerminology.filter((t) => !base.correctTerminology.includes(t))) {
+    if (baseAvoid.has(normalize(term.preferred))) {
+      conflicts.push({
+        topicId: base.id,
+        field: 'correctTerminology',
+        kind: 'terminology',
+        overlayText: term.preferred,
+        message: `Site preferred term "${term.preferred}" is one the base reference says to avoid`,
+      });
+    }
+    for (const avoid of term.avoid ?? []) {
+      if (basePreferred.has(normalize(avoid))) {
+        conflicts.push({
+          topicId: base.id,
+          field: 'correctTerminology',
+          kind: 'terminology',
+          overlayText: avoid,
+          baseText: avoid,
+          message: `Site rules avoid "${avoid}", which the base reference prefers`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Merges `overlay` into the base topics. Overlay facts and practices are also collected in
+ * `siteRules` so prompts can present them as site requirements.
+ */
+export function applyEHSOverlay(
+  topics: EHSTopic[],
+  overlay: EHSOverlay | null
+): { topics: EHSTopic[]; conflicts: EHSOverlayConflict[] } {
+  if (!overlay) return { topics, conflicts: [] };
+  const conflicts: EHSOverlayConflict[] = [];
+  const known = new Set(topics.map((t) => t.id));
+  for (const topicId of Object.keys(overlay.topics)) {
+    if (!known.has(topicId)) {
+      conflicts.push({ topicId, kind: 'unknown_topic', message: `Overlay topic "${topicId}" is not in the data pack` });
+    }
+  }
+
+  const merged = topics.map((base) => {
+    const patch = overlay.topics[base.id];
+    if (!patch) return base;
+    const list = <T extends string | Term>(field: EHSOverlayField, values: T[], p: ListPatch<T> | undefined) =>
+      patchList(base.id, field, values, p, conflicts);
+    const keyFacts = list('keyFacts', base.keyFacts, patch.keyFacts);
+    const bestPractices = list('bestPractices', base.bestPractices, patch.bestPractices);
+    const topic: EHSTopic = {
+      ...base,
+      keyFacts: keyFacts.merged,
+      bestPractices: bestPractices.merged,
+      mythsOrAvoid: list('mythsOrAvoid', base.mythsOrAvoid, patch.mythsOrAvoid).merged,
+      shouldMention: list('shouldMention', base.shouldMention, patch.shouldMention).merged,
+      correctTerminology: list('correctTerminology', base.correctTerminology, patch.correctTerminology).merged,
+    };
+    const siteRules = [...keyFacts.added, ...bestPractices.added];
+    if (siteRules.length) topic.siteRules = siteRules;
+    findContradictions(base, topic, conflicts);
+    return topic;
+  });
+  return { topics: merged, conflicts };
+}
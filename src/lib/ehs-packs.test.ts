@@ -0,0 +1,176 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { JURISDICTIONS } from './constants';
+import {
+  EHSPackError,
+  createEHSTopic,
+  deleteEHSTopic,
+  getActiveEHSPack,
+  getActiveEHSPackVersion,
+  getEHSPackConflicts,
+  getEHSPackForJurisdiction,
+  getEHSTopicHistory,
+  loadEHSPackFile,
+  updateEHSTopic,
+} from './ehs-packs';
+import { getAllEHSTopics, getContextForPrompt, validateContentAgainstReference } from './ehs-reference';
+import type { EHSTopic } from './ehs-reference';
+
+const topic: EHSTopic = {
+  id: 'ladders',
+  label: 'Ladder safety',
+  keywords: ['ladder'],
+  keyFacts: ['Maintain three points of contact.'],
+  bestPractices: ['Face the ladder when climbing.'],
+  commonHazards: ['Falls from overreaching.'],
+  regulatoryRefs: [{ name: 'OSHA 1910.23' }],
+  correctTerminology: [],
+  mythsOrAvoid: [],
+  shouldMention: ['contact'],
+};
+
+const yamlPack = `id: site-pack
+version: 2.1.0
+name: Site pack
+topics:
+  - id: ladders
+    label: Ladder safety
+    keywords: [ladder]
+    keyFacts: [Maintain three points of contact.]
+    bestPractices: []
+    commonHazards: []
+    regulatoryRefs: [{ name: OSHA 1910.23 }]
+    correctTerminology: []
+    mythsOrAvoid: []
+    shouldMention: []
+`;
+
+describe('ehs-packs', () => {
+  const origEnv = process.env;
+  let packsDir: string;
+
+  beforeEach(() => {
+    packsDir = mkdtempSync(join(tmpdir(), 'ehs-packs-'));
+    process.env = {
+      ...origEnv,
+      EHS_PACKS_DIR: packsDir,
+      EHS_DATA_DIR: mkdtempSync(join(tmpdir(), 'ehs-data-')),
+      EHS_PACK: 'site-pack',
+    };
+    writeFileSync(join(packsDir, 'site-pack.yaml'), yamlPack);
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
+  });
+
+  it('loads the bundled us-osha pack by default', () => {
+    process.env = origEnv;
+    const pack = getActiveEHSPack();
+    expect(pack.id).toBe('us-osha');
+    expect(pack.topics.some((t) => t.id === 'forklift')).toBe(true);
+  });
+
+  it('bundles a valid pack for every jurisdiction', () => {
+    process.env = origEnv;
+    for (const option of JURISDICTIONS) {
+      const pack = getEHSPackForJurisdiction(option.value);
+      expect(pack.id).toBe(option.pack);
+      expect(pack.jurisdiction ?? 'us').toBe(option.value);
+    }
+    expect(getActiveEHSPackVersion('uk')).toEqual({ id: 'uk-hse', version: '1.0.0' });
+  });
+
+  it('serves jurisdiction-specific facts and terminology', () => {
+    process.env = origEnv;
+    const context = getContextForPrompt('Forklift safety in the warehouse', 'uk');
+    expect(context).toContain('UK HSE');
+    expect(context).toContain('LOLER');
+    expect(context).not.toContain('1910.178');
+
+    const validation = validateContentAgainstReference(
+      'Everyone in the yard wears a high-visibility vest and a hard hat.',
+      { topicIds: ['ppe'], jurisdiction: 'uk' }
+    );
+    expect(validation.terminologySuggestions).toContainEqual({ found: 'high-visibility vest', prefer: 'hi-vis' });
+  });
+
+  it('loads YAML packs and serves their topics to the reference', () => {
+    expect(getActiveEHSPack()).toMatchObject({ id: 'site-pack', version: '2.1.0' });
+    expect(getAllEHSTopics().map((t) => t.id)).toEqual(['ladders']);
+  });
+
+  it('reports every validation issue with its path', () => {
+    const file = join(packsDir, 'bad.json');
+    writeFileSync(
+      file,
+      JSON.stringify({ id: 'bad', version: '1', name: 'Bad', topics: [{ ...topic, keywords: [] }, topic] })
+    );
+    try {
+      loadEHSPackFile(file);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(EHSPackError);
+      const issues = (e as EHSPackError).issues.join('\n');
+      expect(issues).toContain('version');
+      expect(issues).toContain('topics.0.keywords');
+      expect(issues).toContain('duplicate topic id "ladders"');
+    }
+  });
+
+  it('bumps the patch version on each edit and records the history', () => {
+    const created = createEHSTopic({ ...topic, id: 'scaffolds', label: 'Scaffolds' }, { editor: 'ehs@plant' });
+    expect(created).toMatchObject({ ok: true, pack: { id: 'site-pack', version: '2.1.1' } });
+    expect(createEHSTopic(topic)).toEqual({ ok: false, reason: 'exists' });
+
+    const updated = updateEHSTopic({ ...topic, keyFacts: ['Keep three points of contact at all times.'] }, { note: 'Clarify' });
+    expect(updated.ok && updated.pack.version).toBe('2.1.2');
+    expect(getActiveEHSPack().topics.find((t) => t.id === 'ladders')?.keyFacts).toEqual([
+      'Keep three points of contact at all times.',
+    ]);
+
+    expect(deleteEHSTopic('scaffolds').ok).toBe(true);
+    expect(deleteEHSTopic('scaffolds')).toEqual({ ok: false, reason: 'not_found' });
+    expect(getActiveEHSPack().version).toBe('2.1.3');
+
+    const history = getEHSTopicHistory();
+    expect(history.map((e) => [e.action, e.topicId, e.version])).toEqual([
+      ['delete', 'scaffolds', '2.1.3'],
+      ['update', 'ladders', '2.1.2'],
+      ['create', 'scaffolds', '2.1.1'],
+    ]);
+    expect(getEHSTopicHistory('ladders')[0]).toMatchObject({
+      previousVersion: '2.1.1',
+      note: 'Clarify',
+      before: { keyFacts: ['Maintain three points of contact.'] },
+    });
+  });
+
+  it('replays edits onto a newer bundled pack and reports the ones that conflict', () => {
+    createEHSTopic({ ...topic, id: 'scaffolds', label: 'Scaffolds' });
+    const ladders = getActiveEHSPack().topics.find((t) => t.id === 'ladders')!;
+    updateEHSTopic({ ...ladders, keyFacts: ['Keep three points of contact at all times.'] });
+    expect(getActiveEHSPack().version).toBe('2.1.2');
+
+    // Upgrade: 2.2.0 rewrites the ladders facts the site also edited
+    const upgradedDir = mkdtempSync(join(tmpdir(), 'ehs-packs-'));
+    writeFileSync(
+      join(upgradedDir, 'site-pack.yaml'),
+      yamlPack.replace('version: 2.1.0', 'version: 2.2.0').replace('three points of contact.', 'three points of contact (OSHA 1910.23).')
+    );
+    process.env.EHS_PACKS_DIR = upgradedDir;
+
+    const pack = getActiveEHSPack();
+    expect(pack.version).toBe('2.2.1');
+    expect(pack.topics.map((t) => t.id)).toEqual(['ladders', 'scaffolds']);
+    expect(pack.topics[0].keyFacts).toEqual(['Maintain three points of contact (OSHA 1910.23).']);
+    expect(getEHSPackConflicts()).toMatchObject([{ topicId: 'ladders', edit: { action: 'update', version: '2.1.2' } }]);
+
+    // Saving an edit adopts the rebased pack
+    deleteEHSTopic('scaffolds');
+    expect(getActiveEHSPack()).toMatchObject({ version: '2.2.2', topics: [{ id: 'ladders' }] });
+    expect(getEHSPackConflicts()).toEqual([]);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Versioned EHS data packs: the topic records behind the EHS reference, loaded from JSON or
+ * YAML files and validated with zod, so fact corrections don't need a code change.
+ *
+ * Layout:
+ *   EHS_PACKS_DIR (default data/ehs-packs)   bundled packs, {id}.json | {id}.yaml | {id}.yml
+ *   EHS_DATA_DIR (default .data/ehs)         edits made through /api/ehs/topics:
+ *     {id}/pack.json       edited copy of the pack; used instead of the bundled file
+ *     {id}/history.jsonl   one EHSTopicEdit per line, oldest first
+ *
+ * When the bundled pack is newer than the edited copy (an upgrade shipped a new version), the
+ * history is replayed onto the bundled pack instead. Edits to topics the new version also
+ * changed are not applied; they are logged and listed by /api/ehs/topics as conflicts until
+ * the next edit is saved, which adopts the rebased pack.
+ *
+ * EHS_PACK selects the active pack (default us-osha). Scripts that target another jurisdiction
+ * use that jurisdiction's pack (see JURISDICTIONS). Every edit bumps the patch version, and
+ * generated scripts record the pack id and version they were checked against.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import {
+  DEFAULT_EHS_PACK,
+  DEFAULT_JURISDICTION,
+  EHS_DATA_DIR,
+  EHS_PACKS_DIR,
+  getJurisdictionOption,
+  type Jurisdiction,
+} from '@/lib/constants';
+import { getActiveEHSOverlay } from '@/lib/ehs-overlay';
+import { logWarn } from '@/lib/logger';
+import { ehsPackSchema, type EHSPackData } from '@/lib/schemas';
+import type { EHSTopic } from '@/lib/ehs-reference';
+import type { EHSPackVersion } from '@/lib/types';
+
+export type EHSPack = EHSPackData;
+
+/** One change to a topic, recorded in the pack's edit history. */
+export interface EHSTopicEdit {
+  packId: string;
+  /** Pack version after the edit. */
+  version: string;
+  previousVersion: string;
+  action: 'create' | 'update' | 'delete';
+  topicId: string;
+  editedAt: string;
+  editor?: string;
+  note?: string;
+  /** Topic before the edit; absent for creates. */
+  before?: EHSTopic;
+  /** Topic after the edit; absent for deletes. */
+  after?: EHSTopic;
+}
+
+/** A recorded edit not replayed onto a newer bundled pack because the bundled topic changed too. */
+export interface EHSPackConflict {
+  topicId: string;
+  edit: EHSTopicEdit;
+  message: string;
+}
+
+export type EHSTopicEditResult =
+  | { ok: true; pack: EHSPackVersion; edit: EHSTopicEdit }
+  | { ok: false; reason: 'not_found' | 'exists' };
+
+/** A pack file that is unreadable or fails validation. */
+export class EHSPackError extends Error {
+  constructor(
+    readonly filePath: string,
+    readonly issues: string[]
+  ) {
+    super(`Invalid EHS data pack ${filePath}: ${issues.join('; ')}`);
+    this.name = 'EHSPackError';
+  }
+}
+
+const PACK_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+function getPacksDir(): string {
+  return path.resolve(process.env.EHS_PACKS_DIR ?? EHS_PACKS_DIR);
+}
+
+function getDataDir(): string {
+  return path.resolve(process.env.EHS_DATA_DIR ?? EHS_DATA_DIR);
+}
+
+export function getActiveEHSPackId(): string {
+  return process.env.EHS_PACK?.trim() || DEFAULT_EHS_PACK;
+}
+
+/** Reads and validates one pack file (JSON, or YAML by extension). */
+export function loadEHSPackFile(filePath: string): EHSPack {
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(filePath, 'utf8');
+    raw = /\.ya?ml$/i.test(filePath) ? parseYaml(text) : JSON.parse(text);
+  } catch (e) {
+    throw new EHSPackError(filePath, [e instanceof Error ? e.message : String(e)]);
+  }
+  const result = ehsPackSchema.safeParse(raw);
+  if (!result.success) {
+    throw new EHSPackError(
+      filePath,
+      result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+    );
+  }
+  return result.data;
+}
+
+function findBundledPackFile(id: string): string | null {
+  for (const ext of PACK_EXTENSIONS) {
+    const filePath = path.join(getPacksDir(), `${id}${ext}`);
+    if (fs.existsSync(filePath)) return filePath;
+  }
+  return null;
+}
+
+function editedPackPath(id: string): string {
+  return path.join(getDataDir(), id, 'pack.json');
+}
+
+function historyPath(id: string): string {
+  return path.join(getDataDir(), id, 'history.jsonl');
+}
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+}
+
+function bumpPatch(version: string): string {
+  const [major, minor, patch] = version.split('.').map(Number);
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+/** Recorded edits of a pack, oldest first. */
+function readHistory(id: string): EHSTopicEdit[] {
+  let lines: string[];
+  try {
+    lines = fs.readFileSync(historyPath(id), 'utf8').split('\n');
+  } catch {
+    return [];
+  }
+  return lines.filter(Boolean).map((line) => JSON.parse(line) as EHSTopicEdit);
+}
+
+function sameTopic(a: EHSTopic | undefined, b: EHSTopic | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+interface LoadedPack {
+  pack: EHSPack;
+  conflicts: EHSPackConflict[];
+}
+
+/**
+ * Replays edits onto a bundled pack. An edit applies when its topic is still in the `before`
+ * state (absent, for creates); edits the bundled pack already contains are skipped; any other
+ * edit conflicts and the bundled topic is kept. Each applied edit bumps the patch version.
+ */
+function rebaseEdits(bundled: EHSPack, history: EHSTopicEdit[]): LoadedPack {
+  const topics = new Map(bundled.topics.map((t) => [t.id, t]));
+  const conflicts: EHSPackConflict[] = [];
+  let version = bundled.version;
+  for (const edit of history) {
+    const current = topics.get(edit.topicId);
+    if (sameTopic(current, edit.after)) continue;
+    if (!sameTopic(current, edit.before)) {
+      conflicts.push({
+        topicId: edit.topicId,
+        edit,
+        message: `${edit.action} of "${edit.topicId}" (version ${edit.version}) conflicts with bundled version ${bundled.version}; the bundled topic is used`,
+      });
+      continue;
+    }
+    if (edit.after) topics.set(edit.topicId, edit.after);
+    else topics.delete(edit.topicId);
+    version = bumpPatch(version);
+  }
+  return { pack: ehsPackSchema.parse({ ...bundled, version, topics: [...topics.values()] }), conflicts };
+}
+
+function loadPack(id: string): LoadedPack {
+  const bundledPath = findBundledPackFile(id);
+  const bundled = bundledPath ? loadEHSPackFile(bundledPath) : null;
+  const editedPath = editedPackPath(id);
+  if (!fs.existsSync(editedPath)) {
+    if (!bundled) throw new Error(`EHS data pack "${id}" not found in ${getPacksDir()}`);
+    return { pack: bundled, conflicts: [] };
+  }
+  const edited = loadEHSPackFile(editedPath);
+  if (!bundled || compareVersions(bundled.version, edited.version) <= 0) {
+    return { pack: edited, conflicts: [] };
+  }
+
+  const rebased = rebaseEdits(bundled, readHistory(id));
+  logWarn('Bundled EHS pack is newer than the edited copy; edits were replayed onto it', {
+    pack: id,
+    bundledVersion: bundled.version,
+    editedVersion: edited.version,
+    version: rebased.pack.version,
+    conflicts: rebased.conflicts.length,
+  });
+  for (const c of rebased.conflicts) logWarn(`EHS pack edit conflict: ${c.message}`, { pack: id, topic: c.topicId });
+  return rebased;
+}
+
+const cache = new Map<string, LoadedPack>();
+
+function getLoadedPack(id: string): LoadedPack {
+  const key = `${getPacksDir()}|${getDataDir()}|${id}`;
+  let loaded = cache.get(key);
+  if (!loaded) {
+    loaded = loadPack(id);
+    cache.set(key, loaded);
+  }
+  return loaded;
+}
+
+/** A pack by id, loaded and validated on first use. Throws EHSPackError when the file is invalid. */
+export function getEHSPack(id: string): EHSPack {
+  return getLoadedPack(id).pack;
+}
+
+/** Edits of the active pack that could not be replayed onto a newer bundled version. */
+export function getEHSPackConflicts(): EHSPackConflict[] {
+  return getLoadedPack(getActiveEHSPackId()).conflicts;
+}
+
+/** The active pack (EHS_PACK), also loaded at server start via instrumentation. */
+export function getActiveEHSPack(): EHSPack {
+  return getEHSPack(getActiveEHSPackId());
+}
+
+/**
+ * The pack for `jurisdiction`: the active pack when it covers that jurisdiction (or none is
+ * given), otherwise the jurisdiction's bundled pack.
+ */
+export function getEHSPackForJurisdiction(jurisdiction?: Jurisdiction): EHSPack {
+  const active = getActiveEHSPack();
+  if (!jurisdiction || (active.jurisdiction ?? DEFAULT_JURISDICTION) === jurisdiction) return active;
+  return getEHSPack(getJurisdictionOption(jurisdiction).pack);
+}
+
+/**
+ * Id and version of the pack used for `jurisdiction` (default: the active pack), plus the
+ * site-rule overlay if any; recorded on generated scripts.
+ */
+export function getActiveEHSPackVersion(jurisdiction?: Jurisdiction): EHSPackVersion {
+  const { id, version } = getEHSPackForJurisdiction(jurisdiction);
+  const overlay = getActiveEHSOverlay();
+  return { id, version, ...(overlay && { overlay: { id: overlay.id, version: overlay.version } }) };
+}
+
+function writeFileAtomic(filePath: string, data: string): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, data);
+  fs.renameSync(tmpPath, filePath);
+}
+
+/** Saves `topics` as the next version of the active pack and appends the edit to its history. */
+function commitEdit(
+  topics: EHSTopic[],
+  edit: Omit<EHSTopicEdit, 'packId' | 'version' | 'previousVersion' | 'editedAt'>
+): EHSTopicEditResult {
+  const current = getActiveEHSPack();
+  const next = ehsPackSchema.parse({ ...current, version: bumpPatch(current.version), topics });
+  const record: EHSTopicEdit = {
+    packId: current.id,
+    version: next.version,
+    previousVersion: current.version,
+    editedAt: new Date().toISOString(),
+    ...edit,
+  };
+
+  fs.mkdirSync(path.dirname(editedPackPath(current.id)), { recursive: true });
+  writeFileAtomic(editedPackPath(current.id), `${JSON.stringify(next, null, 2)}\n`);
+  fs.appendFileSync(historyPath(current.id), `${JSON.stringify(record)}\n`);
+  cache.clear();
+  return { ok: true, pack: { id: next.id, version: next.version }, edit: record };
+}
+
+type EditMeta = { editor?: string; note?: string };
+
+export function createEHSTopic(topic: EHSTopic, meta: EditMeta = {}): EHSTopicEditResult {
+  const { topics } = getActiveEHSPack();
+  if (topics.some((t) => t.id === topic.id)) return { ok: false, reason: 'exists' };
+  return commitEdit([...topics, topic], { action: 'create', topicId: topic.id, after: topic, ...meta });
+}
+
+export function updateEHSTopic(topic: EHSTopic, meta: EditMeta = {}): EHSTopicEditResult {
+  const { topics } = getActiveEHSPack();
+  const before = topics.find((t) => t.id === topic.id);
+  if (!before) return { ok: false, reason: 'not_found' };
+  return commitEdit(
+    topics.map((t) => (t.id === topic.id ? topic : t)),
+    { action: 'update', topicId: topic.id, before, after: topic, ...meta }
+  );
+}
+
+export function deleteEHSTopic(topicId: string, meta: EditMeta = {}): EHSTopicEditResult {
+  const { topics } = getActiveEHSPack();
+  const before = topics.find((t) => t.id === topicId);
+  if (!before) return { ok: false, reason: 'not_found' };
+  return commitEdit(
+    topics.filter((t) => t.id !== topicId),
+    { action: 'delete', topicId, before, ...meta }
+  );
+}
+
+/** Edit history of the active pack, newest first; optionally for one topic. */
+export function getEHSTopicHistory(topicId?: string): EHSTopicEdit[] {
+  return readHistory(getActiveEHSPackId())
+    .filter((e) => !topicId || e.topicId === topicId)
+    .reverse();
+}
@@ -4,6 +4,7 @@ import {
   getContextForPrompt,
   validateContentAgainstReference,
   getAllEHSTopics,
+  getCitationsForTopics,
 } from './ehs-reference';
 
 describe('ehs-reference', () => {
@@ -88,6 +89,20 @@ describe('ehs-reference', () => {
       expect(r.terminologySuggestions.some((s) => s.prefer === 'Safety Data Sheet')).toBe(true);
     });
 
+    it('flags a paraphrased myth the content endorses but not one it refutes', () => {
+      const endorsed = validateContentAgainstReference("It's fine to give your buddy a quick ride on the forks.", {
+        topicIds: ['forklift'],
+      });
+      expect(endorsed.mythsFlagged).toEqual(['It is okay to give a coworker a ride on the forks.']);
+      expect(endorsed.warnings.some((w) => w.includes('ride on the forks'))).toBe(true);
+
+      const refuted = validateContentAgainstReference(
+        'Some think it is okay to give a coworker a ride on the forks. That is a myth. Never give a coworker a ride on the forks.',
+        { topicIds: ['forklift'] }
+      );
+      expect(refuted.mythsFlagged).toEqual([]);
+    });
+
     it('returns empty arrays when restrictToTopics and no valid topics', () => {
       const r = validateContentAgainstReference('Hello world', {
         topicIds: ['nonexistent'],
@@ -114,4 +129,18 @@ describe('ehs-reference', () => {
       expect(topics.map((t) => t.id)).toContain('electrical');
     });
   });
+
+  describe('getCitationsForTopics', () => {
+    it('includes state-plan references only for a site in their state', () => {
+      expect(getCitationsForTopics(['forklift'])).toEqual(['OSHA 1910.178', '29 CFR 1910.178(l)']);
+      expect(getCitationsForTopics(['forklift'], 'us', 'CA')).toEqual([
+        'OSHA 1910.178',
+        '29 CFR 1910.178(l)',
+        '8 CCR 3650',
+        '8 CCR 3668',
+      ]);
+      expect(getCitationsForTopics(['lockout-tagout'], 'us', 'WA')).toEqual(['OSHA 1910.147', 'WAC 296-803']);
+      expect(getCitationsForTopics(['lockout-tagout'], 'us', 'TX')).toEqual(['OSHA 1910.147']);
+    });
+  });
 });
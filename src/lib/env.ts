@@ -17,6 +17,20 @@ const serverSchema = z.object({
   OPENAI_SCRIPT_MODEL: z.string().default('gpt-4o-mini'),
   OPENAI_IMAGE_MODEL: z.string().default('dall-e-3'),
 
+  // Text LLM provider; LLM_MODEL_<TASK> sets the model for one task
+  LLM_PROVIDER: z.enum(['openai', 'openai-compatible', 'fixture']).default('openai'),
+  LLM_BASE_URL: z.string().url().optional(),
+  LLM_MODEL: z.string().optional(),
+  LLM_API_KEY: z.string().optional(),
+  LLM_FIXTURES_FILE: z.string().optional(),
+  LLM_MODEL_SCRIPT: z.string().optional(),
+  LLM_MODEL_REVISION: z.string().optional(),
+  LLM_MODEL_CORRECTION: z.string().optional(),
+  LLM_MODEL_SUMMARY: z.string().optional(),
+  LLM_MODEL_VERIFICATION: z.string().optional(),
+  LLM_MODEL_REFINEMENT: z.string().optional(),
+  LLM_MODEL_QUIZ: z.string().optional(),
+
   // Provider selection
   IMAGE_PROVIDER: z
     .enum(['dall-e-3', 'gpt-image-1-mini', 'sdxl', 'flux'])
@@ -52,6 +66,43 @@ const serverSchema = z.object({
     .optional()
     .transform((v) => v !== 'false' && v !== '0'),
   ECFR_DATE: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  RAG_ENABLED: z
+    .enum(['true', 'false', '1', '0', ''])
+    .optional()
+    .transform((v) => v !== 'false' && v !== '0'),
+
+  // Caption font override for non-Latin scripts
+  CAPTION_FONT_FILE: z.string().optional(),
+
+  // Server-side video jobs (persisted state directory, days finished jobs are kept)
+  JOBS_DIR: z.string().optional(),
+  JOB_RETENTION_DAYS: z.coerce.number().positive().default(30),
+
+  // EHS data packs: bundled pack directory, edited copies + history, active pack, admin API token
+  EHS_PACKS_DIR: z.string().optional(),
+  EHS_DATA_DIR: z.string().optional(),
+  EHS_PACK: z.string().optional(),
+  EHS_ADMIN_TOKEN: z.string().optional(),
+  // Org site-rule overlay (JSON/YAML) merged over the active pack
+  EHS_OVERLAY_FILE: z.string().optional(),
+
+  // Offline regulation retrieval: bundled corpus and persisted index
+  RAG_CORPUS_DIR: z.string().optional(),
+  RAG_INDEX_DIR: z.string().optional(),
+
+  // Regulation store: fetched and imported text, age reported as stale, stored text only
+  REGULATORY_CACHE_DIR: z.string().optional(),
+  REGULATORY_STALE_DAYS: z.coerce.number().positive().default(90),
+  REGULATORY_API_OFFLINE: z
+    .enum(['1', 'true', '0', 'false', ''])
+    .optional()
+    .transform((v) => v === '1' || v === 'true'),
+  // eCFR API base, for a mirror or a local fixture server
+  ECFR_API_URL: z.string().url().optional(),
+  // State-plan and Federal Register bases, likewise
+  CAL_OSHA_URL: z.string().url().optional(),
+  WA_WAC_URL: z.string().url().optional(),
+  FEDERAL_REGISTER_API_URL: z.string().url().optional(),
 
   // Vercel detection (for proxy trust)
   VERCEL: z.string().optional(),
@@ -89,10 +140,14 @@ function validateServerEnv(): ServerEnv {
   // Warnings for common misconfigurations
   const env = result.data;
 
-  if (!env.OPENAI_API_KEY) {
+  if (env.LLM_PROVIDER === 'openai' && !env.OPENAI_API_KEY) {
     console.warn('⚠️  OPENAI_API_KEY not set. Script generation will fail.');
   }
 
+  if (env.LLM_PROVIDER === 'openai-compatible' && !env.LLM_BASE_URL) {
+    console.warn('⚠️  LLM_PROVIDER=openai-compatible requires LLM_BASE_URL.');
+  }
+
   if (
     (env.IMAGE_PROVIDER === 'sdxl' || env.IMAGE_PROVIDER === 'flux') &&
     !env.REPLICATE_API_TOKEN
@@ -173,6 +228,15 @@ export function requiresReplicate(): boolean {
   );
 }
 
+/**
+ * REGULATORY_API_OFFLINE as the schema parses it, read on each call rather than once like `env`,
+ * since tests and the snapshot tools switch it at runtime. False for a value the schema rejects.
+ */
+export function isRegulatoryApiOffline(): boolean {
+  const parsed = serverSchema.shape.REGULATORY_API_OFFLINE.safeParse(process.env.REGULATORY_API_OFFLINE);
+  return parsed.success && parsed.data;
+}
+
 /**
  * Check if the proxy should be trusted for IP extraction.
  */
@@ -1,5 +1,12 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { verifyScriptFacts } from './fact-verification';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getCitationsForTopics } from './ehs-reference';
+import { extractNumericClaims, verifyNumericClaims, verifyScriptFacts } from './fact-verification';
+import { saveStoredRegulation } from './regulation-store';
+import { getRegulationEffectiveDate } from './regulatory-api';
+import type { EHSTopic } from './ehs-reference';
 import type { ScriptResult } from './types';
 
 const mockCreate = vi.fn();
@@ -14,10 +21,33 @@ vi.mock('@/lib/openai-client', () => ({
 }));
 
 vi.mock('@/lib/ehs-reference', () => ({
-  getVerificationContextForTopics: (topicIds: string[]) =>
-    topicIds.length > 0 ? 'Reference context for topics' : '',
+  getVerificationContextForTopics: (topicIds: string[], _jurisdiction?: string, options: { omitFacts?: boolean } = {}) =>
+    topicIds.length > 0 ? `Reference context for topics${options.omitFacts ? ' (facts as passages)' : ''}` : '',
+  getCitationsForTopics: vi.fn(() => []),
+  getTopicsByIds: (topicIds: string[]) =>
+    topicIds.includes('emergency-first-aid')
+      ? [
+          {
+            keyFacts: ['Eyewash stations must be reachable within 10 seconds (ANSI Z358.1).'],
+            bestPractices: [],
+            regulatoryRefs: [{ name: 'OSHA 1910.151', ref: 'Medical services and first aid' }],
+            numericFacts: [
+              {
+                keywords: ['flush', 'rinse'],
+                value: 15,
+                unit: 'min',
+                bound: 'atLeast',
+                statement: 'Flush eyes or skin with water for at least 15 minutes after a chemical splash.',
+                ref: 'ANSI Z358.1',
+              },
+            ],
+          },
+        ]
+      : [],
 }));
 
+const US_PACK = path.resolve(__dirname, '../../data/ehs-packs/us-osha.json');
+
 describe('verifyScriptFacts', () => {
 
   beforeEach(() => {
@@ -27,7 +57,7 @@ describe('verifyScriptFacts', () => {
   it('returns empty array when script has no scenes', async () => {
     const script: ScriptResult = { title: 'Test', scenes: [] };
     const result = await verifyScriptFacts(script, ['forklift']);
-    expect(result).toEqual([]);
+    expect(result).toEqual({ results: [], complete: true });
     expect(mockCreate).not.toHaveBeenCalled();
   });
 
@@ -37,7 +67,7 @@ describe('verifyScriptFacts', () => {
       scenes: [{ narration: 'Sound the horn.', imagePrompt: 'Worker at forklift' }],
     };
     const result = await verifyScriptFacts(script, []);
-    expect(result).toEqual([]);
+    expect(result).toEqual({ results: [], complete: true });
     expect(mockCreate).not.toHaveBeenCalled();
   });
 
@@ -69,7 +99,7 @@ describe('verifyScriptFacts', () => {
         { narration: 'Sound the horn at blind corners.', imagePrompt: 'Forklift in warehouse' },
       ],
     };
-    const result = await verifyScriptFacts(script, ['forklift']);
+    const { results: result } = await verifyScriptFacts(script, ['forklift']);
     expect(result).toHaveLength(1);
     expect(result[0]).toMatchObject({
       claim: 'Sound the horn at blind corners.',
@@ -82,7 +112,131 @@ describe('verifyScriptFacts', () => {
     expect(mockCreate).toHaveBeenCalled();
   });
 
-  it('returns empty array when API returns invalid JSON', async () => {
+  it('adds regulation passages retrieved for the narrations to the reference', async () => {
+    mockCreate.mockResolvedValue({ choices: [{ message: { content: '{"claims":[]}' } }] } as never);
+
+    const script: ScriptResult = {
+      title: 'Forklift Safety',
+      scenes: [{ narration: 'Slow down and sound the horn at cross aisles.', imagePrompt: 'Forklift at an aisle' }],
+    };
+    await verifyScriptFacts(script, ['forklift']);
+    const prompt = mockCreate.mock.calls[0][0].messages[1].content as string;
+    expect(prompt).toContain('Reference context for topics (facts as passages)');
+    expect(prompt).toContain('[29 CFR 1910.178(n)(4)] The driver shall be required to slow down and sound the horn');
+  });
+
+  describe('eCFR passages', () => {
+    const origEnv = process.env;
+
+    beforeEach(() => {
+      process.env = {
+        ...origEnv,
+        REGULATORY_CACHE_DIR: fs.mkdtempSync(path.join(os.tmpdir(), 'regulations-')),
+        REGULATORY_API_OFFLINE: 'true',
+      };
+    });
+
+    afterEach(() => {
+      process.env = origEnv;
+      vi.restoreAllMocks();
+    });
+
+    it('reads the cited sections from the regulation store', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: '{"claims":[]}' } }] } as never);
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+      vi.mocked(getCitationsForTopics).mockReturnValue(['OSHA 1910.151', 'OSHA 1910.151(c)']);
+      saveStoredRegulation({
+        section: '1910.151',
+        sourceId: 'ecfr',
+        snippet: {
+          citation: '29 CFR 1910.151',
+          text: 'Medical services and first aid. (c) Where the eyes or body of any person may be exposed to injurious corrosive materials, suitable facilities for quick drenching or flushing of the eyes and body shall be provided.',
+          source: 'eCFR',
+          effectiveDate: getRegulationEffectiveDate(),
+        },
+        fetchedAt: '2026-01-01T00:00:00.000Z',
+        origin: 'snapshot',
+      });
+
+      const script: ScriptResult = {
+        title: 'Eyewash',
+        scenes: [{ narration: 'Flush your eyes at the eyewash after a splash of corrosive materials.', imagePrompt: 'Eyewash' }],
+      };
+      await verifyScriptFacts(script, ['emergency-first-aid']);
+      const prompt = mockCreate.mock.calls[0][0].messages[1].content as string;
+      // Once, though both the section and its paragraph are cited (the bundled corpus has its own copy)
+      expect(prompt.match(/^\[P\d+\] \[29 CFR 1910\.151\(c\)\] .* body shall be provided\.$/gm)).toHaveLength(1);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("adds sections of the site state's plan", async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: '{"claims":[]}' } }] } as never);
+      vi.mocked(getCitationsForTopics).mockReturnValue(['8 CCR 3668']);
+      saveStoredRegulation({
+        section: '3668',
+        sourceId: 'cal-osha',
+        snippet: {
+          citation: '8 CCR 3668',
+          text: '§3668. Powered Industrial Truck Operator Training. Operators shall be trained and evaluated before driving.',
+          source: 'dir.ca.gov',
+          effectiveDate: getRegulationEffectiveDate(),
+        },
+        fetchedAt: '2026-01-01T00:00:00.000Z',
+        origin: 'snapshot',
+      });
+
+      const script: ScriptResult = {
+        title: 'Forklift Safety',
+        jurisdiction: 'us',
+        siteState: 'CA',
+        scenes: [{ narration: 'Operators are trained and evaluated before driving a forklift.', imagePrompt: 'Trainer' }],
+      };
+      await verifyScriptFacts(script, ['forklift']);
+      expect(getCitationsForTopics).toHaveBeenCalledWith(['forklift'], 'us', 'CA');
+      const prompt = mockCreate.mock.calls[0][0].messages[1].content as string;
+      expect(prompt).toMatch(/^\[P\d+\] \[8 CCR 3668\] §3668\. Powered Industrial Truck Operator Training\./m);
+    });
+  });
+
+  it('returns the numbered passage the model checked each claim against', async () => {
+    mockCreate.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              claims: [
+                { claim: 'Eyewash within 10 seconds.', sceneIndex: 0, type: 'time_limit', status: 'verified', confidence: 0.9, passage: 'P1' },
+                { claim: 'Sound the horn.', sceneIndex: 0, type: 'procedure', status: 'verified', confidence: 0.9, source: '29 CFR 1910.178(n)(4)' },
+                { claim: 'Wear gloves.', sceneIndex: 0, type: 'procedure', status: 'needs_review', confidence: 0.5, passage: 'P99' },
+              ],
+            }),
+          },
+        },
+      ],
+    } as never);
+
+    const script: ScriptResult = {
+      title: 'Eyewash',
+      scenes: [{ narration: 'The eyewash is within 10 seconds. Slow down and sound the horn at cross aisles.', imagePrompt: 'Eyewash' }],
+    };
+    const { results: result } = await verifyScriptFacts(script, ['emergency-first-aid']);
+    const prompt = mockCreate.mock.calls[0][0].messages[1].content as string;
+    expect(prompt).toContain('[P1] [ANSI Z358.1] Eyewash stations must be reachable within 10 seconds (ANSI Z358.1).');
+    expect(result[0].passage).toEqual({
+      text: 'Eyewash stations must be reachable within 10 seconds (ANSI Z358.1).',
+      origin: 'ehs-reference',
+      citation: 'ANSI Z358.1',
+    });
+    expect(result[1].passage).toMatchObject({
+      origin: 'regulation',
+      citation: '29 CFR 1910.178(n)(4)',
+      url: 'https://www.ecfr.gov/current/title-29/section-1910.178#p-1910.178(n)(4)',
+    });
+    expect(result[1].passage?.text).toContain('The driver shall be required to slow down and sound the horn');
+    expect(result[2].passage).toBeUndefined();
+  });
+
+  it('reports an incomplete check when API returns invalid JSON', async () => {
     mockCreate.mockResolvedValue({
       choices: [{ message: { content: 'not json' } }],
     } as never);
@@ -92,10 +246,10 @@ describe('verifyScriptFacts', () => {
       scenes: [{ narration: 'Test.', imagePrompt: 'Test' }],
     };
     const result = await verifyScriptFacts(script, ['forklift']);
-    expect(result).toEqual([]);
+    expect(result).toEqual({ results: [], complete: false });
   });
 
-  it('returns empty array when API throws', async () => {
+  it('reports an incomplete check when API throws', async () => {
     mockCreate.mockRejectedValue(new Error('API error'));
 
     const script: ScriptResult = {
@@ -103,7 +257,7 @@ describe('verifyScriptFacts', () => {
       scenes: [{ narration: 'Test.', imagePrompt: 'Test' }],
     };
     const result = await verifyScriptFacts(script, ['forklift']);
-    expect(result).toEqual([]);
+    expect(result).toEqual({ results: [], complete: false });
   });
 
   it('filters out invalid claim objects', async () => {
@@ -127,8 +281,113 @@ describe('verifyScriptFacts', () => {
       title: 'Test',
       scenes: [{ narration: 'Test.', imagePrompt: 'Test' }],
     };
-    const result = await verifyScriptFacts(script, ['forklift']);
+    const { results: result } = await verifyScriptFacts(script, ['forklift']);
     expect(result).toHaveLength(1);
     expect(result[0].claim).toBe('Valid claim');
   });
+
+  it('replaces the model verdict on a numeric claim with the rule verdict', async () => {
+    mockCreate.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              claims: [
+                { claim: 'flush for 5 minutes', sceneIndex: 0, type: 'time_limit', status: 'verified', confidence: 0.7 },
+                { claim: 'Call 911.', sceneIndex: 1, type: 'procedure', status: 'verified', confidence: 0.9 },
+              ],
+            }),
+          },
+        },
+      ],
+    } as never);
+
+    const script: ScriptResult = {
+      title: 'Eye Splash',
+      scenes: [
+        { narration: 'After a splash, flush for 5 minutes.', imagePrompt: 'Eyewash station' },
+        { narration: 'Call 911.', imagePrompt: 'Phone' },
+      ],
+    };
+    const { results: result } = await verifyScriptFacts(script, ['emergency-first-aid']);
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({
+      claim: 'After a splash, flush for 5 minutes.',
+      sceneIndex: 0,
+      type: 'time_limit',
+      status: 'unverified',
+      source: 'rule',
+      correction: 'Flush eyes or skin with water for at least 15 minutes after a chemical splash.',
+    });
+    expect(result[0].passage).toEqual({
+      text: 'Flush eyes or skin with water for at least 15 minutes after a chemical splash.',
+      origin: 'ehs-reference',
+      citation: 'ANSI Z358.1',
+    });
+    expect(result[1].claim).toBe('Call 911.');
+
+    mockCreate.mockRejectedValue(new Error('API error'));
+    expect((await verifyScriptFacts(script, ['emergency-first-aid'])).results.map((r) => r.source)).toEqual(['rule']);
+  });
+});
+
+describe('extractNumericClaims', () => {
+  it('normalizes units to feet, minutes, dBA, degrees Fahrenheit, pounds and percent', () => {
+    const claims = extractNumericClaims(
+      'Rinse for fifteen minutes, stay 3 metres back, keep noise under 85 dB(A), expect 40 °C, anchor 5,000 lbs, and 19.5% oxygen.'
+    );
+    expect(claims.map(({ value, unit }) => [Math.round(value * 10) / 10, unit])).toEqual([
+      [15, 'min'],
+      [9.8, 'ft'],
+      [85, 'dBA'],
+      [104, 'degF'],
+      [5000, 'lb'],
+      [19.5, 'percent'],
+    ]);
+    expect(extractNumericClaims('Check every 10 to 15 minutes.').map((c) => c.value)).toEqual([10, 15]);
+    expect(extractNumericClaims('Someone said it was fine.')).toEqual([]);
+  });
+
+  it('reads bare degrees as Fahrenheit in the US and Celsius elsewhere', () => {
+    expect(extractNumericClaims('Above 90 degrees, take breaks.')[0].value).toBe(90);
+    expect(extractNumericClaims('Above 32 degrees, take breaks.', 'uk')[0].value).toBeCloseTo(89.6);
+  });
+});
+
+describe('verifyNumericClaims', () => {
+  const pack = JSON.parse(fs.readFileSync(US_PACK, 'utf8')) as { topics: EHSTopic[] };
+  const topics = (ids: string[]) => pack.topics.filter((t) => ids.includes(t.id));
+
+  it('checks thresholds and minimums against the fact whose keywords the sentence matches', () => {
+    const narration = [
+      'Any trench deeper than 5 feet needs protection.',
+      'Trenches only need shoring when deeper than 10 feet.',
+      'Keep spoil piles 1 foot from the edge.',
+      'Trenches 4 feet or deeper need a ladder within 25 feet.',
+      'Protection is needed at 1.8 metres on construction sites with no guardrail.',
+    ].join(' ');
+    const results = verifyNumericClaims(
+      { scenes: [{ narration, imagePrompt: '' }] },
+      topics(['excavation-trenching', 'fall-protection'])
+    );
+    expect(results.map((r) => [r.claim, r.status])).toEqual([
+      ['Any trench deeper than 5 feet needs protection.', 'verified'],
+      ['Trenches only need shoring when deeper than 10 feet.', 'unverified'],
+      ['Keep spoil piles 1 foot from the edge.', 'unverified'],
+      ['Trenches 4 feet or deeper need a ladder within 25 feet.', 'verified'],
+      ['Protection is needed at 1.8 metres on construction sites with no guardrail.', 'verified'],
+    ]);
+    expect(results[1].correction).toBe('Protective systems are required in excavations 5 feet or deeper.');
+    expect(results.every((r) => r.source === 'rule')).toBe(true);
+  });
+
+  it('verifies the statement of every numeric fact in the US pack against its own fact', () => {
+    for (const topic of pack.topics) {
+      for (const fact of topic.numericFacts ?? []) {
+        const [result] = verifyNumericClaims({ scenes: [{ narration: fact.statement, imagePrompt: '' }] }, [topic]);
+        expect(result, fact.statement).toMatchObject({ status: 'verified', confidence: 0.95 });
+        expect(result.reasoning).toContain(fact.statement);
+      }
+    }
+  });
 });
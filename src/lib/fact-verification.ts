@@ -4,16 +4,52 @@
  * Extracts factual claims from generated script content and verifies them against
  * the EHS reference library. Returns verification status per claim for UI display.
  *
- * Without RAG (Phase 2), verification uses the static EHS reference. Statistics
- * and unverifiable claims are flagged for manual review.
+ * The reference is the static EHS topic facts plus regulation passages retrieved for the
+ * script's narrations from the bundled corpus (Phase 2, see rag-client.ts), so claims can be
+ * checked and cited at paragraph level. Statistics and unverifiable claims are flagged for
+ * manual review.
+ *
+ * Each verdict carries the passage it was checked against: a topic fact from the pack, a bundled
+ * regulation passage, or a paragraph of the live eCFR section for the topics' regulations (US
+ * only), with its paragraph-level citation and eCFR link. Passages are numbered in the prompt and
+ * the model names the one it used.
+ *
+ * Numbers are where the model is least reliable, so quantities in narration ("flush for 15
+ * minutes", "trenches deeper than 5 feet", "85 dBA") are also checked by rule against the
+ * topics' numericFacts after converting units. Rule verdicts (source 'rule') replace the model's
+ * verdict on the same claim.
  */
 
-import { OPENAI_REQUEST_TIMEOUT_MS, OPENAI_SCRIPT_MODEL } from '@/lib/constants';
-import { getVerificationContextForTopics } from '@/lib/ehs-reference';
-import { openai } from '@/lib/openai-client';
+import { formatCfrCitation, parseCfrCitation } from '@/lib/cfr-citation';
+import { OPENAI_REQUEST_TIMEOUT_MS, RAG_TOP_K, getJurisdictionOption } from '@/lib/constants';
+import {
+  getCitationsForTopics,
+  getTopicsByIds,
+  getVerificationContextForTopics,
+  type EHSNumericFact,
+  type EHSNumericUnit,
+  type EHSTopic,
+} from '@/lib/ehs-reference';
+import { contentTerms } from '@/lib/myth-detection';
+import { getLLMProvider } from '@/lib/providers/llm-providers';
+import { searchRegulatoryPassages, type RetrievedPassage } from '@/lib/rag-client';
+import {
+  fetchRegulationSection,
+  getCfrUrl,
+  splitRegulationParagraphs,
+  type RegulationParagraph,
+} from '@/lib/regulatory-api';
 import { withRetry } from '@/lib/retry';
 import { withTimeout } from '@/lib/timeout';
-import type { FactVerificationResult, ScriptResult, Scene } from '@/lib/types';
+import type { Jurisdiction } from '@/lib/constants';
+import type { FactVerificationResult, ScriptResult, Scene, VerificationPassage } from '@/lib/types';
+
+const REGULATORY_API_ENABLED = process.env.REGULATORY_API_ENABLED !== 'false';
+
+/** Terms an eCFR paragraph must share with the narrations to be offered as a passage. */
+const MIN_SHARED_TERMS = 2;
+/** State-plan sections are not split into paragraphs; longer ones are cut to this length. */
+const MAX_SECTION_PASSAGE_CHARS = 1500;
 
 const CLAIM_TYPES = ['statistic', 'regulation', 'procedure', 'time_limit', 'other'] as const;
 const STATUSES = ['verified', 'needs_review', 'unverified'] as const;
@@ -28,17 +64,24 @@ const STATUSES = ['verified', 'needs_review', 'unverified'] as const;
  */
 function buildVerificationPrompt(
   script: ScriptResult,
-  ehsContext: string
+  ehsContext: string,
+  passages: VerificationPassage[]
 ): string {
   const scenesText = script.scenes
     .map((s: Scene, i: number) => `Scene ${i + 1}: ${(s.narration ?? '').trim()}`)
     .filter(Boolean)
     .join('\n\n');
+  const passagesText =
+    passages.length > 0
+      ? `\n\nREFERENCE PASSAGES (numbered; name the one you checked each claim against):\n${passages
+          .map((p, i) => `[P${i + 1}]${p.citation ? ` [${p.citation}]` : ''} ${p.text}`)
+          .join('\n')}`
+      : '';
 
   return `You are an EHS accuracy reviewer. Your job is to extract factual claims from a safety training script, reason through each one, and verify it against the authoritative reference below.
 
 EHS REFERENCE (authoritative):
-${ehsContext}
+${ehsContext}${passagesText}
 
 SCRIPT NARRATIONS:
 ${scenesText}
@@ -49,7 +92,7 @@ TASK - Follow these steps IN ORDER for each claim:
 
 2. REASON: For each claim, you MUST:
    a) Quote the exact claim from the script
-   b) Search the EHS reference for relevant sections
+   b) Search the EHS reference and the numbered passages for relevant sections
    c) Explain how the claim compares to the reference (matches, contradicts, or cannot be verified)
    d) Then determine the status
 
@@ -74,35 +117,409 @@ Return valid JSON with reasoning field:
       "reasoning": "The claim states X. The EHS reference section Y says Z. This matches/contradicts because...",
       "status": "verified|needs_review|unverified",
       "confidence": 0.9,
-      "source": "OSHA 1910.178 if applicable",
+      "source": "most specific citation that supports the verdict, e.g. 29 CFR 1910.178(l)(4)(iii), if applicable",
+      "passage": "id of the numbered passage the claim was checked against, e.g. P3, if any",
       "correction": "required if unverified - what the correct information is"
     }
   ]
 }`;
 }
 
+/** Passages retrieved per scene narration (best two each), without repeats, capped at twice RAG_TOP_K. */
+function retrievePassagesForScript(script: ScriptResult): RetrievedPassage[] {
+  const passages: RetrievedPassage[] = [];
+  const seen = new Set<string>();
+  for (const scene of script.scenes) {
+    if (!scene.narration?.trim()) continue;
+    for (const p of searchRegulatoryPassages(scene.narration, { jurisdiction: script.jurisdiction, limit: 2 })) {
+      const key = `${p.citation}\n${p.text}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      passages.push(p);
+    }
+  }
+  return passages.slice(0, RAG_TOP_K * 2);
+}
+
+/** "OSHA 1910.178(l)" → "29 CFR 1910.178(l)"; citations outside 29 CFR are kept as written. */
+function normalizeCitation(ref: string): string {
+  const cfr = parseCfrCitation(ref);
+  return cfr ? formatCfrCitation(cfr) : ref;
+}
+
+function citedPassage(
+  text: string,
+  origin: VerificationPassage['origin'],
+  citation: string | undefined
+): VerificationPassage {
+  const url = citation ? getCfrUrl(citation) : null;
+  return { text, origin, ...(citation && { citation }), ...(url && { url }) };
+}
+
+/**
+ * Key facts and best practices of the topics as passages, cited by the regulation they name; key
+ * facts that name none fall back to the topic's first reference.
+ */
+function topicFactPassages(
+  topics: Pick<EHSTopic, 'keyFacts' | 'bestPractices' | 'regulatoryRefs'>[]
+): VerificationPassage[] {
+  return topics.flatMap((topic) => {
+    const topicRef = topic.regulatoryRefs[0]?.name;
+    const cite = (fact: string, fallback?: string) => {
+      // A CFR citation anywhere in the fact, else another standard in trailing parentheses
+      const ref = parseCfrCitation(fact) ? fact : (fact.match(/\(([^()]*\d[^()]*)\)\.?$/)?.[1] ?? fallback);
+      return citedPassage(fact, 'ehs-reference', ref ? normalizeCitation(ref) : undefined);
+    };
+    return [
+      ...topic.keyFacts.map((fact) => cite(fact, topicRef)),
+      ...topic.bestPractices.map((fact) => cite(fact)),
+    ];
+  });
+}
+
+/**
+ * Paragraphs of the eCFR sections for the topics' regulations, and the sections of the site
+ * state's plan (whole, as they have no paragraph labels), that share the most terms with the
+ * narrations, at most RAG_TOP_K. Sections are read like any other lookup (see
+ * fetchRegulationSection): from the memory cache, then the regulation store, then the source, so
+ * text already fetched for the prompt or imported in a snapshot is reused. Empty outside the US,
+ * when the API is disabled or nothing is available.
+ */
+async function fetchRegulationPassages(script: ScriptResult, topicIds: string[]): Promise<VerificationPassage[]> {
+  if (!REGULATORY_API_ENABLED || !getJurisdictionOption(script.jurisdiction).ecfr) return [];
+  const citations = getCitationsForTopics(topicIds, script.jurisdiction, script.siteState);
+  if (citations.length === 0) return [];
+  try {
+    const paragraphs = new Map<string, RegulationParagraph & { origin: VerificationPassage['origin'] }>();
+    for (const citation of citations) {
+      const snippet = await fetchRegulationSection(citation);
+      if (!snippet) continue;
+      const split = splitRegulationParagraphs(snippet);
+      if (split.length === 0 && !paragraphs.has(snippet.citation)) {
+        paragraphs.set(snippet.citation, {
+          citation: snippet.citation,
+          text:
+            snippet.text.length <= MAX_SECTION_PASSAGE_CHARS
+              ? snippet.text
+              : `${snippet.text.slice(0, MAX_SECTION_PASSAGE_CHARS - 1).trimEnd()}…`,
+          url: '',
+          effectiveDate: snippet.effectiveDate,
+          origin: 'regulation',
+        });
+      }
+      for (const p of split) {
+        if (!paragraphs.has(p.citation)) paragraphs.set(p.citation, { ...p, origin: 'ecfr' });
+      }
+    }
+    const narration = contentTerms(script.scenes.map((s) => s.narration ?? '').join('\n'));
+    return [...paragraphs.values()]
+      .map((p) => ({ p, shared: [...contentTerms(p.text)].filter((t) => narration.has(t)).length }))
+      .filter(({ shared }) => shared >= MIN_SHARED_TERMS)
+      .sort((a, b) => b.shared - a.shared)
+      .slice(0, RAG_TOP_K)
+      .map(({ p }): VerificationPassage => ({
+        text: p.text,
+        origin: p.origin,
+        citation: p.citation,
+        ...(p.url && { url: p.url }),
+        effectiveDate: p.effectiveDate,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The passage a model verdict names ("P3"), or failing that the one whose citation is the verdict's
+ * source. Undefined when neither matches.
+ */
+function resolvePassage(
+  passages: VerificationPassage[],
+  id: unknown,
+  source: string | undefined
+): VerificationPassage | undefined {
+  const n = typeof id === 'string' ? id.trim().match(/^\[?P(\d+)\]?$/i)?.[1] : undefined;
+  if (n) return passages[Number(n) - 1];
+  if (!source) return undefined;
+  const cited = normalizeCitation(source).toLowerCase();
+  return passages.find((p) => p.citation?.toLowerCase() === cited);
+}
+
+/** Spoken units, longest spelling first, with the factor (and offset) to a fact's unit. */
+const UNITS: { pattern: string; unit: EHSNumericUnit | 'degrees'; factor: number; offset?: number }[] = [
+  { pattern: 'hours|hour|hrs|hr', unit: 'min', factor: 60 },
+  { pattern: 'minutes|minute|mins|min', unit: 'min', factor: 1 },
+  { pattern: 'seconds|second|secs|sec', unit: 'min', factor: 1 / 60 },
+  { pattern: 'feet|foot|ft', unit: 'ft', factor: 1 },
+  { pattern: 'centimeters|centimetres|cm', unit: 'ft', factor: 0.0328084 },
+  { pattern: 'meters|metres|meter|metre|m', unit: 'ft', factor: 3.28084 },
+  { pattern: 'inches|inch', unit: 'ft', factor: 1 / 12 },
+  { pattern: 'yards|yard|yd', unit: 'ft', factor: 3 },
+  { pattern: 'decibels|decibel|dB\\(A\\)|dBA|dB', unit: 'dBA', factor: 1 },
+  { pattern: 'degrees\\s+fahrenheit|degrees\\s+F|[°º]\\s*F', unit: 'degF', factor: 1 },
+  { pattern: 'degrees\\s+celsius|degrees\\s+C|[°º]\\s*C', unit: 'degF', factor: 1.8, offset: 32 },
+  { pattern: 'degrees|degree|[°º]', unit: 'degrees', factor: 1 },
+  { pattern: 'pounds|pound|lbs|lb', unit: 'lb', factor: 1 },
+  { pattern: 'kilograms|kilogram|kg', unit: 'lb', factor: 2.20462 },
+  { pattern: 'percent|per\\s+cent|%', unit: 'percent', factor: 1 },
+];
+
+const UNIT_LABELS: Record<EHSNumericUnit, string> = {
+  ft: 'ft',
+  min: 'minutes',
+  dBA: 'dBA',
+  degF: '°F',
+  lb: 'lb',
+  percent: 'percent',
+};
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve',
+  'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const NUMBER = `(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?|(?:${TENS.join('|')})(?:[- ](?:${ONES.slice(1, 10).join('|')}))?|${[...ONES].sort((a, b) => b.length - a.length).join('|')})`;
+
+/** A number, optionally a range ("10 to 15"), followed by a unit ("15 minutes", "5-foot", "85 dB(A)"). */
+const QUANTITY_RE = new RegExp(
+  `(?<![\\w.])${NUMBER}(?:\\s*(?:-|–|to|and|or)\\s*${NUMBER})?\\s*-?\\s*(${UNITS.map((u) => u.pattern).join('|')})(?![a-z])`,
+  'gi'
+);
+const HALF_HOUR_RE = /\b(?:half an hour|a half hour|half hour)\b/gi;
+
+/** Tolerance for claims converted from another unit (1.8 m for 6 ft). */
+const CONVERSION_TOLERANCE = 0.03;
+
+/** A quantity stated in narration, converted to the unit of the facts it is compared with. */
+export interface NumericClaim {
+  /** The quantity as written, e.g. "1.8 metres". */
+  text: string;
+  value: number;
+  unit: EHSNumericUnit;
+  converted: boolean;
+}
+
+function parseNumber(token: string): number {
+  const word = token.toLowerCase().replace(/[- ]+/g, ' ');
+  if (/^[\d,.]+$/.test(word)) return Number(word.replace(/,/g, ''));
+  const [tens, ones] = word.split(' ');
+  const t = TENS.indexOf(tens);
+  if (t >= 0) return (t + 2) * 10 + (ones ? ONES.indexOf(ones) : 0);
+  return ONES.indexOf(word);
+}
+
+/**
+ * Quantities with units in `text`, converted to feet, minutes, dBA, °F, pounds or percent. Both
+ * ends of a range are returned. Bare "degrees" are Fahrenheit in the US and Celsius elsewhere.
+ */
+export function extractNumericClaims(text: string, jurisdiction?: Jurisdiction): NumericClaim[] {
+  const claims: NumericClaim[] = [];
+  for (const m of text.matchAll(QUANTITY_RE)) {
+    const spoken = m[3];
+    let unit = UNITS.find((u) => new RegExp(`^(?:${u.pattern})$`, 'i').test(spoken));
+    if (!unit) continue;
+    if (unit.unit === 'degrees') {
+      unit = UNITS.find((u) => u.unit === 'degF' && (jurisdiction && jurisdiction !== 'us' ? u.offset : !u.offset));
+      if (!unit) continue;
+    }
+    const { factor, offset = 0 } = unit;
+    const converted = factor !== 1 || offset !== 0;
+    for (const token of [m[1], m[2]]) {
+      if (token === undefined) continue;
+      claims.push({
+        text: m[0].trim(),
+        value: parseNumber(token) * factor + offset,
+        unit: unit.unit as EHSNumericUnit,
+        converted,
+      });
+    }
+  }
+  for (const m of text.matchAll(HALF_HOUR_RE)) {
+    claims.push({ text: m[0], value: 30, unit: 'min', converted: true });
+  }
+  return claims;
+}
+
+type NumericVerdict = 'equal' | 'safe' | 'contradicts';
+
+function compareToFact(claim: NumericClaim, fact: EHSNumericFact): NumericVerdict {
+  const tolerance = claim.converted ? Math.abs(fact.value) * CONVERSION_TOLERANCE : 1e-9;
+  if (Math.abs(claim.value - fact.value) <= tolerance) return 'equal';
+  if (fact.bound === 'atLeast' && claim.value > fact.value) return 'safe';
+  if (fact.bound === 'atMost' && claim.value < fact.value) return 'safe';
+  return 'contradicts';
+}
+
+function formatValue(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+function ruleResult(
+  sentence: string,
+  sceneIndex: number,
+  claim: NumericClaim,
+  fact: EHSNumericFact,
+  verdict: NumericVerdict
+): FactVerificationResult {
+  const label = UNIT_LABELS[fact.unit];
+  const stated = claim.converted ? `${claim.text} (${formatValue(claim.value)} ${label})` : claim.text;
+  const bound = fact.bound === 'atLeast' ? 'minimum' : fact.bound === 'atMost' ? 'threshold' : 'value';
+  const relation =
+    verdict === 'equal' ? 'matches' : verdict === 'safe' ? 'is stricter than' : 'contradicts';
+  return {
+    claim: sentence,
+    sceneIndex,
+    type: fact.unit === 'min' ? 'time_limit' : 'regulation',
+    status: verdict === 'contradicts' ? 'unverified' : 'verified',
+    confidence: verdict === 'safe' ? 0.8 : 0.95,
+    reasoning: `${stated} ${relation} the reference ${bound} of ${fact.value} ${label}${fact.ref ? ` (${fact.ref})` : ''}: ${fact.statement}`,
+    source: 'rule',
+    ...(verdict === 'contradicts' && { correction: fact.statement }),
+    passage: citedPassage(fact.statement, 'ehs-reference', fact.ref && normalizeCitation(fact.ref)),
+  };
+}
+
+/**
+ * The fact a sentence's quantities should be compared with, and the verdict: the facts in the
+ * claim's unit matching the most keywords (then the largest share of their keywords) are
+ * candidates. A quantity equal to a candidate's value settles it; otherwise candidates must agree,
+ * and a sentence with several quantities and no exact match is skipped as ambiguous.
+ */
+function checkSentence(
+  sentence: string,
+  claims: NumericClaim[],
+  facts: { fact: EHSNumericFact; keywordTerms: Set<string>[] }[]
+): { claim: NumericClaim; fact: EHSNumericFact; verdict: NumericVerdict } | null {
+  const terms = contentTerms(sentence);
+  const unit = claims[0].unit;
+  const scored = facts
+    .filter(({ fact }) => fact.unit === unit)
+    .map(({ fact, keywordTerms }) => {
+      const matched = keywordTerms.filter((k) => k.size > 0 && [...k].every((t) => terms.has(t))).length;
+      return { fact, matched, share: matched / keywordTerms.length };
+    })
+    .filter((c) => c.matched > 0)
+    .sort((a, b) => b.matched - a.matched || b.share - a.share);
+  if (scored.length === 0) return null;
+  const candidates = scored.filter((c) => c.matched === scored[0].matched && c.share === scored[0].share);
+
+  for (const { fact } of candidates) {
+    const claim = claims.find((c) => compareToFact(c, fact) === 'equal');
+    if (claim) return { claim, fact, verdict: 'equal' };
+  }
+  if (claims.length > 1) return null;
+  const verdicts = candidates.map(({ fact }) => compareToFact(claims[0], fact));
+  if (verdicts.some((v) => v !== verdicts[0])) return null;
+  return { claim: claims[0], fact: candidates[0].fact, verdict: verdicts[0] };
+}
+
+/**
+ * Rule-based check of numeric claims in narration against the topics' numericFacts. Each sentence
+ * with a quantity that a fact's keywords tie to gets one verdict per unit.
+ */
+export function verifyNumericClaims(
+  script: Pick<ScriptResult, 'scenes' | 'jurisdiction'>,
+  topics: Pick<EHSTopic, 'numericFacts'>[]
+): FactVerificationResult[] {
+  const seen = new Set<string>();
+  const facts = topics
+    .flatMap((t) => t.numericFacts ?? [])
+    .filter((f) => {
+      const key = `${f.statement}\n${f.value}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((fact) => ({ fact, keywordTerms: fact.keywords.map((k) => contentTerms(k)) }));
+  if (facts.length === 0) return [];
+
+  const results: FactVerificationResult[] = [];
+  script.scenes.forEach((scene, sceneIndex) => {
+    for (const raw of (scene.narration ?? '').split(/(?<=[.!?])\s+|\n+/)) {
+      const sentence = raw.trim();
+      const claims = extractNumericClaims(sentence, script.jurisdiction);
+      for (const unit of new Set(claims.map((c) => c.unit))) {
+        const checked = checkSentence(
+          sentence,
+          claims.filter((c) => c.unit === unit),
+          facts
+        );
+        if (checked) results.push(ruleResult(sentence, sceneIndex, checked.claim, checked.fact, checked.verdict));
+      }
+    }
+  });
+  return results;
+}
+
+function normalizeClaim(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9.]+/g, ' ').trim();
+}
+
+/**
+ * Model verdicts with rule verdicts merged in. A rule verdict replaces model verdicts on the same
+ * claim: same scene, and one claim contains the other or they share a number.
+ */
+export function mergeRuleVerdicts(
+  llmResults: FactVerificationResult[],
+  ruleResults: FactVerificationResult[]
+): FactVerificationResult[] {
+  const numbers = (text: string) => new Set(text.match(/\d+(?:\.\d+)?/g) ?? []);
+  const sameClaim = (llm: FactVerificationResult, rule: FactVerificationResult) => {
+    if (llm.sceneIndex !== rule.sceneIndex) return false;
+    const a = normalizeClaim(llm.claim);
+    const b = normalizeClaim(rule.claim);
+    if (a.includes(b) || b.includes(a)) return true;
+    const ruleNumbers = numbers(rule.claim);
+    return [...numbers(llm.claim)].some((n) => ruleNumbers.has(n));
+  };
+  return [
+    ...llmResults.filter((llm) => !ruleResults.some((rule) => sameClaim(llm, rule))),
+    ...ruleResults,
+  ].sort((a, b) => a.sceneIndex - b.sceneIndex);
+}
+
+/** Verdicts on a script's claims. */
+export interface FactVerificationReport {
+  results: FactVerificationResult[];
+  /** False when the model check failed and results hold only the rule verdicts. */
+  complete: boolean;
+}
+
 /**
- * Extract factual claims from script and verify against EHS reference.
- * Returns verification results for UI display. Does not throw; returns empty array on failure.
+ * Extract factual claims from script and verify against the EHS reference for the script's
+ * jurisdiction.
+ * Returns verification results for UI display. Does not throw; returns only the rule verdicts,
+ * marked incomplete, when the model call fails.
  */
 export async function verifyScriptFacts(
   script: ScriptResult,
   topicIds: string[]
-): Promise<FactVerificationResult[]> {
+): Promise<FactVerificationReport> {
   if (!script?.scenes?.length || topicIds.length === 0) {
-    return [];
+    return { results: [], complete: true };
   }
 
-  const ehsContext = getVerificationContextForTopics(topicIds);
-  if (!ehsContext) return [];
+  if (!getVerificationContextForTopics(topicIds, script.jurisdiction)) return { results: [], complete: true };
+  const topics = getTopicsByIds(topicIds, script.jurisdiction);
+  const ruleResults = verifyNumericClaims(script, topics);
 
-  const prompt = buildVerificationPrompt(script, ehsContext);
+  const passages: VerificationPassage[] = [
+    ...topicFactPassages(topics),
+    ...retrievePassagesForScript(script).map((p) => citedPassage(p.text, 'regulation', p.citation)),
+    ...(await fetchRegulationPassages(script, topicIds)),
+  ];
+  // Key facts and best practices are numbered passages; the reference keeps the rest once
+  const ehsContext = getVerificationContextForTopics(topicIds, script.jurisdiction, {
+    omitFacts: passages.length > 0,
+  });
+  const prompt = buildVerificationPrompt(script, ehsContext, passages);
 
   try {
     const completion = await withTimeout(
       withRetry(() =>
-        openai.chat.completions.create({
-          model: OPENAI_SCRIPT_MODEL,
+        getLLMProvider().complete({
+          task: 'verification',
           messages: [
             {
               role: 'system',
@@ -110,21 +527,21 @@ export async function verifyScriptFacts(
             },
             { role: 'user', content: prompt },
           ],
-          response_format: { type: 'json_object' },
+          json: true,
           temperature: 0.2,
-          max_tokens: 1024,
+          maxTokens: 1024,
         })
       ),
       Math.min(OPENAI_REQUEST_TIMEOUT_MS, 30_000),
       'Fact verification timed out'
     );
 
-    const raw = completion.choices[0]?.message?.content;
-    if (!raw) return [];
+    const raw = completion.content;
+    if (!raw) return { results: ruleResults, complete: false };
 
     const parsed = JSON.parse(raw) as { claims?: unknown[] };
     const claims = parsed?.claims;
-    if (!Array.isArray(claims)) return [];
+    if (!Array.isArray(claims)) return { results: ruleResults, complete: false };
 
     const results: FactVerificationResult[] = [];
     for (const c of claims) {
@@ -145,8 +562,11 @@ export async function verifyScriptFacts(
           reasoning?: string;
           source?: string;
           correction?: string;
+          passage?: unknown;
         };
         const conf = item.confidence;
+        const source = typeof item.source === 'string' ? item.source : undefined;
+        const passage = resolvePassage(passages, item.passage, source);
         results.push({
           claim: item.claim,
           sceneIndex: Math.max(0, Math.min(item.sceneIndex, script.scenes.length - 1)),
@@ -154,13 +574,14 @@ export async function verifyScriptFacts(
           status: item.status,
           confidence: typeof conf === 'number' && conf >= 0 && conf <= 1 ? conf : 0.5,
           reasoning: typeof item.reasoning === 'string' ? item.reasoning : undefined,
-          source: typeof item.source === 'string' ? item.source : undefined,
+          source,
           correction: typeof item.correction === 'string' ? item.correction : undefined,
+          ...(passage && { passage }),
         });
       }
     }
-    return results;
+    return { results: mergeRuleVerdicts(results, ruleResults), complete: true };
   } catch {
-    return [];
+    return { results: ruleResults, complete: false };
   }
 }
@@ -0,0 +1,110 @@
+/**
+ * Filesystem persistence for server-side video jobs.
+ *
+ * Layout under JOBS_DIR (default .data/jobs):
+ *   {id}/job.json          job state (status, per-scene progress, script, options)
+ *   {id}/scene-{n}.json    SceneAssets for each completed scene
+ *   {id}/output.mp4        final video once assembly finishes
+ *
+ * Writes go to a temp file and are renamed into place so a crash mid-write never
+ * leaves a truncated job.json behind. Finished jobs are deleted by pruneJobs once
+ * they are older than the retention period.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { JOBS_DIR } from '@/lib/constants';
+import type { SceneAssets, VideoJob } from '@/lib/types';
+
+const FINISHED_STATUSES: ReadonlySet<VideoJob['status']> = new Set(['completed', 'failed', 'cancelled']);
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/** Job IDs are UUIDs; anything else is rejected before touching the filesystem. */
+export function isValidJobId(id: string): boolean {
+  return JOB_ID_PATTERN.test(id);
+}
+
+function getJobsDir(): string {
+  return path.resolve(process.env.JOBS_DIR ?? JOBS_DIR);
+}
+
+function jobDir(id: string): string {
+  if (!isValidJobId(id)) throw new Error(`Invalid job id: ${id}`);
+  return path.join(getJobsDir(), id);
+}
+
+function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, data);
+  fs.renameSync(tmpPath, filePath);
+}
+
+export function saveJob(job: VideoJob): void {
+  const dir = jobDir(job.id);
+  fs.mkdirSync(dir, { recursive: true });
+  writeFileAtomic(path.join(dir, 'job.json'), JSON.stringify(job));
+}
+
+/** Returns null when the job does not exist or its state file is unreadable. */
+export function loadJob(id: string): VideoJob | null {
+  if (!isValidJobId(id)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(path.join(jobDir(id), 'job.json'), 'utf8')) as VideoJob;
+  } catch {
+    return null;
+  }
+}
+
+/** All persisted jobs, oldest first. */
+export function listJobs(): VideoJob[] {
+  const dir = getJobsDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter(isValidJobId)
+    .map(loadJob)
+    .filter((job): job is VideoJob => job !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Delete completed, failed and cancelled jobs last updated before `olderThan` (epoch ms),
+ * with their scene assets and MP4. Queued and running jobs are kept. Returns the ids removed.
+ */
+export function pruneJobs(olderThan: number): string[] {
+  const removed: string[] = [];
+  for (const job of listJobs()) {
+    if (!FINISHED_STATUSES.has(job.status) || Date.parse(job.updatedAt) >= olderThan) continue;
+    fs.rmSync(jobDir(job.id), { recursive: true, force: true });
+    removed.push(job.id);
+  }
+  return removed;
+}
+
+export function saveSceneAsset(id: string, asset: SceneAssets): void {
+  writeFileAtomic(path.join(jobDir(id), `scene-${asset.sceneIndex}.json`), JSON.stringify(asset));
+}
+
+export function loadSceneAsset(id: string, sceneIndex: number): SceneAssets | null {
+  try {
+    return JSON.parse(
+      fs.readFileSync(path.join(jobDir(id), `scene-${sceneIndex}.json`), 'utf8')
+    ) as SceneAssets;
+  } catch {
+    return null;
+  }
+}
+
+export function saveJobVideo(id: string, video: Buffer): void {
+  writeFileAtomic(path.join(jobDir(id), 'output.mp4'), video);
+}
+
+/** Returns the MP4 bytes for a completed job, or null if not assembled yet. */
+export function loadJobVideo(id: string): Buffer<ArrayBuffer> | null {
+  if (!isValidJobId(id)) return null;
+  try {
+    return fs.readFileSync(path.join(jobDir(id), 'output.mp4'));
+  } catch {
+    return null;
+  }
+}
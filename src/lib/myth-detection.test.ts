@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { getAllEHSTopics } from '@/lib/ehs-reference';
+import { detectMyths, evaluateMythDetection, findEndorsedMyths, type MythFixture } from '@/lib/myth-detection';
+
+const FIXTURES = path.resolve(__dirname, '../../data/myth-fixtures/us-osha.json');
+
+const RIDE = 'It is okay to give a coworker a ride on the forks.';
+const TRAINING = 'Forklifts are safe to use without training.';
+const LOCKOUT = 'Turning off the power is enough; no lockout needed.';
+
+describe('myth-detection', () => {
+  it('catches paraphrases of a myth and tells endorsement from refutation', () => {
+    expect(detectMyths("It's fine to give your buddy a quick ride on the forks.", [RIDE])).toMatchObject([
+      { myth: RIDE, stance: 'endorses' },
+    ]);
+    expect(detectMyths('Never give a coworker a ride on the forks.', [RIDE])[0].stance).toBe('refutes');
+    expect(detectMyths('Riding on the forks is a common myth: it is not allowed.', [RIDE])[0].stance).toBe('refutes');
+    expect(detectMyths('Check the forks before each shift.', [RIDE])).toEqual([]);
+  });
+
+  it('reads negation per clause against the myth clause it matches', () => {
+    expect(findEndorsedMyths('Just turning off the power is enough, so you can skip the lockout.', [LOCKOUT])).toEqual([
+      LOCKOUT,
+    ]);
+    expect(findEndorsedMyths('Turning off the power is not enough; always apply your lock.', [LOCKOUT])).toEqual([]);
+    expect(findEndorsedMyths(TRAINING, [TRAINING])).toEqual([TRAINING]);
+    expect(findEndorsedMyths('Only trained operators may drive a forklift.', [TRAINING])).toEqual([]);
+  });
+
+  it('reports each matching sentence with its offsets', () => {
+    const text = 'Sound the horn at corners.\nForklifts are fine to use without training! Keep your hands inside.';
+    const [match] = detectMyths(text, [TRAINING, RIDE]);
+    expect(match).toMatchObject({ myth: TRAINING, stance: 'endorses', start: 27, end: 70 });
+    expect(text.slice(match.start, match.end)).toBe(match.sentence);
+  });
+
+  it('meets precision and recall targets on the labeled fixtures for every topic', () => {
+    const fixtures = JSON.parse(fs.readFileSync(FIXTURES, 'utf8')) as { topics: Record<string, MythFixture[]> };
+    const topics = getAllEHSTopics();
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    for (const topic of topics) {
+      const cases = fixtures.topics[topic.id];
+      expect(cases, `fixtures for ${topic.id}`).toBeDefined();
+      for (const c of cases) if (c.myth) expect(topic.mythsOrAvoid).toContain(c.myth);
+      const score = evaluateMythDetection(cases, topic.mythsOrAvoid);
+      truePositives += score.truePositives;
+      falsePositives += score.falsePositives;
+      falseNegatives += score.falseNegatives;
+    }
+    const precision = truePositives / (truePositives + falsePositives);
+    const recall = truePositives / (truePositives + falseNegatives);
+    expect(precision).toBeGreaterThanOrEqual(0.95);
+    expect(recall).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('does not flag the reference facts and practices of any topic as myths', () => {
+    for (const jurisdiction of ['us', 'uk', 'ca', 'eu'] as const) {
+      for (const topic of getAllEHSTopics(jurisdiction)) {
+        const reference = [...topic.keyFacts, ...topic.bestPractices, ...topic.shouldMention].join('\n');
+        expect(findEndorsedMyths(reference, topic.mythsOrAvoid), `${jurisdiction}/${topic.id}`).toEqual([]);
+      }
+    }
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Myth detection: whether a script repeats a known EHS myth, in the myth's words or its own,
+ * and whether it endorses the myth or refutes it.
+ *
+ * Each sentence is compared with each myth as a set of stemmed content words. Paraphrases
+ * (MYTH_CONCEPTS and the single-word entries of SYNONYM_GROUPS) map onto one term, so "it's
+ * fine to give your buddy a ride" covers "It is okay to give a coworker a ride". A sentence is
+ * about a myth when it covers most of the myth's claim (its first clause) or half of the whole
+ * myth, including at least two specific words. Parenthetical corrections in the myth are ignored.
+ *
+ * Stance comes from negation. Each matched myth clause is paired with the sentence clauses that
+ * hold its words; a different parity of negations ("never", "don't", "without", "skip") means
+ * the sentence contradicts that clause. Refutation wording anywhere in the sentence ("myth",
+ * "false", "unsafe") makes it a refutation outright.
+ *
+ * Client-safe (no pack access). Labeled sentences per topic live in data/myth-fixtures/;
+ * evaluateMythDetection scores the detector against them.
+ */
+
+import { stem, SYNONYM_GROUPS } from '@/lib/topic-matching';
+
+export type MythStance = 'endorses' | 'refutes';
+
+export interface MythMatch {
+  myth: string;
+  stance: MythStance;
+  /** The sentence as written, with its offsets in the checked text. */
+  sentence: string;
+  start: number;
+  end: number;
+  /** Share of the myth's terms the sentence covers (0–1). */
+  score: number;
+}
+
+/** One labeled sentence: the myth it endorses or refutes, or `none` for an unrelated sentence. */
+export interface MythFixture {
+  text: string;
+  myth?: string;
+  stance: MythStance | 'none';
+}
+
+export interface MythDetectionScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  /** Fixture sentences the detector got wrong, for tuning. */
+  errors: { text: string; expected: MythFixture['stance']; flagged: string[] }[];
+}
+
+/**
+ * Words myths are commonly paraphrased with; the first entry is the term the others count as.
+ * Multi-word entries are matched as stemmed phrases.
+ */
+const MYTH_CONCEPTS: readonly (readonly string[])[] = [
+  // Permission and sufficiency read alike in myths: "fine for fall arrest", "enough for fall arrest"
+  ['okay', 'ok', 'fine', 'alright', 'acceptable', 'allowed', 'safe', 'can', 'may', 'go ahead',
+    'enough', 'sufficient', 'adequate', 'adequately', 'suffice', 'will do', 'all you need'],
+  ['need', 'needed', 'require', 'required', 'necessary', 'must', 'have to'],
+  ['quick', 'short', 'brief', 'small', 'minor', 'little', 'second', 'moment', 'routine'],
+  ['coworker', 'co-worker', 'colleague', 'workmate', 'buddy', 'friend', 'passenger', 'someone', 'anyone', 'person', 'worker'],
+  ['ride', 'riding', 'hitch'],
+  ['training', 'trained', 'certification', 'certified', 'licensed'],
+  ['kill', 'fatal', 'deadly', 'lethal', 'die'],
+  ['voltage', 'volt', 'volts', '120v', '120', '110v', 'household current'],
+  ['belonging', 'belongings', 'stuff', 'bag', 'purse', 'phone', 'things', 'items'],
+  ['grab', 'get', 'collect', 'fetch', 'retrieve'],
+  ['reversible', 'come back', 'grow back', 'recover', 'heal', 'temporary'],
+  ['beard', 'stubble', 'facial hair'],
+  ['inspection', 'inspect', 'check', 'checked', 'look over'],
+  ['test', 'tested', 'monitor', 'measure', 'sample'],
+  ['collapse', 'cave in', 'cave'],
+  ['soil', 'clay', 'ground', 'dirt'],
+  ['spotter', 'signal person', 'signaler', 'banksman', 'lookout'],
+  ['mat', 'rug', 'carpet'],
+  ['secure', 'secured', 'tape', 'taped', 'fasten', 'anchor', 'tie down'],
+  ['absent', 'not around', 'not here', 'not present', 'gone', 'away', 'off shift', 'unavailable'],
+  ['all', 'any', 'every', 'each'],
+  ['familiar', 'know well', 'used before', 'know'],
+  ['everything', 'all around', 'every direction'],
+  ['exceed', 'over', 'above', 'beyond'],
+  ['tough out', 'push through', 'power through', 'work through'],
+  ['catch', 'get infected', 'infect', 'transmitted', 'spread'],
+  ['casual', 'everyday', 'ordinary'],
+  ['better', 'superior'],
+  ['pushed', 'sitting', 'inserted'],
+];
+
+/** Concept terms too general to anchor a match on their own. */
+const GENERIC_CONCEPTS = new Set(['okay', 'need', 'quick', 'coworker']);
+
+/**
+ * Permission, sufficiency and scope terms a myth turns on: a sentence that lacks those of the
+ * myth statement it covers best can refute the myth but not endorse it ("Using elevators during
+ * a fire" is not "Elevators are safe during a fire").
+ */
+const QUALIFIERS = new Set(['okay', 'only', 'all', 'better', 'first']);
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that', 'these', 'those',
+  'to', 'of', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as', 'and', 'or', 'if', 'you', 'your', 'youre', 'we', 'our',
+  'they', 'their', 'them', 'he', 'she', 'i', 'me', 'my', 'do', 'does', 'did', 'will', 'would', 'should', 'could',
+  'just', 'very', 'really', 'also', 'so', 'then', 'than', 'there', 'here', 'even', 'up', 'out', 'into', 'about',
+  'has', 'have', 'had', 'when', 'what', 'which', 'who', 'how', 'long', 'like', 'use', 'using', 'used', 'make', 'go',
+  'let', 'lets', 'else', 'some', 'people', 'always', 'yourself', 'themselves', 'theyre', 'thats', 'way',
+  'but', 'because', 'though', 'although', 'while', 'yet', 'before', 'after', 'one', 'down', 'home',
+]);
+
+/** Words that negate the clause they are in. */
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'without', 'cannot', 'cant', 'dont',
+  'doesnt', 'isnt', 'arent', 'wasnt', 'werent', 'wont', 'shouldnt', 'mustnt', 'didnt', 'couldnt', 'wouldnt',
+  'hasnt', 'havent', 'aint', 'skip', 'skipping', 'avoid', 'ignore', 'unnecessary', 'needless', 'prohibited',
+  'forbidden', 'banned', 'illegal',
+]);
+
+/** Sentence openers that prohibit what follows. */
+const PROHIBITIONS = new Set(['never', 'dont']);
+
+/** Words and phrases that state the opposite of a myth term: they count as that term, negated. */
+const ANTONYMS: Record<string, string> = {
+  permanent: 'reversible',
+  irreversible: 'reversible',
+  leave: 'grab',
+  last: 'first',
+  immediately: 'wait',
+  promptly: 'wait',
+  'right away': 'wait',
+};
+
+/** Words that mark the whole sentence as a refutation, or as a belief reported to be refuted ("some think"). */
+const REFUTATIONS = new Set([
+  'myth', 'myths', 'misconception', 'misconceptions', 'false', 'untrue', 'wrong', 'incorrect', 'mistake',
+  'mistaken', 'unsafe', 'dangerous', 'risky', 'think', 'thinks', 'believe', 'believes', 'assume', 'assumes',
+]);
+
+/** Minimum share of the myth's claim (first clause) a sentence must cover. */
+const MIN_CLAIM_COVERAGE = 0.75;
+/** Minimum share of the whole myth a sentence must cover. */
+const MIN_MYTH_COVERAGE = 0.6;
+/** Specific (non-generic) myth terms a sentence must share. */
+const MIN_ANCHORS = 2;
+
+/** Where one clause ends and the next begins; "if", "unless" and "without" start a clause of their own. */
+const CLAUSE_BREAK = /[,;:()–—]|\b(?:and|but|so|because|although|though|while|yet|instead)\b|(?=\b(?:if|unless|without)\b)/i;
+
+interface Concept {
+  term: string;
+  negated: boolean;
+}
+
+interface ConceptTables {
+  words: Map<string, Concept>;
+  phrases: (Concept & { stems: string[] })[];
+}
+
+let concepts: ConceptTables | null = null;
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function conceptTables(): ConceptTables {
+  if (concepts) return concepts;
+  const tables: ConceptTables = { words: new Map(), phrases: [] };
+  const add = (member: string, term: string, negated = false) => {
+    const stems = words(member).map(stem);
+    if (stems.length === 1) {
+      if (!tables.words.has(stems[0])) tables.words.set(stems[0], { term, negated });
+    } else if (stems.length > 1) {
+      tables.phrases.push({ stems, term, negated });
+    }
+  };
+  for (const [member, opposite] of Object.entries(ANTONYMS)) add(member, stem(opposite), true);
+  for (const group of MYTH_CONCEPTS) {
+    const term = stem(group[0]);
+    for (const member of group) add(member, term);
+  }
+  for (const group of SYNONYM_GROUPS) {
+    const single = group.find((member) => words(member).length === 1);
+    if (!single) continue;
+    const term = tables.words.get(stem(single))?.term ?? stem(single);
+    for (const member of group) add(member, term);
+  }
+  tables.phrases.sort((a, b) => b.stems.length - a.stems.length);
+  concepts = tables;
+  return tables;
+}
+
+interface Clause {
+  terms: Set<string>;
+  negations: number;
+}
+
+/** Content terms and negation count of one clause. */
+function analyzeClause(text: string): Clause {
+  const { words: wordTerms, phrases } = conceptTables();
+  const tokens = words(text);
+  const stems = tokens.map(stem);
+  const terms = new Set<string>();
+  let negations = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    // Phrases first, so "not around" counts as absent rather than as a negation
+    const phrase = phrases.find(({ stems: p }) => p.every((s, j) => stems[i + j] === s));
+    const concept = phrase ?? wordTerms.get(stems[i]);
+    if (phrase) i += phrase.stems.length - 1;
+    if (concept) {
+      terms.add(concept.term);
+      if (concept.negated) negations++;
+    } else if (NEGATIONS.has(tokens[i])) {
+      negations++;
+    } else if (!STOPWORDS.has(tokens[i]) && !REFUTATIONS.has(tokens[i])) {
+      terms.add(stems[i]);
+    }
+  }
+  return { terms, negations };
+}
+
+interface MythSignature {
+  myth: string;
+  /** Terms of each statement the myth makes (split at ; and :); the first is its claim. */
+  statements: Set<string>[];
+  clauses: Clause[];
+  terms: Set<string>;
+  anchors: number;
+}
+
+function splitClauses(text: string): Clause[] {
+  return text
+    .split(CLAUSE_BREAK)
+    .filter(Boolean)
+    .map(analyzeClause)
+    .filter((c) => c.terms.size > 0 || c.negations > 0);
+}
+
+function mythSignature(myth: string): MythSignature {
+  const statement = myth.replace(/\([^)]*\)/g, ' ');
+  const clauses = splitClauses(statement).filter((c) => c.terms.size > 0);
+  if (clauses.length === 0) return { myth, statements: [], clauses, terms: new Set(), anchors: 0 };
+  const statements = statement
+    .split(/[;:]/)
+    .map((part) => analyzeClause(part).terms)
+    .filter((t) => t.size > 0);
+  const terms = new Set(clauses.flatMap((c) => [...c.terms]));
+  const anchors = [...terms].filter((t) => !GENERIC_CONCEPTS.has(t)).length;
+  return { myth, statements, clauses, terms, anchors };
+}
+
+/**
+ * Paraphrase-normalized content terms of `text`: stems, with MYTH_CONCEPTS and topic synonyms
+ * mapped onto one term and stopwords and negations dropped. Coverage scoring compares with these.
+ */
+export function contentTerms(text: string): Set<string> {
+  return analyzeClause(text).terms;
+}
+
+/** Sentences of `text` with their offsets; a sentence ends at . ! ? or a line break. */
+function splitSentences(text: string): { sentence: string; start: number; end: number }[] {
+  const sentences: { sentence: string; start: number; end: number }[] = [];
+  for (const m of text.matchAll(/[^.!?\n]+[.!?]*/g)) {
+    const raw = m[0];
+    const lead = raw.length - raw.trimStart().length;
+    const sentence = raw.trim();
+    if (!/[a-z0-9]/i.test(sentence)) continue;
+    const start = (m.index ?? 0) + lead;
+    sentences.push({ sentence, start, end: start + sentence.length });
+  }
+  return sentences;
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let n = 0;
+  for (const t of a) if (b.has(t)) n++;
+  return n;
+}
+
+/**
+ * How `sentence` relates to the myth, or null when it is not about it. Each sentence clause is
+ * paired with the myth clause it shares most terms with and votes, by the shared terms no earlier
+ * clause voted with, on whether their negations agree; a tie counts as a refutation.
+ */
+function compare(sentence: string, signature: MythSignature): { stance: MythStance; score: number } | null {
+  const clauses = splitClauses(sentence);
+  const terms = new Set(clauses.flatMap((c) => [...c.terms]));
+  const matched = [...signature.terms].filter((t) => terms.has(t));
+  const anchors = matched.filter((t) => !GENERIC_CONCEPTS.has(t)).length;
+  if (anchors < Math.min(MIN_ANCHORS, signature.anchors)) return null;
+  const coverage = (statement: Set<string>) => overlap(statement, terms) / statement.size;
+  const score = matched.length / signature.terms.size;
+  if (coverage(signature.statements[0]) < MIN_CLAIM_COVERAGE && score < MIN_MYTH_COVERAGE) return null;
+  const closest = signature.statements.reduce((best, t) => (coverage(t) > coverage(best) ? t : best));
+  const unqualified = [...closest].some((t) => QUALIFIERS.has(t) && !terms.has(t));
+
+  const tokens = words(sentence);
+  if (tokens.some((w) => REFUTATIONS.has(w))) return { stance: 'refutes', score };
+  // "Never …", "Don't …": a prohibition covers the whole sentence, whatever follows
+  if (PROHIBITIONS.has(tokens[0]) || (tokens[0] === 'do' && tokens[1] === 'not')) return { stance: 'refutes', score };
+  // "Only trained operators may …" restricts what a permissive myth allows
+  if (tokens[0] === 'only' && !signature.terms.has('only')) return { stance: 'refutes', score };
+  let agree = 0;
+  let disagree = 0;
+  const voted = new Set<string>();
+  for (const clause of clauses) {
+    const counterpart = signature.clauses.reduce((best, c) =>
+      overlap(clause.terms, c.terms) > overlap(clause.terms, best.terms) ? c : best
+    );
+    const shared = [...clause.terms].filter((t) => counterpart.terms.has(t) && !voted.has(t));
+    for (const t of shared) voted.add(t);
+    if (clause.negations % 2 === counterpart.negations % 2) agree += shared.length;
+    else disagree += shared.length;
+  }
+  if (agree > disagree) return unqualified ? null : { stance: 'endorses', score };
+  return { stance: 'refutes', score };
+}
+
+/** Every sentence of `text` that is about one of `myths`, with whether it endorses or refutes it. */
+export function detectMyths(text: string, myths: readonly string[]): MythMatch[] {
+  const signatures = myths.map(mythSignature).filter((s) => s.clauses.length > 0);
+  const matches: MythMatch[] = [];
+  for (const { sentence, start, end } of splitSentences(text)) {
+    for (const signature of signatures) {
+      const result = compare(sentence, signature);
+      if (result) matches.push({ myth: signature.myth, sentence, start, end, ...result });
+    }
+  }
+  return matches;
+}
+
+/** The myths `text` endorses somewhere, in `myths` order. */
+export function findEndorsedMyths(text: string, myths: readonly string[]): string[] {
+  const endorsed = new Set(detectMyths(text, myths).filter((m) => m.stance === 'endorses').map((m) => m.myth));
+  return myths.filter((m) => endorsed.has(m));
+}
+
+/**
+ * Precision and recall of endorsement flags over labeled sentences, each checked against all of
+ * `myths` (the topic's myth list): a flag is correct only for the labeled myth on an endorsing sentence.
+ */
+export function evaluateMythDetection(fixtures: readonly MythFixture[], myths: readonly string[]): MythDetectionScore {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  const errors: MythDetectionScore['errors'] = [];
+  for (const fixture of fixtures) {
+    const flagged = findEndorsedMyths(fixture.text, myths);
+    const expected = fixture.stance === 'endorses' ? fixture.myth : undefined;
+    const hit = expected !== undefined && flagged.includes(expected);
+    const wrong = flagged.filter((m) => m !== expected).length;
+    if (hit) truePositives++;
+    if (expected !== undefined && !hit) falseNegatives++;
+    falsePositives += wrong;
+    if (wrong > 0 || (expected !== undefined && !hit)) errors.push({ text: fixture.text, expected: fixture.stance, flagged });
+  }
+  const ratio = (n: number, d: number) => (d === 0 ? 1 : n / d);
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: ratio(truePositives, truePositives + falsePositives),
+    recall: ratio(truePositives, truePositives + falseNegatives),
+    errors,
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { extractPartialScript } from '@/lib/partial-script';
+
+const full = JSON.stringify({
+  title: 'Forklift "Basics"',
+  visualStyle: 'Flat illustration of Alex',
+  scenes: [
+    { narration: 'Sound the horn {always}.', imagePrompt: 'Alex pressing horn' },
+    { narration: 'Check blind spots.', imagePrompt: 'Alex looking left' },
+  ],
+});
+
+describe('extractPartialScript', () => {
+  it('returns nothing usable for an empty or just-opened document', () => {
+    expect(extractPartialScript('')).toEqual({ scenes: [] });
+    expect(extractPartialScript('{"tit')).toEqual({ scenes: [] });
+  });
+
+  it('extracts the title once its string is closed', () => {
+    const cut = full.indexOf('"visualStyle"');
+    expect(extractPartialScript(full.slice(0, cut)).title).toBe('Forklift "Basics"');
+  });
+
+  it('only returns scenes whose closing brace has arrived', () => {
+    const secondScene = full.indexOf('{"narration":"Check');
+    const partial = extractPartialScript(full.slice(0, secondScene + 20));
+    expect(partial.scenes).toEqual([
+      { narration: 'Sound the horn {always}.', imagePrompt: 'Alex pressing horn' },
+    ]);
+    expect(partial.visualStyle).toBe('Flat illustration of Alex');
+  });
+
+  it('matches JSON.parse on the complete document', () => {
+    const parsed = JSON.parse(full);
+    expect(extractPartialScript(full)).toEqual(parsed);
+  });
+
+  it('ignores nested objects and strings containing keys', () => {
+    const text = '{"notes":{"title":"nope"},"title":"Ladders","scenes":[{"narration":"a","imagePrompt":"b","meta":{"x":1}}]}';
+    const partial = extractPartialScript(text);
+    expect(partial.title).toBe('Ladders');
+    expect(partial.scenes).toEqual([{ narration: 'a', imagePrompt: 'b', meta: { x: 1 } }]);
+  });
+});
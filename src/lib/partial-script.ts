@@ -0,0 +1,74 @@
+/**
+ * Incremental parsing of a script JSON document while the model is still writing it.
+ *
+ * The script format is `{ "title", "visualStyle", "scenes": [ {...}, ... ] }`. Given the text
+ * streamed so far, returns the top-level strings that are complete and every scene object
+ * whose closing brace has arrived, so scenes can be shown before the response finishes.
+ */
+
+export interface PartialScript {
+  title?: string;
+  visualStyle?: string;
+  /** Complete scene objects in order (unvalidated). */
+  scenes: unknown[];
+}
+
+export function extractPartialScript(text: string): PartialScript {
+  const result: PartialScript = { scenes: [] };
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let expectKey = false;
+  let key: string | null = null;
+  let inScenes = false;
+  let sceneStart = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        if (depth === 1) {
+          let value: string;
+          try {
+            value = JSON.parse(text.slice(stringStart, i + 1)) as string;
+          } catch {
+            continue;
+          }
+          if (expectKey) key = value;
+          else if (key === 'title' || key === 'visualStyle') result[key] = value;
+        }
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      stringStart = i;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+      if (depth === 1) expectKey = true;
+      else if (ch === '[' && depth === 2 && key === 'scenes') inScenes = true;
+      else if (ch === '{' && depth === 3 && inScenes) sceneStart = i;
+    } else if (ch === '}' || ch === ']') {
+      if (ch === '}' && depth === 3 && sceneStart >= 0) {
+        try {
+          result.scenes.push(JSON.parse(text.slice(sceneStart, i + 1)));
+        } catch {
+          // Malformed scene; the final full parse reports the error
+        }
+        sceneStart = -1;
+      } else if (ch === ']' && depth === 2) {
+        inScenes = false;
+      }
+      depth--;
+    } else if (depth === 1) {
+      if (ch === ':') expectKey = false;
+      else if (ch === ',') expectKey = true;
+    }
+  }
+  return result;
+}
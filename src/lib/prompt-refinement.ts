@@ -25,7 +25,7 @@
  * Cost: ~$0.0007 per 5-scene video (negligible)
  */
 
-import { openai } from '@/lib/openai-client';
+import { getLLMProvider } from '@/lib/providers/llm-providers';
 import { withRetry } from '@/lib/retry';
 import { withTimeout } from '@/lib/timeout';
 import type { ImageProviderId } from '@/lib/providers/image-providers';
@@ -39,9 +39,6 @@ export const PROMPT_REFINEMENT_ENABLED = process.env.PROMPT_REFINEMENT_ENABLED !
 /** Timeout for refinement calls (short since they're simple). */
 const REFINEMENT_TIMEOUT_MS = 15_000;
 
-/** Model used for prompt refinement (lightweight is fine). */
-const REFINEMENT_MODEL = 'gpt-4o-mini';
-
 /**
  * Provider-specific guidelines for prompt engineering.
  * Based on official documentation and best practices for each model.
@@ -334,22 +331,22 @@ export async function refinePromptForProvider(
   try {
     const completion = await withTimeout(
       withRetry(() =>
-        openai.chat.completions.create({
-          model: REFINEMENT_MODEL,
+        getLLMProvider().complete({
+          task: 'refinement',
           messages: [
             { role: 'system', content: systemPrompt },
             { role: 'user', content: userPrompt },
           ],
-          response_format: { type: 'json_object' },
+          json: true,
           temperature: 0.3, // Lower temp for more consistent formatting
-          max_tokens: 500,
+          maxTokens: 500,
         })
       ),
       REFINEMENT_TIMEOUT_MS,
       'Prompt refinement timed out'
     );
 
-    const content = completion.choices?.[0]?.message?.content;
+    const content = completion.content;
     if (!content) {
       console.warn('[prompt-refinement] No content returned, using original prompt');
       return { refinedPrompt: basePrompt, wasRefined: false };
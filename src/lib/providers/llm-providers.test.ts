@@ -0,0 +1,143 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getLLMProvider, isLLMProviderConfigured } from './llm-providers';
+
+const mockCreate = vi.fn();
+vi.mock('@/lib/openai-client', () => ({
+  openai: {
+    chat: { completions: { create: (...args: unknown[]) => mockCreate(...args) } },
+  },
+}));
+
+const scriptRequest = (userContent: string) => ({
+  task: 'script' as const,
+  messages: [
+    { role: 'system' as const, content: 'You write scripts.' },
+    { role: 'user' as const, content: userContent },
+  ],
+  json: true,
+});
+
+describe('llm-providers', () => {
+  const origEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...origEnv };
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
+  });
+
+  describe('getLLMProvider', () => {
+    it('selects the provider from LLM_PROVIDER', () => {
+      process.env.LLM_PROVIDER = 'fixture';
+      expect(getLLMProvider().id).toBe('fixture');
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      expect(getLLMProvider().id).toBe('openai-compatible');
+    });
+
+    it('falls back to openai for unknown or unset providers', () => {
+      process.env.LLM_PROVIDER = 'unknown';
+      expect(getLLMProvider().id).toBe('openai');
+      delete process.env.LLM_PROVIDER;
+      expect(getLLMProvider().id).toBe('openai');
+    });
+  });
+
+  describe('openai provider', () => {
+    it('uses the task model unless the call overrides it', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: '{"claims":[]}' } }] });
+      const provider = getLLMProvider();
+
+      const result = await provider.complete({ ...scriptRequest('Check this.'), task: 'verification', maxTokens: 100 });
+      expect(result).toEqual({ content: '{"claims":[]}' });
+      expect(mockCreate.mock.calls[0][0]).toMatchObject({
+        model: provider.getModel('verification'),
+        response_format: { type: 'json_object' },
+        max_tokens: 100,
+      });
+
+      await provider.complete({ ...scriptRequest('Check this.'), model: 'gpt-4.1' });
+      expect(mockCreate.mock.calls[1][0].model).toBe('gpt-4.1');
+    });
+
+    it('uses LLM_MODEL_<TASK> for every call of that task', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: '{"claims":[]}' } }] });
+      process.env.LLM_MODEL_VERIFICATION = 'gpt-4.1';
+      const provider = getLLMProvider();
+      expect(provider.getModel('verification')).toBe('gpt-4.1');
+      expect(provider.getModel('refinement')).toBe('gpt-4o-mini');
+
+      await provider.complete({ ...scriptRequest('Check this.'), task: 'verification' });
+      expect(mockCreate.mock.calls[0][0].model).toBe('gpt-4.1');
+      await provider.complete({ ...scriptRequest('Check this.'), task: 'verification', model: 'o4-mini' });
+      expect(mockCreate.mock.calls[1][0].model).toBe('o4-mini');
+    });
+  });
+
+  describe('openai-compatible provider', () => {
+    it('requires LLM_BASE_URL', async () => {
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      delete process.env.LLM_BASE_URL;
+      expect(isLLMProviderConfigured()).toBe(false);
+      await expect(getLLMProvider().complete(scriptRequest('Topic: ladders.'))).rejects.toThrow(
+        'LLM_BASE_URL is required'
+      );
+    });
+
+    it('uses LLM_MODEL for every task', () => {
+      process.env.LLM_PROVIDER = 'openai-compatible';
+      process.env.LLM_MODEL = 'llama3.1:8b';
+      expect(getLLMProvider().getModel('script')).toBe('llama3.1:8b');
+      expect(getLLMProvider().getModel('refinement')).toBe('llama3.1:8b');
+    });
+  });
+
+  describe('fixture provider', () => {
+    beforeEach(() => {
+      process.env.LLM_PROVIDER = 'fixture';
+    });
+
+    it('writes a deterministic script with the requested scene count and source citations', async () => {
+      const content = 'Topic: Ladder safety. Create exactly 2 scenes. JSON only.\n\n[S1] Setup\nFoot the ladder.\n\n[S2] Climb\nFace the ladder.';
+      const first = await getLLMProvider().complete(scriptRequest(content));
+      const second = await getLLMProvider().complete(scriptRequest(content));
+      expect(first).toEqual(second);
+
+      const script = JSON.parse(first.content ?? '');
+      expect(script.title).toBe('Ladder safety');
+      expect(script.scenes.map((s: { sourceSection: string }) => s.sourceSection)).toEqual(['S1', 'S2']);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('streams the same content in chunks', async () => {
+      const request = scriptRequest('Topic: Forklift safety. JSON only.');
+      const { content } = await getLLMProvider().complete(request);
+      let streamed = '';
+      for await (const chunk of await getLLMProvider().stream(request)) streamed += chunk.content ?? '';
+      expect(streamed).toBe(content);
+    });
+
+    it('builds true/false quiz questions from the numbered reference', async () => {
+      const content = 'Script "Ladders":\nScene 0: Face the ladder.\n\nREFERENCE (EHS library):\n[R1] (Ladders, key fact) Keep three points of contact.\n[R2] (Ladders, best practice) Face the ladder.\n\nWrite exactly 1 questions.\nJSON only.';
+      const quiz = JSON.parse((await getLLMProvider().complete({ ...scriptRequest(content), task: 'quiz' })).content ?? '');
+      expect(quiz.questions).toEqual([
+        expect.objectContaining({ question: 'Keep three points of contact.', correctAnswer: 'True', referenceId: 'R1' }),
+      ]);
+    });
+
+    it('returns clean check results by default and reads overrides from LLM_FIXTURES_FILE', async () => {
+      const verify = { ...scriptRequest('Scene 1: ...'), task: 'verification' as const };
+      expect((await getLLMProvider().complete(verify)).content).toBe('{"claims":[]}');
+
+      const file = join(mkdtempSync(join(tmpdir(), 'llm-fixtures-')), 'fixtures.json');
+      writeFileSync(file, JSON.stringify({ verification: { claims: [{ claim: 'x' }] } }));
+      process.env.LLM_FIXTURES_FILE = file;
+      expect((await getLLMProvider().complete(verify)).content).toBe('{"claims":[{"claim":"x"}]}');
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Text LLM provider abstraction for script generation, revision, verification, quizzes and
+ * prompt refinement.
+ * Switch backends via LLM_PROVIDER env: openai | openai-compatible | fixture
+ *
+ * - openai:            OpenAI API (OPENAI_API_KEY); structured outputs on models that support them
+ * - openai-compatible: any server speaking the Chat Completions API (vLLM, Ollama, LM Studio,
+ *                      LiteLLM) at LLM_BASE_URL, with optional LLM_API_KEY and LLM_MODEL
+ * - fixture:           deterministic offline responses, no network; LLM_FIXTURES_FILE (JSON,
+ *                      task -> response) replaces the built-in response for a task
+ *
+ * Each call names its task, which picks the provider's default model. LLM_MODEL_<TASK>
+ * (e.g. LLM_MODEL_VERIFICATION) overrides it for every call of that task, and `model` for a
+ * single call.
+ */
+
+import { readFileSync } from 'fs';
+import OpenAI from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { OPENAI_SCRIPT_MODEL } from '@/lib/constants';
+import { openai } from '@/lib/openai-client';
+import type { ZodType } from 'zod';
+
+export type LLMProviderId = 'openai' | 'openai-compatible' | 'fixture';
+
+/** What a call is for; selects the default model and the fixture response. */
+export type LLMTask =
+  | 'script'
+  | 'revision'
+  | 'correction'
+  | 'summary'
+  | 'verification'
+  | 'refinement'
+  | 'quiz';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionParams {
+  task: LLMTask;
+  messages: LLMMessage[];
+  /** Per-call model override; defaults to LLM_MODEL_<TASK>, then the provider's model for the task. */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a JSON object response. */
+  json?: boolean;
+  /** Output schema, sent as structured outputs where the model supports them (implies json). */
+  schema?: { name: string; zod: ZodType };
+}
+
+export interface LLMCompletion {
+  content: string | null;
+  /** Schema-validated output when structured outputs were used. */
+  parsed?: unknown;
+  refusal?: string;
+}
+
+export interface LLMStreamChunk {
+  content?: string;
+  refusal?: string;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  /** Model used for `task` (LLM_MODEL_<TASK> when set) unless the call overrides it. */
+  getModel(task: LLMTask): string;
+  complete(params: LLMCompletionParams): Promise<LLMCompletion>;
+  /** Starts a streamed completion; the returned promise settles once the request is accepted. */
+  stream(params: LLMCompletionParams): Promise<AsyncIterable<LLMStreamChunk>>;
+}
+
+const STRUCTURED_OUTPUT_MODELS = ['gpt-4o-mini', 'gpt-4o', 'gpt-4o-2024-08-06'];
+
+/** Prompt refinement is a small formatting task; it stays on the cheap model. */
+const OPENAI_REFINEMENT_MODEL = 'gpt-4o-mini';
+
+function getOpenAIModel(task: LLMTask): string {
+  return task === 'refinement' ? OPENAI_REFINEMENT_MODEL : OPENAI_SCRIPT_MODEL;
+}
+
+function getCompatibleModel(): string {
+  return process.env.LLM_MODEL?.trim() || OPENAI_SCRIPT_MODEL;
+}
+
+/** Model set for every call of a task with LLM_MODEL_<TASK>, e.g. LLM_MODEL_QUIZ. */
+function getTaskModelOverride(task: LLMTask): string | undefined {
+  return process.env[`LLM_MODEL_${task.toUpperCase()}`]?.trim() || undefined;
+}
+
+let compatibleClient: { baseURL: string; client: OpenAI } | null = null;
+
+function getCompatibleClient(): OpenAI {
+  const baseURL = process.env.LLM_BASE_URL?.trim();
+  if (!baseURL) {
+    throw new Error('LLM_BASE_URL is required for LLM_PROVIDER=openai-compatible');
+  }
+  if (compatibleClient?.baseURL !== baseURL) {
+    // Local servers usually ignore the key, but the SDK requires one
+    compatibleClient = {
+      baseURL,
+      client: new OpenAI({ baseURL, apiKey: process.env.LLM_API_KEY?.trim() || 'not-needed' }),
+    };
+  }
+  return compatibleClient.client;
+}
+
+/** Chat Completions provider; `structured` enables schema outputs on supporting models. */
+function createChatCompletionsProvider(
+  id: LLMProviderId,
+  getClient: () => OpenAI,
+  getDefaultModel: (task: LLMTask) => string,
+  structured: boolean
+): LLMProvider {
+  const getModel = (task: LLMTask) => getTaskModelOverride(task) ?? getDefaultModel(task);
+  const supportsSchema = (params: LLMCompletionParams, model: string) =>
+    structured && !!params.schema && STRUCTURED_OUTPUT_MODELS.some((m) => model.includes(m));
+
+  const buildRequest = (params: LLMCompletionParams) => {
+    const model = params.model ?? getModel(params.task);
+    const schema = supportsSchema(params, model) ? params.schema : undefined;
+    return {
+      schema,
+      request: {
+        model,
+        messages: params.messages,
+        ...(schema
+          ? { response_format: zodResponseFormat(schema.zod, schema.name) }
+          : (params.json || params.schema) && { response_format: { type: 'json_object' as const } }),
+        ...(params.temperature !== undefined && { temperature: params.temperature }),
+        ...(params.maxTokens !== undefined && { max_tokens: params.maxTokens }),
+      },
+    };
+  };
+
+  return {
+    id,
+    getModel,
+    async complete(params) {
+      const { schema, request } = buildRequest(params);
+      if (schema) {
+        const completion = await getClient().beta.chat.completions.parse(request);
+        const msg = completion.choices?.[0]?.message;
+        return {
+          content: msg?.content ?? null,
+          ...(msg?.parsed != null && { parsed: msg.parsed }),
+          ...(msg?.refusal && { refusal: msg.refusal }),
+        };
+      }
+      const completion = await getClient().chat.completions.create(request);
+      const msg = completion.choices?.[0]?.message;
+      return { content: msg?.content ?? null, ...(msg?.refusal && { refusal: msg.refusal }) };
+    },
+    async stream(params) {
+      const { request } = buildRequest(params);
+      const stream = await getClient().chat.completions.create({ ...request, stream: true });
+      return (async function* () {
+        for await (const chunk of stream) {
+          const delta = chunk.choices?.[0]?.delta;
+          if (delta?.content || delta?.refusal) {
+            yield {
+              ...(delta.content && { content: delta.content }),
+              ...(delta.refusal && { refusal: delta.refusal }),
+            };
+          }
+        }
+      })();
+    },
+  };
+}
+
+let fixtureFile: { path: string; responses: Partial<Record<LLMTask, unknown>> } | null = null;
+
+function getFixtureFileResponse(task: LLMTask): string | undefined {
+  const path = process.env.LLM_FIXTURES_FILE?.trim();
+  if (!path) return undefined;
+  if (fixtureFile?.path !== path) {
+    fixtureFile = { path, responses: JSON.parse(readFileSync(path, 'utf8')) };
+  }
+  const response = fixtureFile.responses[task];
+  if (response === undefined) return undefined;
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
+
+function lastUserMessage(messages: LLMMessage[]): string {
+  return [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+}
+
+/** A script with the requested scene count on the prompt's topic, citing source sections when given. */
+function fixtureScript(userContent: string): string {
+  const topic = userContent.match(/Topic: (.+?)\.(?:\s|$)/)?.[1]?.trim() || 'Workplace safety';
+  const count = Number(userContent.match(/Create exactly (\d+) scene/)?.[1] ?? 3);
+  const sectionIds = [...userContent.matchAll(/^\[(S\d+)\]/gm)].map((m) => m[1]);
+  const scenes = Array.from({ length: count }, (_, i) => ({
+    narration: `Step ${i + 1}: stop, check for hazards, and follow the safe procedure for ${topic.toLowerCase()}.`,
+    imagePrompt: `Alex, a worker wearing a yellow hard hat and orange safety vest, pausing to check the work area before step ${i + 1}, single person scene, no other people visible`,
+    ...(sectionIds.length > 0 && { sourceSection: sectionIds[Math.min(i, sectionIds.length - 1)] }),
+  }));
+  return JSON.stringify({
+    title: topic.charAt(0).toUpperCase() + topic.slice(1),
+    visualStyle: 'Professional illustration of Alex, a worker wearing a yellow hard hat and orange safety vest',
+    scenes,
+  });
+}
+
+/** Echoes the script embedded in the request, i.e. a revision that changes nothing. */
+function fixtureRevision(userContent: string): string {
+  const start = userContent.indexOf('{');
+  const end = userContent.lastIndexOf('}');
+  return start >= 0 && end > start ? userContent.slice(start, end + 1) : '{"title":"","scenes":[]}';
+}
+
+/** True/false questions on the first reference statements, each tied to scene 0. */
+function fixtureQuiz(userContent: string): string {
+  const count = Number(userContent.match(/Write exactly (\d+) question/)?.[1] ?? 5);
+  const references = [...userContent.matchAll(/^\[(R\d+)\] (?:\([^)]*\) )?(.+)$/gm)];
+  const questions = references.slice(0, count).map(([, referenceId, text]) => ({
+    type: 'true_false',
+    question: text.trim(),
+    correctAnswer: 'True',
+    distractors: ['False'],
+    rationale: `The reference states: ${text.trim()}`,
+    sceneIndex: 0,
+    referenceId,
+  }));
+  return JSON.stringify({ questions });
+}
+
+/**
+ * Built-in fixture responses. Checks come back clean (no claims, no rewrites) and
+ * refinement and summaries return nothing, so callers use their fallbacks.
+ */
+function fixtureResponse(task: LLMTask, messages: LLMMessage[]): string {
+  const fromFile = getFixtureFileResponse(task);
+  if (fromFile !== undefined) return fromFile;
+  const userContent = lastUserMessage(messages);
+  switch (task) {
+    case 'script':
+      return fixtureScript(userContent);
+    case 'revision':
+      return fixtureRevision(userContent);
+    case 'quiz':
+      return fixtureQuiz(userContent);
+    case 'correction':
+      return '{"scenes":[]}';
+    case 'verification':
+      return '{"claims":[]}';
+    case 'refinement':
+      return '{}';
+    case 'summary':
+      return '';
+  }
+}
+
+const FIXTURE_STREAM_CHUNK_CHARS = 64;
+
+const fixtureProvider: LLMProvider = {
+  id: 'fixture',
+  getModel: () => 'fixture',
+  async complete(params) {
+    return { content: fixtureResponse(params.task, params.messages) };
+  },
+  async stream(params) {
+    const content = fixtureResponse(params.task, params.messages);
+    return (async function* () {
+      for (let i = 0; i < content.length; i += FIXTURE_STREAM_CHUNK_CHARS) {
+        yield { content: content.slice(i, i + FIXTURE_STREAM_CHUNK_CHARS) };
+      }
+    })();
+  },
+};
+
+const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  openai: createChatCompletionsProvider('openai', () => openai, getOpenAIModel, true),
+  'openai-compatible': createChatCompletionsProvider(
+    'openai-compatible',
+    getCompatibleClient,
+    getCompatibleModel,
+    false
+  ),
+  fixture: fixtureProvider,
+};
+
+export function getLLMProviderId(): LLMProviderId {
+  const id = (process.env.LLM_PROVIDER ?? 'openai') as LLMProviderId;
+  return PROVIDERS[id] ? id : 'openai';
+}
+
+export function getLLMProvider(): LLMProvider {
+  return PROVIDERS[getLLMProviderId()];
+}
+
+/** Whether the selected provider has the configuration it needs. */
+export function isLLMProviderConfigured(): boolean {
+  switch (getLLMProviderId()) {
+    case 'openai':
+      return Boolean(process.env.OPENAI_API_KEY?.trim());
+    case 'openai-compatible':
+      return Boolean(process.env.LLM_BASE_URL?.trim());
+    case 'fixture':
+      return true;
+  }
+}
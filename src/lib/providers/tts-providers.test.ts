@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { getTTSProvider } from './tts-providers';
+import { getProviderVoice, getTTSProvider } from './tts-providers';
 
 describe('tts-providers', () => {
   const origEnv = process.env;
@@ -54,4 +54,26 @@ describe('tts-providers', () => {
       ).rejects.toThrow('Audio generation service is not configured');
     });
   });
+
+  describe('getProviderVoice', () => {
+    it('keeps the existing English voice maps', () => {
+      expect(getProviderVoice('edge', 'onyx')).toBe('en-US-GuyNeural');
+      expect(getProviderVoice('kokoro', 'nova', 'en')).toBe('af_nicole');
+      expect(getProviderVoice('openai', 'brian')).toBe('onyx');
+    });
+
+    it('picks a native voice of the same gender for other languages', () => {
+      expect(getProviderVoice('edge', 'onyx', 'es')).toBe('es-US-AlonsoNeural');
+      expect(getProviderVoice('edge', 'nova', 'vi')).toBe('vi-VN-HoaiMyNeural');
+      expect(getProviderVoice('kokoro', 'jenny', 'zh')).toBe('zf_xiaobei');
+    });
+
+    it('uses the multilingual OpenAI voice regardless of language', () => {
+      expect(getProviderVoice('openai', 'nova', 'fr')).toBe('nova');
+    });
+
+    it('returns null when Kokoro has no voice for the language', () => {
+      expect(getProviderVoice('kokoro', 'onyx', 'vi')).toBeNull();
+    });
+  });
 });
@@ -12,9 +12,16 @@
  * - Each provider maps these to its native voice names
  * - Extended voices (guy, jenny, etc.) map to closest equivalents on each provider
  * - OpenAI has 6 native voices; extended voices map to closest matches
+ *
+ * Languages:
+ * - OpenAI voices are multilingual; the narration text sets the spoken language
+ * - Edge and Kokoro voices are per-locale; for non-English narration the app voice's
+ *   gender selects a native voice for that locale (see getProviderVoice)
+ * - Kokoro has no Vietnamese voices; Vietnamese narration falls back to Edge TTS
  */
 
-import { OPENAI_REQUEST_TIMEOUT_MS } from '@/lib/constants';
+import { OPENAI_REQUEST_TIMEOUT_MS, VOICES, type LanguageCode } from '@/lib/constants';
+import { logWarn } from '@/lib/logger';
 import { openai } from '@/lib/openai-client';
 import { withReplicateThrottle } from '@/lib/replicate-throttle';
 import { withRetry } from '@/lib/retry';
@@ -26,6 +33,8 @@ export interface TTSGenerateParams {
   text: string;
   voice: string;
   draft: boolean;
+  /** Narration language (default en). */
+  language?: LanguageCode;
 }
 
 export interface TTSProvider {
@@ -57,6 +66,49 @@ const VOICE_MAP: Record<string, string> = {
   brian: 'en-GB-RyanNeural',
 };
 
+type VoiceGender = 'male' | 'female';
+type LocaleVoices = Record<VoiceGender, string>;
+
+/** Non-English Edge TTS neural voices by narration language */
+const EDGE_LOCALE_VOICES: Record<Exclude<LanguageCode, 'en'>, LocaleVoices> = {
+  es: { male: 'es-US-AlonsoNeural', female: 'es-US-PalomaNeural' },
+  fr: { male: 'fr-FR-HenriNeural', female: 'fr-FR-DeniseNeural' },
+  vi: { male: 'vi-VN-NamMinhNeural', female: 'vi-VN-HoaiMyNeural' },
+  pt: { male: 'pt-BR-AntonioNeural', female: 'pt-BR-FranciscaNeural' },
+  zh: { male: 'zh-CN-YunxiNeural', female: 'zh-CN-XiaoxiaoNeural' },
+};
+
+/** Non-English Kokoro voices by narration language (the voice prefix selects the language) */
+const KOKORO_LOCALE_VOICES: Partial<Record<Exclude<LanguageCode, 'en'>, LocaleVoices>> = {
+  es: { male: 'em_alex', female: 'ef_dora' },
+  fr: { male: 'ff_siwis', female: 'ff_siwis' },
+  pt: { male: 'pm_alex', female: 'pf_dora' },
+  zh: { male: 'zm_yunxi', female: 'zf_xiaobei' },
+};
+
+function getVoiceGender(voice: string): VoiceGender {
+  return VOICES.find((v) => v.value === voice)?.gender ?? 'male';
+}
+
+/**
+ * Native voice name for a provider, app voice and narration language.
+ * Returns null when the provider has no voice for that language.
+ */
+export function getProviderVoice(
+  providerId: TTSProviderId,
+  voice: string,
+  language: LanguageCode = 'en'
+): string | null {
+  if (providerId === 'openai') return OPENAI_VOICE_MAP[voice] ?? 'onyx';
+  if (language === 'en') {
+    return providerId === 'edge'
+      ? (VOICE_MAP[voice] ?? 'en-US-GuyNeural')
+      : (KOKORO_VOICE_MAP[voice] ?? 'af_bella');
+  }
+  const localeVoices = providerId === 'edge' ? EDGE_LOCALE_VOICES[language] : KOKORO_LOCALE_VOICES[language];
+  return localeVoices?.[getVoiceGender(voice)] ?? null;
+}
+
 /** Map extended voices to OpenAI's 6 native voices */
 const OPENAI_VOICE_MAP: Record<string, 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'> = {
   // Native voices
@@ -114,8 +166,8 @@ async function generateEdge(params: TTSGenerateParams): Promise<{
   audioBase64: string;
   contentType: string;
 }> {
-  const { text, voice } = params;
-  const edgeVoice = VOICE_MAP[voice] ?? 'en-US-GuyNeural';
+  const { text, voice, language } = params;
+  const edgeVoice = getProviderVoice('edge', voice, language) ?? 'en-US-GuyNeural';
 
   const edgeTts = await import('edge-tts-node');
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -171,8 +223,12 @@ async function generateKokoro(params: TTSGenerateParams): Promise<{
   audioBase64: string;
   contentType: string;
 }> {
-  const { text, voice } = params;
-  const kokoroVoice = KOKORO_VOICE_MAP[voice] ?? 'af_bella';
+  const { text, voice, language } = params;
+  const kokoroVoice = getProviderVoice('kokoro', voice, language);
+  if (!kokoroVoice) {
+    logWarn(`Kokoro has no ${language} voice; using Edge TTS`, { route: 'tts' });
+    return generateEdge(params);
+  }
   const token = process.env.REPLICATE_API_TOKEN?.trim();
   if (!token) throw new Error('Audio generation service is not configured. Please contact support.');
 
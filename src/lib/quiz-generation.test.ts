@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getTopicsByIds } from './ehs-reference';
+import { buildQuizReferences, generateQuiz, normalizeQuizQuestions } from './quiz-generation';
+import type { ScriptResult } from './types';
+
+const mockCreate = vi.fn();
+vi.mock('@/lib/openai-client', () => ({
+  openai: {
+    chat: { completions: { create: (...args: unknown[]) => mockCreate(...args) } },
+  },
+}));
+
+const script: ScriptResult = {
+  title: 'Forklift Safety',
+  scenes: [
+    { narration: 'Sound the horn at blind corners.', imagePrompt: 'Alex pressing horn' },
+    { narration: 'Inspect the forklift before each shift.', imagePrompt: 'Alex checking tires' },
+  ],
+};
+
+const multipleChoice = {
+  type: 'multiple_choice' as const,
+  question: 'When should you sound the horn?',
+  correctAnswer: 'At blind corners and intersections',
+  distractors: ['Only when loaded', 'Never indoors', 'Only at shift start'],
+  rationale: 'The horn warns pedestrians you cannot see.',
+  sceneIndex: 0,
+  referenceId: 'R4',
+};
+
+describe('buildQuizReferences', () => {
+  it('numbers key facts then best practices for each known topic', () => {
+    const forklift = getTopicsByIds(['forklift'])[0];
+    const refs = buildQuizReferences(['forklift', 'unknown', 'forklift']);
+    expect(refs).toHaveLength(forklift.keyFacts.length + forklift.bestPractices.length);
+    expect(refs[0]).toMatchObject({ id: 'R1', topicId: 'forklift', kind: 'key fact', text: forklift.keyFacts[0] });
+    expect(refs[forklift.keyFacts.length]).toMatchObject({ kind: 'best practice', text: forklift.bestPractices[0] });
+  });
+});
+
+describe('normalizeQuizQuestions', () => {
+  const refs = buildQuizReferences(['forklift']);
+
+  it('keeps grounded questions and attaches the reference statement', () => {
+    const [q] = normalizeQuizQuestions([multipleChoice], refs, 2, 5);
+    expect(q).toMatchObject({ type: 'multiple_choice', sceneIndex: 0, topicId: 'forklift' });
+    expect(q.reference).toBe(refs[3].text);
+    expect(q.distractors).toHaveLength(3);
+  });
+
+  it('drops questions citing unknown references or scenes, and duplicates', () => {
+    const questions = normalizeQuizQuestions(
+      [
+        { ...multipleChoice, referenceId: 'R99' },
+        { ...multipleChoice, sceneIndex: 5 },
+        multipleChoice,
+        { ...multipleChoice, question: ' When should you  sound the horn? ' },
+      ],
+      refs,
+      2,
+      5
+    );
+    expect(questions).toHaveLength(1);
+  });
+
+  it('requires three distinct multiple-choice distractors', () => {
+    const distractors = ['Only when loaded', 'only when loaded', 'At blind corners and intersections'];
+    expect(normalizeQuizQuestions([{ ...multipleChoice, distractors }], refs, 2, 5)).toEqual([]);
+  });
+
+  it('normalizes true/false answers and sets the opposite as distractor', () => {
+    const [q] = normalizeQuizQuestions(
+      [{ ...multipleChoice, type: 'true_false', question: 'You may skip the pre-use inspection.', correctAnswer: 'false', distractors: [] }],
+      refs,
+      2,
+      5
+    );
+    expect(q).toMatchObject({ correctAnswer: 'False', distractors: ['True'] });
+  });
+});
+
+describe('generateQuiz', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends the script and numbered reference, and returns grounded questions', async () => {
+    mockCreate.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify({ questions: [multipleChoice] }) } }],
+    });
+    const refs = buildQuizReferences(['forklift']);
+    const questions = await generateQuiz(script, refs, 3);
+
+    expect(questions).toHaveLength(1);
+    const userContent = mockCreate.mock.calls[0][0].messages[1].content as string;
+    expect(userContent).toContain('Scene 1: Inspect the forklift before each shift.');
+    expect(userContent).toContain(`[R1] (${refs[0].topicLabel}, key fact) ${refs[0].text}`);
+    expect(userContent).toContain('Write exactly 3 questions.');
+  });
+
+  it('throws on output that is not a quiz', async () => {
+    mockCreate.mockResolvedValue({ choices: [{ message: { content: 'not json' } }] });
+    await expect(generateQuiz(script, buildQuizReferences(['forklift']), 3)).rejects.toThrow(
+      'Invalid quiz format from model'
+    );
+  });
+});
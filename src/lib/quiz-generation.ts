@@ -0,0 +1,202 @@
+/**
+ * Knowledge-check quiz generation for a script (POST /api/generate-quiz).
+ *
+ * Questions are grounded in the EHS reference: the model gets the script plus numbered key
+ * facts and best practices for the script's topics, and every question must name the
+ * reference statement it tests and the scene that teaches it. Questions that cite an unknown
+ * reference or scene, or lack usable answer options, are dropped.
+ */
+
+import { z } from 'zod';
+import { OPENAI_REQUEST_TIMEOUT_MS, getLanguageOption, type Jurisdiction } from '@/lib/constants';
+import { getTopicsByIds } from '@/lib/ehs-reference';
+import { getLLMProvider } from '@/lib/providers/llm-providers';
+import { withRetry } from '@/lib/retry';
+import { withTimeout } from '@/lib/timeout';
+import type { QuizQuestion, ScriptResult } from '@/lib/types';
+
+/** Numbered reference statement a question may test. */
+export interface QuizReference {
+  id: string;
+  topicId: string;
+  topicLabel: string;
+  kind: 'key fact' | 'best practice';
+  text: string;
+}
+
+const MULTIPLE_CHOICE_DISTRACTORS = 3;
+
+export const QUIZ_SYSTEM_PROMPT = `You write knowledge-check quizzes for workplace safety training videos. Output valid JSON only, no markdown.
+
+Output: { "questions": [ { "type": "multiple_choice" | "true_false", "question": "string", "correctAnswer": "string", "distractors": ["string"], "rationale": "string", "sceneIndex": 0, "referenceId": "R1" } ] }
+
+Rules:
+- Each question tests exactly one REFERENCE statement that the script also teaches. Set referenceId to that statement and sceneIndex (0-based) to the scene that teaches it. Do not test anything the reference does not state.
+- multiple_choice: one correct answer and exactly ${MULTIPLE_CHOICE_DISTRACTORS} distractors that are plausible but clearly wrong according to the reference, similar in length and style to the correct answer. No "all of the above" or "none of the above".
+- true_false: the question is a statement; correctAnswer is "True" or "False" and distractors is the other value. A false statement must contradict the reference, not rely on trick wording.
+- rationale: one or two sentences explaining the correct answer from the reference.
+- Mix both types, about two thirds multiple_choice. Cover different scenes and reference statements; never ask the same thing twice.`;
+
+const quizOutputSchema = z.object({
+  questions: z.array(
+    z.object({
+      type: z.enum(['multiple_choice', 'true_false']),
+      question: z.string(),
+      correctAnswer: z.string(),
+      distractors: z.array(z.string()).default([]),
+      rationale: z.string().default(''),
+      sceneIndex: z.number().int(),
+      referenceId: z.string(),
+    })
+  ),
+});
+
+type QuizOutputQuestion = z.infer<typeof quizOutputSchema>['questions'][number];
+
+/** Key facts and best practices for the topics (from the jurisdiction's pack), numbered R1..Rn. */
+export function buildQuizReferences(topicIds: string[], jurisdiction?: Jurisdiction): QuizReference[] {
+  const references: QuizReference[] = [];
+  for (const topic of getTopicsByIds([...new Set(topicIds)], jurisdiction)) {
+    const add = (kind: QuizReference['kind'], text: string) =>
+      references.push({
+        id: `R${references.length + 1}`,
+        topicId: topic.id,
+        topicLabel: topic.label,
+        kind,
+        text,
+      });
+    topic.keyFacts.forEach((text) => add('key fact', text));
+    topic.bestPractices.forEach((text) => add('best practice', text));
+  }
+  return references;
+}
+
+export function buildQuizUserContent(
+  script: ScriptResult,
+  references: QuizReference[],
+  questionCount: number
+): string {
+  const scenes = script.scenes.map((s, i) => `Scene ${i}: ${s.narration}`).join('\n');
+  const reference = references
+    .map((r) => `[${r.id}] (${r.topicLabel}, ${r.kind}) ${r.text}`)
+    .join('\n');
+  const languageLine =
+    script.language && script.language !== 'en'
+      ? `\nWrite questions, answers and rationales in ${getLanguageOption(script.language).promptName}; for true/false use "True" and "False".`
+      : '';
+  return `Script "${script.title}":
+${scenes}
+
+REFERENCE (EHS library):
+${reference}
+
+Write exactly ${questionCount} questions.${languageLine}
+JSON only.`;
+}
+
+function normalizeText(s: string): string {
+  return s.trim().replace(/\s+/g, ' ');
+}
+
+function toTrueFalse(answer: string): 'True' | 'False' | null {
+  const value = answer.trim().toLowerCase();
+  if (value === 'true') return 'True';
+  if (value === 'false') return 'False';
+  return null;
+}
+
+/**
+ * Keeps questions that cite a known reference and scene and have usable options; fixes up
+ * true/false distractors and trims multiple-choice distractors to three distinct ones.
+ */
+export function normalizeQuizQuestions(
+  raw: QuizOutputQuestion[],
+  references: QuizReference[],
+  sceneCount: number,
+  maxQuestions: number
+): QuizQuestion[] {
+  const byId = new Map(references.map((r) => [r.id, r]));
+  const seen = new Set<string>();
+  const questions: QuizQuestion[] = [];
+
+  for (const q of raw) {
+    const reference = byId.get(q.referenceId.trim());
+    const question = normalizeText(q.question);
+    const key = question.toLowerCase();
+    if (!reference || !question || seen.has(key)) continue;
+    if (q.sceneIndex < 0 || q.sceneIndex >= sceneCount) continue;
+
+    let correctAnswer: string;
+    let distractors: string[];
+    if (q.type === 'true_false') {
+      const answer = toTrueFalse(q.correctAnswer);
+      if (!answer) continue;
+      correctAnswer = answer;
+      distractors = [answer === 'True' ? 'False' : 'True'];
+    } else {
+      correctAnswer = normalizeText(q.correctAnswer);
+      const options = new Set([correctAnswer.toLowerCase()]);
+      distractors = [];
+      for (const d of q.distractors.map(normalizeText)) {
+        if (!d || options.has(d.toLowerCase())) continue;
+        options.add(d.toLowerCase());
+        distractors.push(d);
+      }
+      if (!correctAnswer || distractors.length < MULTIPLE_CHOICE_DISTRACTORS) continue;
+      distractors = distractors.slice(0, MULTIPLE_CHOICE_DISTRACTORS);
+    }
+
+    seen.add(key);
+    questions.push({
+      type: q.type,
+      question,
+      correctAnswer,
+      distractors,
+      rationale: normalizeText(q.rationale),
+      sceneIndex: q.sceneIndex,
+      topicId: reference.topicId,
+      reference: reference.text,
+    });
+    if (questions.length >= maxQuestions) break;
+  }
+  return questions;
+}
+
+/**
+ * Generates up to `questionCount` grounded questions for the script. Throws when the model
+ * call fails or returns output that isn't a quiz.
+ */
+export async function generateQuiz(
+  script: ScriptResult,
+  references: QuizReference[],
+  questionCount: number
+): Promise<QuizQuestion[]> {
+  const completion = await withTimeout(
+    withRetry(() =>
+      getLLMProvider().complete({
+        task: 'quiz',
+        messages: [
+          { role: 'system', content: QUIZ_SYSTEM_PROMPT },
+          { role: 'user', content: buildQuizUserContent(script, references, questionCount) },
+        ],
+        json: true,
+        temperature: 0.3,
+        maxTokens: 3000,
+      })
+    ),
+    OPENAI_REQUEST_TIMEOUT_MS,
+    'Quiz generation timed out'
+  );
+
+  let output: unknown;
+  try {
+    output = completion.content ? JSON.parse(completion.content) : null;
+  } catch {
+    output = null;
+  }
+  const parsed = quizOutputSchema.safeParse(output);
+  if (!parsed.success) {
+    throw new Error('Invalid quiz format from model');
+  }
+  return normalizeQuizQuestions(parsed.data.questions, references, script.scenes.length, questionCount);
+}
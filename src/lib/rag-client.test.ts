@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const BUNDLED_CORPUS = path.resolve(__dirname, '../../data/rag-corpus');
+
+const FORKLIFT = `Source: 29 CFR 1910.178
+Title: Powered industrial trucks
+URL: https://www.ecfr.gov/current/title-29/section-1910.178
+Jurisdiction: us
+
+(l)(4)(iii) An evaluation of each powered industrial truck operator's performance shall be conducted at least once every three years.
+
+(n)(4) The driver shall be required to slow down and sound the horn at cross aisles and other locations where vision is obstructed.
+`;
+
+const NOISE = `Source: 29 CFR 1910.95
+Title: Occupational noise exposure
+Jurisdiction: us
+
+(c)(1) The employer shall administer a continuing, effective hearing conservation program whenever employee noise exposures equal or exceed an 8-hour time-weighted average sound level of 85 decibels.
+`;
+
+const UK = `Source: LOLER 1998 regulation 9
+Title: Thorough examination and inspection
+Jurisdiction: uk
+
+Lifting equipment, including forklift trucks, must be thoroughly examined by a competent person at least every 12 months, or every 6 months if used to lift people.
+`;
+
+let tmp: string;
+
+async function loadClient() {
+  vi.resetModules();
+  return import('./rag-client');
+}
+
+describe('rag-client', () => {
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-'));
+    fs.mkdirSync(path.join(tmp, 'corpus'));
+    fs.writeFileSync(path.join(tmp, 'corpus', '1910.178.txt'), FORKLIFT);
+    fs.writeFileSync(path.join(tmp, 'corpus', '1910.95.txt'), NOISE);
+    fs.writeFileSync(path.join(tmp, 'corpus', 'loler.txt'), UK);
+    vi.stubEnv('RAG_CORPUS_DIR', path.join(tmp, 'corpus'));
+    vi.stubEnv('RAG_INDEX_DIR', path.join(tmp, 'index'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it('cites passages at paragraph level with an eCFR anchor', async () => {
+    const { parseCorpusFile } = await loadClient();
+    const [evaluation, horn] = parseCorpusFile('1910.178.txt', FORKLIFT);
+    expect(evaluation).toMatchObject({
+      citation: '29 CFR 1910.178(l)(4)(iii)',
+      title: 'Powered industrial trucks',
+      url: 'https://www.ecfr.gov/current/title-29/section-1910.178#p-1910.178(l)(4)(iii)',
+      jurisdiction: 'us',
+    });
+    expect(horn.citation).toBe('29 CFR 1910.178(n)(4)');
+    expect(parseCorpusFile('loler.txt', UK)[0]).toMatchObject({ citation: 'LOLER 1998 regulation 9', jurisdiction: 'uk' });
+  });
+
+  it('ranks the passage that matches the query best first', async () => {
+    const { searchRegulatoryPassages } = await loadClient();
+    const [top] = searchRegulatoryPassages('How often is a forklift operator evaluation required?');
+    expect(top.citation).toBe('29 CFR 1910.178(l)(4)(iii)');
+    expect(searchRegulatoryPassages('hearing conservation at 85 decibels')[0].citation).toBe('29 CFR 1910.95(c)(1)');
+    expect(searchRegulatoryPassages('the and of')).toEqual([]);
+  });
+
+  it('only returns passages for the requested jurisdiction', async () => {
+    const { searchRegulatoryPassages } = await loadClient();
+    expect(searchRegulatoryPassages('forklift thorough examination').every((p) => p.jurisdiction === 'us')).toBe(true);
+    const uk = searchRegulatoryPassages('forklift thorough examination', { jurisdiction: 'uk' });
+    expect(uk.map((p) => p.citation)).toEqual(['LOLER 1998 regulation 9']);
+  });
+
+  it('persists the index and rebuilds it only when the corpus changes', async () => {
+    const first = (await loadClient()).warmRAGIndex();
+    expect(first).toMatchObject({ passages: 4, rebuilt: true });
+    expect(fs.existsSync(path.join(tmp, 'index', 'index.json'))).toBe(true);
+
+    const reused = (await loadClient()).warmRAGIndex();
+    expect(reused).toEqual({ ...first, rebuilt: false });
+
+    fs.writeFileSync(path.join(tmp, 'corpus', '1910.95.txt'), `${NOISE}\n(i)(1) Hearing protectors shall be available at no cost.\n`);
+    const rebuilt = (await loadClient()).warmRAGIndex();
+    expect(rebuilt).toMatchObject({ passages: 5, rebuilt: true });
+    expect(rebuilt.corpusHash).not.toBe(first.corpusHash);
+  });
+
+  it('formats retrieved passages with bracketed citations for the prompt', async () => {
+    const { getRAGContextForPrompt } = await loadClient();
+    const { context, sources } = getRAGContextForPrompt('Forklift operator evaluation every three years');
+    expect(context).toContain('[29 CFR 1910.178(l)(4)(iii)] An evaluation of each powered industrial truck operator');
+    expect(sources[0]).toEqual({
+      citation: '29 CFR 1910.178(l)(4)(iii)',
+      title: 'Powered industrial trucks',
+      url: 'https://www.ecfr.gov/current/title-29/section-1910.178#p-1910.178(l)(4)(iii)',
+    });
+  });
+
+  it('returns nothing when retrieval is disabled', async () => {
+    vi.stubEnv('RAG_ENABLED', 'false');
+    const { getRAGContextForPrompt } = await loadClient();
+    expect(getRAGContextForPrompt('forklift operator evaluation')).toEqual({ context: '', sources: [] });
+  });
+
+  it('finds the governing paragraph in the bundled corpus offline', async () => {
+    vi.stubEnv('RAG_CORPUS_DIR', BUNDLED_CORPUS);
+    const { searchRegulatoryPassages } = await loadClient();
+    const citations = (q: string) => searchRegulatoryPassages(q).map((p) => p.citation);
+    expect(citations('forklift operator training and evaluation').every((c) => c.startsWith('29 CFR 1910.178(l)'))).toBe(true);
+    expect(citations('Who removes a lockout device?')[0]).toBe('29 CFR 1910.147(e)(3)');
+    expect(citations('test the atmosphere before entering a confined space')[0]).toBe('29 CFR 1910.146(c)(5)(ii)(C)');
+    expect(citations('fall protection for roofers working 6 feet above a lower level')).toContain('29 CFR 1926.501(b)(1)');
+  });
+});
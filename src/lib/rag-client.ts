@@ -0,0 +1,332 @@
+/**
+ * Offline retrieval over bundled regulation text (Phase 2 RAG).
+ *
+ * The corpus is plain-text files under RAG_CORPUS_DIR (default data/rag-corpus), one per
+ * standard or guidance document, each starting with a header block:
+ *
+ *   Source: 29 CFR 1910.178
+ *   Title: Powered industrial trucks
+ *   URL: https://www.ecfr.gov/current/title-29/section-1910.178
+ *   Jurisdiction: us
+ *
+ * followed by a blank line and one paragraph per block. A leading paragraph label such as
+ * "(l)(4)(iii)" becomes part of the passage citation ("29 CFR 1910.178(l)(4)(iii)").
+ *
+ * Passages are ranked with BM25 over stemmed words, with queries expanded through the topic
+ * synonym table (see topic-matching.ts) so "forklift" also finds "powered industrial truck"
+ * and "loto" finds "lockout". The index is persisted to RAG_INDEX_DIR (default .data/rag)
+ * with a hash of the corpus and rebuilt when the corpus changes, so retrieval never needs
+ * the network. Disable with RAG_ENABLED=false.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_JURISDICTION,
+  RAG_CHUNK_CHARS,
+  RAG_CORPUS_DIR,
+  RAG_INDEX_DIR,
+  RAG_TOP_K,
+  type Jurisdiction,
+} from '@/lib/constants';
+import { logWarn } from '@/lib/logger';
+import { stem, SYNONYM_GROUPS } from '@/lib/topic-matching';
+import type { RetrievedSource } from '@/lib/types';
+
+export const RAG_ENABLED = process.env.RAG_ENABLED !== 'false';
+
+/** Bumped when the index layout or tokenization changes, so stale index files are rebuilt. */
+const INDEX_FORMAT = 1;
+
+/** BM25 term-frequency saturation and length normalization. */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Weight of a query term added by synonym expansion relative to one the user typed. */
+const SYNONYM_WEIGHT = 0.5;
+
+/** Passages scoring below this fraction of the best match are dropped as noise. */
+const MIN_RELATIVE_SCORE = 0.35;
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be been before by can do does for from has have how if in into is it its ' +
+    'may must no not of on or other our shall should such that the their them then there these ' +
+    'this those to under was were what when where which while who will with within without you your'
+  ).split(' ')
+);
+
+/** One retrievable paragraph of regulation or guidance text. */
+export interface RegulatoryPassage {
+  /** Paragraph-level citation, e.g. "29 CFR 1910.178(l)(4)(iii)". */
+  citation: string;
+  title: string;
+  url?: string;
+  jurisdiction: Jurisdiction;
+  text: string;
+}
+
+export interface RetrievedPassage extends RegulatoryPassage {
+  /** BM25 score; only comparable within one query. */
+  score: number;
+}
+
+interface IndexedPassage extends RegulatoryPassage {
+  /** Stem → occurrences in the passage. */
+  terms: Record<string, number>;
+  length: number;
+}
+
+interface RAGIndex {
+  format: number;
+  corpusHash: string;
+  builtAt: string;
+  passages: IndexedPassage[];
+  /** Stem → number of passages containing it. */
+  docFreq: Record<string, number>;
+  avgLength: number;
+}
+
+export interface RAGIndexInfo {
+  passages: number;
+  corpusHash: string;
+  builtAt: string;
+  /** False when the persisted index was reused. */
+  rebuilt: boolean;
+}
+
+function getCorpusDir(): string {
+  return path.resolve(process.env.RAG_CORPUS_DIR ?? RAG_CORPUS_DIR);
+}
+
+function getIndexPath(): string {
+  return path.join(path.resolve(process.env.RAG_INDEX_DIR ?? RAG_INDEX_DIR), 'index.json');
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((w) => !STOPWORDS.has(w) && (w.length > 1 || /\d/.test(w)))
+    .map(stem);
+}
+
+/**
+ * Stemmed query terms with their weights: the query's own words at 1, words of synonyms of
+ * phrases it contains at SYNONYM_WEIGHT.
+ */
+function expandQuery(query: string): Map<string, number> {
+  const tokens = tokenize(query);
+  const weights = new Map(tokens.map((t) => [t, 1]));
+  const sequence = ` ${tokens.join(' ')} `;
+  for (const group of SYNONYM_GROUPS) {
+    const members = group.map((m) => tokenize(m));
+    if (!members.some((m) => m.length > 0 && sequence.includes(` ${m.join(' ')} `))) continue;
+    for (const t of members.flat()) if (!weights.has(t)) weights.set(t, SYNONYM_WEIGHT);
+  }
+  return weights;
+}
+
+function readCorpusFiles(dir: string): { name: string; content: string }[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => /\.(txt|md)$/.test(name))
+    .sort()
+    .map((name) => ({ name, content: fs.readFileSync(path.join(dir, name), 'utf8') }));
+}
+
+function hashCorpus(files: { name: string; content: string }[]): string {
+  const hash = createHash('sha256').update(`format:${INDEX_FORMAT}\n`);
+  for (const f of files) hash.update(`${f.name}\n${f.content}\n`);
+  return hash.digest('hex');
+}
+
+/** Splits text longer than RAG_CHUNK_CHARS at sentence boundaries. */
+function splitLong(text: string): string[] {
+  if (text.length <= RAG_CHUNK_CHARS) return [text];
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of text.match(/[^.;]+[.;]+(?:\s+|$)|[^.;]+$/g) ?? [text]) {
+    if (current && current.length + sentence.length > RAG_CHUNK_CHARS) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+}
+
+/** Passages of one corpus file; files without a Source header are skipped with a warning. */
+export function parseCorpusFile(name: string, content: string): RegulatoryPassage[] {
+  const [head, ...blocks] = content.replace(/\r\n/g, '\n').split(/\n\s*\n/);
+  const header: Record<string, string> = {};
+  for (const line of head.split('\n')) {
+    const m = line.match(/^(\w+):\s*(.+)$/);
+    if (m) header[m[1].toLowerCase()] = m[2].trim();
+  }
+  if (!header.source) {
+    logWarn(`RAG corpus file ${name} has no Source header; skipped`);
+    return [];
+  }
+  const section = header.source.replace(/^\d+\s+CFR\s+/, '');
+  const isCfr = section !== header.source;
+
+  const passages: RegulatoryPassage[] = [];
+  for (const block of blocks) {
+    const text = block.replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+    const label = text.match(/^((?:\([0-9A-Za-z]+\))+)\s/)?.[1];
+    const body = label ? text.slice(label.length).trim() : text;
+    const citation = isCfr && label ? `${header.source}${label}` : header.source;
+    const url =
+      header.url && isCfr && label && header.url.includes('ecfr.gov')
+        ? `${header.url}#p-${section}${label}`
+        : header.url;
+    for (const chunk of splitLong(body)) {
+      passages.push({
+        citation,
+        title: header.title ?? header.source,
+        ...(url && { url }),
+        jurisdiction: (header.jurisdiction ?? DEFAULT_JURISDICTION) as Jurisdiction,
+        text: chunk,
+      });
+    }
+  }
+  return passages;
+}
+
+function buildIndex(files: { name: string; content: string }[], corpusHash: string): RAGIndex {
+  const passages: IndexedPassage[] = [];
+  const docFreq: Record<string, number> = {};
+  for (const f of files) {
+    for (const p of parseCorpusFile(f.name, f.content)) {
+      const tokens = tokenize(`${p.title} ${p.text}`);
+      const terms: Record<string, number> = {};
+      for (const t of tokens) terms[t] = (terms[t] ?? 0) + 1;
+      for (const t of Object.keys(terms)) docFreq[t] = (docFreq[t] ?? 0) + 1;
+      passages.push({ ...p, terms, length: tokens.length });
+    }
+  }
+  const avgLength = passages.length ? passages.reduce((sum, p) => sum + p.length, 0) / passages.length : 0;
+  return { format: INDEX_FORMAT, corpusHash, builtAt: new Date().toISOString(), passages, docFreq, avgLength };
+}
+
+function writeFileAtomic(filePath: string, data: string): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, data);
+  fs.renameSync(tmpPath, filePath);
+}
+
+function readPersistedIndex(indexPath: string, corpusHash: string): RAGIndex | null {
+  try {
+    const index = JSON.parse(fs.readFileSync(indexPath, 'utf8')) as RAGIndex;
+    return index.format === INDEX_FORMAT && index.corpusHash === corpusHash ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+let cached: { corpusDir: string; indexPath: string; index: RAGIndex; rebuilt: boolean } | null = null;
+
+/**
+ * The index for the current corpus: from memory, else from RAG_INDEX_DIR when its corpus hash
+ * matches, else built from the corpus and persisted. A read-only index directory only costs
+ * a rebuild per process.
+ */
+function getIndex(): { index: RAGIndex; rebuilt: boolean } {
+  const corpusDir = getCorpusDir();
+  const indexPath = getIndexPath();
+  if (cached?.corpusDir === corpusDir && cached.indexPath === indexPath) return cached;
+
+  const files = readCorpusFiles(corpusDir);
+  const corpusHash = hashCorpus(files);
+  let index = readPersistedIndex(indexPath, corpusHash);
+  const rebuilt = !index;
+  if (!index) {
+    index = buildIndex(files, corpusHash);
+    try {
+      fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+      writeFileAtomic(indexPath, JSON.stringify(index));
+    } catch (err) {
+      logWarn('Could not persist RAG index', { path: indexPath, error: String(err) });
+    }
+  }
+  cached = { corpusDir, indexPath, index, rebuilt };
+  return cached;
+}
+
+/** Loads (or builds) the retrieval index; called at startup so the first request doesn't pay for it. */
+export function warmRAGIndex(): RAGIndexInfo {
+  const { index, rebuilt } = getIndex();
+  return { passages: index.passages.length, corpusHash: index.corpusHash, builtAt: index.builtAt, rebuilt };
+}
+
+/**
+ * Top passages for `query` from the jurisdiction's corpus (default US), best first. Returns
+ * an empty list when retrieval is disabled or nothing relevant matches.
+ */
+export function searchRegulatoryPassages(
+  query: string,
+  options: { jurisdiction?: Jurisdiction; limit?: number } = {}
+): RetrievedPassage[] {
+  if (!RAG_ENABLED) return [];
+  const { jurisdiction = DEFAULT_JURISDICTION, limit = RAG_TOP_K } = options;
+  const queryTerms = expandQuery(query);
+  if (queryTerms.size === 0) return [];
+
+  const { index } = getIndex();
+  const n = index.passages.length;
+  const scored: RetrievedPassage[] = [];
+  for (const p of index.passages) {
+    if (p.jurisdiction !== jurisdiction) continue;
+    let score = 0;
+    for (const [t, weight] of queryTerms) {
+      const tf = p.terms[t];
+      if (!tf) continue;
+      const df = index.docFreq[t] ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score += (weight * idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * p.length) / (index.avgLength || 1)));
+    }
+    if (score > 0) {
+      const { terms: _terms, length: _length, ...passage } = p;
+      scored.push({ ...passage, score: Math.round(score * 1000) / 1000 });
+    }
+  }
+  scored.sort((a, b) => b.score - a.score);
+  const best = scored[0]?.score ?? 0;
+  return scored.filter((p) => p.score >= best * MIN_RELATIVE_SCORE).slice(0, limit);
+}
+
+/** Citation, title and link of retrieved passages, one per citation. */
+export function toRetrievedSources(passages: RetrievedPassage[]): RetrievedSource[] {
+  const seen = new Set<string>();
+  const sources: RetrievedSource[] = [];
+  for (const p of passages) {
+    if (seen.has(p.citation)) continue;
+    seen.add(p.citation);
+    sources.push({ citation: p.citation, title: p.title, ...(p.url && { url: p.url }) });
+  }
+  return sources;
+}
+
+/** Retrieved passages formatted for a prompt, each prefixed with its bracketed citation. */
+export function formatPassagesForPrompt(passages: RetrievedPassage[]): string {
+  if (passages.length === 0) return '';
+  return [
+    'Regulation text (retrieved excerpts; cite the bracketed reference when stating a requirement):',
+    ...passages.map((p) => `[${p.citation}] ${p.text}`),
+  ].join('\n');
+}
+
+/**
+ * Regulation excerpts relevant to a script prompt, for injection into the system prompt,
+ * plus the sources they came from.
+ */
+export function getRAGContextForPrompt(
+  prompt: string,
+  jurisdiction?: Jurisdiction
+): { context: string; sources: RetrievedSource[] } {
+  const passages = searchRegulatoryPassages(prompt, { jurisdiction });
+  return { context: formatPassagesForPrompt(passages), sources: toRetrievedSources(passages) };
+}
@@ -0,0 +1,153 @@
+import { mkdtempSync } from 'fs';
+import { createServer, type Server } from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { saveJob } from './job-store';
+import { checkRegulationChanges, diffWords, recordRegulationBaselines } from './regulation-changes';
+import { clearRegulatoryCache } from './regulatory-api';
+import type { VideoJob } from './types';
+
+/** Section text by the date each version took effect, served by the fixture eCFR below. */
+const VERSIONS: Record<string, [string, string][]> = {
+  '1910.178': [
+    ['2026-01-01', 'Operators shall be trained. Trucks shall not exceed a safe speed.'],
+    ['2026-05-01', 'Operators shall be trained and evaluated. Trucks shall not exceed a safe speed.'],
+  ],
+  '1910.147': [['2026-01-01', 'Energy sources shall be locked out.']],
+};
+
+function job(id: string, regulatorySources: string[], regulations: VideoJob['regulations']): VideoJob {
+  return {
+    id,
+    status: 'completed',
+    phase: 'done',
+    createdAt: '2026-02-01T00:00:00.000Z',
+    updatedAt: '2026-02-01T00:00:00.000Z',
+    script: { title: `Video ${id.slice(-1)}`, scenes: [{ narration: 'Test.', imagePrompt: 'Test' }], regulatorySources },
+    options: { highQuality: false, voice: 'onyx', draft: false, captions: true },
+    useVideo: false,
+    scenes: [{ status: 'completed' }],
+    regulations,
+  };
+}
+
+describe('regulation-changes', () => {
+  const origEnv = process.env;
+  let server: Server;
+  let baseUrl: string;
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    // Stands in for eCFR: the renderer endpoint, answering with the version in effect on the date
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://fixture');
+      requests.push(url.pathname + url.search);
+      const date = url.pathname.match(/\/enhanced\/(\d{4}-\d{2}-\d{2})\/title-29$/)?.[1];
+      const text = (VERSIONS[url.searchParams.get('section') ?? ''] ?? [])
+        .filter(([from]) => date && from <= date)
+        .pop()?.[1];
+      if (!text) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ part: { abstract: text } }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    baseUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clearRegulatoryCache();
+    requests.length = 0;
+    process.env = {
+      ...origEnv,
+      ECFR_API_URL: baseUrl,
+      REGULATORY_CACHE_DIR: mkdtempSync(join(tmpdir(), 'regulations-')),
+      JOBS_DIR: mkdtempSync(join(tmpdir(), 'jobs-')),
+    };
+    delete process.env.ECFR_DATE;
+    delete process.env.REGULATORY_API_OFFLINE;
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
+  });
+
+  it('hashes the text of each cited source as of its effective date', async () => {
+    const baselines = await recordRegulationBaselines({
+      regulatorySources: ['29 CFR 1910.178 (2026-02-01)', '29 CFR 1910.147 (2026-02-01)', 'Unparsed source'],
+    });
+    expect(baselines.map((b) => [b.citation, b.effectiveDate])).toEqual([
+      ['29 CFR 1910.178', '2026-02-01'],
+      ['29 CFR 1910.147', '2026-02-01'],
+    ]);
+    expect(baselines[0].textHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(requests).toContainEqual(expect.stringContaining('/enhanced/2026-02-01/title-29?'));
+  });
+
+  it('reports the videos whose cited regulations changed, with a text diff', async () => {
+    const forklift = '29 CFR 1910.178 (2026-02-01)';
+    const lockout = '29 CFR 1910.147 (2026-02-01)';
+    saveJob(
+      job('00000000-0000-4000-8000-000000000001', [forklift, lockout], await recordRegulationBaselines({ regulatorySources: [forklift, lockout] }))
+    );
+    saveJob(job('00000000-0000-4000-8000-000000000002', [lockout], await recordRegulationBaselines({ regulatorySources: [lockout] })));
+    clearRegulatoryCache();
+
+    expect((await checkRegulationChanges('2026-03-01')).changes).toEqual([]);
+
+    const report = await checkRegulationChanges('2026-06-01');
+    expect(report).toMatchObject({ asOf: '2026-06-01', citationsChecked: 2, unavailable: [] });
+    expect(report.changes).toHaveLength(1);
+    expect(report.changes[0]).toMatchObject({
+      citation: '29 CFR 1910.178',
+      fromDate: '2026-02-01',
+      toDate: '2026-06-01',
+      jobIds: ['00000000-0000-4000-8000-000000000001'],
+    });
+    expect(report.changes[0].diff).toEqual([
+      { op: 'equal', text: 'Operators shall be ' },
+      { op: 'removed', text: 'trained. ' },
+      { op: 'added', text: 'trained and evaluated. ' },
+      { op: 'equal', text: 'Trucks shall not exceed a safe speed.' },
+    ]);
+    expect(report.affectedVideos).toEqual([
+      {
+        jobId: '00000000-0000-4000-8000-000000000001',
+        title: 'Video 1',
+        createdAt: '2026-02-01T00:00:00.000Z',
+        status: 'completed',
+        citations: ['29 CFR 1910.178'],
+      },
+    ]);
+  });
+
+  it('does not report a change when no newer text is available offline', async () => {
+    const forklift = '29 CFR 1910.178 (2026-02-01)';
+    saveJob(job('00000000-0000-4000-8000-000000000003', [forklift], await recordRegulationBaselines({ regulatorySources: [forklift] })));
+    clearRegulatoryCache();
+    process.env.REGULATORY_API_OFFLINE = 'true';
+
+    const report = await checkRegulationChanges('2026-06-01');
+    expect(report.changes).toEqual([]);
+    expect(report.affectedVideos).toEqual([]);
+  });
+});
+
+describe('diffWords', () => {
+  it('keeps unchanged words and marks replaced runs', () => {
+    expect(diffWords('a b c', 'a x c')).toEqual([
+      { op: 'equal', text: 'a ' },
+      { op: 'removed', text: 'b ' },
+      { op: 'added', text: 'x ' },
+      { op: 'equal', text: 'c' },
+    ]);
+    expect(diffWords('same text', 'same text')).toEqual([{ op: 'equal', text: 'same text' }]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Regulation change detection for videos already generated.
+ *
+ * When a video job is created, the text of each regulation its script cited (regulatorySources,
+ * e.g. "29 CFR 1910.178 (2026-01-01)") is looked up as of that effective date and its hash is
+ * stored on the job. A check fetches each cited section again as of a newer effective date
+ * (ECFR_DATE, today by default), compares hashes, and reports the videos whose regulations
+ * changed with a word-level diff of the text. Run it on a schedule through
+ * GET /api/regulations/changes (see scripts/regulation-changes.mjs).
+ */
+
+import { createHash } from 'crypto';
+import { listJobs } from '@/lib/job-store';
+import { fetchRegulationSection, getRegulationEffectiveDate } from '@/lib/regulatory-api';
+import type {
+  RegulationBaseline,
+  RegulationChange,
+  RegulationChangeReport,
+  ScriptResult,
+  TextDiffSegment,
+} from '@/lib/types';
+
+/** Words compared per side before the diff falls back to replacing the whole text. */
+const MAX_DIFF_WORDS = 2000;
+
+export function hashRegulationText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/** "29 CFR 1910.178 (2026-01-01)" → citation and effective date; null for other formats. */
+export function parseRegulatorySource(source: string): { citation: string; effectiveDate: string } | null {
+  const m = source.match(/^(.+?)\s*\((\d{4}-\d{2}-\d{2})\)$/);
+  return m ? { citation: m[1], effectiveDate: m[2] } : null;
+}
+
+/**
+ * Hashes of the regulation text the script cited, as of the dates it cited. Sources whose text
+ * cannot be looked up are left out.
+ */
+export async function recordRegulationBaselines(
+  script: Pick<ScriptResult, 'regulatorySources'>
+): Promise<RegulationBaseline[]> {
+  const baselines: RegulationBaseline[] = [];
+  for (const source of new Set(script.regulatorySources ?? [])) {
+    const parsed = parseRegulatorySource(source);
+    if (!parsed) continue;
+    const snippet = await fetchRegulationSection(parsed.citation, { effectiveDate: parsed.effectiveDate });
+    if (!snippet) continue;
+    baselines.push({
+      citation: parsed.citation,
+      effectiveDate: snippet.effectiveDate,
+      textHash: hashRegulationText(snippet.text),
+    });
+  }
+  return baselines;
+}
+
+/** Word-level diff of two texts; whitespace runs are kept with the word before them. */
+export function diffWords(before: string, after: string): TextDiffSegment[] {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+    return [
+      { op: 'removed', text: before },
+      { op: 'added', text: after },
+    ];
+  }
+
+  // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].trim() === b[j].trim() ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (op: TextDiffSegment['op'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.op === op) last.text += text;
+    else segments.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].trim() === b[j].trim()) {
+      push('equal', b[j]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Compare the regulation text every job's script cited with the text as of `asOf` (default
+ * ECFR_DATE or today). Baselines already at or after `asOf` are skipped, as are sections whose
+ * newest available text is not newer than the baseline (e.g. offline with no newer snapshot).
+ */
+export async function checkRegulationChanges(asOf = getRegulationEffectiveDate()): Promise<RegulationChangeReport> {
+  const jobs = listJobs().filter((job) => job.regulations?.length);
+
+  // Each cited version once, with the jobs that cited it
+  const versions = new Map<string, { baseline: RegulationBaseline; jobIds: string[] }>();
+  for (const job of jobs) {
+    for (const baseline of job.regulations ?? []) {
+      if (baseline.effectiveDate >= asOf) continue;
+      const key = `${baseline.citation}\n${baseline.effectiveDate}\n${baseline.textHash}`;
+      const entry = versions.get(key) ?? { baseline, jobIds: [] };
+      entry.jobIds.push(job.id);
+      versions.set(key, entry);
+    }
+  }
+
+  const changes: RegulationChange[] = [];
+  const unavailable = new Set<string>();
+  for (const { baseline, jobIds } of versions.values()) {
+    const current = await fetchRegulationSection(baseline.citation, { effectiveDate: asOf });
+    if (!current) {
+      unavailable.add(baseline.citation);
+      continue;
+    }
+    if (current.effectiveDate <= baseline.effectiveDate) continue;
+    const currentHash = hashRegulationText(current.text);
+    if (currentHash === baseline.textHash) continue;
+
+    const previous = await fetchRegulationSection(baseline.citation, { effectiveDate: baseline.effectiveDate });
+    const comparable = previous && hashRegulationText(previous.text) === baseline.textHash;
+    changes.push({
+      citation: baseline.citation,
+      fromDate: baseline.effectiveDate,
+      toDate: current.effectiveDate,
+      previousHash: baseline.textHash,
+      currentHash,
+      diff: comparable ? diffWords(previous.text, current.text) : null,
+      jobIds,
+    });
+  }
+
+  const affectedVideos = jobs.flatMap((job) => {
+    const citations = [...new Set(changes.filter((c) => c.jobIds.includes(job.id)).map((c) => c.citation))];
+    return citations.length > 0
+      ? [{ jobId: job.id, title: job.script.title, createdAt: job.createdAt, status: job.status, citations }]
+      : [];
+  });
+
+  return {
+    checkedAt: new Date().toISOString(),
+    asOf,
+    citationsChecked: versions.size,
+    unavailable: [...unavailable],
+    changes,
+    affectedVideos,
+  };
+}
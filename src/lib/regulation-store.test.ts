@@ -0,0 +1,133 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  exportRegulationSnapshot,
+  getRegulationStoreStatus,
+  importRegulationSnapshot,
+  loadLatestStoredRegulation,
+  loadLatestStoredStructure,
+  loadStoredRegulation,
+  loadStoredStructure,
+  saveStoredRegulation,
+  saveStoredStructure,
+} from './regulation-store';
+import { regulationSnapshotSchema } from './schemas';
+
+function snippet(effectiveDate: string, text = 'Powered industrial trucks.') {
+  return { citation: '29 CFR 1910.178', text, source: 'eCFR.gov', effectiveDate };
+}
+
+describe('regulation-store', () => {
+  const origEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...origEnv, REGULATORY_CACHE_DIR: mkdtempSync(join(tmpdir(), 'regulations-')) };
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
+  });
+
+  it('keys records by section and effective date', () => {
+    saveStoredRegulation({ section: '1910.178', snippet: snippet('2026-01-01'), fetchedAt: '2026-01-01T10:00:00.000Z', origin: 'fetched' });
+    saveStoredRegulation({
+      section: '1910.178',
+      snippet: snippet('2026-03-01', 'Revised text.'),
+      fetchedAt: '2026-03-01T10:00:00.000Z',
+      origin: 'fetched',
+    });
+
+    expect(loadStoredRegulation('1910.178', '2026-01-01')?.snippet.text).toBe('Powered industrial trucks.');
+    expect(loadStoredRegulation('1910.178', '2026-02-01')).toBeNull();
+    expect(loadLatestStoredRegulation('1910.178', '2026-02-15')?.snippet.effectiveDate).toBe('2026-01-01');
+    expect(loadLatestStoredRegulation('1910.178', '2026-06-01')?.snippet.text).toBe('Revised text.');
+    expect(loadLatestStoredRegulation('1910.178', '2025-12-31')).toBeNull();
+    expect(loadStoredRegulation('../etc', '2026-01-01')).toBeNull();
+  });
+
+  it('exports a bundle that seeds another store, keeping fresher records', () => {
+    saveStoredRegulation({ section: '1910.178', snippet: snippet('2026-01-01'), fetchedAt: '2026-01-01T10:00:00.000Z', origin: 'fetched' });
+    const bundle = exportRegulationSnapshot();
+    expect(bundle).toMatchObject({ format: 1, source: 'eCFR.gov', records: [{ section: '1910.178' }] });
+    expect(bundle.id).toMatch(/^ecfr-\d{4}-\d{2}-\d{2}-[0-9a-f]{12}$/);
+
+    process.env.REGULATORY_CACHE_DIR = mkdtempSync(join(tmpdir(), 'regulations-offline-'));
+    expect(importRegulationSnapshot(bundle)).toMatchObject({ id: bundle.id, imported: 1, skipped: 0 });
+    expect(loadStoredRegulation('1910.178', '2026-01-01')).toMatchObject({ origin: 'snapshot', snapshotId: bundle.id });
+    expect(importRegulationSnapshot(bundle)).toMatchObject({ imported: 0, skipped: 1 });
+  });
+
+  it('keeps other sources apart from eCFR sections and carries them in the bundle', () => {
+    saveStoredRegulation({ section: '1910.178', snippet: snippet('2026-01-01'), fetchedAt: '2026-01-01T10:00:00.000Z', origin: 'fetched' });
+    saveStoredRegulation({
+      section: '3668',
+      sourceId: 'cal-osha',
+      snippet: { citation: '8 CCR 3668', text: 'Operator training.', source: 'dir.ca.gov', effectiveDate: '2026-01-01' },
+      fetchedAt: '2026-01-01T10:00:00.000Z',
+      origin: 'fetched',
+    });
+    expect(loadStoredRegulation('3668', '2026-01-01')).toBeNull();
+    expect(loadLatestStoredRegulation('3668', '2026-02-01', 'cal-osha')?.snippet.text).toBe('Operator training.');
+    expect(loadStoredRegulation('../3668', '2026-01-01', 'cal-osha')).toBeNull();
+
+    const bundle = exportRegulationSnapshot();
+    expect(bundle.source).toBe('eCFR.gov, dir.ca.gov');
+    expect(bundle.records.map((r) => [r.sourceId, r.section])).toEqual([
+      [undefined, '1910.178'],
+      ['cal-osha', '3668'],
+    ]);
+    expect(regulationSnapshotSchema.safeParse(bundle).success).toBe(true);
+
+    process.env.REGULATORY_CACHE_DIR = mkdtempSync(join(tmpdir(), 'regulations-offline-'));
+    expect(importRegulationSnapshot(bundle)).toMatchObject({ imported: 2 });
+    expect(loadStoredRegulation('3668', '2026-01-01', 'cal-osha')).toMatchObject({ sourceId: 'cal-osha', origin: 'snapshot' });
+    expect(getRegulationStoreStatus('2026-01-01')).toMatchObject({ records: 2, sections: 2 });
+  });
+
+  it('carries the newest eCFR structure in the bundle', () => {
+    const subparts = [{ part: '1910' as const, subpart: 'N', title: 'Materials Handling and Storage', sections: ['1910.178'] }];
+    saveStoredStructure({ effectiveDate: '2026-01-01', fetchedAt: '2026-01-01T10:00:00.000Z', subparts: [] });
+    saveStoredStructure({ effectiveDate: '2026-03-01', fetchedAt: '2026-03-01T10:00:00.000Z', subparts });
+    expect(loadLatestStoredStructure('2026-02-01')?.effectiveDate).toBe('2026-01-01');
+    const bundle = exportRegulationSnapshot();
+    expect(bundle.structure).toMatchObject({ effectiveDate: '2026-03-01', subparts });
+
+    process.env.REGULATORY_CACHE_DIR = mkdtempSync(join(tmpdir(), 'regulations-offline-'));
+    importRegulationSnapshot(bundle);
+    expect(loadStoredStructure('2026-03-01')?.subparts).toEqual(subparts);
+    expect(loadLatestStoredStructure('2026-02-01')).toBeNull();
+  });
+
+  it('reports provenance and staleness', () => {
+    expect(getRegulationStoreStatus('2026-06-01')).toMatchObject({
+      records: 0,
+      latestEffectiveDate: null,
+      ageDays: null,
+      stale: false,
+      lastSnapshot: null,
+    });
+
+    saveStoredRegulation({ section: '1910.178', snippet: snippet('2026-01-01'), fetchedAt: '2026-01-01T10:00:00.000Z', origin: 'fetched' });
+    importRegulationSnapshot({
+      format: 1,
+      id: 'ecfr-2026-02-01-abc',
+      createdAt: '2026-02-01T00:00:00.000Z',
+      source: 'eCFR.gov',
+      records: [{ section: '1926.652', snippet: { ...snippet('2026-02-01'), citation: '29 CFR 1926.652' }, fetchedAt: '2026-02-01T00:00:00.000Z' }],
+    });
+
+    const fresh = getRegulationStoreStatus('2026-03-01');
+    expect(fresh).toMatchObject({
+      records: 2,
+      sections: 2,
+      origins: { fetched: 1, snapshot: 1 },
+      latestEffectiveDate: '2026-02-01',
+      ageDays: 28,
+      stale: false,
+      lastSnapshot: { id: 'ecfr-2026-02-01-abc', imported: 1 },
+    });
+    expect(getRegulationStoreStatus('2026-06-01')).toMatchObject({ ageDays: 120, stale: true });
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Filesystem store for regulation text, so lookups survive restarts and an install without
+ * network access can be seeded from a snapshot exported elsewhere.
+ *
+ * Layout under REGULATORY_CACHE_DIR (default .data/regulations):
+ *   {section}/{effectiveDate}.json              one eCFR section as of one date (e.g. 1910.178/2026-01-01.json)
+ *   {sourceId}/{key}/{effectiveDate}.json       one document of another source (e.g. cal-osha/3203/2026-01-01.json)
+ *   structure/{effectiveDate}.json              subparts and their sections of parts 1904/1910/1926 as of one date
+ *   snapshots.jsonl                             one line per imported snapshot bundle, oldest first
+ *
+ * Each record notes where its text came from: fetched from its source by this install, or imported
+ * from a snapshot (with the bundle id). Writes go to a temp file and are renamed into place.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  REGULATORY_CACHE_DIR,
+  REGULATORY_SOURCE_VALUES,
+  REGULATORY_STALE_DAYS,
+  type RegulatorySourceId,
+} from '@/lib/constants';
+import type { CfrStructure, RegulationSnippet } from '@/lib/regulatory-api';
+import type { RegulationSnapshot } from '@/lib/schemas';
+
+export interface StoredRegulation {
+  /** Document key within the source, e.g. "1910.178" for eCFR or "3203" for Cal/OSHA. */
+  section: string;
+  /** Omitted for eCFR. */
+  sourceId?: RegulatorySourceId;
+  snippet: RegulationSnippet;
+  /** When the text was fetched from its source (by this install or the one that exported it). */
+  fetchedAt: string;
+  origin: 'fetched' | 'snapshot';
+  /** Bundle the record was imported from, for origin 'snapshot'. */
+  snapshotId?: string;
+}
+
+export interface RegulationSnapshotImport {
+  id: string;
+  createdAt: string;
+  source: string;
+  importedAt: string;
+  /** Records written; records the store already had as fresh or fresher are skipped. */
+  imported: number;
+  skipped: number;
+}
+
+export interface RegulationStoreStatus {
+  records: number;
+  sections: number;
+  /** Records by where their text came from. */
+  origins: Record<StoredRegulation['origin'], number>;
+  /** Newest effective date of any stored section; null when the store is empty. */
+  latestEffectiveDate: string | null;
+  /** Days from latestEffectiveDate to the date regulations are requested for. */
+  ageDays: number | null;
+  /** True when the newest stored text is older than REGULATORY_STALE_DAYS. */
+  stale: boolean;
+  /** The most recently imported snapshot bundle, if any. */
+  lastSnapshot: RegulationSnapshotImport | null;
+}
+
+const SECTION_PATTERN = /^\d{4}\.\d+$/;
+const KEY_PATTERN = /^[0-9A-Za-z][0-9A-Za-z.-]{0,63}$/;
+const DATE_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.json$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getStoreDir(): string {
+  return path.resolve(process.env.REGULATORY_CACHE_DIR ?? REGULATORY_CACHE_DIR);
+}
+
+function isValidKey(section: string, sourceId: RegulatorySourceId): boolean {
+  return (sourceId === 'ecfr' ? SECTION_PATTERN : KEY_PATTERN).test(section);
+}
+
+/**
+ * eCFR sections are CFR numbers, other keys document numbers; anything else is rejected before
+ * touching the filesystem.
+ */
+function sectionDir(section: string, sourceId: RegulatorySourceId = 'ecfr'): string {
+  if (!isValidKey(section, sourceId)) throw new Error(`Invalid ${sourceId} document: ${section}`);
+  return sourceId === 'ecfr' ? path.join(getStoreDir(), section) : path.join(getStoreDir(), sourceId, section);
+}
+
+function recordPath(section: string, effectiveDate: string, sourceId?: RegulatorySourceId): string {
+  return path.join(sectionDir(section, sourceId), `${effectiveDate}.json`);
+}
+
+function structureDir(): string {
+  return path.join(getStoreDir(), 'structure');
+}
+
+function structurePath(effectiveDate: string): string {
+  return path.join(structureDir(), `${effectiveDate}.json`);
+}
+
+function snapshotLogPath(): string {
+  return path.join(getStoreDir(), 'snapshots.jsonl');
+}
+
+function writeFileAtomic(filePath: string, data: string): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, data);
+  fs.renameSync(tmpPath, filePath);
+}
+
+function readJson<T>(filePath: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+function readRecord(filePath: string): StoredRegulation | null {
+  return readJson<StoredRegulation>(filePath);
+}
+
+/** Effective dates with a file in the directory, oldest first. */
+function datesIn(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .map((name) => name.match(DATE_FILE_PATTERN)?.[1])
+    .filter((d): d is string => Boolean(d))
+    .sort();
+}
+
+/** Effective dates stored for a document, oldest first. */
+function storedDates(section: string, sourceId?: RegulatorySourceId): string[] {
+  return datesIn(sectionDir(section, sourceId));
+}
+
+function storedSections(sourceId: RegulatorySourceId): string[] {
+  const dir = sourceId === 'ecfr' ? getStoreDir() : path.join(getStoreDir(), sourceId);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => isValidKey(name, sourceId))
+    .sort();
+}
+
+export function saveStoredRegulation(record: StoredRegulation): void {
+  const filePath = recordPath(record.section, record.snippet.effectiveDate, record.sourceId);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileAtomic(filePath, JSON.stringify(record));
+}
+
+/** The document (an eCFR section by default) as of exactly this effective date; null when not stored. */
+export function loadStoredRegulation(
+  section: string,
+  effectiveDate: string,
+  sourceId: RegulatorySourceId = 'ecfr'
+): StoredRegulation | null {
+  if (!isValidKey(section, sourceId)) return null;
+  return readRecord(recordPath(section, effectiveDate, sourceId));
+}
+
+/**
+ * The newest stored text of the document in effect on the date (effective on or before it), for
+ * lookups that cannot reach its source. Null when none is stored.
+ */
+export function loadLatestStoredRegulation(
+  section: string,
+  onOrBefore: string,
+  sourceId: RegulatorySourceId = 'ecfr'
+): StoredRegulation | null {
+  if (!isValidKey(section, sourceId)) return null;
+  const date = storedDates(section, sourceId)
+    .filter((d) => d <= onOrBefore)
+    .pop();
+  return date ? readRecord(recordPath(section, date, sourceId)) : null;
+}
+
+export function saveStoredStructure(structure: CfrStructure): void {
+  const filePath = structurePath(structure.effectiveDate);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileAtomic(filePath, JSON.stringify(structure));
+}
+
+/** The structure as of exactly this effective date; null when not stored. */
+export function loadStoredStructure(effectiveDate: string): CfrStructure | null {
+  return readJson<CfrStructure>(structurePath(effectiveDate));
+}
+
+/** The newest stored structure in effect on the date; null when none is stored. */
+export function loadLatestStoredStructure(onOrBefore: string): CfrStructure | null {
+  const date = datesIn(structureDir())
+    .filter((d) => d <= onOrBefore)
+    .pop();
+  return date ? loadStoredStructure(date) : null;
+}
+
+/** Every stored record, by source, then document, then effective date. */
+export function listStoredRegulations(): StoredRegulation[] {
+  return REGULATORY_SOURCE_VALUES.flatMap((sourceId) =>
+    storedSections(sourceId).flatMap((section) =>
+      storedDates(section, sourceId)
+        .map((date) => readRecord(recordPath(section, date, sourceId)))
+        .filter((r): r is StoredRegulation => r !== null)
+    )
+  );
+}
+
+/**
+ * A bundle of every stored record and the newest stored structure (so subpart citations resolve),
+ * for seeding another install's store.
+ */
+export function exportRegulationSnapshot(): RegulationSnapshot {
+  const records = listStoredRegulations().map(({ section, sourceId, snippet, fetchedAt }) => ({
+    section,
+    ...(sourceId && sourceId !== 'ecfr' && { sourceId }),
+    snippet,
+    fetchedAt,
+  }));
+  const latest = datesIn(structureDir()).pop();
+  const structure = latest ? loadStoredStructure(latest) : null;
+  const createdAt = new Date().toISOString();
+  const hash = createHash('sha256').update(JSON.stringify({ records, structure })).digest('hex').slice(0, 12);
+  return {
+    format: 1,
+    id: `ecfr-${createdAt.slice(0, 10)}-${hash}`,
+    createdAt,
+    source: [...new Set(records.map((r) => r.snippet.source))].join(', ') || 'eCFR.gov',
+    records,
+    ...(structure && { structure }),
+  };
+}
+
+/**
+ * Writes a validated snapshot bundle into the store. A record replaces the stored one for the
+ * same document and effective date only when it was fetched later.
+ */
+export function importRegulationSnapshot(bundle: RegulationSnapshot): RegulationSnapshotImport {
+  let imported = 0;
+  let skipped = 0;
+  for (const { section, sourceId, snippet, fetchedAt } of bundle.records) {
+    const existing = loadStoredRegulation(section, snippet.effectiveDate, sourceId);
+    if (existing && existing.fetchedAt >= fetchedAt) {
+      skipped++;
+      continue;
+    }
+    saveStoredRegulation({
+      section,
+      ...(sourceId && sourceId !== 'ecfr' && { sourceId }),
+      snippet,
+      fetchedAt,
+      origin: 'snapshot',
+      snapshotId: bundle.id,
+    });
+    imported++;
+  }
+  const existingStructure = bundle.structure && loadStoredStructure(bundle.structure.effectiveDate);
+  if (bundle.structure && !(existingStructure && existingStructure.fetchedAt >= bundle.structure.fetchedAt)) {
+    saveStoredStructure(bundle.structure);
+  }
+  const entry: RegulationSnapshotImport = {
+    id: bundle.id,
+    createdAt: bundle.createdAt,
+    source: bundle.source,
+    importedAt: new Date().toISOString(),
+    imported,
+    skipped,
+  };
+  fs.mkdirSync(getStoreDir(), { recursive: true });
+  fs.appendFileSync(snapshotLogPath(), `${JSON.stringify(entry)}\n`);
+  return entry;
+}
+
+function lastSnapshotImport(): RegulationSnapshotImport | null {
+  let lines: string[];
+  try {
+    lines = fs.readFileSync(snapshotLogPath(), 'utf8').split('\n').filter(Boolean);
+  } catch {
+    return null;
+  }
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      return JSON.parse(lines[i]) as RegulationSnapshotImport;
+    } catch {
+      // Skip a truncated last line
+    }
+  }
+  return null;
+}
+
+/** Provenance and staleness of the stored text, relative to the date regulations are requested for. */
+export function getRegulationStoreStatus(asOf: string): RegulationStoreStatus {
+  const records = listStoredRegulations();
+  const origins = { fetched: 0, snapshot: 0 };
+  for (const r of records) origins[r.origin]++;
+  const latestEffectiveDate = records.reduce<string | null>(
+    (latest, r) => (latest === null || r.snippet.effectiveDate > latest ? r.snippet.effectiveDate : latest),
+    null
+  );
+  const ageDays =
+    latestEffectiveDate === null
+      ? null
+      : Math.max(0, Math.floor((Date.parse(asOf) - Date.parse(latestEffectiveDate)) / DAY_MS));
+  return {
+    records: records.length,
+    sections: new Set(records.map((r) => `${r.sourceId ?? 'ecfr'}:${r.section}`)).size,
+    origins,
+    latestEffectiveDate,
+    ageDays,
+    stale: ageDays !== null && ageDays > REGULATORY_STALE_DAYS,
+    lastSnapshot: lastSnapshotImport(),
+  };
+}
@@ -1,19 +1,87 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { importRegulationSnapshot, loadStoredRegulation, saveStoredRegulation } from './regulation-store';
 import {
   fetchRegulationSection,
   fetchRegulationsForCitations,
+  getCfrUrl,
   getRegulatoryApiStatus,
+  getRegulatorySources,
   clearRegulatoryCache,
+  resolveCfrSections,
+  splitRegulationParagraphs,
 } from './regulatory-api';
 
 // Mock fetch - eCFR API may be slow or restricted in CI
 const mockFetch = vi.fn();
 vi.stubGlobal('fetch', mockFetch);
 
+function jsonResponse(body: unknown) {
+  return { ok: true, headers: new Headers({ 'content-type': 'application/json' }), json: () => Promise.resolve(body) };
+}
+
+/** Title 29 structure as eCFR returns it, trimmed to two subparts of part 1910. */
+const STRUCTURE = {
+  type: 'title',
+  identifier: '29',
+  children: [
+    {
+      type: 'chapter',
+      identifier: 'XVII',
+      children: [
+        {
+          type: 'part',
+          identifier: '1910',
+          children: [
+            {
+              type: 'subpart',
+              identifier: 'N',
+              label_description: 'Materials Handling and Storage',
+              children: [
+                { type: 'section', identifier: '1910.176' },
+                { type: 'section', identifier: '1910.177' },
+                { type: 'section', identifier: '1910.178' },
+                { type: 'section', identifier: '1910.180', reserved: true },
+              ],
+            },
+            {
+              type: 'subpart',
+              identifier: 'O',
+              label_description: 'Machinery and Machine Guarding',
+              children: [{ type: 'subject_group', children: [{ type: 'section', identifier: '1910.212' }] }],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+/** eCFR answering structure requests with STRUCTURE and every section with `text`. */
+function mockEcfr(text: string) {
+  mockFetch.mockImplementation((url: string) =>
+    Promise.resolve(jsonResponse(url.includes('/structure/') ? STRUCTURE : { part: { abstract: text } }))
+  );
+}
+
+/** Section text requests, leaving out structure lookups. */
+function contentRequests(): string[] {
+  return mockFetch.mock.calls.map(([url]) => String(url)).filter((url) => url.includes('/renderer/'));
+}
+
 describe('regulatory-api', () => {
+  const origEnv = process.env;
+
   beforeEach(() => {
     vi.clearAllMocks();
     clearRegulatoryCache();
+    process.env = { ...origEnv, REGULATORY_CACHE_DIR: mkdtempSync(join(tmpdir(), 'regulations-')) };
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
   });
 
   describe('fetchRegulationSection', () => {
@@ -64,6 +132,63 @@ describe('regulatory-api', () => {
     });
   });
 
+  describe('persistent store', () => {
+    const ecfrResponse = {
+      ok: true,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () => Promise.resolve({ part: { abstract: 'Powered industrial trucks.' } }),
+    };
+
+    it('serves a fetched section from the store after a restart', async () => {
+      process.env.ECFR_DATE = '2026-01-01';
+      mockFetch.mockResolvedValue(ecfrResponse);
+      await fetchRegulationSection('OSHA 1910.178');
+
+      clearRegulatoryCache();
+      const snippet = await fetchRegulationSection('29 CFR 1910.178(l)');
+      expect(snippet).toMatchObject({ text: 'Powered industrial trucks.', effectiveDate: '2026-01-01' });
+      expect(contentRequests()).toHaveLength(1);
+    });
+
+    it('falls back to the newest stored text when eCFR is unreachable or offline', async () => {
+      importRegulationSnapshot({
+        format: 1,
+        id: 'ecfr-2026-01-01-abc',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        source: 'eCFR.gov',
+        records: [
+          {
+            section: '1910.178',
+            snippet: { citation: '29 CFR 1910.178', text: 'Snapshot text.', source: 'eCFR.gov', effectiveDate: '2026-01-01' },
+            fetchedAt: '2026-01-01T00:00:00.000Z',
+          },
+        ],
+      });
+      process.env.ECFR_DATE = '2026-06-01';
+      mockFetch.mockRejectedValue(new Error('ENOTFOUND'));
+      expect(await fetchRegulationSection('OSHA 1910.178')).toMatchObject({
+        text: 'Snapshot text.',
+        effectiveDate: '2026-01-01',
+      });
+
+      mockFetch.mockClear();
+      process.env.REGULATORY_API_OFFLINE = '1';
+      expect((await fetchRegulationSection('OSHA 1910.178'))?.text).toBe('Snapshot text.');
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(await fetchRegulationSection('OSHA 1910.147')).toBeNull();
+
+      const { offline, store } = getRegulatoryApiStatus();
+      expect(offline).toBe(true);
+      expect(store).toMatchObject({
+        origins: { fetched: 0, snapshot: 1 },
+        latestEffectiveDate: '2026-01-01',
+        ageDays: 151,
+        stale: true,
+        lastSnapshot: { id: 'ecfr-2026-01-01-abc' },
+      });
+    });
+  });
+
   describe('fetchRegulationsForCitations', () => {
     it('returns empty when no valid citations', async () => {
       const { context, snippets } = await fetchRegulationsForCitations([]);
@@ -84,10 +209,213 @@ describe('regulatory-api', () => {
       const { snippets } = await fetchRegulationsForCitations([
         'OSHA 1910.178',
         '29 CFR 1910.178',
+        '29 CFR 1910.178(l)',
       ]);
-      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(contentRequests()).toHaveLength(1);
       expect(snippets).toHaveLength(1);
     });
+
+    it('fetches cited paragraphs and leaves out subparts', async () => {
+      mockEcfr('Powered industrial trucks. (l) Operator training. (m) Truck operations. Trucks shall not be driven up to anyone.');
+      const { context, snippets } = await fetchRegulationsForCitations(['29 CFR 1910.178(m)', '1910 Subpart N']);
+      expect(snippets.map((s) => s.citation)).toEqual(['29 CFR 1910.178(m)']);
+      expect(context).toContain('[29 CFR 1910.178(m)] Truck operations. Trucks shall not be driven up to anyone.');
+    });
+  });
+
+  describe('regulatory sources', () => {
+    function htmlResponse(body: string) {
+      return { ok: true, headers: new Headers({ 'content-type': 'text/html; charset=utf-8' }), text: () => Promise.resolve(body) };
+    }
+
+    /** eCFR, dir.ca.gov and the Federal Register, each answering with one document. */
+    function mockSources() {
+      mockFetch.mockImplementation((url: string) => {
+        if (url.includes('dir.ca.gov')) {
+          return Promise.resolve(htmlResponse('<nav>Title 8</nav><h1>§3668. Powered Industrial Truck Operator Training.</h1>'));
+        }
+        if (url.includes('federalregister.gov')) {
+          const doc = { type: 'Proposed Rule', title: 'Forklift design standards', publication_date: '2026-03-01' };
+          return Promise.resolve(jsonResponse({ count: 1, results: [{ ...doc, document_number: '2026-01234', html_url: 'https://fr.test/1' }] }));
+        }
+        return Promise.resolve(jsonResponse(url.includes('/structure/') ? STRUCTURE : { part: { abstract: 'Powered industrial trucks.' } }));
+      });
+    }
+
+    it('adds the state plan of the site state to eCFR and the Federal Register', () => {
+      expect(getRegulatorySources().map((s) => s.id)).toEqual(['ecfr', 'federal-register']);
+      expect(getRegulatorySources('CA').map((s) => s.id)).toEqual(['ecfr', 'cal-osha', 'federal-register']);
+      expect(getRegulatorySources('WA').map((s) => s.id)).toEqual(['ecfr', 'wa-dosh', 'federal-register']);
+      expect(getRegulatorySources('TX').map((s) => s.id)).toEqual(['ecfr', 'federal-register']);
+    });
+
+    it('fetches state-plan text for the site state and lists pending rules separately', async () => {
+      process.env.ECFR_DATE = '2026-06-01';
+      vi.useFakeTimers({ now: new Date('2026-06-01T12:00:00Z'), toFake: ['Date'] });
+      mockSources();
+      const { context, snippets } = await fetchRegulationsForCitations(['OSHA 1910.178', '8 CCR 3668', 'WAC 296-863'], {
+        siteState: 'CA',
+      });
+      vi.useRealTimers();
+
+      expect(snippets.map((s) => [s.citation, s.source, Boolean(s.pending)])).toEqual([
+        ['29 CFR 1910.178', 'eCFR.gov', false],
+        ['8 CCR 3668', 'dir.ca.gov', false],
+        ['Federal Register, 29 CFR 1910', 'FederalRegister.gov', true],
+      ]);
+      expect(snippets[1].text).toBe('§3668. Powered Industrial Truck Operator Training.');
+      expect(context).toMatch(/^Live regulation excerpts \(eCFR\.gov, dir\.ca\.gov, as of 2026-06-01\):/);
+      expect(context).toContain('Pending rule changes (FederalRegister.gov; proposed or not yet in effect');
+      expect(context).toContain('Proposed Rule, FR Doc. 2026-01234 (published 2026-03-01): Forklift design standards.');
+      expect(mockFetch.mock.calls.some(([url]) => String(url).includes('leg.wa.gov'))).toBe(false);
+      expect(loadStoredRegulation('3668', '2026-06-01', 'cal-osha')).toMatchObject({ origin: 'fetched', sourceId: 'cal-osha' });
+    });
+
+    it('answers past dates of current-text-only sources from the store', async () => {
+      saveStoredRegulation({
+        section: '3668',
+        sourceId: 'cal-osha',
+        snippet: { citation: '8 CCR 3668', text: 'Stored training text.', source: 'dir.ca.gov', effectiveDate: '2026-01-01' },
+        fetchedAt: '2026-01-01T00:00:00.000Z',
+        origin: 'fetched',
+      });
+      mockSources();
+      expect(await fetchRegulationSection('Title 8, Section 3668', { effectiveDate: '2026-02-01' })).toMatchObject({
+        text: 'Stored training text.',
+        effectiveDate: '2026-01-01',
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(await fetchRegulationSection('8 CCR 3668', { effectiveDate: '2025-06-01' })).toBeNull();
+    });
+  });
+
+  describe('eCFR structure', () => {
+    it('requests each section with its subpart and rejects sections the structure does not list', async () => {
+      mockEcfr('Section text.');
+      await fetchRegulationSection('OSHA 1910.178');
+      await fetchRegulationSection('OSHA 1910.212');
+      expect(contentRequests()[0]).toContain('subpart=N');
+      expect(contentRequests()[1]).toContain('subpart=O');
+
+      expect(await fetchRegulationSection('29 CFR 1910.999')).toBeNull();
+      expect(contentRequests()).toHaveLength(2);
+      expect(mockFetch.mock.calls.filter(([url]) => String(url).includes('/structure/'))).toHaveLength(1);
+    });
+
+    it('resolves subpart and range citations to their sections', async () => {
+      mockEcfr('Section text.');
+      expect(await resolveCfrSections('OSHA 1910 Subpart N')).toEqual(['1910.176', '1910.177', '1910.178']);
+      expect(await resolveCfrSections('Subparts N-O of Part 1910')).toEqual([
+        '1910.176',
+        '1910.177',
+        '1910.178',
+        '1910.212',
+      ]);
+      expect(await resolveCfrSections('OSHA 1910.177–212')).toEqual(['1910.177', '1910.178', '1910.212']);
+      expect(await resolveCfrSections('1926 Subpart M')).toEqual([]);
+      expect(await resolveCfrSections('OSHA 1910.95')).toEqual(['1910.95']);
+    });
+
+    it('still fetches sections when the structure is unavailable', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(url.includes('/structure/') ? { ok: false } : jsonResponse({ part: { abstract: 'Text.' } }))
+      );
+      expect(await fetchRegulationSection('OSHA 1910.95')).toMatchObject({ citation: '29 CFR 1910.95', text: 'Text.' });
+      expect(contentRequests()[0]).not.toContain('subpart=');
+      expect(await resolveCfrSections('1910 Subpart N')).toEqual([]);
+    });
+  });
+
+  describe('paragraph citations', () => {
+    const section =
+      'Powered industrial trucks. (l) Operator training. (4) Refresher training and evaluation. (i) Refresher training shall be conducted when the operator has been observed to operate the vehicle in an unsafe manner. (ii) An evaluation shall be conducted at least once every three years. (5) Avoidance of duplicative training. (m) Truck operations.';
+
+    it('returns the cited paragraph with its subparagraphs', async () => {
+      mockEcfr(section);
+      const snippet = await fetchRegulationSection('OSHA 1910.178(l)(4)');
+      expect(snippet).toMatchObject({
+        citation: '29 CFR 1910.178(l)(4)',
+        text: 'Refresher training and evaluation. (i) Refresher training shall be conducted when the operator has been observed to operate the vehicle in an unsafe manner. (ii) An evaluation shall be conducted at least once every three years.',
+      });
+      expect((await fetchRegulationSection('29 CFR 1910.178(l)(4)(ii)'))?.text).toBe(
+        'An evaluation shall be conducted at least once every three years.'
+      );
+      expect(contentRequests()).toHaveLength(1);
+
+      expect(splitRegulationParagraphs(snippet!).map((p) => p.citation)).toEqual([
+        '29 CFR 1910.178(l)(4)',
+        '29 CFR 1910.178(l)(4)(i)',
+        '29 CFR 1910.178(l)(4)(ii)',
+      ]);
+    });
+
+    it('falls back to the whole section when the paragraph is not in its text', async () => {
+      mockEcfr(section);
+      expect(await fetchRegulationSection('29 CFR 1910.178(q)')).toMatchObject({ citation: '29 CFR 1910.178', text: section });
+    });
+  });
+
+  describe('getCfrUrl', () => {
+    it('links 29 CFR sections and paragraphs on eCFR', () => {
+      expect(getCfrUrl('29 CFR 1910.178')).toBe('https://www.ecfr.gov/current/title-29/section-1910.178');
+      expect(getCfrUrl('OSHA 1926.652(a)(1)')).toBe(
+        'https://www.ecfr.gov/current/title-29/section-1926.652#p-1926.652(a)(1)'
+      );
+      expect(getCfrUrl('1910 Subpart D')).toBe('https://www.ecfr.gov/current/title-29/part-1910/subpart-D');
+      expect(getCfrUrl('OSHA 1910.303–399')).toBe('https://www.ecfr.gov/current/title-29/part-1910');
+      expect(getCfrUrl('ANSI Z358.1')).toBeNull();
+    });
+  });
+
+  describe('splitRegulationParagraphs', () => {
+    it('cites each paragraph by its full label path', () => {
+      const paragraphs = splitRegulationParagraphs({
+        citation: 'OSHA 1910.178',
+        text:
+          'Powered industrial trucks. (l) Operator training. (1) Safe operation. (i) The employer shall ensure that each operator is competent, as described in paragraph (l)(4) of this section. (ii) Prior to permitting an employee to operate a truck, the employer shall ensure that the employee has completed training. (2) Training program implementation. (n) Traveling. (4) The driver shall be required to slow down and sound the horn at cross aisles.',
+        source: 'eCFR',
+        effectiveDate: '2026-01-01',
+      });
+      expect(paragraphs.map((p) => p.citation)).toEqual([
+        '29 CFR 1910.178',
+        '29 CFR 1910.178(l)',
+        '29 CFR 1910.178(l)(1)',
+        '29 CFR 1910.178(l)(1)(i)',
+        '29 CFR 1910.178(l)(1)(ii)',
+        '29 CFR 1910.178(l)(2)',
+        '29 CFR 1910.178(n)',
+        '29 CFR 1910.178(n)(4)',
+      ]);
+      expect(paragraphs[3].text).toBe(
+        'The employer shall ensure that each operator is competent, as described in paragraph (l)(4) of this section.'
+      );
+      expect(paragraphs[7]).toEqual({
+        citation: '29 CFR 1910.178(n)(4)',
+        text: 'The driver shall be required to slow down and sound the horn at cross aisles.',
+        url: 'https://www.ecfr.gov/current/title-29/section-1910.178#p-1910.178(n)(4)',
+        effectiveDate: '2026-01-01',
+      });
+    });
+
+    it('reads (i) after a numbered paragraph as the next letter when a (1) follows it', () => {
+      const paragraphs = splitRegulationParagraphs({
+        citation: '29 CFR 1910.147',
+        text: 'Control of hazardous energy. (h) Lockout devices. (1) Devices shall be durable. (i) Standardized by color. (ii) Singularly identified. (2) Tagout devices. (i) Outside personnel. (1) The employer shall inform contractors. (j) Reserved.',
+        source: 'eCFR',
+        effectiveDate: '2026-01-01',
+      });
+      expect(paragraphs.map((p) => p.citation.replace('29 CFR 1910.147', ''))).toEqual([
+        '',
+        '(h)',
+        '(h)(1)',
+        '(h)(1)(i)',
+        '(h)(1)(ii)',
+        '(h)(2)',
+        '(i)',
+        '(i)(1)',
+        '(j)',
+      ]);
+    });
   });
 
   describe('getRegulatoryApiStatus', () => {
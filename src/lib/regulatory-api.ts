@@ -4,72 +4,117 @@
  * Fetches current regulation text from eCFR (Electronic Code of Federal Regulations)
  * to keep EHS content evergreen. Falls back to static reference when API is unavailable.
  *
+ * eCFR is one RegulatorySource; a site in a state-plan state (CA, WA) also gets its state's
+ * regulations, and pending OSHA rules come from the Federal Register (see regulatory-sources.ts).
+ *
+ * Any section of 29 CFR 1904/1910/1926 can be cited (see cfr-citation.ts); its subpart comes from
+ * the eCFR structure of title 29, and a citation naming a paragraph ("1910.178(l)(4)") gets that
+ * paragraph's text rather than the whole section.
+ *
+ * Fetched documents (from every source) and structure are kept in memory for 24 hours and persisted
+ * per effective date (see regulation-store.ts), so they survive restarts. When a source cannot be
+ * reached, or with REGULATORY_API_OFFLINE=true, the newest stored text in effect on the date is used; an offline
+ * install is seeded by importing a snapshot bundle exported from a connected one.
+ *
  * eCFR API: https://www.ecfr.gov/developers/documentation/api/v1
  * Example: /api/renderer/v1/content/enhanced/{date}/title-29?part=1910&section=1910.178
+ * Structure: /api/versioner/v1/structure/{date}/title-29.json
  */
 
+import {
+  CFR_PARTS,
+  compareCfrSections,
+  formatCfrCitation,
+  parseCfrCitation,
+  type CfrPart,
+  type CfrSectionCitation,
+} from '@/lib/cfr-citation';
+import { isRegulatoryApiOffline } from '@/lib/env';
+import {
+  getRegulationStoreStatus,
+  loadLatestStoredRegulation,
+  loadLatestStoredStructure,
+  loadStoredRegulation,
+  loadStoredStructure,
+  saveStoredRegulation,
+  saveStoredStructure,
+  type RegulationStoreStatus,
+} from '@/lib/regulation-store';
+import { federalRegisterSource, fetchJson, STATE_PLAN_SOURCES, type RegulatorySource } from '@/lib/regulatory-sources';
+import type { UsState } from '@/lib/constants';
+
 export interface RegulationSnippet {
   citation: string;
   text: string;
   source: string;
   effectiveDate: string;
+  /** Proposed or not yet effective rule text (Federal Register), not regulation in force. */
+  pending?: boolean;
+}
+
+/** One paragraph of a fetched section, with its paragraph-level citation and eCFR link. */
+export interface RegulationParagraph {
+  /** e.g. "29 CFR 1910.178(l)(4)(iii)"; the section alone for text before the first paragraph. */
+  citation: string;
+  text: string;
+  url: string;
+  effectiveDate: string;
 }
 
 export interface RegulatoryApiStatus {
   enabled: boolean;
+  /** True when REGULATORY_API_OFFLINE is set: only stored text is used. */
+  offline: boolean;
   lastFetch: string | null;
   regulationsCached: number;
   effectiveDate: string;
+  /** Persisted text: where it came from and how old the newest of it is. */
+  store: RegulationStoreStatus;
 }
 
-/** Map 29 CFR section to eCFR API params. Part 1910 = general industry, 1926 = construction. */
-const SECTION_TO_ECFR: Record<string, { part: string; subpart?: string }> = {
-  '1910.22': { part: '1910', subpart: 'D' },
-  '1910.38': { part: '1910', subpart: 'E' },
-  '1910.95': { part: '1910', subpart: 'G' },
-  '1910.132': { part: '1910', subpart: 'I' },
-  '1910.134': { part: '1910', subpart: 'I' },
-  '1910.140': { part: '1910', subpart: 'I' },
-  '1910.146': { part: '1910', subpart: 'J' },
-  '1910.147': { part: '1910', subpart: 'J' },
-  '1910.151': { part: '1910', subpart: 'K' },
-  '1910.178': { part: '1910', subpart: 'N' },
-  '1910.179': { part: '1910', subpart: 'N' },
-  '1910.212': { part: '1910', subpart: 'O' },
-  '1910.219': { part: '1910', subpart: 'O' },
-  '1910.242': { part: '1910', subpart: 'P' },
-  '1910.243': { part: '1910', subpart: 'P' },
-  '1910.252': { part: '1910', subpart: 'Q' },
-  '1910.1030': { part: '1910', subpart: 'Z' },
-  '1910.1200': { part: '1910', subpart: 'Z' },
-  '1926.451': { part: '1926' },
-  '1926.652': { part: '1926' },
-  '1926.1427': { part: '1926' },
-};
+/** Sections of one subpart of a 29 CFR part, from the eCFR structure of title 29. */
+export interface CfrSubpart {
+  part: CfrPart;
+  /** e.g. "N" */
+  subpart: string;
+  /** e.g. "Materials Handling and Storage" */
+  title: string;
+  /** Sections in order, reserved ones left out. */
+  sections: string[];
+}
 
-/** Extract section number from refs like "OSHA 1910.178", "29 CFR 1910.178(l)", "1910 Subpart D". */
-function parseCitation(ref: string): string | null {
-  const m = ref.match(/(\d{4})\.(\d+)/);
-  if (m) return `${m[1]}.${m[2]}`;
-  return null;
+/** Subparts of parts 1904, 1910 and 1926 as of one effective date. */
+export interface CfrStructure {
+  effectiveDate: string;
+  fetchedAt: string;
+  subparts: CfrSubpart[];
 }
 
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const REQUEST_TIMEOUT_MS = 15_000;
+/** How long a failed structure lookup is remembered before eCFR is asked again. */
+const STRUCTURE_RETRY_MS = 5 * 60 * 1000;
 const ECFR_BASE = 'https://www.ecfr.gov';
+/** Characters of each section or paragraph quoted in the prompt context. */
+const CONTEXT_CHARS = 3000;
 
 const cache = new Map<string, { snippet: RegulationSnippet; expires: number }>();
+const structureCache = new Map<string, { structure: CfrStructure | null; expires: number }>();
 let lastFetchTime: string | null = null;
 
-function getEffectiveDate(): string {
+/** Date regulations are requested for: ECFR_DATE (YYYY-MM-DD) or today. */
+export function getRegulationEffectiveDate(): string {
   const d = process.env.ECFR_DATE;
   if (d && /^\d{4}-\d{2}-\d{2}$/.test(d)) return d;
   const now = new Date();
   return now.toISOString().slice(0, 10);
 }
 
-function buildEcfrUrl(part: string, section: string, subpart?: string): string {
-  const date = getEffectiveDate();
+/** ECFR_API_URL points lookups at a mirror or a local fixture server; links stay on eCFR. */
+function ecfrApiBase(): string {
+  return process.env.ECFR_API_URL ?? ECFR_BASE;
+}
+
+function buildEcfrUrl(date: string, part: string, section: string, subpart?: string): string {
   const params = new URLSearchParams({
     subtitle: 'B',
     chapter: 'XVII',
@@ -77,116 +122,440 @@ function buildEcfrUrl(part: string, section: string, subpart?: string): string {
     section,
   });
   if (subpart) params.set('subpart', subpart);
-  return `${ECFR_BASE}/api/renderer/v1/content/enhanced/${date}/title-29?${params}`;
+  return `${ecfrApiBase()}/api/renderer/v1/content/enhanced/${date}/title-29?${params}`;
+}
+
+/** Fetch one section from the eCFR API; null when the request fails or returns no text. */
+async function fetchFromEcfr(
+  section: string,
+  params: { part: string; subpart?: string },
+  effectiveDate: string
+): Promise<RegulationSnippet | null> {
+  const data = await fetchJson(buildEcfrUrl(effectiveDate, params.part, section, params.subpart));
+  if (!data || typeof data !== 'object') return null;
+
+  let text = '';
+  const obj = data as Record<string, unknown>;
+  if (obj.part && typeof obj.part === 'object') {
+    const part = obj.part as Record<string, unknown>;
+    if (typeof part.abstract === 'string') text = part.abstract;
+  }
+  if (obj.nodes && Array.isArray(obj.nodes)) {
+    for (const node of obj.nodes as Array<Record<string, unknown>>) {
+      if (Array.isArray(node.content)) {
+        text += '\n' + node.content.filter((c): c is string => typeof c === 'string').join(' ');
+      }
+    }
+  }
+  if (obj.content && Array.isArray(obj.content)) {
+    text += '\n' + (obj.content as string[]).join(' ');
+  }
+  // The whole section is kept so any of its paragraphs can be cited; prompts quote a prefix
+  text = text.trim().replace(/\s+/g, ' ');
+  if (!text) return null;
+
+  return {
+    citation: `29 CFR ${section}`,
+    text,
+    source: 'eCFR.gov',
+    effectiveDate,
+  };
+}
+
+interface EcfrStructureNode {
+  type?: string;
+  identifier?: string;
+  label_description?: string;
+  reserved?: boolean;
+  children?: EcfrStructureNode[];
+}
+
+/** Subparts of the OSHA parts in an eCFR structure tree, with their sections in order. */
+function collectSubparts(node: EcfrStructureNode, part: CfrPart | null, out: CfrSubpart[]): CfrSubpart[] {
+  if (node.type === 'part') {
+    part = CFR_PARTS.find((p) => p === node.identifier) ?? null;
+  } else if (part && node.type === 'subpart' && node.identifier) {
+    out.push({ part, subpart: node.identifier, title: node.label_description ?? '', sections: [] });
+  } else if (part && node.type === 'section' && node.identifier && !node.reserved) {
+    const current = out[out.length - 1];
+    if (current?.part === part) current.sections.push(node.identifier);
+  }
+  for (const child of node.children ?? []) collectSubparts(child, part, out);
+  return out;
+}
+
+/** Fetch the title 29 structure from eCFR; null when it fails or names none of the OSHA parts. */
+async function fetchStructureFromEcfr(effectiveDate: string): Promise<CfrStructure | null> {
+  const data = await fetchJson(`${ecfrApiBase()}/api/versioner/v1/structure/${effectiveDate}/title-29.json`);
+  if (!data || typeof data !== 'object') return null;
+  const subparts = collectSubparts(data as EcfrStructureNode, null, []).filter((s) => s.sections.length > 0);
+  if (subparts.length === 0) return null;
+  return { effectiveDate, fetchedAt: new Date().toISOString(), subparts };
+}
+
+/**
+ * Subparts of parts 1904/1910/1926 as of the date: from memory, the persistent store, then eCFR,
+ * falling back to the newest stored structure. Null when none is available.
+ */
+async function getCfrStructure(effectiveDate: string): Promise<CfrStructure | null> {
+  const cached = structureCache.get(effectiveDate);
+  if (cached && Date.now() < cached.expires) return cached.structure;
+
+  let structure = loadStoredStructure(effectiveDate);
+  if (!structure && !isRegulatoryApiOffline()) {
+    structure = await fetchStructureFromEcfr(effectiveDate);
+    if (structure) {
+      try {
+        saveStoredStructure(structure);
+      } catch {
+        // A read-only store only costs a refetch after restart
+      }
+    }
+  }
+  structure ??= loadLatestStoredStructure(effectiveDate);
+  structureCache.set(effectiveDate, {
+    structure,
+    expires: Date.now() + (structure ? CACHE_TTL_MS : STRUCTURE_RETRY_MS),
+  });
+  return structure;
 }
 
 /**
- * Fetch a single regulation section from eCFR.
- * Returns null if fetch fails or section is unknown.
+ * The sections a citation covers as of the date: the section itself, every section of the named
+ * subparts, or every section in a range. Subparts and ranges need the eCFR structure; empty when
+ * it is unavailable or the text is not a 29 CFR 1904/1910/1926 citation.
  */
-export async function fetchRegulationSection(citation: string): Promise<RegulationSnippet | null> {
-  const section = parseCitation(citation);
-  if (!section) return null;
+export async function resolveCfrSections(citation: string, options: { effectiveDate?: string } = {}): Promise<string[]> {
+  const cfr = parseCfrCitation(citation);
+  if (!cfr) return [];
+  if (cfr.kind === 'section') return [cfr.section];
 
-  const params = SECTION_TO_ECFR[section];
-  if (!params) return null;
+  const structure = await getCfrStructure(options.effectiveDate ?? getRegulationEffectiveDate());
+  const subparts = structure?.subparts.filter((s) => s.part === cfr.part) ?? [];
+  if (cfr.kind === 'subpart') {
+    return subparts.filter((s) => cfr.subparts.includes(s.subpart)).flatMap((s) => s.sections);
+  }
+  return subparts
+    .flatMap((s) => s.sections)
+    .filter((section) => compareCfrSections(section, cfr.from) >= 0 && compareCfrSections(section, cfr.to) <= 0);
+}
+
+/** eCFR title 29: any section of parts 1904/1910/1926 as of any date, narrowed to the cited paragraph. */
+const ecfrSource: RegulatorySource = {
+  id: 'ecfr',
+  name: 'eCFR.gov',
+  pointInTime: true,
+  resolve(citation) {
+    const cfr = parseCfrCitation(citation);
+    return cfr?.kind === 'section' ? { citation: formatCfrCitation(cfr), key: cfr.section } : null;
+  },
+  // The subpart comes from the eCFR structure; a section it does not list is not fetched
+  async fetch(section, effectiveDate) {
+    const part = section.split('.')[0];
+    const structure = await getCfrStructure(effectiveDate);
+    const subpart = structure?.subparts.find((s) => s.part === part && s.sections.includes(section));
+    if (structure && !subpart) return null;
+    return fetchFromEcfr(section, { part, subpart: subpart?.subpart }, effectiveDate);
+  },
+  excerpt(document, citation) {
+    const cfr = parseCfrCitation(citation);
+    return cfr?.kind === 'section' && cfr.paragraph.length > 0 ? selectParagraph(document, cfr) : document;
+  },
+};
+
+/** Sources of regulation in force, tried in order for a single citation. */
+const REGULATION_SOURCES: RegulatorySource[] = [ecfrSource, ...Object.values(STATE_PLAN_SOURCES)];
+
+/**
+ * Sources consulted for a site: eCFR, the state plan of the site's state (if it has one), and
+ * pending rules from the Federal Register.
+ */
+export function getRegulatorySources(siteState?: UsState): RegulatorySource[] {
+  const statePlan = siteState && STATE_PLAN_SOURCES[siteState];
+  return [ecfrSource, ...(statePlan ? [statePlan] : []), federalRegisterSource];
+}
 
-  const cacheKey = `${section}-${getEffectiveDate()}`;
+/**
+ * A whole document of a source as of the date: from memory, then the persistent store, then the
+ * source itself. Falls back to the newest stored text in effect on the date when the source cannot
+ * be used: offline, unreachable, or a past date for a source that only publishes current text.
+ * Null when nothing is available.
+ */
+async function loadDocument(source: RegulatorySource, key: string, effectiveDate: string): Promise<RegulationSnippet | null> {
+  const cacheKey = `${source.id}:${key}-${effectiveDate}`;
   const cached = cache.get(cacheKey);
   if (cached && Date.now() < cached.expires) return cached.snippet;
 
-  const url = buildEcfrUrl(params.part, section, params.subpart);
+  const stored = loadStoredRegulation(key, effectiveDate, source.id);
+  if (stored) {
+    cache.set(cacheKey, { snippet: stored.snippet, expires: Date.now() + CACHE_TTL_MS });
+    return stored.snippet;
+  }
+
+  const current = effectiveDate >= new Date().toISOString().slice(0, 10);
+  const snippet = !isRegulatoryApiOffline() && (source.pointInTime || current) ? await source.fetch(key, effectiveDate) : null;
+  if (!snippet) return loadLatestStoredRegulation(key, effectiveDate, source.id)?.snippet ?? null;
 
+  lastFetchTime = new Date().toISOString();
+  cache.set(cacheKey, { snippet, expires: Date.now() + CACHE_TTL_MS });
   try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-    const res = await fetch(url, {
-      signal: controller.signal,
-      headers: { Accept: 'application/json' },
-    });
-    clearTimeout(timeout);
-
-    if (!res.ok) return null;
-
-    const contentType = res.headers.get('content-type') ?? '';
-    if (!contentType.includes('application/json')) return null;
-
-    const data = (await res.json()) as unknown;
-    if (!data || typeof data !== 'object') return null;
-
-    let text = '';
-    const obj = data as Record<string, unknown>;
-    if (obj.part && typeof obj.part === 'object') {
-      const part = obj.part as Record<string, unknown>;
-      if (typeof part.abstract === 'string') text = part.abstract;
-    }
-    if (obj.nodes && Array.isArray(obj.nodes)) {
-      for (const node of obj.nodes as Array<Record<string, unknown>>) {
-        if (Array.isArray(node.content)) {
-          text += '\n' + node.content.filter((c): c is string => typeof c === 'string').join(' ');
-        }
-      }
-    }
-    if (obj.content && Array.isArray(obj.content)) {
-      text += '\n' + (obj.content as string[]).join(' ');
-    }
-    text = text.trim().replace(/\s+/g, ' ').slice(0, 3000);
-    if (!text) return null;
-
-    lastFetchTime = new Date().toISOString();
-    const snippet: RegulationSnippet = {
-      citation: `29 CFR ${section}`,
-      text,
-      source: 'eCFR.gov',
-      effectiveDate: getEffectiveDate(),
-    };
-    cache.set(cacheKey, { snippet, expires: Date.now() + CACHE_TTL_MS });
-    return snippet;
+    saveStoredRegulation({ section: key, sourceId: source.id, snippet, fetchedAt: lastFetchTime, origin: 'fetched' });
   } catch {
-    return null;
+    // A read-only store only costs a refetch after restart
+  }
+  return snippet;
+}
+
+/** The text a canonical citation of the source names, from the document it is in. */
+async function loadCitation(
+  source: RegulatorySource,
+  resolved: { citation: string; key: string },
+  effectiveDate: string
+): Promise<RegulationSnippet | null> {
+  const document = await loadDocument(source, resolved.key, effectiveDate);
+  return document && source.excerpt ? source.excerpt(document, resolved.citation) : document;
+}
+
+/**
+ * Fetch the text a citation points at, from the first source of regulation in force that covers
+ * it: for 29 CFR, the paragraph it names (with its subparagraphs), else the whole section. When the
+ * named paragraph cannot be found in the section text, the whole section is returned under the
+ * section's citation. State-plan citations ("8 CCR 3203", "WAC 296-803") get the whole section or
+ * chapter. Returns null if nothing is available or no source covers the citation (29 CFR subparts
+ * and ranges: see resolveCfrSections).
+ *
+ * `effectiveDate` requests the text as of another date than ECFR_DATE (e.g. to compare versions).
+ */
+export async function fetchRegulationSection(
+  citation: string,
+  options: { effectiveDate?: string } = {}
+): Promise<RegulationSnippet | null> {
+  const effectiveDate = options.effectiveDate ?? getRegulationEffectiveDate();
+  for (const source of REGULATION_SOURCES) {
+    const resolved = source.resolve(citation);
+    if (resolved) return loadCitation(source, resolved, effectiveDate);
+  }
+  return null;
+}
+
+/**
+ * Fetch every document the citations cover, from every source, for the current effective date
+ * into the store, for a snapshot that covers all of them: 29 CFR sections (subparts and ranges
+ * expanded), state-plan sections and Federal Register listings per part. Returns the documents
+ * that could not be fetched, as "{source name} {key}".
+ */
+export async function refreshRegulationStore(citations: string[]): Promise<{ fetched: string[]; failed: string[] }> {
+  const expanded = [...citations];
+  for (const citation of citations) expanded.push(...(await resolveCfrSections(citation)));
+
+  const documents = new Map<string, { source: RegulatorySource; key: string }>();
+  for (const source of [...REGULATION_SOURCES, federalRegisterSource]) {
+    for (const citation of expanded) {
+      const resolved = source.resolve(citation);
+      if (resolved) documents.set(`${source.name} ${resolved.key}`, { source, key: resolved.key });
+    }
+  }
+  const effectiveDate = getRegulationEffectiveDate();
+  const fetched: string[] = [];
+  const failed: string[] = [];
+  for (const [name, { source, key }] of documents) {
+    const snippet = await loadDocument(source, key, effectiveDate);
+    if (snippet && snippet.effectiveDate === effectiveDate) fetched.push(name);
+    else failed.push(name);
   }
+  return { fetched, failed };
 }
 
 /**
- * Fetch regulation text for multiple citations (e.g. from topic regulatoryRefs).
- * Returns a combined context string for prompt augmentation.
+ * Fetch regulation text for multiple citations (e.g. from topic regulatoryRefs) from the sources
+ * for the site's state (see getRegulatorySources). Returns a combined context string for prompt
+ * augmentation, pending Federal Register rules in a section of their own.
+ *
+ * Each citation is fetched once per source; a paragraph is skipped when its whole section is also
+ * cited. 29 CFR subpart and range citations are left out, as they span too much text for a prompt.
  */
 export async function fetchRegulationsForCitations(
-  citations: string[]
+  citations: string[],
+  options: { siteState?: UsState } = {}
 ): Promise<{ context: string; snippets: RegulationSnippet[] }> {
-  const seen = new Set<string>();
+  const effectiveDate = getRegulationEffectiveDate();
   const snippets: RegulationSnippet[] = [];
 
-  for (const ref of citations) {
-    const section = parseCitation(ref);
-    if (!section || seen.has(section)) continue;
-    seen.add(section);
-
-    const snippet = await fetchRegulationSection(ref);
-    if (snippet) snippets.push(snippet);
+  for (const source of getRegulatorySources(options.siteState)) {
+    const cited = new Map<string, string>();
+    for (const citation of citations) {
+      const resolved = source.resolve(citation);
+      if (resolved) cited.set(resolved.citation, resolved.key);
+    }
+    for (const [citation, key] of cited) {
+      const covered = [...cited].some(([other, otherKey]) => otherKey === key && other !== citation && citation.startsWith(other));
+      if (covered) continue;
+      const snippet = await loadCitation(source, { citation, key }, effectiveDate);
+      if (snippet && !snippets.some((s) => s.citation === snippet.citation)) snippets.push(snippet);
+    }
   }
 
   if (snippets.length === 0) return { context: '', snippets: [] };
 
+  const sourceNames = (group: RegulationSnippet[]) => [...new Set(group.map((s) => s.source))].join(', ');
+  const quote = (s: RegulationSnippet) => `[${s.citation}] ${s.text.slice(0, CONTEXT_CHARS)}`;
+  const current = snippets.filter((s) => !s.pending);
+  const pending = snippets.filter((s) => s.pending);
   const lines = [
-    `Live regulation excerpts (eCFR, as of ${snippets[0].effectiveDate}):`,
-    ...snippets.map((s) => `[${s.citation}] ${s.text}`),
+    ...(current.length
+      ? [`Live regulation excerpts (${sourceNames(current)}, as of ${current[0].effectiveDate}):`, ...current.map(quote)]
+      : []),
+    ...(pending.length
+      ? [
+          `Pending rule changes (${sourceNames(pending)}; proposed or not yet in effect, not current requirements):`,
+          ...pending.map(quote),
+        ]
+      : []),
   ];
   return { context: lines.join('\n\n'), snippets };
 }
 
+/**
+ * eCFR link for a 29 CFR citation, anchored at the paragraph when the citation names one
+ * ("29 CFR 1910.178(l)(4)" → …/section-1910.178#p-1910.178(l)(4)). Subparts link to the subpart,
+ * several subparts and ranges to the part. Null for other citations.
+ */
+export function getCfrUrl(citation: string): string | null {
+  const cfr = parseCfrCitation(citation);
+  if (!cfr) return null;
+  const title = `${ECFR_BASE}/current/title-29`;
+  if (cfr.kind === 'section') {
+    const labels = cfr.paragraph.map((l) => `(${l})`).join('');
+    return `${title}/section-${cfr.section}${labels ? `#p-${cfr.section}${labels}` : ''}`;
+  }
+  if (cfr.kind === 'subpart' && cfr.subparts.length === 1) {
+    return `${title}/part-${cfr.part}/subpart-${cfr.subparts[0]}`;
+  }
+  return `${title}/part-${cfr.part}`;
+}
+
+const ROMAN = /^(?:x{0,3})(?:ix|iv|v?i{0,3})$/;
+
+function romanValue(label: string): number {
+  const values: Record<string, number> = { i: 1, v: 5, x: 10 };
+  let total = 0;
+  for (let i = 0; i < label.length; i++) {
+    const v = values[label[i]];
+    total += v < (values[label[i + 1]] ?? 0) ? -v : v;
+  }
+  return total;
+}
+
+/** Where one paragraph sits in a section's text: its label path, label start, text start and end. */
+interface ParagraphSpan {
+  path: string[];
+  start: number;
+  textStart: number;
+  end: number;
+}
+
+/**
+ * Whether a label that could continue a roman count, e.g. (i) after (h)(3), is the next top-level
+ * letter instead: a (1) follows it, or it is the letter after the current one and the next label
+ * does not continue the count, as (ii) would.
+ */
+function isNextLetter(label: string, path: string[], next: string | undefined): boolean {
+  if (next === '1') return true;
+  const letter = path[0] ?? '';
+  const follows = letter.length === 1 && label.length === 1 && label.charCodeAt(0) === letter.charCodeAt(0) + 1;
+  return follows && !(next && ROMAN.test(next) && romanValue(next) === romanValue(label) + 1);
+}
+
+/**
+ * Paragraph labels in the text: (a) letters, (1) numbers, (i) roman numerals, (A) capitals. A label
+ * such as (i) or (v) is read as a roman numeral when it continues the count under a numbered
+ * paragraph, unless it is the next letter (see isNextLetter), else as a letter. Labels count only
+ * at the start of the text or after sentence punctuation, so in-text references ("paragraph
+ * (l)(4) of this section") do not split. Text before the first label is cited by `base`, the
+ * paragraph the text is taken from (empty for a section).
+ */
+function paragraphSpans(text: string, base: string[]): ParagraphSpan[] {
+  const labelRe = /(?:^|(?<=[.:;—-]\s?))\s*\(([a-z]{1,4}|\d{1,2}|[A-Z])\)\s/g;
+  const matches = [...text.matchAll(labelRe)];
+  const spans: ParagraphSpan[] = [{ path: base, start: 0, textStart: 0, end: matches[0]?.index ?? text.length }];
+
+  let path = base;
+  let lastRoman = 0;
+  matches.forEach((m, i) => {
+    const label = m[1];
+    let level: number;
+    if (/^\d+$/.test(label)) level = 2;
+    else if (/^[A-Z]$/.test(label)) level = 4;
+    else if (
+      path.length >= 2 &&
+      ROMAN.test(label) &&
+      (romanValue(label) === lastRoman + 1 || label.length > 1) &&
+      !isNextLetter(label, path, matches[i + 1]?.[1])
+    ) {
+      level = 3;
+    } else level = 1;
+    if (level === 3) lastRoman = romanValue(label);
+    else if (level <= 2) lastRoman = 0;
+    path = [...path.slice(0, level - 1), label];
+    const start = m.index ?? 0;
+    spans.push({ path, start, textStart: start + m[0].length, end: matches[i + 1]?.index ?? text.length });
+  });
+  return spans;
+}
+
+/**
+ * The cited paragraph of a whole-section snippet, with its subparagraphs; the snippet itself when
+ * the text has no such paragraph.
+ */
+function selectParagraph(snippet: RegulationSnippet, cfr: CfrSectionCitation): RegulationSnippet {
+  const spans = paragraphSpans(snippet.text, []);
+  const within = (span: ParagraphSpan) => cfr.paragraph.every((label, i) => span.path[i] === label);
+  const first = spans.findIndex(within);
+  if (first < 0) return snippet;
+  let last = first;
+  while (last + 1 < spans.length && within(spans[last + 1])) last++;
+  return {
+    ...snippet,
+    citation: formatCfrCitation(cfr),
+    text: snippet.text.slice(spans[first].textStart, spans[last].end).trim(),
+  };
+}
+
+/**
+ * Splits a snippet's text at its paragraph labels (see paragraphSpans) and cites each paragraph in
+ * full. A snippet of one paragraph ("29 CFR 1910.178(l)") cites its subparagraphs under it.
+ */
+export function splitRegulationParagraphs(snippet: RegulationSnippet): RegulationParagraph[] {
+  const cfr = parseCfrCitation(snippet.citation);
+  if (cfr?.kind !== 'section') return [];
+  return paragraphSpans(snippet.text, cfr.paragraph)
+    .map((span) => {
+      const citation = formatCfrCitation({ ...cfr, paragraph: span.path });
+      return {
+        citation,
+        text: snippet.text.slice(span.textStart, span.end).trim(),
+        url: getCfrUrl(citation) ?? '',
+        effectiveDate: snippet.effectiveDate,
+      };
+    })
+    .filter((p) => p.text);
+}
+
 /** Get status for /api/config or health checks. */
 export function getRegulatoryApiStatus(): RegulatoryApiStatus {
   return {
     enabled: process.env.REGULATORY_API_ENABLED !== 'false',
+    offline: isRegulatoryApiOffline(),
     lastFetch: lastFetchTime,
     regulationsCached: cache.size,
-    effectiveDate: getEffectiveDate(),
+    effectiveDate: getRegulationEffectiveDate(),
+    store: getRegulationStoreStatus(getRegulationEffectiveDate()),
   };
 }
 
-/** Clear cache (e.g. for testing). */
+/** Clear the in-memory cache (e.g. for testing); the persistent store is kept. */
 export function clearRegulatoryCache(): void {
   cache.clear();
+  structureCache.clear();
   lastFetchTime = null;
 }
@@ -0,0 +1,169 @@
+import { createServer, type Server } from 'http';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { calOshaSource, federalRegisterSource, STATE_PLAN_SOURCES, waDoshSource } from './regulatory-sources';
+
+/** Pages and API answers by path, served by the fixture below in place of each source's site. */
+const PAGES: Record<string, { type: string; body: string }> = {
+  '/title8/3203.html': {
+    type: 'text/html',
+    body: '<html><head><title>Title 8</title><style>p{}</style></head><body><nav>Home &gt; Title 8</nav><h1>&sect;3203. Injury and Illness Prevention Program.</h1><p>(a) Every employer shall establish&nbsp;a program.</p></body></html>',
+  },
+  '/WAC/default.aspx': {
+    type: 'text/html',
+    body: '<body><a>RCWs</a><h2>Chapter 296-803 WAC</h2><p>Lockout/tagout &#8212; control of hazardous energy.</p></body>',
+  },
+  '/api/v1/documents.json': {
+    type: 'application/json',
+    body: JSON.stringify({
+      count: 3,
+      results: [
+        {
+          document_number: '2026-00001',
+          type: 'Proposed Rule',
+          title: 'Powered industrial trucks design standard',
+          abstract: 'OSHA proposes to update\n the design standards.',
+          publication_date: '2026-04-01',
+          comments_close_on: '2026-07-01',
+          html_url: 'https://www.federalregister.gov/d/2026-00001',
+        },
+        {
+          document_number: '2026-00002',
+          type: 'Rule',
+          title: 'Walking-working surfaces corrections',
+          publication_date: '2026-03-01',
+          effective_on: '2026-05-01',
+          html_url: 'https://www.federalregister.gov/d/2026-00002',
+        },
+        {
+          document_number: '2026-00003',
+          type: 'Rule',
+          title: 'Hazard communication update',
+          publication_date: '2026-05-15',
+          effective_on: '2026-09-01',
+          html_url: 'https://www.federalregister.gov/d/2026-00003',
+        },
+      ],
+    }),
+  },
+};
+
+describe('regulatory-sources', () => {
+  const origEnv = process.env;
+  let server: Server;
+  let baseUrl: string;
+  const requests: URL[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://fixture');
+      requests.push(url);
+      const page = url.searchParams.get('cite') === '296-000' ? undefined : PAGES[url.pathname];
+      if (!page) {
+        res.writeHead(404).end();
+        return;
+      }
+      const until = url.searchParams.get('conditions[publication_date][lte]');
+      if (until) {
+        // Like the API: only documents published by the date, and no `results` when none match
+        const results = (JSON.parse(page.body).results as { publication_date: string }[]).filter((d) => d.publication_date <= until);
+        const body = results.length ? { count: results.length, results } : { count: 0 };
+        res.writeHead(200, { 'Content-Type': page.type }).end(JSON.stringify(body));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': page.type }).end(page.body);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    baseUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    process.env = { ...origEnv, CAL_OSHA_URL: baseUrl, WA_WAC_URL: baseUrl, FEDERAL_REGISTER_API_URL: baseUrl };
+  });
+
+  afterEach(() => {
+    process.env = origEnv;
+  });
+
+  it('selects state-plan sources by site state', () => {
+    expect(STATE_PLAN_SOURCES.CA?.id).toBe('cal-osha');
+    expect(STATE_PLAN_SOURCES.WA?.id).toBe('wa-dosh');
+    expect(STATE_PLAN_SOURCES.TX).toBeUndefined();
+  });
+
+  describe('Cal/OSHA', () => {
+    it('resolves Title 8 citations in their common forms', () => {
+      for (const citation of ['8 CCR 3203', 'Title 8, Section 3203', 'T8 CCR §3203', 'Cal/OSHA 3203']) {
+        expect(calOshaSource.resolve(citation)).toEqual({ citation: '8 CCR 3203', key: '3203' });
+      }
+      expect(calOshaSource.resolve('28 CCR 3203')).toBeNull();
+      expect(calOshaSource.resolve('OSHA 1910.178')).toBeNull();
+    });
+
+    it('fetches the section page as text from its heading on', async () => {
+      expect(await calOshaSource.fetch('3203', '2026-06-01')).toEqual({
+        citation: '8 CCR 3203',
+        text: '§3203. Injury and Illness Prevention Program. (a) Every employer shall establish a program.',
+        source: 'dir.ca.gov',
+        effectiveDate: '2026-06-01',
+      });
+      expect(await calOshaSource.fetch('9999', '2026-06-01')).toBeNull();
+    });
+  });
+
+  describe('WA DOSH', () => {
+    it('resolves WAC chapters and sections', () => {
+      expect(waDoshSource.resolve('WAC 296-803')).toEqual({ citation: 'WAC 296-803', key: '296-803' });
+      expect(waDoshSource.resolve('WAC 296-62-09510')).toEqual({ citation: 'WAC 296-62-09510', key: '296-62-09510' });
+      expect(waDoshSource.resolve('RCW 49.17')).toBeNull();
+    });
+
+    it('fetches whole chapters and single sections', async () => {
+      expect(await waDoshSource.fetch('296-803', '2026-06-01')).toMatchObject({
+        text: 'Chapter 296-803 WAC Lockout/tagout — control of hazardous energy.',
+        source: 'app.leg.wa.gov',
+      });
+      await waDoshSource.fetch('296-800-160', '2026-06-01');
+      expect(requests.map((url) => url.search)).toEqual(['?cite=296-803&full=true', '?cite=296-800-160']);
+      expect(await waDoshSource.fetch('296-000', '2026-06-01')).toBeNull();
+    });
+  });
+
+  describe('Federal Register', () => {
+    it('resolves any 29 CFR citation to its part', () => {
+      expect(federalRegisterSource.resolve('29 CFR 1910.178(l)')).toEqual({
+        citation: 'Federal Register, 29 CFR 1910',
+        key: '1910',
+      });
+      expect(federalRegisterSource.resolve('OSHA 1926 Subpart M')?.key).toBe('1926');
+      expect(federalRegisterSource.resolve('8 CCR 3203')).toBeNull();
+    });
+
+    it('lists proposed rules and final rules not yet in effect on the date', async () => {
+      const snippet = await federalRegisterSource.fetch('1910', '2026-06-01');
+      expect(snippet).toMatchObject({ citation: 'Federal Register, 29 CFR 1910', pending: true, effectiveDate: '2026-06-01' });
+      expect(snippet?.text.split('\n')).toEqual([
+        'Proposed Rule, FR Doc. 2026-00001 (published 2026-04-01; comments close 2026-07-01): Powered industrial trucks design standard. OSHA proposes to update the design standards. https://www.federalregister.gov/d/2026-00001',
+        'Rule, FR Doc. 2026-00003 (published 2026-05-15; takes effect 2026-09-01): Hazard communication update. https://www.federalregister.gov/d/2026-00003',
+      ]);
+
+      const query = requests[0].searchParams;
+      expect(query.get('conditions[cfr][part]')).toBe('1910');
+      expect(query.getAll('conditions[type][]')).toEqual(['PRORULE', 'RULE']);
+      expect(query.get('conditions[publication_date][gte]')).toBe('2024-06-01');
+      expect(query.get('conditions[publication_date][lte]')).toBe('2026-06-01');
+    });
+
+    it('says so when nothing is pending', async () => {
+      const snippet = await federalRegisterSource.fetch('1910', '2026-02-01');
+      expect(snippet?.text).toBe(
+        'No proposed or not-yet-effective OSHA rules for 29 CFR 1910 published from 2024-02-01 to 2026-02-01.'
+      );
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Sources of live regulation text besides eCFR: state-plan regulations and pending Federal
+ * Register rules. eCFR itself (29 CFR) is implemented in regulatory-api.ts, which selects the
+ * sources for a site's state and gives all of them the same memory cache, persistent store and
+ * offline fallback.
+ *
+ *   cal-osha          California Title 8 (Cal/OSHA), e.g. "8 CCR 3203", from dir.ca.gov
+ *   wa-dosh           Washington DOSH rules in WAC 296, e.g. "WAC 296-803", from app.leg.wa.gov
+ *   federal-register  OSHA proposed rules, and final rules not yet in effect, amending a 29 CFR
+ *                     part, from the FederalRegister.gov API
+ *
+ * The state sites only publish current text, so lookups for an earlier date use stored text.
+ * CAL_OSHA_URL, WA_WAC_URL and FEDERAL_REGISTER_API_URL point lookups at mirrors or fixtures.
+ */
+
+import { parseCfrCitation } from '@/lib/cfr-citation';
+import type { RegulatorySourceId, UsState } from '@/lib/constants';
+import type { RegulationSnippet } from '@/lib/regulatory-api';
+
+export interface RegulatorySource {
+  id: RegulatorySourceId;
+  /** Named as the source of each excerpt, e.g. "eCFR.gov". */
+  name: string;
+  /** False when only current text can be fetched. */
+  pointInTime: boolean;
+  /** Documents are proposed or not yet effective rules, not regulation in force. */
+  pending?: boolean;
+  /**
+   * Canonical citation and document key for a citation this source covers, e.g.
+   * "OSHA 1910.178(l)" → "29 CFR 1910.178(l)" in document "1910.178". Null for other citations.
+   */
+  resolve(citation: string): { citation: string; key: string } | null;
+  /** Fetch a whole document as of the date; null when it cannot be fetched. */
+  fetch(key: string, effectiveDate: string): Promise<RegulationSnippet | null>;
+  /** The part of a fetched document a canonical citation names; the whole document by default. */
+  excerpt?(document: RegulationSnippet, citation: string): RegulationSnippet;
+}
+
+const REQUEST_TIMEOUT_MS = 15_000;
+/** How far back the Federal Register is searched for proposed rules. */
+const FEDERAL_REGISTER_LOOKBACK_YEARS = 2;
+const FEDERAL_REGISTER_MAX_DOCUMENTS = 20;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  sect: '§',
+  para: '¶',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+/** GET a URL with a timeout; null when the request fails or the response is not of the type. */
+async function fetchWithTimeout(url: string, contentType: string): Promise<Response | null> {
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const res = await fetch(url, {
+      signal: controller.signal,
+      headers: { Accept: contentType },
+    });
+    clearTimeout(timeout);
+
+    if (!res.ok) return null;
+    if (!(res.headers.get('content-type') ?? '').includes(contentType)) return null;
+    return res;
+  } catch {
+    return null;
+  }
+}
+
+/** GET a JSON document; null when the request fails, times out or is not JSON. */
+export async function fetchJson(url: string): Promise<unknown> {
+  const res = await fetchWithTimeout(url, 'application/json');
+  try {
+    return res ? ((await res.json()) as unknown) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Visible text of an HTML page, whitespace collapsed. */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (!name.startsWith('#')) return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+      const code = /^#x/i.test(name) ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** GET an HTML page as text; null when the request fails, times out or is not HTML. */
+async function fetchHtmlText(url: string): Promise<string | null> {
+  const res = await fetchWithTimeout(url, 'text/html');
+  try {
+    return res ? htmlToText(await res.text()) || null : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The text from the first occurrence of the heading on (dropping page navigation); all of it when absent. */
+function fromHeading(text: string, heading: string): string {
+  const start = text.indexOf(heading);
+  return start > 0 ? text.slice(start) : text;
+}
+
+/** "8 CCR 3203", "Title 8, Section 3203", "T8 CCR §5194", "Cal/OSHA 3395" */
+const CAL_OSHA_CITATION_RE =
+  /(?<![\w/])(?:Title\s*8|8\s*CCR|T8|Cal\/OSHA)(?:[\s,]*CCR)?[\s,]*(?:(?:Section|Sec\.|§+)\s*)?(\d{3,5}(?:\.\d+)?)(?![\d.])/i;
+
+/** California Code of Regulations, Title 8 (Cal/OSHA), one section per page on dir.ca.gov. */
+export const calOshaSource: RegulatorySource = {
+  id: 'cal-osha',
+  name: 'dir.ca.gov',
+  pointInTime: false,
+  resolve(citation) {
+    const key = citation.match(CAL_OSHA_CITATION_RE)?.[1];
+    return key ? { citation: `8 CCR ${key}`, key } : null;
+  },
+  async fetch(key, effectiveDate) {
+    const text = await fetchHtmlText(`${process.env.CAL_OSHA_URL ?? 'https://www.dir.ca.gov'}/title8/${key}.html`);
+    if (!text) return null;
+    return { citation: `8 CCR ${key}`, text: fromHeading(text, `§${key}.`), source: 'dir.ca.gov', effectiveDate };
+  },
+};
+
+/** "WAC 296-803" (chapter), "WAC 296-800-160" (section) */
+const WAC_CITATION_RE = /\bWAC\s+(296-\d{2,3}[A-Z]?(?:-\d{3,6}[A-Z]?)?)(?![\w-])/i;
+
+/** Washington Administrative Code, title 296 (WA DOSH), chapters or sections on app.leg.wa.gov. */
+export const waDoshSource: RegulatorySource = {
+  id: 'wa-dosh',
+  name: 'app.leg.wa.gov',
+  pointInTime: false,
+  resolve(citation) {
+    const key = citation.match(WAC_CITATION_RE)?.[1].toUpperCase();
+    return key ? { citation: `WAC ${key}`, key } : null;
+  },
+  async fetch(key, effectiveDate) {
+    const chapter = key.split('-').length === 2;
+    const params = new URLSearchParams({ cite: key, ...(chapter && { full: 'true' }) });
+    const text = await fetchHtmlText(`${process.env.WA_WAC_URL ?? 'https://app.leg.wa.gov'}/WAC/default.aspx?${params}`);
+    if (!text) return null;
+    const heading = chapter ? `Chapter ${key} WAC` : `WAC ${key}`;
+    return { citation: `WAC ${key}`, text: fromHeading(text, heading), source: 'app.leg.wa.gov', effectiveDate };
+  },
+};
+
+interface FederalRegisterDocument {
+  document_number: string;
+  title: string;
+  /** "Proposed Rule" or "Rule" */
+  type: string;
+  abstract?: string | null;
+  publication_date: string;
+  effective_on?: string | null;
+  comments_close_on?: string | null;
+  html_url: string;
+}
+
+function describeFederalRegisterDocument(doc: FederalRegisterDocument): string {
+  const dates = [
+    `published ${doc.publication_date}`,
+    doc.comments_close_on && `comments close ${doc.comments_close_on}`,
+    doc.type === 'Rule' && doc.effective_on && `takes effect ${doc.effective_on}`,
+  ].filter(Boolean);
+  const abstract = doc.abstract ? ` ${doc.abstract.replace(/\s+/g, ' ').trim()}` : '';
+  return `${doc.type}, FR Doc. ${doc.document_number} (${dates.join('; ')}): ${doc.title}.${abstract} ${doc.html_url}`;
+}
+
+/**
+ * OSHA documents in the Federal Register amending a 29 CFR part that are not law as of the date:
+ * proposed rules published in the lookback window, and final rules taking effect after the date.
+ * The key is the part; citations of any 29 CFR section or subpart resolve to their part.
+ */
+export const federalRegisterSource: RegulatorySource = {
+  id: 'federal-register',
+  name: 'FederalRegister.gov',
+  pointInTime: true,
+  pending: true,
+  resolve(citation) {
+    const cfr = parseCfrCitation(citation);
+    return cfr ? { citation: `Federal Register, 29 CFR ${cfr.part}`, key: cfr.part } : null;
+  },
+  async fetch(part, effectiveDate) {
+    const start = new Date(`${effectiveDate}T00:00:00Z`);
+    start.setUTCFullYear(start.getUTCFullYear() - FEDERAL_REGISTER_LOOKBACK_YEARS);
+    const since = start.toISOString().slice(0, 10);
+    const params = new URLSearchParams([
+      ['conditions[agencies][]', 'occupational-safety-and-health-administration'],
+      ['conditions[cfr][title]', '29'],
+      ['conditions[cfr][part]', part],
+      ['conditions[type][]', 'PRORULE'],
+      ['conditions[type][]', 'RULE'],
+      ['conditions[publication_date][gte]', since],
+      ['conditions[publication_date][lte]', effectiveDate],
+      ['order', 'newest'],
+      ['per_page', String(FEDERAL_REGISTER_MAX_DOCUMENTS)],
+      ...[
+        'document_number',
+        'title',
+        'type',
+        'abstract',
+        'publication_date',
+        'effective_on',
+        'comments_close_on',
+        'html_url',
+      ].map((field) => ['fields[]', field]),
+    ]);
+    const base = process.env.FEDERAL_REGISTER_API_URL ?? 'https://www.federalregister.gov';
+    const data = await fetchJson(`${base}/api/v1/documents.json?${params}`);
+    if (!data || typeof data !== 'object') return null;
+
+    // The API leaves out `results` when nothing matches
+    const obj = data as { count?: unknown; results?: unknown };
+    if (!Array.isArray(obj.results) && obj.count !== 0) return null;
+    const pending = ((obj.results ?? []) as FederalRegisterDocument[]).filter(
+      (doc) => doc.type === 'Proposed Rule' || (doc.type === 'Rule' && (doc.effective_on ?? '') > effectiveDate)
+    );
+    const text = pending.length
+      ? pending.map(describeFederalRegisterDocument).join('\n')
+      : `No proposed or not-yet-effective OSHA rules for 29 CFR ${part} published from ${since} to ${effectiveDate}.`;
+    return { citation: `Federal Register, 29 CFR ${part}`, text, source: 'FederalRegister.gov', effectiveDate, pending: true };
+  },
+};
+
+/** State-plan regulations by site state; sites elsewhere follow federal OSHA (eCFR) alone. */
+export const STATE_PLAN_SOURCES: Partial<Record<UsState, RegulatorySource>> = {
+  CA: calOshaSource,
+  WA: waDoshSource,
+};
@@ -1,10 +1,14 @@
 /**
- * Cross-reference for safety signage (ANSI Z535.2 / OSHA 1910.145).
+ * Cross-reference for safety signage (ANSI Z535.2 / OSHA 1910.145 in the US; ISO 7010 safety
+ * signs, as required by UK, EU and Canadian rules, elsewhere).
  * Used to identify sign mentions that can be verified vs. unverifiable/bad signs.
  * @see https://www.osha.gov/laws-regs/regulations/standardnumber/1910/1910.145
  * @see ANSI Z535.2 facility safety signs
+ * @see ISO 7010 registered safety signs; EU Directive 92/58/EEC; GB Safety Signs and Signals Regulations 1996
  */
 
+import type { SignStandard } from '@/lib/constants';
+
 /** Allowed signal words (header severity). */
 export const ALLOWED_SIGNAL_WORDS = [
   'DANGER',
@@ -27,29 +31,85 @@ export const ALLOWED_SIGNAL_WORDS = [
   'AUTHORIZED PERSONNEL ONLY',
 ] as const;
 
-/** Normalized set for lookup. */
-const ALLOWED_SET = new Set(
-  ALLOWED_SIGNAL_WORDS.flatMap((w) => [w, w.replace(/\s+/g, ' ')])
-);
+/**
+ * Sign wording used with ISO 7010 pictograms: the safe condition (E), fire (F), mandatory (M),
+ * prohibition (P) and warning (W) signs most often shown in training, plus supplementary text.
+ */
+export const ISO_7010_SIGNS = [
+  'WARNING',
+  'DANGER',
+  'CAUTION',
+  'FIRE EXIT',
+  'FIRE ASSEMBLY POINT',
+  'FIRE EXTINGUISHER',
+  'FIRST AID',
+  'NO SMOKING',
+  'NO ENTRY',
+  'SAFETY HELMETS MUST BE WORN',
+  'HI-VIS MUST BE WORN',
+  'WET FLOOR',
+  'EMERGENCY EXIT',
+  'EXIT',
+  'ASSEMBLY POINT',
+  'MUSTER POINT',
+  'FIRE ALARM CALL POINT',
+  'FIRE ACTION',
+  'EMERGENCY EYEWASH',
+  'EMERGENCY SAFETY SHOWER',
+  'NO ACCESS',
+  'NO ACCESS FOR PEDESTRIANS',
+  'AUTHORISED PERSONNEL ONLY',
+  'AUTHORIZED PERSONNEL ONLY',
+  'HARD HATS MUST BE WORN',
+  'EYE PROTECTION MUST BE WORN',
+  'HEARING PROTECTION MUST BE WORN',
+  'SAFETY FOOTWEAR MUST BE WORN',
+  'SAFETY BOOTS MUST BE WORN',
+  'HIGH VISIBILITY CLOTHING MUST BE WORN',
+  'PROTECTIVE GLOVES MUST BE WORN',
+  'SLIPPERY SURFACE',
+  'FORKLIFT TRUCKS OPERATING',
+  'KEEP CLEAR',
+] as const;
 
-/** Patterns that indicate a standard sign (signal word + optional suffix). */
-const SIGNAL_WORD_PATTERN = /\b(DANGER|WARNING|CAUTION|NOTICE|EXIT|PPE|SAFETY|EMERGENCY|FIRE|FIRST\s*AID|WET\s*FLOOR|HARD\s*HAT|EYE\s*PROTECTION|HEARING\s*PROTECTION|NO\s*SMOKING|AUTHORIZED\s*PERSONNEL|KEEP\s*CLEAR|SLIPPERY)\s*([A-Za-z\s]*)?/gi;
+interface SignStandardReference {
+  allowed: readonly string[];
+  /** Signal words and sign openings; a match plus the words after it is one mention. */
+  pattern: RegExp;
+}
+
+const SIGN_STANDARDS: Record<SignStandard, SignStandardReference> = {
+  'ANSI Z535': {
+    allowed: ALLOWED_SIGNAL_WORDS,
+    pattern: /\b(DANGER|WARNING|CAUTION|NOTICE|EXIT|PPE|SAFETY|EMERGENCY|FIRE|FIRST\s*AID|WET\s*FLOOR|HARD\s*HAT|EYE\s*PROTECTION|HEARING\s*PROTECTION|NO\s*SMOKING|AUTHORIZED\s*PERSONNEL|KEEP\s*CLEAR|SLIPPERY)\s*([A-Za-z\s]*)?/gi,
+  },
+  'ISO 7010': {
+    allowed: ISO_7010_SIGNS,
+    pattern: /\b(DANGER|WARNING|CAUTION|EXIT|SAFETY|EMERGENCY|FIRE|FIRST\s*AID|ASSEMBLY\s*POINT|MUSTER\s*POINT|WET\s*FLOOR|HARD\s*HATS?|EYE\s*PROTECTION|HEARING\s*PROTECTION|PROTECTIVE\s*GLOVES|NO\s*(?:SMOKING|ENTRY|ACCESS)|AUTHORI[SZ]ED\s*PERSONNEL|KEEP\s*CLEAR|SLIPPERY|FORKLIFT\s*TRUCKS)\s*([A-Za-z\s]*)?/gi,
+  },
+};
+
+/** Allowed sign wording for a sign standard (for prompts and UI). */
+export function getAllowedSigns(standard: SignStandard = 'ANSI Z535'): readonly string[] {
+  return SIGN_STANDARDS[standard].allowed;
+}
 
 /**
- * Normalize a sign-like phrase for comparison (uppercase, collapse spaces).
+ * Normalize a sign-like phrase for comparison (uppercase, hyphens as spaces, collapse spaces).
  */
 function normalize(s: string): string {
-  return s.replace(/\s+/g, ' ').trim().toUpperCase();
+  return s.replace(/-/g, ' ').replace(/\s+/g, ' ').trim().toUpperCase();
 }
 
 /**
  * Extract sign-like phrases from text (signal words and short following phrase).
  */
-function extractSignMentions(text: string): string[] {
+function extractSignMentions(text: string, standard: SignStandard): string[] {
   const seen = new Set<string>();
   const mentions: string[] = [];
   let m: RegExpExecArray | null;
-  const re = new RegExp(SIGNAL_WORD_PATTERN.source, 'gi');
+  const re = new RegExp(SIGN_STANDARDS[standard].pattern.source, 'gi');
+  text = text.replace(/-/g, ' ');
   while ((m = re.exec(text)) !== null) {
     const phrase = normalize((m[1] + ' ' + (m[2] ?? '')).trim());
     if (phrase.length > 0 && !seen.has(phrase)) {
@@ -63,29 +123,29 @@ function extractSignMentions(text: string): string[] {
 /**
  * Check if a single phrase is in the allowed reference (exact or starts with allowed signal word).
  */
-function isPhraseAllowed(phrase: string): boolean {
+function isPhraseAllowed(phrase: string, standard: SignStandard): boolean {
   const n = normalize(phrase);
-  if (ALLOWED_SET.has(n)) return true;
-  for (const allowed of ALLOWED_SIGNAL_WORDS) {
+  for (const allowed of SIGN_STANDARDS[standard].allowed.map(normalize)) {
     if (n === allowed || n.startsWith(allowed + ' ')) return true;
   }
   return false;
 }
 
 /**
- * Returns sign mentions in the text that are NOT in the allowed reference.
+ * Returns sign mentions in the text that are NOT in the allowed reference for the sign
+ * standard (default ANSI Z535).
  * Use this to identify "bad" or unverifiable signs that should be flagged or removed.
  */
-export function getUnverifiedSignMentions(text: string): string[] {
-  const mentions = extractSignMentions(text);
-  return mentions.filter((m) => !isPhraseAllowed(m));
+export function getUnverifiedSignMentions(text: string, standard: SignStandard = 'ANSI Z535'): string[] {
+  const mentions = extractSignMentions(text, standard);
+  return mentions.filter((m) => !isPhraseAllowed(m, standard));
 }
 
 /**
  * Returns true if the text contains no sign-like phrases, or all sign mentions
  * match the allowed reference.
  */
-export function hasOnlyVerifiedSigns(text: string): boolean {
-  const unverified = getUnverifiedSignMentions(text);
+export function hasOnlyVerifiedSigns(text: string, standard: SignStandard = 'ANSI Z535'): boolean {
+  const unverified = getUnverifiedSignMentions(text, standard);
   return unverified.length === 0;
 }
@@ -0,0 +1,276 @@
+/**
+ * Server-side scene asset generation: image or video clip plus narration audio.
+ *
+ * Shared by the per-asset API routes (generate-image, generate-video) and by
+ * server-side video jobs, so both paths build and refine prompts the same way.
+ *
+ * PROMPT ARCHITECTURE:
+ * 1. Script generation (generate-script) creates base imagePrompts
+ * 2. buildCorePrompt adds scene context and action emphasis
+ * 3. Two-stage refinement (prompt-refinement.ts) optimizes for each provider
+ * 4. Providers apply minimal additional formatting
+ */
+
+import { type LanguageCode } from '@/lib/constants';
+import { refinePromptForProvider } from '@/lib/prompt-refinement';
+import { getImageProvider, getImageProviderId } from '@/lib/providers/image-providers';
+import { getTTSProvider } from '@/lib/providers/tts-providers';
+import { getVideoProvider, getVideoProviderId } from '@/lib/providers/video-providers';
+import { getAudioDurationSeconds } from '@/lib/video-assembly';
+import type { Scene, SceneAssets } from '@/lib/types';
+
+/**
+ * Extract the core action from a prompt.
+ * Looks for action verbs and their objects to emphasize.
+ */
+function extractAction(prompt: string): string | null {
+  // Common action patterns in safety prompts - prioritize hand/finger interactions
+  const actionPatterns = [
+    /\b(finger|hand|hands)\s+(pressing|touching|pushing|pulling|gripping|holding|reaching)[^,.]*/i,
+    /\b(pressing|pushing|pulling|clicking|touching)\s+(?:a\s+|the\s+)?(?:\w+\s+)?(button|lever|switch|control|buckle)/i,
+    /\b(pressing|pushing|pulling|holding|checking|inspecting|looking|turning|reaching|pointing|wearing|lifting|carrying|operating|using|grabbing|gripping)\b[^,.]*(?:button|lever|handle|horn|switch|control|equipment|tool|gear|ppe|helmet|vest|goggles|gloves)?/i,
+    /\b(sit(?:ting)?|stand(?:ing)?|walk(?:ing)?|driv(?:ing|e)?|operat(?:ing|e)?)\b[^,.]*/i,
+  ];
+  
+  for (const pattern of actionPatterns) {
+    const match = prompt.match(pattern);
+    if (match) return match[0].trim();
+  }
+  return null;
+}
+
+/**
+ * Check if prompt requests a close-up shot.
+ */
+function isCloseUp(prompt: string): boolean {
+  return /\bclose-?up\b/i.test(prompt);
+}
+
+/**
+ * Build a core action-focused prompt that will be refined for each provider.
+ * 
+ * This function assembles the semantic content (scene, action, composition, style).
+ * The prompt refinement layer (prompt-refinement.ts) then transforms this into
+ * the optimal format for each provider (style position, keyword vs natural language, etc.)
+ * 
+ * Focus here is on CONTENT not FORMAT - refinement handles formatting.
+ */
+function buildCorePrompt(
+  imagePrompt: string,
+  styleGuide: string,
+  safetyKeywords: string,
+  isFirstScene: boolean
+): string {
+  const action = extractAction(imagePrompt);
+  const closeUp = isCloseUp(imagePrompt);
+  
+  // Core instruction: be specific about the action
+  let actionEmphasis = '';
+  if (action) {
+    actionEmphasis = `\n\nCRITICAL ACTION: The person MUST be "${action}" - this is the CENTRAL FOCUS. Show hands/body actively performing this exact motion.`;
+    
+    // Extra emphasis for hand interactions
+    if (/button|lever|switch|control|buckle|handle/i.test(action)) {
+      actionEmphasis += ` Show the finger/hand making CONTACT with the ${action.match(/button|lever|switch|control|buckle|handle/i)?.[0] || 'control'}.`;
+    }
+  }
+
+  // Framing guidance
+  const framingGuide = closeUp
+    ? `\nFRAMING: Close-up shot focused on the action. Hands and object should fill most of the frame.`
+    : `\nFRAMING: Medium shot showing person and environment. Action should be clearly visible.`;
+
+  // Core composition requirements (applies to all models)
+  // Check if other people are mentioned in the prompt
+  const mentionsOtherPeople = /pedestrian|coworker|spotter|partner|two.?person|helper|assistant|team/i.test(imagePrompt);
+  const peopleRequirement = mentionsOtherPeople 
+    ? '- Include the people mentioned in the prompt (pedestrians, coworkers, etc.)'
+    : '- Single person unless multiple explicitly needed';
+  
+  const coreComposition = `
+REQUIREMENTS:
+- Show the SPECIFIC ACTION described, not a generic pose
+${peopleRequirement}
+- No added props (no clipboard, phone, tablet unless specified)`;
+
+  // Safety keywords
+  const keywordSection = safetyKeywords
+    ? `\nSAFETY FOCUS: Emphasize visually: ${safetyKeywords}.`
+    : '';
+
+  // Style (will be repositioned by some providers)
+  let styleSection = '';
+  if (isFirstScene && styleGuide) {
+    styleSection = `\nSTYLE: ${styleGuide}`;
+  } else if (styleGuide) {
+    styleSection = `\nSTYLE: ${styleGuide} (maintain consistency)`;
+  }
+
+  return `SAFETY TRAINING ILLUSTRATION
+
+SCENE: ${imagePrompt}
+${actionEmphasis}
+${framingGuide}
+${coreComposition}
+${keywordSection}
+${styleSection}`.trim();
+}
+
+export interface SceneImageParams {
+  imagePrompt: string;
+  styleGuide?: string;
+  highQuality?: boolean;
+  narration?: string;
+  /** 0 = first scene (opening frame); used to lock style for the whole video. */
+  sceneIndex?: number;
+  safetyKeywords?: string;
+}
+
+/**
+ * Build, refine, and render the image for one scene. Returns base64 image data.
+ * Throws the raw provider error; callers wrap it with wrapProviderError.
+ */
+export async function generateSceneImage(params: SceneImageParams): Promise<string> {
+  const { imagePrompt, styleGuide, highQuality, sceneIndex, safetyKeywords, narration } = params;
+  const styleGuideText = styleGuide?.trim() ?? '';
+  const keywordsText = safetyKeywords?.trim() ?? '';
+  const isFirstScene = sceneIndex === 0;
+
+  const providerId = getImageProviderId();
+
+  // Build core prompt with scene, action, and composition
+  const corePrompt = buildCorePrompt(
+    imagePrompt,
+    styleGuideText,
+    keywordsText,
+    isFirstScene
+  );
+
+  // Two-stage refinement: Use OpenAI to optimize the prompt for this specific provider
+  // This adapts the prompt structure to match each model's optimal format
+  const { refinedPrompt, negativePrompt, wasRefined } = await refinePromptForProvider({
+    basePrompt: corePrompt,
+    narration,
+    styleGuide: styleGuideText || undefined,
+    providerId,
+  });
+
+  console.warn(`[generate-image] Scene ${sceneIndex ?? 0}: Provider: ${providerId}, Refined: ${wasRefined}, Action: "${extractAction(imagePrompt) ?? 'none'}"`);
+
+  const provider = getImageProvider();
+  return provider.generate({
+    prompt: refinedPrompt,
+    highQuality: highQuality ?? false,
+    styleGuide: styleGuideText || undefined,
+    // Pass raw scene description for providers that prefer simpler prompts (e.g., SDXL)
+    rawSceneDescription: imagePrompt,
+    // Pass negative prompt if refinement provided one (for SDXL)
+    negativePrompt,
+  });
+}
+
+export interface SceneVideoParams {
+  prompt: string;
+  styleGuide?: string;
+  sceneIndex?: number;
+  /** Original narration text - helps infer appropriate motion for video. */
+  narration?: string;
+}
+
+/**
+ * Refine and render a Tier 3 video clip for one scene.
+ * Callers must check isVideoProviderEnabled() first.
+ */
+export async function generateSceneVideo(
+  params: SceneVideoParams
+): Promise<{ videoBase64: string; durationSeconds: number }> {
+  const { prompt, styleGuide, narration, sceneIndex } = params;
+  const providerId = getVideoProviderId();
+
+  // Video models need temporal descriptions (motion, camera, atmosphere) that image prompts lack
+  const { refinedPrompt, wasRefined } = await refinePromptForProvider({
+    basePrompt: prompt,
+    narration,
+    styleGuide,
+    providerId,
+  });
+
+  console.warn(`[generate-video] Scene ${sceneIndex ?? 0}: Provider: ${providerId}, Refined: ${wasRefined}`);
+
+  const provider = getVideoProvider();
+  return provider.generate({
+    prompt: refinedPrompt,
+    styleGuide,
+    narration,
+    // Pass flag indicating prompt was already refined (skip internal buildVideoPrompt)
+    wasRefined,
+  });
+}
+
+export interface SceneAssetOptions {
+  styleGuide: string;
+  highQuality: boolean;
+  voice: string;
+  draft: boolean;
+  captions: boolean;
+  useVideo: boolean;
+  safetyKeywords?: string;
+  /** Narration language (default en). */
+  language?: LanguageCode;
+}
+
+/**
+ * Server-side equivalent of the client generateSceneAsset: renders the visual and
+ * narration for one scene in parallel and measures the audio with FFmpeg.
+ */
+export async function generateSceneAssetOnServer(
+  scene: Scene,
+  sceneIndex: number,
+  options: SceneAssetOptions
+): Promise<SceneAssets> {
+  const [visual, audio] = await Promise.all([
+    options.useVideo
+      ? generateSceneVideo({
+          prompt: scene.imagePrompt,
+          styleGuide: options.styleGuide,
+          sceneIndex,
+          narration: scene.narration,
+        })
+      : generateSceneImage({
+          imagePrompt: scene.imagePrompt,
+          styleGuide: options.styleGuide,
+          highQuality: options.highQuality,
+          narration: scene.narration,
+          sceneIndex,
+          safetyKeywords: options.safetyKeywords,
+        }).then((imageBase64) => ({ imageBase64 })),
+    getTTSProvider().generate({
+      text: scene.narration,
+      voice: options.voice,
+      draft: options.draft,
+      language: options.language,
+    }),
+  ]);
+
+  const audioDurationSeconds = await getAudioDurationSeconds(
+    Buffer.from(audio.audioBase64, 'base64')
+  );
+  const narration = options.captions ? scene.narration : undefined;
+
+  if ('videoBase64' in visual) {
+    return {
+      sceneIndex,
+      videoBase64: visual.videoBase64,
+      audioBase64: audio.audioBase64,
+      durationSeconds: Math.max(visual.durationSeconds, audioDurationSeconds, 3),
+      narration,
+    };
+  }
+  return {
+    sceneIndex,
+    imageBase64: visual.imageBase64,
+    audioBase64: audio.audioBase64,
+    durationSeconds: Math.max(audioDurationSeconds, 3),
+    narration,
+  };
+}
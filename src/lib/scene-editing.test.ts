@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_SCENES } from '@/lib/constants';
+import {
+  duplicateAt,
+  getScriptEditError,
+  insertAt,
+  moveItem,
+  removeAt,
+} from '@/lib/scene-editing';
+
+const scene = (n: number) => ({ narration: `Narration ${n}`, imagePrompt: `Prompt ${n}` });
+
+describe('scene list edits', () => {
+  it('inserts at a clamped position', () => {
+    expect(insertAt(['a', 'b'], 1, 'x')).toEqual(['a', 'x', 'b']);
+    expect(insertAt(['a', 'b'], 99, 'x')).toEqual(['a', 'b', 'x']);
+    expect(insertAt(['a', 'b'], -1, 'x')).toEqual(['x', 'a', 'b']);
+  });
+
+  it('refuses to grow past MAX_SCENES', () => {
+    const full = Array.from({ length: MAX_SCENES }, (_, i) => i);
+    expect(insertAt(full, 0, -1)).toBe(full);
+    expect(duplicateAt(full, 0, (n) => n)).toBe(full);
+  });
+
+  it('keeps at least one scene', () => {
+    expect(removeAt(['a', 'b'], 0)).toEqual(['b']);
+    const single = ['a'];
+    expect(removeAt(single, 0)).toBe(single);
+  });
+
+  it('moves items and ignores out-of-range moves', () => {
+    expect(moveItem(['a', 'b', 'c'], 0, 2)).toEqual(['b', 'c', 'a']);
+    expect(moveItem(['a', 'b', 'c'], 2, 1)).toEqual(['a', 'c', 'b']);
+    const items = ['a', 'b'];
+    expect(moveItem(items, 1, 2)).toBe(items);
+  });
+
+  it('duplicates directly after the source item', () => {
+    const scenes = [scene(1), scene(2)];
+    const next = duplicateAt(scenes, 0, (s) => ({ ...s }));
+    expect(next).toEqual([scene(1), scene(1), scene(2)]);
+    expect(next[1]).not.toBe(next[0]);
+  });
+});
+
+describe('getScriptEditError', () => {
+  it('accepts a valid edited script', () => {
+    expect(getScriptEditError({ title: 'Ladders', scenes: [scene(1)], language: 'es' })).toBeNull();
+  });
+
+  it('names the scene and field that is empty', () => {
+    expect(
+      getScriptEditError({ title: 'Ladders', scenes: [scene(1), { narration: 'Hi', imagePrompt: '' }] })
+    ).toBe('Scene 2: image prompt is required');
+  });
+
+  it('reports too many or too few scenes', () => {
+    const many = Array.from({ length: MAX_SCENES + 1 }, (_, i) => scene(i));
+    expect(getScriptEditError({ title: 'Ladders', scenes: many })).toBe(
+      `A video can have at most ${MAX_SCENES} scenes`
+    );
+    expect(getScriptEditError({ title: 'Ladders', scenes: [] })).toBe('Add at least one scene');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Structural edits to the scene list in the script editor (insert, remove, move, duplicate)
+ * and the check that runs before a video is created from the edited script.
+ *
+ * The list helpers are generic so the editor can apply the same edit to its scenes and to
+ * the parallel list of stable React keys.
+ */
+
+import { MAX_SCENES } from '@/lib/constants';
+import { scriptResultSchema } from '@/lib/schemas';
+import type { ScriptResult } from '@/lib/types';
+
+export function canAddScene(count: number): boolean {
+  return count < MAX_SCENES;
+}
+
+export function canRemoveScene(count: number): boolean {
+  return count > 1;
+}
+
+/** Inserts `item` at `index`. No-op once the list holds MAX_SCENES. */
+export function insertAt<T>(items: T[], index: number, item: T): T[] {
+  if (!canAddScene(items.length)) return items;
+  const at = Math.max(0, Math.min(index, items.length));
+  return [...items.slice(0, at), item, ...items.slice(at)];
+}
+
+/** Removes the item at `index`. A script always keeps at least one scene. */
+export function removeAt<T>(items: T[], index: number): T[] {
+  if (!canRemoveScene(items.length) || index < 0 || index >= items.length) return items;
+  return [...items.slice(0, index), ...items.slice(index + 1)];
+}
+
+/** Moves the item at `from` to position `to`. Out-of-range moves are no-ops. */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/** Inserts a copy of the item at `index` directly after it. */
+export function duplicateAt<T>(items: T[], index: number, copy: (item: T) => T): T[] {
+  if (index < 0 || index >= items.length) return items;
+  return insertAt(items, index + 1, copy(items[index]));
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  narration: 'narration',
+  imagePrompt: 'image prompt',
+  duration: 'duration',
+};
+
+/**
+ * Validates an edited script against scriptResultSchema before it is sent for video creation.
+ * Returns a readable message for the first problem, or null when the script is valid.
+ */
+export function getScriptEditError(script: ScriptResult): string | null {
+  const parsed = scriptResultSchema.safeParse({
+    title: script.title,
+    visualStyle: script.visualStyle,
+    scenes: script.scenes,
+    language: script.language,
+  });
+  if (parsed.success) return null;
+
+  const issue = parsed.error.issues[0];
+  const [root, sceneIndex, field] = issue.path;
+  if (root === 'scenes' && typeof sceneIndex === 'number') {
+    const label = typeof field === 'string' ? (FIELD_LABELS[field] ?? field) : 'content';
+    return `Scene ${sceneIndex + 1}: ${label} ${issue.code === 'too_small' ? 'is required' : 'is invalid'}`;
+  }
+  if (root === 'scenes') {
+    return script.scenes.length > MAX_SCENES
+      ? `A video can have at most ${MAX_SCENES} scenes`
+      : 'Add at least one scene';
+  }
+  return issue.path.length > 0 ? `Invalid ${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
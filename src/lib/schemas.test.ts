@@ -28,6 +28,17 @@ describe('generateScriptBodySchema', () => {
     });
     expect(result.success).toBe(false);
   });
+
+  it('accepts a source document in place of the prompt', () => {
+    const sourceDocument = { name: 'sop.md', format: 'markdown', content: '# Steps\nLock out.' };
+    expect(generateScriptBodySchema.safeParse({ sourceDocument }).success).toBe(true);
+    expect(generateScriptBodySchema.safeParse({ sourceDocument: { ...sourceDocument, format: 'pdf' } }).success).toBe(false);
+  });
+
+  it('accepts a supported language and rejects an unknown one', () => {
+    expect(generateScriptBodySchema.safeParse({ prompt: 'Forklift safety', language: 'es' }).success).toBe(true);
+    expect(generateScriptBodySchema.safeParse({ prompt: 'Forklift safety', language: 'xx' }).success).toBe(false);
+  });
 });
 
 describe('generateImageBodySchema', () => {
@@ -4,6 +4,16 @@ import {
   MAX_TTS_TEXT_LENGTH,
   MAX_IMAGE_PROMPT_LENGTH,
   MAX_SCENES,
+  MAX_SOURCE_DOCUMENT_BYTES,
+  MAX_TARGET_DURATION_SECONDS,
+  MIN_TARGET_DURATION_SECONDS,
+  JURISDICTION_VALUES,
+  LANGUAGE_VALUES,
+  QUIZ_DEFAULT_QUESTION_COUNT,
+  QUIZ_MAX_QUESTION_COUNT,
+  REGULATORY_SOURCE_VALUES,
+  SOURCE_DOCUMENT_FORMAT_VALUES,
+  US_STATE_VALUES,
   VOICE_VALUES,
   VISUAL_STYLE_PRESET_VALUES,
 } from './constants';
@@ -26,16 +36,55 @@ export function formatValidationErrors(
 
 const VALID_VOICES = VOICE_VALUES;
 
-/** Request body for POST /api/generate-script */
-export const generateScriptBodySchema = z.object({
-  prompt: z.string().min(1, 'Prompt is required').max(MAX_PROMPT_LENGTH, 'Prompt too long'),
-  draft: z.boolean().optional(),
-  audience: z.string().max(200).optional(),
-  visualStylePreset: z.enum(VISUAL_STYLE_PRESET_VALUES).optional(),
-  /** Key safety keywords/concepts that images should emphasize (comma-separated). */
-  safetyKeywords: z.string().max(500).optional(),
+/** Uploaded SOP, procedure or JSA table to generate the script from. */
+const sourceDocumentSchema = z.object({
+  name: z.string().min(1, 'sourceDocument.name is required').max(200),
+  format: z.enum(SOURCE_DOCUMENT_FORMAT_VALUES),
+  /** Document text; base64 of the file for DOCX. */
+  content: z
+    .string()
+    .min(1, 'sourceDocument.content is required')
+    .max(Math.ceil(MAX_SOURCE_DOCUMENT_BYTES / 3) * 4, 'Source document too large'),
 });
 
+/** Request body for POST /api/generate-script */
+export const generateScriptBodySchema = z
+  .object({
+    prompt: z.string().max(MAX_PROMPT_LENGTH, 'Prompt too long').default(''),
+    draft: z.boolean().optional(),
+    audience: z.string().max(200).optional(),
+    visualStylePreset: z.enum(VISUAL_STYLE_PRESET_VALUES).optional(),
+    /** Key safety keywords/concepts that images should emphasize (comma-separated). */
+    safetyKeywords: z.string().max(500).optional(),
+    /** Script, narration and caption language (image prompts stay in English). */
+    language: z.enum(LANGUAGE_VALUES).optional(),
+    /** Where the video will be used: selects the EHS pack, sign standard and terminology (default US). */
+    jurisdiction: z.enum(JURISDICTION_VALUES).optional(),
+    /** US state of the site (US only): adds its state-plan regulations, e.g. Cal/OSHA Title 8 for CA. */
+    siteState: z.enum(US_STATE_VALUES).optional(),
+    /** Respond with server-sent events (scenes as they are written, then each check) instead of JSON. */
+    stream: z.boolean().optional(),
+    /** Rewrite scenes with unverified claims using the verifier's corrections, then re-verify. */
+    autoCorrect: z.boolean().optional(),
+    /** Target narration runtime; sizes scenes and narration length, then post-checks the script. */
+    targetDurationSeconds: z
+      .number()
+      .int()
+      .min(MIN_TARGET_DURATION_SECONDS, `targetDurationSeconds must be at least ${MIN_TARGET_DURATION_SECONDS}`)
+      .max(MAX_TARGET_DURATION_SECONDS, `targetDurationSeconds must be at most ${MAX_TARGET_DURATION_SECONDS}`)
+      .optional(),
+    /** Exact number of scenes (overrides draft's 3 and the default 3 to 6). */
+    sceneCount: z.number().int().min(1).max(MAX_SCENES).optional(),
+    /** When the estimate runs over the target, drop trailing sentences instead of only warning. */
+    trimToTarget: z.boolean().optional(),
+    /** Generate from this document, keeping its steps; the prompt becomes optional guidance. */
+    sourceDocument: sourceDocumentSchema.optional(),
+  })
+  .refine((b) => b.prompt.trim().length > 0 || !!b.sourceDocument, {
+    message: 'Prompt is required',
+    path: ['prompt'],
+  });
+
 /** Request body for POST /api/generate-image */
 export const generateImageBodySchema = z.object({
   imagePrompt: z.string().min(1, 'imagePrompt is required').max(MAX_IMAGE_PROMPT_LENGTH, 'imagePrompt too long'),
@@ -62,6 +111,7 @@ export const generateAudioBodySchema = z.object({
   text: z.string().min(1, 'text is required').max(MAX_TTS_TEXT_LENGTH, 'text too long for TTS'),
   voice: z.enum(VALID_VOICES).optional().default('onyx'),
   draft: z.boolean().optional(),
+  language: z.enum(LANGUAGE_VALUES).optional(),
 });
 
 /** Single scene in script result (from OpenAI) */
@@ -70,6 +120,12 @@ export const sceneSchema = z.object({
   imagePrompt: z.string().min(1),
   // Model sometimes returns null instead of omitting the field
   duration: z.number().positive().nullish().transform(v => v ?? undefined),
+  /** Model's citation of a source-document section ("S3"); replaced by sourceRef. */
+  sourceSection: z.string().nullish().transform(v => v ?? undefined),
+  /** Source-document section this scene came from (source-document mode). */
+  sourceRef: z
+    .object({ sectionId: z.string(), heading: z.string(), documentName: z.string() })
+    .optional(),
 });
 
 /** Full script result from generate-script */
@@ -77,6 +133,21 @@ export const scriptResultSchema = z.object({
   title: z.string().min(1),
   visualStyle: z.string().optional(),
   scenes: z.array(sceneSchema).min(1).max(MAX_SCENES),
+  language: z.enum(LANGUAGE_VALUES).optional(),
+  /** Jurisdiction the script targets; later checks (revisions, quizzes) use the same pack. */
+  jurisdiction: z.enum(JURISDICTION_VALUES).optional(),
+  /** US state of the site; later regulation lookups use the same state-plan sources. */
+  siteState: z.enum(US_STATE_VALUES).optional(),
+  /** EHS data pack the script was checked against; carried through jobs and revisions. */
+  ehsPack: z
+    .object({
+      id: z.string(),
+      version: z.string(),
+      overlay: z.object({ id: z.string(), version: z.string() }).optional(),
+    })
+    .optional(),
+  /** Regulation text the script was generated against; carried into jobs for change detection. */
+  regulatorySources: z.array(z.string()).optional(),
 });
 
 /** Single scene asset for assemble-video. Either imageBase64 or videoBase64 required. */
@@ -100,11 +171,299 @@ export const sceneAssetSchema = z
 export const assembleVideoBodySchema = z.object({
   scenes: z.array(sceneAssetSchema).min(1).max(MAX_SCENES),
   captions: z.boolean().optional().default(true),
+  /** Caption language; selects the caption font and line wrapping. */
+  language: z.enum(LANGUAGE_VALUES).optional(),
 });
 
+/** Request body for POST /api/jobs (server-side video generation). */
+export const createVideoJobBodySchema = z.object({
+  script: scriptResultSchema,
+  options: z
+    .object({
+      highQuality: z.boolean().optional().default(false),
+      voice: z.enum(VALID_VOICES).optional().default('onyx'),
+      draft: z.boolean().optional().default(false),
+      captions: z.boolean().optional().default(true),
+      safetyKeywords: z.string().max(500).optional(),
+      language: z.enum(LANGUAGE_VALUES).optional(),
+    })
+    .optional()
+    .default({}),
+});
+
+/** Check results carried on a script so revisions can keep them for unchanged scenes. */
+const scriptWithChecksSchema = scriptResultSchema.extend({
+  unverifiedSignMentions: z
+    .array(z.object({ sceneIndex: z.number().int().min(0), mentions: z.array(z.string()) }))
+    .optional(),
+  topicMatches: z
+    .array(
+      z.object({
+        topicId: z.string(),
+        label: z.string(),
+        confidence: z.number().min(0).max(1),
+        matchedTerms: z.array(z.object({ term: z.string(), keyword: z.string(), weight: z.number() })),
+      })
+    )
+    .optional(),
+  ehsValidation: z
+    .object({
+      topicIds: z.array(z.string()),
+      warnings: z.array(z.string()),
+      terminologySuggestions: z.array(z.object({ found: z.string(), prefer: z.string() })),
+      mythsFlagged: z.array(z.string()),
+      missingRecommendations: z.array(z.string()),
+      sceneFindings: z
+        .array(
+          z.object({
+            sceneIndex: z.number().int().min(0),
+            field: z.enum(['narration', 'imagePrompt']),
+            kind: z.enum(['myth', 'terminology']),
+            start: z.number().int().min(0),
+            end: z.number().int().min(0),
+            text: z.string(),
+            match: z.string(),
+            replacement: z.string().optional(),
+          })
+        )
+        .optional(),
+    })
+    .optional(),
+  factVerification: z
+    .array(
+      z.object({
+        claim: z.string(),
+        sceneIndex: z.number().int().min(0),
+        type: z.enum(['statistic', 'regulation', 'procedure', 'time_limit', 'other']),
+        status: z.enum(['verified', 'needs_review', 'unverified']),
+        confidence: z.number().min(0).max(1),
+        reasoning: z.string().optional(),
+        source: z.string().optional(),
+        passage: z
+          .object({
+            text: z.string(),
+            origin: z.enum(['ehs-reference', 'regulation', 'ecfr']),
+            citation: z.string().optional(),
+            url: z.string().optional(),
+            effectiveDate: z.string().optional(),
+          })
+          .optional(),
+        correction: z.string().optional(),
+      })
+    )
+    .optional(),
+  retrievedSources: z
+    .array(z.object({ citation: z.string(), title: z.string(), url: z.string().optional() }))
+    .optional(),
+});
+
+/** Request body for POST /api/revise-script */
+export const reviseScriptBodySchema = z
+  .object({
+    script: scriptWithChecksSchema,
+    instruction: z
+      .string()
+      .trim()
+      .min(1, 'instruction is required')
+      .max(MAX_PROMPT_LENGTH, 'instruction too long'),
+    /** Limit the revision to these scenes (0-based); other scenes are kept as they are. */
+    sceneIndices: z.array(z.number().int().min(0)).min(1).max(MAX_SCENES).optional(),
+  })
+  .refine(
+    (b) => !b.sceneIndices || b.sceneIndices.every((i) => i < b.script.scenes.length),
+    { message: 'sceneIndices must refer to scenes in the script', path: ['sceneIndices'] }
+  );
+
+/** Request body for POST /api/verify-script */
+export const verifyScriptBodySchema = z.object({
+  script: scriptWithChecksSchema,
+});
+
+/** Request body for POST /api/generate-quiz */
+export const generateQuizBodySchema = z.object({
+  script: scriptResultSchema,
+  /** EHS topics the questions are drawn from; detected from the script when empty. */
+  topicIds: z.array(z.string().min(1)).max(20).default([]),
+  questionCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(QUIZ_MAX_QUESTION_COUNT)
+    .default(QUIZ_DEFAULT_QUESTION_COUNT),
+});
+
+const ehsTermSchema = z
+  .object({ preferred: z.string().min(1), avoid: z.array(z.string()).optional() })
+  .strict();
+
+const ehsNumericFactSchema = z
+  .object({
+    keywords: z.array(z.string().min(1)).min(1),
+    value: z.number(),
+    unit: z.enum(['ft', 'min', 'dBA', 'degF', 'lb', 'percent']),
+    bound: z.enum(['atLeast', 'atMost', 'exact']),
+    statement: z.string().min(1),
+    ref: z.string().optional(),
+  })
+  .strict();
+
+/** One EHS topic record, as stored in a data pack and sent to the topics admin API. */
+export const ehsTopicSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'id must be lowercase words joined by hyphens'),
+    label: z.string().min(1),
+    keywords: z.array(z.string().min(1)).min(1),
+    keyFacts: z.array(z.string().min(1)),
+    bestPractices: z.array(z.string().min(1)),
+    commonHazards: z.array(z.string().min(1)),
+    regulatoryRefs: z.array(
+      z
+        .object({
+          name: z.string().min(1),
+          ref: z.string().optional(),
+          /** Only cited for sites in this US state (a state-plan regulation). */
+          state: z.enum(US_STATE_VALUES).optional(),
+        })
+        .strict()
+    ),
+    correctTerminology: z.array(ehsTermSchema),
+    mythsOrAvoid: z.array(z.string().min(1)),
+    shouldMention: z.array(z.string().min(1)),
+    signsRelevant: z.array(z.string().min(1)).optional(),
+    numericFacts: z.array(ehsNumericFactSchema).optional(),
+  })
+  .strict();
+
+/** Versioned EHS data pack (data/ehs-packs/*.json|yaml). */
+export const ehsPackSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'id must be lowercase words joined by hyphens'),
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, 'version must be MAJOR.MINOR.PATCH'),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    /** Jurisdiction the pack covers; packs without one are US packs. */
+    jurisdiction: z.enum(JURISDICTION_VALUES).optional(),
+    topics: z.array(ehsTopicSchema),
+  })
+  .strict()
+  .superRefine((pack, ctx) => {
+    const seen = new Set<string>();
+    pack.topics.forEach((t, i) => {
+      if (seen.has(t.id)) {
+        ctx.addIssue({ code: 'custom', message: `duplicate topic id "${t.id}"`, path: ['topics', i, 'id'] });
+      }
+      seen.add(t.id);
+    });
+  });
+
+/** Changes to one list field of a topic: extend it (add/remove) or override it (replace). */
+function ehsOverlayListSchema<T extends z.ZodTypeAny>(item: T) {
+  return z
+    .object({
+      add: z.array(item).optional(),
+      /** Base entries to drop, matched ignoring case and punctuation (terminology: by preferred term). */
+      remove: z.array(z.string().min(1)).optional(),
+      replace: z.array(item).optional(),
+    })
+    .strict()
+    .refine((p) => !(p.replace && (p.add || p.remove)), 'use either replace or add/remove, not both');
+}
+
+/** Org site-rule overlay (EHS_OVERLAY_FILE): per-topic changes layered over the active pack. */
+export const ehsOverlaySchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'id must be lowercase words joined by hyphens'),
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, 'version must be MAJOR.MINOR.PATCH'),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    topics: z.record(
+      z.string(),
+      z
+        .object({
+          keyFacts: ehsOverlayListSchema(z.string().min(1)).optional(),
+          bestPractices: ehsOverlayListSchema(z.string().min(1)).optional(),
+          mythsOrAvoid: ehsOverlayListSchema(z.string().min(1)).optional(),
+          shouldMention: ehsOverlayListSchema(z.string().min(1)).optional(),
+          correctTerminology: ehsOverlayListSchema(ehsTermSchema).optional(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+/** Request body for POST /api/ehs/topics and PUT /api/ehs/topics/:id */
+export const ehsTopicEditBodySchema = z.object({
+  topic: ehsTopicSchema,
+  /** Who made the change, for the edit history. */
+  editor: z.string().trim().max(200).optional(),
+  /** Why the change was made (e.g. "1910.178 revision"), for the edit history. */
+  note: z.string().trim().max(2000).optional(),
+});
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be YYYY-MM-DD');
+
+/** eCFR snapshot bundle exported from one install's regulation store and imported into another. */
+export const regulationSnapshotSchema = z
+  .object({
+    format: z.literal(1),
+    id: z.string().min(1).max(200),
+    createdAt: z.string().datetime(),
+    source: z.string().min(1),
+    records: z.array(
+      z
+        .object({
+          /** Document key within the source: a 29 CFR section for eCFR, e.g. "3203" for Cal/OSHA. */
+          section: z.string().regex(/^[0-9A-Za-z][0-9A-Za-z.-]{0,63}$/, 'section must be a document number'),
+          /** Omitted for eCFR. */
+          sourceId: z.enum(REGULATORY_SOURCE_VALUES).optional(),
+          fetchedAt: z.string().datetime(),
+          snippet: z
+            .object({
+              citation: z.string().min(1),
+              text: z.string().min(1),
+              source: z.string().min(1),
+              effectiveDate: isoDateSchema,
+              pending: z.boolean().optional(),
+            })
+            .strict(),
+        })
+        .strict()
+        .refine((r) => (r.sourceId ?? 'ecfr') !== 'ecfr' || /^\d{4}\.\d+$/.test(r.section), {
+          message: 'section must be like 1910.178',
+          path: ['section'],
+        })
+    ),
+    structure: z
+      .object({
+        effectiveDate: isoDateSchema,
+        fetchedAt: z.string().datetime(),
+        subparts: z.array(
+          z
+            .object({
+              part: z.enum(['1904', '1910', '1926']),
+              subpart: z.string().regex(/^[A-Z]{1,2}$/, 'subpart must be a letter like D'),
+              title: z.string(),
+              sections: z.array(z.string().regex(/^\d{4}\.\d+$/, 'section must be like 1910.178')),
+            })
+            .strict()
+        ),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
 export type GenerateScriptBody = z.infer<typeof generateScriptBodySchema>;
 export type GenerateImageBody = z.infer<typeof generateImageBodySchema>;
 export type GenerateVideoBody = z.infer<typeof generateVideoBodySchema>;
 export type GenerateAudioBody = z.infer<typeof generateAudioBodySchema>;
 export type ScriptResultValidated = z.infer<typeof scriptResultSchema>;
 export type AssembleVideoBody = z.infer<typeof assembleVideoBodySchema>;
+export type CreateVideoJobBody = z.infer<typeof createVideoJobBodySchema>;
+export type ReviseScriptBody = z.infer<typeof reviseScriptBodySchema>;
+export type VerifyScriptBody = z.infer<typeof verifyScriptBodySchema>;
+export type GenerateQuizBody = z.infer<typeof generateQuizBodySchema>;
+export type EHSPackData = z.infer<typeof ehsPackSchema>;
+export type EHSTopicEditBody = z.infer<typeof ehsTopicEditBodySchema>;
+export type EHSOverlayData = z.infer<typeof ehsOverlaySchema>;
+export type RegulationSnapshot = z.infer<typeof regulationSnapshotSchema>;
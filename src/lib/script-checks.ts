@@ -0,0 +1,167 @@
+/**
+ * Post-generation checks shared by the script routes: sign mentions, the EHS reference check
+ * and fact verification, plus assembly of the response with whichever checks produced results.
+ * Each check runs against the script's jurisdiction (its EHS pack and sign standard).
+ */
+
+import { autoCorrectScript } from '@/lib/auto-correct';
+import { getJurisdictionOption } from '@/lib/constants';
+import { buildCoverageReport } from '@/lib/ehs-coverage';
+import { withSceneFindings } from '@/lib/ehs-findings';
+import { getTopicsByIds, validateContentAgainstReference } from '@/lib/ehs-reference';
+import { verifyScriptFacts, type FactVerificationReport } from '@/lib/fact-verification';
+import { getUnverifiedSignMentions } from '@/lib/safety-signs-reference';
+import type { ScriptResultValidated } from '@/lib/schemas';
+import type {
+  ClaimCorrection,
+  EHSCoverageReport,
+  EHSValidation,
+  FactVerificationResult,
+  ScriptResult,
+  UnverifiedSignMention,
+} from '@/lib/types';
+
+const FACT_VERIFICATION_ENABLED = process.env.FACT_VERIFICATION_ENABLED !== 'false';
+
+/** Sign-like phrases per scene that are not in the jurisdiction's safety-signs reference. */
+export function getUnverifiedSignMentionsForScript(
+  data: Pick<ScriptResult, 'scenes' | 'jurisdiction'>
+): UnverifiedSignMention[] {
+  const { signStandard } = getJurisdictionOption(data.jurisdiction);
+  const unverifiedSignMentions: UnverifiedSignMention[] = [];
+  data.scenes.forEach((scene, i) => {
+    const fromPrompt = getUnverifiedSignMentions(scene.imagePrompt, signStandard);
+    const fromNarration = getUnverifiedSignMentions(scene.narration ?? '', signStandard);
+    const mentions = [...new Set([...fromPrompt, ...fromNarration])];
+    if (mentions.length > 0) unverifiedSignMentions.push({ sceneIndex: i, mentions });
+  });
+  return unverifiedSignMentions;
+}
+
+/**
+ * EHS reference check over all scenes; undefined when nothing was flagged. Flagged myths and
+ * terms are also located per scene in `sceneFindings`.
+ */
+export function getEhsValidation(
+  data: Pick<ScriptResult, 'scenes' | 'jurisdiction'>,
+  topicIds: string[]
+): EHSValidation | undefined {
+  // One line per field, so myth detection never reads a sentence across scenes
+  const combinedContent = data.scenes
+    .map((s) => `${s.narration ?? ''}\n${s.imagePrompt ?? ''}`)
+    .join('\n');
+  const ehsValidation = validateContentAgainstReference(combinedContent, {
+    topicIds: topicIds.length ? topicIds : undefined,
+    jurisdiction: data.jurisdiction,
+  });
+
+  const hasEhsFlags =
+    ehsValidation.warnings.length > 0 ||
+    ehsValidation.mythsFlagged.length > 0 ||
+    ehsValidation.terminologySuggestions.length > 0 ||
+    ehsValidation.missingRecommendations.length > 0;
+  if (!hasEhsFlags) return undefined;
+
+  return withSceneFindings(
+    {
+      topicIds: ehsValidation.topicIds,
+      warnings: ehsValidation.warnings,
+      terminologySuggestions: ehsValidation.terminologySuggestions,
+      mythsFlagged: ehsValidation.mythsFlagged,
+      missingRecommendations: ehsValidation.missingRecommendations,
+    },
+    data.scenes
+  );
+}
+
+/** Coverage of the matched topics' facts, practices and hazards; undefined when no topic matched. */
+export function getCoverageReport(
+  data: Pick<ScriptResult, 'scenes' | 'jurisdiction'>,
+  topicIds: string[]
+): EHSCoverageReport | undefined {
+  const topics = getTopicsByIds(topicIds, data.jurisdiction);
+  if (topics.length === 0) return undefined;
+  return buildCoverageReport(data.scenes, topics);
+}
+
+/** Fact verification when enabled and topics matched; undefined when skipped or on failure. */
+export async function getFactVerificationReport(
+  data: ScriptResult,
+  topicIds: string[]
+): Promise<FactVerificationReport | undefined> {
+  if (!FACT_VERIFICATION_ENABLED || topicIds.length === 0) return undefined;
+  try {
+    return await verifyScriptFacts(data, topicIds);
+  } catch {
+    return undefined;
+  }
+}
+
+/** The verdicts of getFactVerificationReport. */
+export async function getFactVerification(
+  data: ScriptResult,
+  topicIds: string[]
+): Promise<FactVerificationResult[] | undefined> {
+  return (await getFactVerificationReport(data, topicIds))?.results;
+}
+
+/**
+ * Auto-correct pass over unverified claims; undefined when no scene was rewritten.
+ * Sign and EHS checks must be re-run on the returned script.
+ */
+export async function getAutoCorrection<T extends ScriptResult>(
+  data: T,
+  factVerification: FactVerificationResult[] | undefined,
+  topicIds: string[]
+): Promise<
+  { data: T; factVerification: FactVerificationResult[]; autoCorrections: ClaimCorrection[] } | undefined
+> {
+  if (!factVerification?.length) return undefined;
+  try {
+    const { scenes, factVerification: verified, corrections } = await autoCorrectScript(
+      data,
+      factVerification,
+      topicIds
+    );
+    if (corrections.length === 0) return undefined;
+    return { data: { ...data, scenes }, factVerification: verified, autoCorrections: corrections };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Merges check results into the script, omitting empty ones. */
+export function buildScriptResponse(
+  data: ScriptResultValidated,
+  checks: Omit<ScriptResult, 'title' | 'visualStyle' | 'scenes'>
+): ScriptResult {
+  const {
+    unverifiedSignMentions,
+    factVerification,
+    regulatorySources,
+    retrievedSources,
+    topicMatches,
+    ehsValidation,
+    coverageReport,
+    language,
+    autoCorrections,
+    durationCheck,
+    sourceDocument,
+    ehsPack,
+  } = checks;
+  return {
+    ...data,
+    ...(language && { language }),
+    ...(durationCheck && { durationCheck }),
+    ...(sourceDocument && { sourceDocument }),
+    ...(autoCorrections && autoCorrections.length > 0 && { autoCorrections }),
+    ...(unverifiedSignMentions && unverifiedSignMentions.length > 0 && { unverifiedSignMentions }),
+    ...(factVerification && factVerification.length > 0 && { factVerification }),
+    ...(regulatorySources && regulatorySources.length > 0 && { regulatorySources }),
+    ...(retrievedSources && retrievedSources.length > 0 && { retrievedSources }),
+    ...(topicMatches && topicMatches.length > 0 && { topicMatches }),
+    ...(ehsValidation && { ehsValidation }),
+    ...(coverageReport && { coverageReport }),
+    ...(ehsPack && { ehsPack }),
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_SCENES } from '@/lib/constants';
+import {
+  buildLengthInstruction,
+  checkScriptDuration,
+  countNarrationUnits,
+  estimateNarrationSeconds,
+  fitScriptToDuration,
+  getPlannedSceneCount,
+} from '@/lib/script-duration';
+
+/** Narration of `n` words (150 words = 60 seconds). */
+const words = (n: number, sentenceLength = n) =>
+  Array.from({ length: n }, (_, i) => ((i + 1) % sentenceLength === 0 ? 'word.' : 'word')).join(' ');
+
+describe('narration estimates', () => {
+  it('counts words, ignoring stray punctuation', () => {
+    expect(countNarrationUnits('Look left — then right!')).toBe(4);
+  });
+
+  it('counts characters for CJK languages', () => {
+    expect(countNarrationUnits('请系好安全带。', 'zh')).toBe(6);
+  });
+
+  it('uses 150 words per minute', () => {
+    expect(estimateNarrationSeconds(words(150))).toBe(60);
+  });
+});
+
+describe('length planning', () => {
+  it('keeps the default instructions without a count or target', () => {
+    expect(buildLengthInstruction({ draft: true })).toMatch(/exactly 3 scenes/);
+    expect(buildLengthInstruction({})).toBe('Create 3 to 6 scenes.');
+  });
+
+  it('sizes the scene count from the target, within limits', () => {
+    expect(getPlannedSceneCount({ targetDurationSeconds: 90 })).toBe(5);
+    expect(getPlannedSceneCount({ targetDurationSeconds: 30 })).toBe(3);
+    expect(getPlannedSceneCount({ targetDurationSeconds: 600 })).toBe(MAX_SCENES);
+    expect(getPlannedSceneCount({ targetDurationSeconds: 600, sceneCount: 4, draft: true })).toBe(4);
+  });
+
+  it('asks for a per-scene word budget', () => {
+    const line = buildLengthInstruction({ targetDurationSeconds: 90, sceneCount: 5 });
+    expect(line).toContain('Create exactly 5 scenes.');
+    expect(line).toContain('about 225 words');
+    expect(line).toContain('about 45 words');
+  });
+});
+
+describe('duration post-check', () => {
+  it('flags scripts outside the tolerance', () => {
+    const scenes = [{ narration: words(150), imagePrompt: 'x' }];
+    expect(checkScriptDuration(scenes, 60).status).toBe('ok');
+    expect(checkScriptDuration(scenes, 30)).toMatchObject({ status: 'too_long', estimatedSeconds: 60 });
+    expect(checkScriptDuration(scenes, 120).message).toMatch(/expand narration/);
+  });
+
+  it('warns without changing narration unless trimming is requested', () => {
+    const scenes = [{ narration: words(150, 15), imagePrompt: 'x' }];
+    const warned = fitScriptToDuration(scenes, 30, {});
+    expect(warned.scenes[0].narration).toBe(scenes[0].narration);
+    expect(warned.scenes[0].duration).toBe(60);
+    expect(warned.durationCheck).toMatchObject({ status: 'too_long', trimmed: false });
+
+    const trimmed = fitScriptToDuration(scenes, 30, { trim: true });
+    expect(trimmed.durationCheck).toMatchObject({ status: 'ok', trimmed: true });
+    expect(trimmed.durationCheck.estimatedSeconds).toBeLessThanOrEqual(30 * 1.15);
+  });
+
+  it('keeps the first sentence of every scene when trimming', () => {
+    const scenes = [
+      { narration: words(60), imagePrompt: 'x' },
+      { narration: words(60), imagePrompt: 'y' },
+    ];
+    const { scenes: fitted, durationCheck } = fitScriptToDuration(scenes, 30, { trim: true });
+    expect(fitted.map((s) => s.narration)).toEqual(scenes.map((s) => s.narration));
+    expect(durationCheck).toMatchObject({ status: 'too_long', trimmed: false });
+  });
+});
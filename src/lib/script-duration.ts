@@ -0,0 +1,164 @@
+/**
+ * Script length planning and checking against a target runtime.
+ *
+ * Narration time is estimated with a words-per-minute model (characters per minute for
+ * languages written without spaces). The plan sizes the scene count and per-scene narration
+ * for the prompt; the post-check compares the generated script with the target and can trim
+ * trailing sentences when it runs long.
+ */
+
+import {
+  MAX_SCENES,
+  NARRATION_CJK_CHARS_PER_MINUTE,
+  NARRATION_WORDS_PER_MINUTE,
+  TARGET_DURATION_TOLERANCE,
+  TARGET_SECONDS_PER_SCENE,
+  getLanguageOption,
+  type LanguageCode,
+} from '@/lib/constants';
+import type { DurationCheck, Scene } from '@/lib/types';
+
+export interface ScriptLengthOptions {
+  draft?: boolean;
+  sceneCount?: number;
+  targetDurationSeconds?: number;
+  language?: LanguageCode;
+}
+
+function isCjk(language: LanguageCode | undefined): boolean {
+  return !!language && !!getLanguageOption(language).cjk;
+}
+
+/** Spoken units in the text: words, or non-space, non-punctuation characters for CJK. */
+export function countNarrationUnits(text: string, language?: LanguageCode): number {
+  if (isCjk(language)) return text.replace(/[\s\p{P}]/gu, '').length;
+  return text.split(/\s+/).filter((w) => /[\p{L}\p{N}]/u.test(w)).length;
+}
+
+function unitsPerMinute(language: LanguageCode | undefined): number {
+  return isCjk(language) ? NARRATION_CJK_CHARS_PER_MINUTE : NARRATION_WORDS_PER_MINUTE;
+}
+
+export function estimateNarrationSeconds(text: string, language?: LanguageCode): number {
+  return (countNarrationUnits(text, language) / unitsPerMinute(language)) * 60;
+}
+
+/** Scene count implied by the options: explicit count, else sized from the target, else null. */
+export function getPlannedSceneCount(options: ScriptLengthOptions): number | null {
+  if (options.sceneCount) return options.sceneCount;
+  if (options.targetDurationSeconds) {
+    const fromTarget = Math.round(options.targetDurationSeconds / TARGET_SECONDS_PER_SCENE);
+    return Math.min(MAX_SCENES, Math.max(3, fromTarget));
+  }
+  return null;
+}
+
+/** Scene-count and narration-length instruction for the script prompt. */
+export function buildLengthInstruction(options: ScriptLengthOptions): string {
+  const { draft, targetDurationSeconds, language } = options;
+  const sceneCount = getPlannedSceneCount(options);
+  if (!sceneCount) {
+    return draft
+      ? 'Create exactly 3 scenes to keep the video short and low-cost.'
+      : 'Create 3 to 6 scenes.';
+  }
+
+  const countLine = `Create exactly ${sceneCount} scene${sceneCount === 1 ? '' : 's'}.`;
+  if (!targetDurationSeconds) return countLine;
+
+  const rate = unitsPerMinute(language);
+  const unit = isCjk(language) ? 'characters' : 'words';
+  const total = Math.round((targetDurationSeconds / 60) * rate);
+  const perScene = Math.max(1, Math.round(total / sceneCount));
+  return `${countLine} TARGET LENGTH: about ${targetDurationSeconds} seconds of narration in total (about ${total} ${unit} at ${rate} ${unit} per minute), so each scene's narration should be about ${perScene} ${unit}. This overrides the default scene count and sentence limit.`;
+}
+
+function splitSentences(text: string): string[] {
+  return text.match(/[^.!?。！？]+(?:[.!?。！？]+|$)/g)?.map((s) => s.trim()).filter(Boolean) ?? [text];
+}
+
+/**
+ * Drops trailing sentences, longest scene first, until the estimate is within tolerance of
+ * the target. Every scene keeps at least its first sentence.
+ */
+export function trimScenesToDuration(
+  scenes: Scene[],
+  targetSeconds: number,
+  language?: LanguageCode
+): { scenes: Scene[]; trimmed: boolean } {
+  const sentences = scenes.map((s) => splitSentences(s.narration));
+  const limit = targetSeconds * (1 + TARGET_DURATION_TOLERANCE);
+  const total = () =>
+    sentences.reduce((sum, parts) => sum + estimateNarrationSeconds(parts.join(' '), language), 0);
+
+  let trimmed = false;
+  while (total() > limit) {
+    let longest = -1;
+    let longestUnits = 0;
+    sentences.forEach((parts, i) => {
+      const units = countNarrationUnits(parts.join(' '), language);
+      if (parts.length > 1 && units > longestUnits) {
+        longest = i;
+        longestUnits = units;
+      }
+    });
+    if (longest === -1) break;
+    sentences[longest] = sentences[longest].slice(0, -1);
+    trimmed = true;
+  }
+
+  if (!trimmed) return { scenes, trimmed };
+  return {
+    scenes: scenes.map((s, i) => ({ ...s, narration: sentences[i].join(' ') })),
+    trimmed,
+  };
+}
+
+/** Sets each scene's duration to its estimated narration time (seconds, one decimal). */
+export function withEstimatedDurations(scenes: Scene[], language?: LanguageCode): Scene[] {
+  return scenes.map((s) => ({
+    ...s,
+    duration: Math.round(estimateNarrationSeconds(s.narration, language) * 10) / 10,
+  }));
+}
+
+export function checkScriptDuration(
+  scenes: Scene[],
+  targetSeconds: number,
+  language?: LanguageCode,
+  trimmed = false
+): DurationCheck {
+  const estimatedSeconds = Math.round(
+    scenes.reduce((sum, s) => sum + estimateNarrationSeconds(s.narration, language), 0)
+  );
+  const delta = (estimatedSeconds - targetSeconds) / targetSeconds;
+  const status =
+    delta > TARGET_DURATION_TOLERANCE ? 'too_long' : delta < -TARGET_DURATION_TOLERANCE ? 'too_short' : 'ok';
+  let message: string | undefined;
+  if (status !== 'ok') {
+    message = `Estimated narration is about ${estimatedSeconds}s against a ${targetSeconds}s target${
+      status === 'too_long' ? '; shorten or remove scenes' : '; expand narration or add scenes'
+    }.`;
+  } else if (trimmed) {
+    message = `Narration was trimmed to about ${estimatedSeconds}s to fit the ${targetSeconds}s target.`;
+  }
+  return { targetSeconds, estimatedSeconds, status, trimmed, ...(message && { message }) };
+}
+
+/**
+ * Post-check for a generated script: optionally trims to the target, fills in per-scene
+ * duration estimates, and reports how the estimate compares with the target.
+ */
+export function fitScriptToDuration(
+  scenes: Scene[],
+  targetSeconds: number,
+  options: { language?: LanguageCode; trim?: boolean }
+): { scenes: Scene[]; durationCheck: DurationCheck } {
+  const { language, trim } = options;
+  const fitted = trim ? trimScenesToDuration(scenes, targetSeconds, language) : { scenes, trimmed: false };
+  const finalScenes = withEstimatedDurations(fitted.scenes, language);
+  return {
+    scenes: finalScenes,
+    durationCheck: checkScriptDuration(finalScenes, targetSeconds, language, fitted.trimmed),
+  };
+}
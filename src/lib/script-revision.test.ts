@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  carryOverSceneResults,
+  diffScenes,
+  getChangedSceneIndices,
+  mergeEhsValidation,
+  resolveRevisedScenes,
+} from '@/lib/script-revision';
+
+const original = [
+  { narration: 'Sound the horn.', imagePrompt: 'Alex pressing horn', duration: 4 },
+  { narration: 'Check blind spots.', imagePrompt: 'Alex looking left' },
+  { narration: 'Report spills.', imagePrompt: 'Alex pointing at spill' },
+];
+
+describe('resolveRevisedScenes', () => {
+  it('keeps duration only while narration is unchanged', () => {
+    const revised = resolveRevisedScenes(original, [
+      { sourceIndex: 0, narration: 'Sound the horn.', imagePrompt: 'Close-up of horn' },
+      { sourceIndex: 1, narration: 'Look both ways.', imagePrompt: 'Alex looking left' },
+    ]);
+    expect(revised[0]).toEqual({ ...original[0], imagePrompt: 'Close-up of horn', sourceIndex: 0 });
+    expect(revised[1].duration).toBeUndefined();
+  });
+
+  it('treats repeated or out-of-range source indices as new scenes', () => {
+    const revised = resolveRevisedScenes(original, [
+      { sourceIndex: 0, narration: 'A', imagePrompt: 'a' },
+      { sourceIndex: 0, narration: 'B', imagePrompt: 'b' },
+      { sourceIndex: 7, narration: 'C', imagePrompt: 'c' },
+    ]);
+    expect(revised.map((s) => s.sourceIndex)).toEqual([0, null, null]);
+  });
+
+  it('restores scenes outside sceneIndices, re-inserting dropped ones in place', () => {
+    const revised = resolveRevisedScenes(
+      original,
+      [
+        { sourceIndex: 0, narration: 'Changed anyway', imagePrompt: 'x' },
+        { sourceIndex: 1, narration: 'Look both ways.', imagePrompt: 'Alex looking right' },
+      ],
+      [1]
+    );
+    expect(revised).toEqual([
+      { ...original[0], sourceIndex: 0 },
+      { narration: 'Look both ways.', imagePrompt: 'Alex looking right', sourceIndex: 1 },
+      { ...original[2], sourceIndex: 2 },
+    ]);
+  });
+});
+
+describe('diffScenes', () => {
+  it('reports modified, moved, added and removed scenes', () => {
+    const revised = resolveRevisedScenes(original, [
+      { sourceIndex: 2, narration: 'Report spills.', imagePrompt: 'Alex pointing at spill' },
+      { sourceIndex: 0, narration: 'Always sound the horn.', imagePrompt: 'Alex pressing horn' },
+      { sourceIndex: null, narration: 'Wear your seatbelt.', imagePrompt: 'Alex buckling up' },
+    ]);
+    const diff = diffScenes(original, revised);
+    expect(diff).toEqual([
+      { status: 'moved', index: 0, previousIndex: 2 },
+      {
+        status: 'modified',
+        index: 1,
+        previousIndex: 0,
+        changedFields: ['narration'],
+        before: original[0],
+      },
+      { status: 'added', index: 2, previousIndex: null },
+      { status: 'removed', index: null, previousIndex: 1, before: original[1] },
+    ]);
+    expect(getChangedSceneIndices(diff)).toEqual([1, 2]);
+  });
+});
+
+describe('carryOverSceneResults', () => {
+  it('remaps results for unchanged and moved scenes and drops the rest', () => {
+    const diff = diffScenes(
+      original,
+      resolveRevisedScenes(original, [
+        { sourceIndex: 2, narration: 'Report spills.', imagePrompt: 'Alex pointing at spill' },
+        { sourceIndex: 0, narration: 'Changed.', imagePrompt: 'Alex pressing horn' },
+      ])
+    );
+    const results = [
+      { sceneIndex: 0, mentions: ['NO HORN'] },
+      { sceneIndex: 2, mentions: ['WET FLOOR'] },
+    ];
+    expect(carryOverSceneResults(results, diff)).toEqual([{ sceneIndex: 0, mentions: ['WET FLOOR'] }]);
+  });
+});
+
+describe('mergeEhsValidation', () => {
+  const previous = {
+    topicIds: ['forklift'],
+    warnings: [],
+    terminologySuggestions: [{ found: 'fork truck', prefer: 'forklift' }],
+    mythsFlagged: ['seatbelts are optional'],
+    missingRecommendations: ['[Forklift] Consider mentioning: horn', '[Forklift] Consider mentioning: seatbelt'],
+  };
+
+  it('keeps earlier flags only while the unchanged scenes still contain them', () => {
+    const merged = mergeEhsValidation(previous, undefined, 'Drive the fork truck slowly.', []);
+    expect(merged?.terminologySuggestions).toEqual(previous.terminologySuggestions);
+    expect(merged?.mythsFlagged).toEqual([]);
+    expect(merged?.warnings).toHaveLength(1);
+  });
+
+  it('reports the missing recommendations of the whole revised script', () => {
+    const changed = {
+      ...previous,
+      terminologySuggestions: [],
+      mythsFlagged: [],
+      missingRecommendations: ['[Forklift] Consider mentioning: horn'],
+    };
+    // The seatbelt was only mentioned in a scene the revision removed
+    const missing = ['[Forklift] Consider mentioning: seatbelt', '[Forklift] Consider mentioning: speed'];
+    expect(mergeEhsValidation(previous, changed, 'Unrelated text.', missing)?.missingRecommendations).toEqual(missing);
+  });
+
+  it('returns undefined when nothing is left to flag', () => {
+    expect(mergeEhsValidation(previous, undefined, 'Unrelated text.', [])).toBeUndefined();
+  });
+});
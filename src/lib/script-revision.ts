@@ -0,0 +1,206 @@
+/**
+ * Instruction-driven script revision (POST /api/revise-script).
+ *
+ * The model rewrites the script and tags every scene with the index of the original scene it
+ * came from (`sourceIndex`, null for new scenes). That tag drives the per-scene diff, keeps
+ * scenes outside `sceneIndices` untouched, and lets check results for unchanged scenes be
+ * carried over so only modified and added scenes are re-checked.
+ */
+
+import { z } from 'zod';
+import { getLanguageOption } from '@/lib/constants';
+import { contentMentions, formatValidationWarnings } from '@/lib/ehs-reference';
+import type {
+  EHSValidation,
+  Scene,
+  SceneDiff,
+  ScriptResult,
+} from '@/lib/types';
+
+export const REVISION_SYSTEM_PROMPT = `You revise existing safety training video scripts. Output valid JSON only, no markdown.
+
+## OUTPUT FORMAT
+{ "title": "string", "scenes": [ { "sourceIndex": 0, "narration": "string", "imagePrompt": "string" } ] }
+
+## RULES
+- Apply the editor's instruction and change nothing else: copy every scene the instruction does not affect exactly, character for character.
+- "sourceIndex" is the 0-based index of the original scene a scene was revised from, or null for a brand-new scene. Each original index may appear at most once; leave a scene out to delete it.
+- Keep scenes in the order they should play.
+- The imagePrompt must remain a visual depiction of its narration. If you change what a narration says, update its imagePrompt to match, keeping the same recurring character, PPE and people-count ending ("single person scene, no other people visible" unless safety requires two people).
+- New scenes follow the same style as the existing ones: 1-3 conversational sentences of narration and a concrete imagePrompt showing the key action.
+- Keep the title unless the instruction asks to change it.`;
+
+/** Model output for a revision: scenes tagged with the original scene they came from. */
+export const revisionOutputSchema = z.object({
+  title: z.string().min(1),
+  scenes: z
+    .array(
+      z.object({
+        sourceIndex: z.number().int().nullish().transform((v) => v ?? null),
+        narration: z.string().min(1),
+        imagePrompt: z.string().min(1),
+      })
+    )
+    .min(1),
+});
+
+export interface RevisedScene extends Scene {
+  /** Index of the original scene this one was revised from; null when added. */
+  sourceIndex: number | null;
+}
+
+export function buildRevisionUserContent(
+  script: ScriptResult,
+  instruction: string,
+  sceneIndices?: number[]
+): string {
+  const scenes = script.scenes.map((s, i) => ({
+    sourceIndex: i,
+    narration: s.narration,
+    imagePrompt: s.imagePrompt,
+  }));
+  const scopeLine = sceneIndices?.length
+    ? `\nOnly revise scenes ${sceneIndices.join(', ')} (sourceIndex values). Copy every other scene unchanged; new scenes may only be added next to those scenes.`
+    : '';
+  const languageLine =
+    script.language && script.language !== 'en'
+      ? `\nWrite title and narration in ${getLanguageOption(script.language).promptName}; keep imagePrompt in English.`
+      : '';
+  return `Current script:\n${JSON.stringify({ title: script.title, visualStyle: script.visualStyle, scenes }, null, 2)}\n\nInstruction: ${instruction}${scopeLine}${languageLine}\nJSON only.`;
+}
+
+/**
+ * Normalizes model output against the original script: out-of-range or repeated source
+ * indices become additions, and when `sceneIndices` is given, scenes outside it are restored
+ * to their original text (and re-inserted in place if the model dropped them).
+ */
+export function resolveRevisedScenes(
+  original: Scene[],
+  revised: z.infer<typeof revisionOutputSchema>['scenes'],
+  sceneIndices?: number[]
+): RevisedScene[] {
+  const seen = new Set<number>();
+  const locked = sceneIndices ? new Set(original.map((_, i) => i).filter((i) => !sceneIndices.includes(i))) : null;
+
+  const result: RevisedScene[] = revised.map((s) => {
+    const src = s.sourceIndex;
+    const valid = src !== null && src >= 0 && src < original.length && !seen.has(src);
+    if (!valid) return { narration: s.narration, imagePrompt: s.imagePrompt, sourceIndex: null };
+    seen.add(src);
+    if (locked?.has(src)) return { ...original[src], sourceIndex: src };
+    const before = original[src];
+    const narrationChanged = before.narration !== s.narration;
+    return {
+      narration: s.narration,
+      imagePrompt: s.imagePrompt,
+      // Duration estimates only hold while the narration is the same
+      ...(!narrationChanged && before.duration !== undefined && { duration: before.duration }),
+      ...(before.sourceRef && { sourceRef: before.sourceRef }),
+      sourceIndex: src,
+    };
+  });
+
+  if (locked) {
+    for (const i of locked) {
+      if (seen.has(i)) continue;
+      const after = result.findLastIndex((s) => s.sourceIndex !== null && s.sourceIndex < i);
+      result.splice(after + 1, 0, { ...original[i], sourceIndex: i });
+    }
+  }
+  return result;
+}
+
+/** Per-scene diff: revised scenes in order, then scenes that were removed. */
+export function diffScenes(original: Scene[], revised: RevisedScene[]): SceneDiff[] {
+  const diff: SceneDiff[] = revised.map((s, index) => {
+    if (s.sourceIndex === null) return { status: 'added', index, previousIndex: null };
+    const before = original[s.sourceIndex];
+    const changedFields = (['narration', 'imagePrompt'] as const).filter((f) => before[f] !== s[f]);
+    if (changedFields.length > 0) {
+      return { status: 'modified', index, previousIndex: s.sourceIndex, changedFields, before };
+    }
+    return {
+      status: index === s.sourceIndex ? 'unchanged' : 'moved',
+      index,
+      previousIndex: s.sourceIndex,
+    };
+  });
+
+  const kept = new Set(revised.map((s) => s.sourceIndex));
+  original.forEach((before, previousIndex) => {
+    if (!kept.has(previousIndex)) {
+      diff.push({ status: 'removed', index: null, previousIndex, before });
+    }
+  });
+  return diff;
+}
+
+/** Revised-script indices of modified and added scenes. */
+export function getChangedSceneIndices(diff: SceneDiff[]): number[] {
+  return diff
+    .filter((d) => d.status === 'modified' || d.status === 'added')
+    .map((d) => d.index as number);
+}
+
+/**
+ * Moves per-scene check results for unchanged and moved scenes to their new index and drops
+ * results for scenes that changed or were removed.
+ */
+export function carryOverSceneResults<T extends { sceneIndex: number }>(
+  results: T[] | undefined,
+  diff: SceneDiff[]
+): T[] {
+  const newIndex = new Map<number, number>();
+  for (const d of diff) {
+    if ((d.status === 'unchanged' || d.status === 'moved') && d.index !== null && d.previousIndex !== null) {
+      newIndex.set(d.previousIndex, d.index);
+    }
+  }
+  return (results ?? []).flatMap((r) => {
+    const index = newIndex.get(r.sceneIndex);
+    return index === undefined ? [] : [{ ...r, sceneIndex: index }];
+  });
+}
+
+/**
+ * Combines the EHS check of the changed scenes with the previous script-level result.
+ * Earlier myth and terminology flags are kept while the phrase still appears in the unchanged
+ * scenes. Missing recommendations are taken from a check of the whole revised script, since a
+ * removed or rewritten scene may have been the only one covering a recommendation.
+ */
+export function mergeEhsValidation(
+  previous: EHSValidation | undefined,
+  changed: EHSValidation | undefined,
+  unchangedContent: string,
+  missingRecommendations: string[]
+): EHSValidation | undefined {
+  const mythsFlagged = [
+    ...new Set([
+      ...(previous?.mythsFlagged ?? []).filter((m) => contentMentions(unchangedContent, m)),
+      ...(changed?.mythsFlagged ?? []),
+    ]),
+  ];
+
+  const terminologySuggestions: EHSValidation['terminologySuggestions'] = [];
+  const seenTerms = new Set<string>();
+  for (const t of [
+    ...(previous?.terminologySuggestions ?? []).filter((t) => contentMentions(unchangedContent, t.found)),
+    ...(changed?.terminologySuggestions ?? []),
+  ]) {
+    const key = `${t.found}\u0000${t.prefer}`;
+    if (seenTerms.has(key)) continue;
+    seenTerms.add(key);
+    terminologySuggestions.push(t);
+  }
+
+  if (!mythsFlagged.length && !terminologySuggestions.length && !missingRecommendations.length) {
+    return undefined;
+  }
+  return {
+    topicIds: previous?.topicIds ?? changed?.topicIds ?? [],
+    warnings: formatValidationWarnings(mythsFlagged, terminologySuggestions),
+    terminologySuggestions,
+    mythsFlagged,
+    missingRecommendations,
+  };
+}
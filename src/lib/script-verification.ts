@@ -0,0 +1,133 @@
+/**
+ * Re-checks for a script edited after generation (POST /api/verify-script): fact verification
+ * with a per-scene cache, so only scenes whose text changed since they were last checked go back
+ * to the model, and the regulation lookups the generator cites.
+ *
+ * Cached results are keyed by the scene's narration and language, the topics, jurisdiction and
+ * site state it was checked against, and the active EHS pack version, so a pack edit re-checks
+ * every scene. Image prompts are not fact-checked, so editing one reuses the scene's results.
+ * Only complete checks are cached. The cache is in memory and bounded; the oldest entries are
+ * dropped first.
+ */
+
+import { createHash } from 'crypto';
+import { VERIFY_CACHE_MAX_SCENES, getJurisdictionOption } from '@/lib/constants';
+import { getActiveEHSPackVersion } from '@/lib/ehs-packs';
+import { getCitationsForTopics } from '@/lib/ehs-reference';
+import { getRAGContextForPrompt } from '@/lib/rag-client';
+import { fetchRegulationsForCitations } from '@/lib/regulatory-api';
+import { getFactVerificationReport } from '@/lib/script-checks';
+import type { FactVerificationResult, Scene, ScriptResult } from '@/lib/types';
+
+const REGULATORY_API_ENABLED = process.env.REGULATORY_API_ENABLED !== 'false';
+
+/** Fact-check results per scene key, with sceneIndex 0; Map order is least recently used first. */
+const sceneCache = new Map<string, FactVerificationResult[]>();
+
+export interface CachedFactVerification {
+  /** Undefined when verification is disabled, no topic matched or every scene failed to check. */
+  factVerification?: FactVerificationResult[];
+  /** Scenes sent to the verifier in this call. */
+  checkedSceneIndices: number[];
+  /** Scenes whose results were reused from the cache. */
+  cachedSceneIndices: number[];
+}
+
+function sceneKey(
+  scene: Scene,
+  topicIds: string[],
+  { jurisdiction, siteState, language }: Pick<ScriptResult, 'jurisdiction' | 'siteState' | 'language'>
+): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        scene.narration ?? '',
+        language ?? null,
+        [...topicIds].sort(),
+        jurisdiction ?? null,
+        siteState ?? null,
+        getActiveEHSPackVersion(jurisdiction),
+      ])
+    )
+    .digest('hex');
+}
+
+function remember(key: string, results: FactVerificationResult[]): void {
+  sceneCache.delete(key);
+  sceneCache.set(key, results);
+  while (sceneCache.size > VERIFY_CACHE_MAX_SCENES) {
+    sceneCache.delete(sceneCache.keys().next().value as string);
+  }
+}
+
+/** Fact verification for the script, sending only scenes without cached results to the verifier. */
+export async function verifyScriptFactsCached(
+  data: ScriptResult,
+  topicIds: string[]
+): Promise<CachedFactVerification> {
+  const keys = data.scenes.map((scene) => sceneKey(scene, topicIds, data));
+  const cached = new Map<number, FactVerificationResult[]>();
+  keys.forEach((key, i) => {
+    const hit = sceneCache.get(key);
+    if (hit) {
+      cached.set(i, hit);
+      remember(key, hit);
+    }
+  });
+  const uncached = data.scenes.flatMap((_, i) => (cached.has(i) ? [] : [i]));
+
+  const fresh =
+    uncached.length > 0
+      ? await getFactVerificationReport({ ...data, scenes: uncached.map((i) => data.scenes[i]) }, topicIds)
+      : undefined;
+  // Results on the subset report indices within it; cache them per scene, then map them back.
+  // Rule-only results from a failed model check are returned but not cached, so the next call retries.
+  const checked = new Map<number, FactVerificationResult[]>();
+  if (fresh) {
+    uncached.forEach((sceneIndex, j) => {
+      const results = fresh.results.filter((r) => r.sceneIndex === j);
+      if (fresh.complete) remember(keys[sceneIndex], results.map((r) => ({ ...r, sceneIndex: 0 })));
+      checked.set(sceneIndex, results);
+    });
+  }
+
+  const checkedSceneIndices = [...checked.keys()];
+  const cachedSceneIndices = [...cached.keys()];
+  if (checkedSceneIndices.length === 0 && cachedSceneIndices.length === 0) {
+    return { checkedSceneIndices, cachedSceneIndices };
+  }
+  const factVerification = [...cached, ...checked]
+    .flatMap(([sceneIndex, results]) => results.map((r) => ({ ...r, sceneIndex })))
+    .sort((a, b) => a.sceneIndex - b.sceneIndex);
+  return { factVerification, checkedSceneIndices, cachedSceneIndices };
+}
+
+/**
+ * Regulation sources for the script: live eCFR (and state-plan) sections for its topics (US only) and bundled
+ * regulation passages retrieved for its text. Empty lists when nothing was found.
+ */
+export async function getCitationSources(
+  data: ScriptResult,
+  topicIds: string[]
+): Promise<Required<Pick<ScriptResult, 'regulatorySources' | 'retrievedSources'>>> {
+  let regulatorySources: string[] = [];
+  if (topicIds.length > 0 && REGULATORY_API_ENABLED && getJurisdictionOption(data.jurisdiction).ecfr) {
+    const citations = getCitationsForTopics(topicIds, data.jurisdiction, data.siteState);
+    if (citations.length > 0) {
+      try {
+        const { snippets } = await fetchRegulationsForCitations(citations, { siteState: data.siteState });
+        regulatorySources = snippets.filter((s) => !s.pending).map((s) => `${s.citation} (${s.effectiveDate})`);
+      } catch {
+        // Fall back to the bundled passages only
+      }
+    }
+  }
+  const text = [data.title, ...data.scenes.map((s) => s.narration ?? '')].join('\n');
+  const { sources } = getRAGContextForPrompt(text, data.jurisdiction);
+  return { regulatorySources, retrievedSources: sources };
+}
+
+/** Clear the per-scene cache (e.g. for testing). */
+export function clearVerificationCache(): void {
+  sceneCache.clear();
+}
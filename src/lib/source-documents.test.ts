@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attachSourceRefs,
+  chunkSections,
+  parseCsvRows,
+  parseJsaSections,
+  parseMarkdownSections,
+  parseSourceDocument,
+  summarizeSourceCoverage,
+} from './source-documents';
+
+const SOP = `Applies to all warehouse staff.
+
+# Pre-use inspection
+Check the horn, brakes and forks before each shift.
+
+## Operating
+- Wear the seatbelt.
+- Sound the horn at blind corners.
+`;
+
+const JSA = `Job Step,Potential Hazards,Recommended Controls,PPE
+Inspect truck,"Pinch points, hydraulic leaks",Lock out before inspecting,Gloves
+"Lift load","Load falls","Keep load low; tilt mast back",Hard hat
+`;
+
+describe('parseMarkdownSections', () => {
+  it('splits on headings and keeps text before the first heading', () => {
+    expect(parseMarkdownSections(SOP, 'Forklift SOP')).toEqual([
+      { heading: 'Forklift SOP', text: 'Applies to all warehouse staff.' },
+      { heading: 'Pre-use inspection', text: 'Check the horn, brakes and forks before each shift.' },
+      { heading: 'Operating', text: '- Wear the seatbelt.\n- Sound the horn at blind corners.' },
+    ]);
+  });
+});
+
+describe('JSA tables', () => {
+  it('parses quoted CSV fields and tab-separated files', () => {
+    expect(parseCsvRows(JSA)[1]).toEqual(['Inspect truck', 'Pinch points, hydraulic leaks', 'Lock out before inspecting', 'Gloves']);
+    expect(parseCsvRows('Step\tHazard\nLift\tStrain')).toEqual([['Step', 'Hazard'], ['Lift', 'Strain']]);
+  });
+
+  it('turns each row into a step section with hazards, controls and other columns', () => {
+    const sections = parseJsaSections(parseCsvRows(JSA));
+    expect(sections).toHaveLength(2);
+    expect(sections[1]).toEqual({
+      heading: 'Step 2: Lift load',
+      text: 'Step: Lift load\nHazards: Load falls\nControls: Keep load low; tilt mast back\nPPE: Hard hat',
+    });
+  });
+
+  it('falls back to header: value rows without JSA columns', () => {
+    expect(parseJsaSections([['Area', 'Note'], ['Dock', 'Chock wheels']])).toEqual([
+      { heading: 'Row 1', text: 'Area: Dock\nNote: Chock wheels' },
+    ]);
+  });
+});
+
+describe('chunkSections', () => {
+  it('numbers sections in order and splits long ones at paragraph breaks', () => {
+    const long = ['a'.repeat(60), 'b'.repeat(60), 'c'.repeat(60)].join('\n\n');
+    const chunked = chunkSections([{ heading: 'Intro', text: 'short' }, { heading: 'Steps', text: long }], 130);
+    expect(chunked.map((s) => [s.id, s.heading])).toEqual([
+      ['S1', 'Intro'],
+      ['S2', 'Steps (part 1)'],
+      ['S3', 'Steps (part 2)'],
+    ]);
+    expect(chunked.every((s) => s.text.length <= 130)).toBe(true);
+  });
+});
+
+describe('parseSourceDocument', () => {
+  it('parses Markdown and CSV uploads into citable sections', async () => {
+    const md = await parseSourceDocument({ name: 'forklift-sop.md', format: 'markdown', content: SOP });
+    expect(md.map((s) => s.id)).toEqual(['S1', 'S2', 'S3']);
+    expect(md[0].heading).toBe('forklift-sop');
+
+    const csv = await parseSourceDocument({ name: 'jsa.csv', format: 'csv', content: JSA });
+    expect(csv[0]).toMatchObject({ id: 'S1', heading: 'Step 1: Inspect truck' });
+  });
+
+  it('rejects documents without text', async () => {
+    await expect(parseSourceDocument({ name: 'empty.txt', format: 'text', content: '  \n ' })).rejects.toThrow(
+      'Source document has no readable text'
+    );
+  });
+});
+
+describe('source references', () => {
+  const sections = chunkSections([
+    { heading: 'Inspect', text: 'Check the horn.' },
+    { heading: 'Operate', text: 'Wear the seatbelt.' },
+  ]);
+
+  it('maps scene citations to sections and reports uncovered sections', () => {
+    const scenes = attachSourceRefs(
+      [
+        { narration: 'Check the horn.', imagePrompt: 'x', sourceSection: 's1' },
+        { narration: 'Stay alert.', imagePrompt: 'y', sourceSection: 'S9' },
+      ],
+      sections,
+      'sop.md'
+    );
+    expect(scenes[0]).toEqual({
+      narration: 'Check the horn.',
+      imagePrompt: 'x',
+      sourceRef: { sectionId: 'S1', heading: 'Inspect', documentName: 'sop.md' },
+    });
+    expect(scenes[1]).toEqual({ narration: 'Stay alert.', imagePrompt: 'y' });
+
+    expect(
+      summarizeSourceCoverage({ name: 'sop.md', format: 'markdown', content: '' }, sections, scenes)
+    ).toEqual({
+      name: 'sop.md',
+      format: 'markdown',
+      sections: [
+        { id: 'S1', heading: 'Inspect' },
+        { id: 'S2', heading: 'Operate' },
+      ],
+      uncoveredSectionIds: ['S2'],
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Source-document mode for script generation: parses SOPs, procedures and JSA tables into
+ * numbered sections the script model can cite, and maps scene citations back to sections.
+ *
+ * Plain text and Markdown split on headings, DOCX is converted to the same Markdown-like
+ * text (headings, list items, table rows), and CSV rows become one section per JSA step with
+ * its hazards and controls. Long sections are chunked so each stays small enough to cite.
+ */
+
+import mammoth from 'mammoth';
+import { SOURCE_CHUNK_CHARS } from '@/lib/constants';
+import type { Scene, SourceDocumentInput, SourceDocumentSummary } from '@/lib/types';
+
+export interface SourceSection {
+  /** Citation id, e.g. "S3". */
+  id: string;
+  heading: string;
+  text: string;
+}
+
+type RawSection = Omit<SourceSection, 'id'>;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+/** Reduces mammoth's HTML to Markdown-like text: headings, list items and table rows. */
+function htmlToText(html: string): string {
+  const stripTags = (s: string) => s.replace(/<[^>]+>/g, '');
+  return stripTags(
+    html
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/g, (_, level: string, t: string) =>
+        `\n${'#'.repeat(Number(level))} ${stripTags(t)}\n`
+      )
+      .replace(/<li[^>]*>/g, '\n- ')
+      .replace(/<\/t[dh]>/g, ' | ')
+      .replace(/<br\s*\/?>/g, '\n')
+      .replace(/<\/(p|li|tr|table)>/g, '\n')
+  )
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (e) => HTML_ENTITIES[e] ?? e)
+    .replace(/ \| \n/g, '\n');
+}
+
+/** Splits Markdown (or plain text) on headings; text before the first heading uses `fallbackHeading`. */
+export function parseMarkdownSections(text: string, fallbackHeading: string): RawSection[] {
+  const sections: RawSection[] = [];
+  let heading = fallbackHeading;
+  let lines: string[] = [];
+  const flush = () => {
+    const body = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (body) sections.push({ heading, text: body });
+    lines = [];
+  };
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      flush();
+      heading = match[1];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+/** RFC 4180-style CSV (quoted fields, doubled quotes); tab-separated when the header has more tabs than commas. */
+export function parseCsvRows(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/\t/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? '\t' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(Boolean)) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(Boolean)) rows.push(row);
+  return rows;
+}
+
+const JSA_COLUMNS = {
+  step: /step|task|activity/i,
+  hazard: /hazard|risk/i,
+  control: /control|precaution|mitigation|recommended|safe (practice|procedure)/i,
+};
+
+/**
+ * One section per table row. When the header has JSA step, hazard and control columns, rows
+ * read "Step / Hazards / Controls"; otherwise each row lists its header: value pairs.
+ */
+export function parseJsaSections(rows: string[][]): RawSection[] {
+  const [header, ...body] = rows;
+  if (!header || body.length === 0) return [];
+  const find = (pattern: RegExp) => header.findIndex((h) => pattern.test(h));
+  const stepCol = find(JSA_COLUMNS.step);
+  const hazardCol = find(JSA_COLUMNS.hazard);
+  const controlCol = find(JSA_COLUMNS.control);
+  const labelled = new Set([stepCol, hazardCol, controlCol]);
+
+  return body.map((row, n) => {
+    const cell = (i: number) => (i >= 0 ? (row[i] ?? '') : '');
+    const lines: string[] = [];
+    if (stepCol >= 0) lines.push(`Step: ${cell(stepCol)}`);
+    if (hazardCol >= 0 && cell(hazardCol)) lines.push(`Hazards: ${cell(hazardCol)}`);
+    if (controlCol >= 0 && cell(controlCol)) lines.push(`Controls: ${cell(controlCol)}`);
+    header.forEach((h, i) => {
+      if (!labelled.has(i) && cell(i)) lines.push(`${h || `Column ${i + 1}`}: ${cell(i)}`);
+    });
+    const step = cell(stepCol);
+    const heading =
+      stepCol >= 0 && step
+        ? `Step ${n + 1}: ${step.length > 80 ? `${step.slice(0, 77)}...` : step}`
+        : `Row ${n + 1}`;
+    return { heading, text: lines.join('\n') };
+  });
+}
+
+/** Splits text at paragraph, then line, then sentence boundaries into pieces of at most `maxChars`. */
+function splitText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+  const separators = ['\n\n', '\n', '. '];
+  for (const sep of separators) {
+    const parts = text.split(sep);
+    if (parts.length < 2) continue;
+    const chunks: string[] = [];
+    let current = '';
+    for (const part of parts) {
+      const next = current ? `${current}${sep}${part}` : part;
+      if (next.length > maxChars && current) {
+        chunks.push(current);
+        current = part;
+      } else {
+        current = next;
+      }
+    }
+    if (current) chunks.push(current);
+    return chunks.flatMap((c) => splitText(c.trim(), maxChars));
+  }
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += maxChars) chunks.push(text.slice(i, i + maxChars));
+  return chunks;
+}
+
+/** Chunks oversized sections and assigns citation ids S1..Sn in document order. */
+export function chunkSections(sections: RawSection[], maxChars = SOURCE_CHUNK_CHARS): SourceSection[] {
+  const chunked = sections.flatMap((s) => {
+    const parts = splitText(s.text, maxChars);
+    return parts.map((text, i) => ({
+      heading: parts.length > 1 ? `${s.heading} (part ${i + 1})` : s.heading,
+      text,
+    }));
+  });
+  return chunked.map((s, i) => ({ id: `S${i + 1}`, ...s }));
+}
+
+/** Parses an uploaded document into citable sections. Throws when it has no usable text. */
+export async function parseSourceDocument(input: SourceDocumentInput): Promise<SourceSection[]> {
+  const title = input.name.replace(/\.[^.]+$/, '') || 'Document';
+  let sections: RawSection[];
+  switch (input.format) {
+    case 'csv':
+      sections = parseJsaSections(parseCsvRows(input.content));
+      break;
+    case 'docx': {
+      const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(input.content, 'base64') });
+      sections = parseMarkdownSections(htmlToText(value), title);
+      break;
+    }
+    default:
+      sections = parseMarkdownSections(input.content, title);
+  }
+  const chunked = chunkSections(sections);
+  if (chunked.length === 0) throw new Error('Source document has no readable text');
+  return chunked;
+}
+
+/** Sections as prompt text, each introduced by its citation id. */
+export function formatSourceSections(sections: SourceSection[]): string {
+  return sections.map((s) => `[${s.id}] ${s.heading}\n${s.text}`).join('\n\n');
+}
+
+/**
+ * Replaces the model's `sourceSection` citation on each scene with a SourceReference.
+ * Citations that do not name a known section are dropped.
+ */
+export function attachSourceRefs(
+  scenes: (Scene & { sourceSection?: string })[],
+  sections: SourceSection[],
+  documentName: string
+): Scene[] {
+  const byId = new Map(sections.map((s) => [s.id.toUpperCase(), s]));
+  return scenes.map(({ sourceSection, ...scene }) => {
+    const id = sourceSection?.match(/S\d+/i)?.[0].toUpperCase();
+    const section = id ? byId.get(id) : undefined;
+    return section
+      ? { ...scene, sourceRef: { sectionId: section.id, heading: section.heading, documentName } }
+      : scene;
+  });
+}
+
+export function summarizeSourceCoverage(
+  input: SourceDocumentInput,
+  sections: SourceSection[],
+  scenes: Scene[]
+): SourceDocumentSummary {
+  const cited = new Set(scenes.map((s) => s.sourceRef?.sectionId).filter(Boolean));
+  return {
+    name: input.name,
+    format: input.format,
+    sections: sections.map(({ id, heading }) => ({ id, heading })),
+    uncoveredSectionIds: sections.filter((s) => !cited.has(s.id)).map((s) => s.id),
+  };
+}
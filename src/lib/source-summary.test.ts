@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SOURCE_DIRECT_CHARS } from './constants';
+import { condenseSourceSections } from './source-summary';
+
+const mockCreate = vi.fn();
+vi.mock('@/lib/openai-client', () => ({
+  openai: {
+    chat: { completions: { create: (...args: unknown[]) => mockCreate(...args) } },
+  },
+}));
+
+const section = (id: string, chars: number) => ({ id, heading: `Section ${id}`, text: 'x'.repeat(chars) });
+
+describe('condenseSourceSections', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('passes short documents through unchanged', async () => {
+    const sections = [section('S1', 500), section('S2', 500)];
+    expect(await condenseSourceSections(sections)).toBe(sections);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('summarizes only sections over their share of the budget', async () => {
+    mockCreate.mockResolvedValue({ choices: [{ message: { content: 'Step 1: lock out. Step 2: inspect.' } }] });
+    const sections = [section('S1', 100), section('S2', 15_000)];
+
+    const condensed = await condenseSourceSections(sections);
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(mockCreate.mock.calls[0][0].messages[1].content).toContain('Section S2');
+    expect(condensed).toEqual([sections[0], { ...sections[1], text: 'Step 1: lock out. Step 2: inspect.' }]);
+  });
+
+  it('merges adjacent sections of a document with many, bounding the size and summary calls', async () => {
+    mockCreate.mockResolvedValue({ choices: [{ message: { content: 'Lock out, then verify zero energy.' } }] });
+    const sections = Array.from({ length: 700 }, (_, i) => section(`S${i + 1}`, 3000));
+
+    const condensed = await condenseSourceSections(sections);
+
+    expect(condensed).toHaveLength(40);
+    expect(mockCreate).toHaveBeenCalledTimes(40);
+    expect(condensed.reduce((sum, s) => sum + s.text.length, 0)).toBeLessThanOrEqual(SOURCE_DIRECT_CHARS);
+    expect(condensed.slice(0, 2).map((s) => [s.id, s.heading])).toEqual([
+      ['S1', 'Section S1 – Section S17'],
+      ['S18', 'Section S18 – Section S35'],
+    ]);
+    expect(mockCreate.mock.calls[0][0].messages[1].content).toContain('Section S2\nxxx');
+  });
+
+  it('truncates a section when the summary comes back empty', async () => {
+    mockCreate.mockResolvedValue({ choices: [{ message: { content: '' } }] });
+    const [condensed] = await condenseSourceSections([section('S1', 15_000)]);
+    expect(condensed.text.length).toBeLessThanOrEqual(12_000);
+    expect(condensed.text.endsWith('…')).toBe(true);
+  });
+});
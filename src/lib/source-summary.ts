@@ -0,0 +1,93 @@
+/**
+ * Condenses large source documents before script generation.
+ *
+ * Documents up to SOURCE_DIRECT_CHARS go to the script model verbatim. Beyond that, each
+ * section longer than its share of the budget is summarized on its own (keeping steps in
+ * order, hazards, controls and exact figures), so section ids and order are preserved.
+ * Documents with more sections than MAX_CONDENSED_SECTIONS first have adjacent sections merged
+ * (keeping the first one's id), which bounds both the condensed size and the summary calls.
+ */
+
+import { runWithConcurrency } from '@/lib/concurrency';
+import { OPENAI_REQUEST_TIMEOUT_MS, SOURCE_DIRECT_CHARS } from '@/lib/constants';
+import { logWarn } from '@/lib/logger';
+import { getLLMProvider } from '@/lib/providers/llm-providers';
+import { withRetry } from '@/lib/retry';
+import { withTimeout } from '@/lib/timeout';
+import type { SourceSection } from '@/lib/source-documents';
+
+const SUMMARY_CONCURRENCY = 3;
+const MIN_SECTION_BUDGET = 300;
+const MAX_CONDENSED_SECTIONS = Math.floor(SOURCE_DIRECT_CHARS / MIN_SECTION_BUDGET);
+
+const SYSTEM_PROMPT = `You condense sections of workplace safety procedures (SOPs, JSAs) for a training video scriptwriter.
+Keep every step in its original order, every hazard and its controls, and exact numbers, limits, PPE and equipment names. Do not add anything that is not in the text. Plain text only, no preamble.`;
+
+function truncate(text: string, maxChars: number): string {
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars - 1).trimEnd()}…`;
+}
+
+async function summarizeSection(section: SourceSection, maxChars: number): Promise<string> {
+  try {
+    const completion = await withTimeout(
+      withRetry(() =>
+        getLLMProvider().complete({
+          task: 'summary',
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            {
+              role: 'user',
+              content: `Section "${section.heading}". Condense to at most ${maxChars} characters.\n\n${section.text}`,
+            },
+          ],
+          temperature: 0.1,
+          maxTokens: Math.ceil(maxChars / 3),
+        })
+      ),
+      Math.min(OPENAI_REQUEST_TIMEOUT_MS, 30_000),
+      'Source summary timed out'
+    );
+    const summary = completion.content?.trim();
+    if (summary) return truncate(summary, maxChars);
+  } catch (e) {
+    logWarn('Source section summary failed; truncating', {
+      section: section.id,
+      error: e instanceof Error ? e.message : String(e),
+    });
+  }
+  return truncate(section.text, maxChars);
+}
+
+/** At most MAX_CONDENSED_SECTIONS sections, merging runs of adjacent ones of about equal count. */
+function mergeAdjacentSections(sections: SourceSection[]): SourceSection[] {
+  if (sections.length <= MAX_CONDENSED_SECTIONS) return sections;
+  const merged: SourceSection[] = [];
+  for (let g = 0; g < MAX_CONDENSED_SECTIONS; g++) {
+    const group = sections.slice(
+      Math.floor((g * sections.length) / MAX_CONDENSED_SECTIONS),
+      Math.floor(((g + 1) * sections.length) / MAX_CONDENSED_SECTIONS)
+    );
+    const [first] = group;
+    const last = group[group.length - 1];
+    merged.push({
+      id: first.id,
+      heading: group.length > 1 ? `${first.heading} – ${last.heading}` : first.heading,
+      text: group.map((s, i) => (i === 0 ? s.text : `${s.heading}\n${s.text}`)).join('\n\n'),
+    });
+  }
+  return merged;
+}
+
+/** Returns sections that fit the script prompt, summarizing the long ones when needed. */
+export async function condenseSourceSections(sections: SourceSection[]): Promise<SourceSection[]> {
+  const total = sections.reduce((sum, s) => sum + s.text.length, 0);
+  if (total <= SOURCE_DIRECT_CHARS) return sections;
+
+  const merged = mergeAdjacentSections(sections);
+  const budget = Math.floor(SOURCE_DIRECT_CHARS / merged.length);
+  return runWithConcurrency(merged, SUMMARY_CONCURRENCY, async (section) =>
+    section.text.length <= budget
+      ? section
+      : { ...section, text: await summarizeSection(section, budget) }
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Server-sent events helpers shared by streaming routes and their clients.
+ * Events are `{ type, ...payload }` objects; `type` doubles as the SSE event name.
+ */
+
+/** Serialize one event as an SSE frame. */
+export function formatSseEvent<T extends { type: string }>(event: T): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/** Standard headers for an SSE response (disables proxy buffering and caching). */
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+} as const;
+
+/**
+ * Parse an SSE response body into events. Frames without a data line are skipped;
+ * a malformed data line throws so callers surface it like any other response error.
+ */
+export async function* readSseEvents<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let sep: number;
+      while ((sep = buffer.indexOf('\n\n')) >= 0) {
+        const frame = buffer.slice(0, sep);
+        buffer = buffer.slice(sep + 2);
+        const data = frame
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield JSON.parse(data) as T;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
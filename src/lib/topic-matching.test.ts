@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getAllEHSTopics } from './ehs-reference';
+import { matchTopics, stem } from './topic-matching';
+
+const ids = (text: string, options?: Parameters<typeof matchTopics>[2]) =>
+  matchTopics(text, getAllEHSTopics(), options).map((m) => m.topicId);
+
+describe('topic-matching', () => {
+  it('stems inflected forms to the same root', () => {
+    expect(stem('walkways')).toBe(stem('walkway'));
+    expect(stem('slipping')).toBe(stem('slip'));
+    expect(stem('evacuation')).toBe(stem('evacuate'));
+    expect(stem('trenches')).toBe(stem('trench'));
+    expect(stem('electricity')).toBe(stem('electrical'));
+  });
+
+  it('matches whole words only', () => {
+    expect(ids('Spitting and hospital visits')).toEqual([]);
+    expect(ids('Firearm storage policy')).toEqual([]);
+  });
+
+  it('matches all-caps keywords only as written', () => {
+    expect(ids('Open pit mine orientation')).not.toContain('forklift');
+    expect(ids('PIT operator refresher')).toContain('forklift');
+  });
+
+  it('lets longer phrases claim their words', () => {
+    const welding = matchTopics('Hot work permit and fire watch for welding', getAllEHSTopics());
+    expect(welding[0].topicId).toBe('welding-hot-work');
+    expect(welding.map((m) => m.topicId)).not.toContain('fire-evacuation');
+    expect(ids('Fall protection for roof work')).not.toContain('slip-trip-fall');
+  });
+
+  it('maps paraphrases onto topic keywords through the synonym table', () => {
+    const [forklift] = matchTopics('Training for lift truck drivers', getAllEHSTopics());
+    expect(forklift.topicId).toBe('forklift');
+    expect(forklift.matchedTerms).toContainEqual({ term: 'lift truck', keyword: 'lift truck', weight: 1.5 });
+
+    const [electrical] = matchTopics('What causes arcing in switchgear', getAllEHSTopics());
+    expect(electrical).toMatchObject({ topicId: 'electrical' });
+    expect(electrical.matchedTerms[0]).toMatchObject({ term: 'arcing', keyword: 'arc flash' });
+  });
+
+  it('scores more and more specific matches higher', () => {
+    const [weak] = matchTopics('warehouse', getAllEHSTopics());
+    const [strong] = matchTopics('Forklift pre-use inspection in the warehouse loading dock', getAllEHSTopics());
+    expect(weak.topicId).toBe('forklift');
+    expect(strong.topicId).toBe('forklift');
+    expect(strong.confidence).toBeGreaterThan(weak.confidence);
+    expect(strong.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('applies the confidence threshold and top-N limit', () => {
+    const prompt = 'PPE, fall protection, lockout, confined space entry and forklift safety';
+    expect(ids(prompt).length).toBeGreaterThan(2);
+    expect(ids(prompt, { limit: 2 })).toHaveLength(2);
+    const all = matchTopics(prompt, getAllEHSTopics(), { minConfidence: 0 });
+    const strict = matchTopics(prompt, getAllEHSTopics(), { minConfidence: 0.7 });
+    expect(strict.every((m) => m.confidence >= 0.7)).toBe(true);
+    expect(strict.length).toBeLessThan(all.length);
+  });
+});
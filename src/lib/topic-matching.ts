@@ -0,0 +1,265 @@
+/**
+ * Scored EHS topic matching: which topics a prompt is about, how confident each match is and
+ * which prompt phrases it rests on.
+ *
+ * Prompt and keywords are compared as stemmed word sequences, so "trenches" matches "trench"
+ * but "fire" never matches inside "firearm". Longer phrases claim their words first ("fire
+ * watch" does not also count as "fire"), and SYNONYM_GROUPS maps paraphrases onto topic
+ * keywords ("lift truck driver" → forklift, "arcing" → arc flash). Each matched keyword adds
+ * its weight: phrases weigh more than single words, keywords shared by several topics less,
+ * synonyms a little less. All-caps keywords such as "PIT" match only as written unless a
+ * synonym group lists the lowercase form ("ppe").
+ */
+
+import { TOPIC_MATCH_MAX_TOPICS, TOPIC_MATCH_MIN_CONFIDENCE } from '@/lib/constants';
+import type { EHSTopic } from '@/lib/ehs-reference';
+import type { TopicMatch, TopicMatchTerm } from '@/lib/types';
+
+/** Interchangeable phrasings; a prompt using one counts as the topic keyword it matches. */
+export const SYNONYM_GROUPS: readonly (readonly string[])[] = [
+  ['forklift', 'fork lift', 'forklift truck', 'fork truck', 'lift truck', 'powered industrial truck', 'reach truck', 'order picker'],
+  ['pallet jack', 'pallet truck'],
+  ['warehouse', 'distribution center', 'distribution centre'],
+  ['loading dock', 'loading bay'],
+  ['slip', 'slippery'],
+  ['housekeeping', 'clutter'],
+  ['ppe', 'personal protective equipment'],
+  ['hard hat', 'hardhat', 'safety helmet'],
+  ['safety glasses', 'safety goggles', 'goggles', 'eye protection'],
+  ['high vis', 'hi vis', 'high visibility', 'reflective vest', 'safety vest'],
+  ['evacuation', 'evacuate', 'escape route'],
+  ['assembly point', 'muster point', 'meeting point', 'assembly'],
+  ['extinguisher', 'fire extinguisher'],
+  ['lockout', 'lock out', 'lock off', 'loto', 'lockout tagout'],
+  ['tagout', 'tag out'],
+  ['energy isolation', 'hazardous energy', 'isolate'],
+  ['hazcom', 'hazard communication', 'whmis', 'right to know'],
+  ['sds', 'safety data sheet', 'msds', 'material safety data sheet'],
+  ['ghs', 'globally harmonized system'],
+  ['confined space', 'enclosed space', 'permit space'],
+  ['fall arrest', 'personal fall arrest', 'pfas'],
+  ['harness', 'full body harness'],
+  ['guardrail', 'guard rail'],
+  ['electrical', 'electric', 'electricity', 'energized', 'live circuit'],
+  ['electrocution', 'electric shock'],
+  ['arc flash', 'arc blast', 'arcing'],
+  ['gfci', 'rcd', 'ground fault'],
+  ['extension cord', 'extension lead'],
+  ['machine guard', 'machine guarding', 'safeguarding'],
+  ['nip point', 'pinch point'],
+  ['ergonomics', 'ergonomic', 'manual handling'],
+  ['msd', 'musculoskeletal disorder', 'repetitive strain', 'rsi'],
+  ['back injury', 'back strain'],
+  ['bloodborne', 'blood borne'],
+  ['needlestick', 'needle stick', 'sharps injury'],
+  ['respirator', 'respiratory protection', 'dust mask'],
+  ['scba', 'self contained breathing apparatus', 'breathing apparatus'],
+  ['n95', 'n95 respirator'],
+  ['fit test', 'fit testing'],
+  ['earplug', 'ear plug', 'ear defender', 'ear muff', 'earmuff', 'hearing protection'],
+  ['decibel', 'db', 'dba'],
+  ['welding', 'welder', 'brazing'],
+  ['grinder', 'angle grinder'],
+  ['scaffold', 'scaffolding'],
+  ['excavation', 'digging'],
+  ['trench', 'ditch'],
+  ['cave in', 'trench collapse'],
+  ['cpr', 'cardiopulmonary resuscitation'],
+  ['aed', 'defibrillator'],
+  ['911', '999', '112', 'emergency services'],
+  ['heat stroke', 'heatstroke'],
+  ['heat stress', 'heat illness', 'hot weather'],
+  ['hydration', 'drinking water', 'hydrate'],
+  ['crane', 'overhead crane', 'mobile crane', 'tower crane'],
+  ['rigging', 'rigger'],
+  ['tagline', 'tag line'],
+];
+
+/** Weight of a multi-word keyword relative to a single word. */
+const PHRASE_WEIGHT = 1.5;
+
+/** Weight of a synonym match relative to the keyword itself. */
+const SYNONYM_FACTOR = 0.8;
+
+export interface TopicMatchOptions {
+  /** Drop topics below this confidence (default TOPIC_MATCH_MIN_CONFIDENCE). */
+  minConfidence?: number;
+  /** Keep at most this many topics (default TOPIC_MATCH_MAX_TOPICS). */
+  limit?: number;
+}
+
+/**
+ * Light suffix stripping so inflected forms compare equal ("walkways" → "walkway", "slipping"
+ * → "slip", "evacuation" and "evacuate" → "evacu"). Not a full Porter stemmer; it only has to
+ * map a prompt word and a keyword to the same stem.
+ */
+export function stem(word: string): string {
+  let w = word.toLowerCase();
+  if (w.length <= 3) return w;
+  if (w.endsWith('ies') && w.length > 4) return `${w.slice(0, -3)}y`;
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (/(?:ch|sh|x|z)es$/.test(w)) w = w.slice(0, -2);
+  else if (w.endsWith('s') && !/(?:ss|us|is)$/.test(w)) w = w.slice(0, -1);
+  for (const [suffix, minStem] of [['ation', 4], ['ing', 3], ['ed', 3], ['ity', 4], ['ate', 4]] as const) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= minStem) {
+      w = w.slice(0, -suffix.length);
+      break;
+    }
+  }
+  if (/([b-df-hj-km-rtv-y])\1$/.test(w)) w = w.slice(0, -1);
+  if (w.endsWith('ical')) w = w.slice(0, -2);
+  return w;
+}
+
+interface Token {
+  raw: string;
+  stem: string;
+}
+
+function tokenize(text: string): Token[] {
+  return (text.match(/[A-Za-z0-9]+/g) ?? []).map((raw) => ({ raw, stem: stem(raw) }));
+}
+
+/** "PIT", "LOTO", "N95": matched case-sensitively so ordinary words don't trigger them. */
+function isAcronym(phrase: string): boolean {
+  return /^[A-Z0-9]{2,}$/.test(phrase) && /[A-Z]/.test(phrase);
+}
+
+interface Entry {
+  /** Stems, or raw tokens when case-sensitive. */
+  tokens: string[];
+  caseSensitive: boolean;
+  /** Topic id → keyword this phrase counts as, with its synonym factor. */
+  targets: Map<string, { keyword: string; factor: number }>;
+}
+
+interface TopicIndex {
+  /** Entries by first token (stem, or "=" + raw token for case-sensitive ones), longest first. */
+  byFirstToken: Map<string, Entry[]>;
+  labels: Map<string, string>;
+  order: Map<string, number>;
+}
+
+const indexCache = new WeakMap<readonly Pick<EHSTopic, 'id' | 'label' | 'keywords'>[], TopicIndex>();
+
+function phraseKey(phrase: string): string {
+  return tokenize(phrase)
+    .map((t) => t.stem)
+    .join(' ');
+}
+
+function buildIndex(topics: readonly Pick<EHSTopic, 'id' | 'label' | 'keywords'>[]): TopicIndex {
+  const entries = new Map<string, Entry>();
+  const groupsByKey = new Map<string, string[][]>();
+  for (const group of SYNONYM_GROUPS) {
+    for (const member of group) {
+      const key = phraseKey(member);
+      groupsByKey.set(key, [...(groupsByKey.get(key) ?? []), [...group]]);
+    }
+  }
+
+  const add = (phrase: string, caseSensitive: boolean, topicId: string, keyword: string, factor: number) => {
+    const tokens = tokenize(phrase).map((t) => (caseSensitive ? t.raw : t.stem));
+    if (tokens.length === 0) return;
+    const mapKey = `${caseSensitive ? '=' : ''}${tokens.join(' ')}`;
+    let entry = entries.get(mapKey);
+    if (!entry) {
+      entry = { tokens, caseSensitive, targets: new Map() };
+      entries.set(mapKey, entry);
+    }
+    const existing = entry.targets.get(topicId);
+    if (!existing || existing.factor < factor) entry.targets.set(topicId, { keyword, factor });
+  };
+
+  for (const topic of topics) {
+    for (const keyword of topic.keywords) {
+      add(keyword, isAcronym(keyword), topic.id, keyword, 1);
+      const key = phraseKey(keyword);
+      for (const group of groupsByKey.get(key) ?? []) {
+        for (const member of group) {
+          add(member, false, topic.id, keyword, phraseKey(member) === key ? 1 : SYNONYM_FACTOR);
+        }
+      }
+    }
+  }
+
+  const byFirstToken = new Map<string, Entry[]>();
+  for (const entry of entries.values()) {
+    const first = `${entry.caseSensitive ? '=' : ''}${entry.tokens[0]}`;
+    byFirstToken.set(first, [...(byFirstToken.get(first) ?? []), entry]);
+  }
+  for (const list of byFirstToken.values()) list.sort((a, b) => b.tokens.length - a.tokens.length);
+
+  return {
+    byFirstToken,
+    labels: new Map(topics.map((t) => [t.id, t.label])),
+    order: new Map(topics.map((t, i) => [t.id, i])),
+  };
+}
+
+function entryMatchesAt(entry: Entry, tokens: Token[], start: number): boolean {
+  if (start + entry.tokens.length > tokens.length) return false;
+  return entry.tokens.every((t, j) => t === (entry.caseSensitive ? tokens[start + j].raw : tokens[start + j].stem));
+}
+
+/**
+ * Scores `topics` against `text` and returns those at or above the confidence threshold,
+ * highest first, each with the prompt phrases that matched.
+ */
+export function matchTopics(
+  text: string,
+  topics: readonly Pick<EHSTopic, 'id' | 'label' | 'keywords'>[],
+  options: TopicMatchOptions = {}
+): TopicMatch[] {
+  const { minConfidence = TOPIC_MATCH_MIN_CONFIDENCE, limit = TOPIC_MATCH_MAX_TOPICS } = options;
+  let index = indexCache.get(topics);
+  if (!index) {
+    index = buildIndex(topics);
+    indexCache.set(topics, index);
+  }
+
+  const tokens = tokenize(text);
+  /** Topic id → keyword → best term that matched it. */
+  const hits = new Map<string, Map<string, TopicMatchTerm>>();
+  let i = 0;
+  while (i < tokens.length) {
+    const candidates = [
+      ...(index.byFirstToken.get(tokens[i].stem) ?? []),
+      ...(index.byFirstToken.get(`=${tokens[i].raw}`) ?? []),
+    ].filter((entry) => entryMatchesAt(entry, tokens, i));
+    if (candidates.length === 0) {
+      i++;
+      continue;
+    }
+    const length = Math.max(...candidates.map((e) => e.tokens.length));
+    const term = tokens
+      .slice(i, i + length)
+      .map((t) => t.raw.toLowerCase())
+      .join(' ');
+    for (const entry of candidates.filter((e) => e.tokens.length === length)) {
+      const base = (length > 1 ? PHRASE_WEIGHT : 1) / entry.targets.size;
+      for (const [topicId, { keyword, factor }] of entry.targets) {
+        const weight = Math.round(base * factor * 100) / 100;
+        const byKeyword = hits.get(topicId) ?? new Map<string, TopicMatchTerm>();
+        if ((byKeyword.get(keyword)?.weight ?? 0) < weight) byKeyword.set(keyword, { term, keyword, weight });
+        hits.set(topicId, byKeyword);
+      }
+    }
+    i += length;
+  }
+
+  const matches: TopicMatch[] = [];
+  for (const [topicId, byKeyword] of hits) {
+    const matchedTerms = [...byKeyword.values()].sort((a, b) => b.weight - a.weight);
+    const score = matchedTerms.reduce((sum, m) => sum + m.weight, 0);
+    const confidence = Math.round((1 - Math.exp(-score)) * 100) / 100;
+    if (confidence < minConfidence) continue;
+    matches.push({ topicId, label: index.labels.get(topicId) ?? topicId, confidence, matchedTerms });
+  }
+  return matches
+    .sort(
+      (a, b) =>
+        b.confidence - a.confidence || (index.order.get(a.topicId) ?? 0) - (index.order.get(b.topicId) ?? 0)
+    )
+    .slice(0, limit);
+}
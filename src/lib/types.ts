@@ -1,8 +1,21 @@
+import type { Jurisdiction, LanguageCode, SourceDocumentFormat, UsState } from '@/lib/constants';
+
+/** Where a scene came from in a source document (generate-script document mode). */
+export interface SourceReference {
+  /** Section id within the parsed document, e.g. "S3". */
+  sectionId: string;
+  /** Section heading, JSA step or row label. */
+  heading: string;
+  documentName: string;
+}
+
 export interface Scene {
   narration: string;
   imagePrompt: string;
   /** Estimated duration in seconds (for TTS we'll get real duration) */
   duration?: number;
+  /** Source document section this scene covers (document mode only). */
+  sourceRef?: SourceReference;
 }
 
 export interface UnverifiedSignMention {
@@ -10,6 +23,22 @@ export interface UnverifiedSignMention {
   mentions: string[];
 }
 
+/** A flagged myth or avoided term located in one scene field. */
+export interface EHSSceneFinding {
+  sceneIndex: number;
+  field: 'narration' | 'imagePrompt';
+  kind: 'myth' | 'terminology';
+  /** Character offsets into the field; `end` is exclusive. */
+  start: number;
+  end: number;
+  /** The field's text at [start, end). */
+  text: string;
+  /** Reference phrase that matched: the myth, or the term to avoid. */
+  match: string;
+  /** Preferred term, cased like `text` (terminology only). */
+  replacement?: string;
+}
+
 /** EHS reference validation result; augments and checks script content. */
 export interface EHSValidation {
   topicIds: string[];
@@ -17,6 +46,78 @@ export interface EHSValidation {
   terminologySuggestions: { found: string; prefer: string }[];
   mythsFlagged: string[];
   missingRecommendations: string[];
+  /** Where flagged myths and terms occur, per scene, in scene order. */
+  sceneFindings?: EHSSceneFinding[];
+}
+
+/** How fully a script addresses one key fact, best practice or common hazard of an EHS topic. */
+export interface EHSCoverageItem {
+  topicId: string;
+  kind: 'keyFact' | 'bestPractice' | 'commonHazard';
+  /** From the kind: key facts high, common hazards medium, best practices low. */
+  severity: 'high' | 'medium' | 'low';
+  text: string;
+  status: 'covered' | 'partial' | 'missing';
+  /** Share of the item's content terms found in the best-matching scene (0–1). */
+  score: number;
+  /** Scenes that address the item at least partially. */
+  sceneIndices: number[];
+}
+
+/** Coverage of one matched EHS topic. */
+export interface EHSTopicCoverage {
+  topicId: string;
+  label: string;
+  /** 0–100; a partially covered item counts half. */
+  percent: number;
+  items: EHSCoverageItem[];
+}
+
+/** Per-topic EHS coverage of a script, for sign-off on completeness. */
+export interface EHSCoverageReport {
+  /** 0–100 over all items of all topics; a partially covered item counts half. */
+  percent: number;
+  topics: EHSTopicCoverage[];
+  /** Missing items, most severe first; within a severity, earlier (better matched) topics first. */
+  topMissing: EHSCoverageItem[];
+}
+
+/** Prompt phrase that counted toward an EHS topic match. */
+export interface TopicMatchTerm {
+  /** Phrase as it appears in the prompt (lowercased). */
+  term: string;
+  /** Topic keyword it matched; differs from `term` for synonyms. */
+  keyword: string;
+  weight: number;
+}
+
+/** EHS topic selected for a prompt, with why it was selected. */
+export interface TopicMatch {
+  topicId: string;
+  label: string;
+  /** 0–1; grows with the number and specificity of matched terms. */
+  confidence: number;
+  matchedTerms: TopicMatchTerm[];
+}
+
+/** Regulation passage retrieved from the bundled corpus and given to the model (Phase 2 RAG). */
+export interface RetrievedSource {
+  /** Paragraph-level citation, e.g. "29 CFR 1910.178(l)(4)(iii)". */
+  citation: string;
+  title: string;
+  url?: string;
+}
+
+/** Reference text a claim was checked against, quoted exactly (fact verification). */
+export interface VerificationPassage {
+  text: string;
+  /** A fact from the EHS pack, bundled regulation text or a state-plan section, or live eCFR text. */
+  origin: 'ehs-reference' | 'regulation' | 'ecfr';
+  /** Paragraph-level where known, e.g. "29 CFR 1910.178(l)(4)(iii)". */
+  citation?: string;
+  url?: string;
+  /** eCFR effective date of the text. */
+  effectiveDate?: string;
 }
 
 /** Single factual claim verification result (Phase 3). */
@@ -28,10 +129,66 @@ export interface FactVerificationResult {
   confidence: number;
   /** Chain-of-thought reasoning explaining how the claim was verified against the reference. */
   reasoning?: string;
+  /** Citation supporting the verdict, or 'rule' for a deterministic numeric check (reasoning names the reference). */
   source?: string;
+  /** The reference passage the verdict rests on. */
+  passage?: VerificationPassage;
   correction?: string;
 }
 
+/** Audit record for one claim rewritten by the auto-correct loop. */
+export interface ClaimCorrection {
+  /** Auto-correct round (1-based) in which the scene was rewritten. */
+  round: number;
+  sceneIndex: number;
+  claim: string;
+  /** Correction from fact verification that the rewrite applied. */
+  correction: string;
+  /** Verifier reasoning for flagging the claim. */
+  reason?: string;
+  source?: string;
+  narrationBefore: string;
+  narrationAfter: string;
+  /** True when re-verification found no unverified claims left in the rewritten scene. */
+  resolved: boolean;
+}
+
+/** Estimated narration runtime compared with the requested target (generate-script). */
+export interface DurationCheck {
+  targetSeconds: number;
+  estimatedSeconds: number;
+  status: 'ok' | 'too_long' | 'too_short';
+  /** Trailing sentences were dropped to bring an over-long script closer to the target. */
+  trimmed: boolean;
+  /** Reviewer-facing summary when the estimate misses the target. */
+  message?: string;
+}
+
+/** Uploaded source document for generate-script document mode. */
+export interface SourceDocumentInput {
+  name: string;
+  format: SourceDocumentFormat;
+  /** Document text; base64 of the file for DOCX. */
+  content: string;
+}
+
+/** Source document a script was generated from, with sections no scene referenced. */
+export interface SourceDocumentSummary {
+  name: string;
+  format: SourceDocumentFormat;
+  sections: { id: string; heading: string }[];
+  /** Section ids that no scene references; review these for omitted steps. */
+  uncoveredSectionIds: string[];
+}
+
+/** EHS data pack a script was generated and validated against. */
+export interface EHSPackVersion {
+  id: string;
+  version: string;
+  /** Org site-rule overlay applied on top of the pack. */
+  overlay?: { id: string; version: string };
+}
+
 export interface ScriptResult {
   title: string;
   /** One sentence describing the same art style for every scene (for consistent look) */
@@ -39,12 +196,114 @@ export interface ScriptResult {
   scenes: Scene[];
   /** Sign-like phrases not in the safety-signs reference (ANSI/OSHA); flag for review. */
   unverifiedSignMentions?: UnverifiedSignMention[];
+  /** EHS topics matched to the prompt, with confidence and matched terms. */
+  topicMatches?: TopicMatch[];
   /** EHS reference check: warnings, terminology, myths, missing points. */
   ehsValidation?: EHSValidation;
+  /** Which reference facts, practices and hazards of the matched topics the script covers. */
+  coverageReport?: EHSCoverageReport;
   /** Fact verification: per-claim status (verified, needs_review, unverified). */
   factVerification?: FactVerificationResult[];
   /** Live regulation citations used (Phase 5; e.g. "29 CFR 1910.178 (2024-01-15)"). */
   regulatorySources?: string[];
+  /** Regulation passages retrieved from the offline corpus and injected into the prompt. */
+  retrievedSources?: RetrievedSource[];
+  /** Narration/caption language; omitted means English. */
+  language?: LanguageCode;
+  /** Jurisdiction whose EHS pack and sign standard the script was checked against; omitted means US. */
+  jurisdiction?: Jurisdiction;
+  /** US state of the site; a state-plan state adds its regulations to the live lookups. */
+  siteState?: UsState;
+  /** Claims rewritten by the opt-in auto-correct loop, for review. */
+  autoCorrections?: ClaimCorrection[];
+  /** Runtime estimate when a target duration was requested. */
+  durationCheck?: DurationCheck;
+  /** Present when the script was generated from a source document. */
+  sourceDocument?: SourceDocumentSummary;
+  /** EHS data pack used for prompt facts and validation. */
+  ehsPack?: EHSPackVersion;
+}
+
+/**
+ * Server-sent event from POST /api/generate-script with `stream: true`, in emission order.
+ * `scene` events are provisional; `script` carries the validated scenes and `done` the full
+ * result (same shape as the JSON response).
+ */
+export type ScriptStreamEvent =
+  | { type: 'regulatorySources'; regulatorySources: string[] }
+  | { type: 'retrievedSources'; retrievedSources: RetrievedSource[] }
+  | { type: 'title'; title: string; visualStyle?: string }
+  | { type: 'scene'; index: number; scene: Scene }
+  | { type: 'script'; script: ScriptResult }
+  | { type: 'unverifiedSignMentions'; unverifiedSignMentions: UnverifiedSignMention[] }
+  | { type: 'ehsValidation'; ehsValidation: EHSValidation }
+  | { type: 'coverageReport'; coverageReport: EHSCoverageReport }
+  | { type: 'factVerification'; factVerification: FactVerificationResult[] }
+  | {
+      type: 'autoCorrections';
+      scenes: Scene[];
+      factVerification: FactVerificationResult[];
+      autoCorrections: ClaimCorrection[];
+    }
+  | { type: 'done'; result: ScriptResult }
+  | { type: 'error'; error: string; code: string };
+
+/** How a scene changed between the original and revised script (POST /api/revise-script). */
+export type SceneChangeStatus = 'unchanged' | 'moved' | 'modified' | 'added' | 'removed';
+
+export interface SceneDiff {
+  status: SceneChangeStatus;
+  /** Position in the revised script; null for removed scenes. */
+  index: number | null;
+  /** Position in the original script; null for added scenes. */
+  previousIndex: number | null;
+  /** Fields that differ, for modified scenes. */
+  changedFields?: ('narration' | 'imagePrompt')[];
+  /** Original scene, for modified and removed scenes. */
+  before?: Scene;
+}
+
+/** Response from POST /api/revise-script. */
+export interface ScriptRevisionResult {
+  script: ScriptResult;
+  /** Revised scenes in order, followed by removed scenes. */
+  diff: SceneDiff[];
+  /** Revised-script indices of modified and added scenes (the ones that were re-checked). */
+  changedSceneIndices: number[];
+}
+
+/** Response from POST /api/verify-script. */
+export interface ScriptVerificationResult {
+  script: ScriptResult;
+  /** Scenes sent to the fact verifier because they changed since they were last checked. */
+  checkedSceneIndices: number[];
+  /** Scenes whose fact-check results were reused from an earlier check. */
+  cachedSceneIndices: number[];
+}
+
+export type QuizQuestionType = 'multiple_choice' | 'true_false';
+
+/** Knowledge-check question grounded in one EHS reference statement (POST /api/generate-quiz). */
+export interface QuizQuestion {
+  type: QuizQuestionType;
+  question: string;
+  correctAnswer: string;
+  /** Wrong options: three for multiple choice, the opposite answer for true/false. */
+  distractors: string[];
+  rationale: string;
+  /** Scene (0-based) that teaches the tested point. */
+  sceneIndex: number;
+  /** EHS topic and key fact or best practice the question is based on. */
+  topicId: string;
+  reference: string;
+}
+
+/** Response from POST /api/generate-quiz. */
+export interface QuizResult {
+  title: string;
+  /** Topics whose reference facts the questions were drawn from. */
+  topicIds: string[];
+  questions: QuizQuestion[];
 }
 
 export interface SceneAssets {
@@ -58,3 +317,92 @@ export interface SceneAssets {
   /** Narration text for burn-in captions (optional) */
   narration?: string;
 }
+
+export type VideoJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** Options for a server-side video job (mirrors client VideoGenerationOptions). */
+export interface VideoJobOptions {
+  highQuality: boolean;
+  voice: string;
+  draft: boolean;
+  captions: boolean;
+  safetyKeywords?: string;
+  language?: LanguageCode;
+}
+
+/** Regulation text a job's script cited (from regulatorySources), as hashed when the job was created. */
+export interface RegulationBaseline {
+  /** e.g. "29 CFR 1910.178" */
+  citation: string;
+  /** Effective date of the text the script was generated against. */
+  effectiveDate: string;
+  /** SHA-256 of the section text. */
+  textHash: string;
+}
+
+/** Server-side video generation job; persisted so it survives a process restart. */
+export interface VideoJob {
+  id: string;
+  status: VideoJobStatus;
+  /** What the job is doing now: generating scene assets, assembling, or finished. */
+  phase: 'assets' | 'assembly' | 'done';
+  createdAt: string;
+  updatedAt: string;
+  script: ScriptResult;
+  options: VideoJobOptions;
+  /** True when scenes use Tier 3 video clips instead of images (fixed at creation). */
+  useVideo: boolean;
+  /** Per-scene progress; completed scenes are skipped when a job resumes. */
+  scenes: { status: 'pending' | 'completed' | 'failed'; error?: string }[];
+  error?: string;
+  /** Cited regulation text at creation, for change detection; absent when none was looked up. */
+  regulations?: RegulationBaseline[];
+}
+
+/** GET /api/jobs/:id response: job state plus derived progress and download URL. */
+export interface VideoJobStatusResponse extends VideoJob {
+  completedScenes: number;
+  /** Present once the job has completed. */
+  videoUrl?: string;
+}
+
+/** One run of a word-level text diff. */
+export interface TextDiffSegment {
+  op: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/** A cited regulation whose text differs at a newer effective date. */
+export interface RegulationChange {
+  citation: string;
+  /** Effective date the videos were generated against. */
+  fromDate: string;
+  /** Effective date the text was compared at. */
+  toDate: string;
+  previousHash: string;
+  currentHash: string;
+  /** Word-level diff; null when the earlier text is no longer available to compare. */
+  diff: TextDiffSegment[] | null;
+  /** Jobs whose script cited the earlier text. */
+  jobIds: string[];
+}
+
+/** Report from GET /api/regulations/changes: cited regulations that changed and the videos affected. */
+export interface RegulationChangeReport {
+  checkedAt: string;
+  /** Effective date the cited text was compared at. */
+  asOf: string;
+  /** Distinct citation and effective-date pairs compared. */
+  citationsChecked: number;
+  /** Citations whose text as of `asOf` could not be fetched. */
+  unavailable: string[];
+  changes: RegulationChange[];
+  affectedVideos: {
+    jobId: string;
+    title: string;
+    createdAt: string;
+    status: VideoJobStatus;
+    /** Changed citations the video's script relied on. */
+    citations: string[];
+  }[];
+}
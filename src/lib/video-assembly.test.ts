@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getLanguageOption } from '@/lib/constants';
+import { getCaptionFontSpec, splitCaptionSegments } from '@/lib/video-assembly';
+
+describe('splitCaptionSegments', () => {
+  it('splits by sentence, then at word boundaries for long sentences', () => {
+    const segments = splitCaptionSegments(
+      'Stop. Always inspect the ladder for cracked rails and missing feet before every single climb.',
+      false
+    );
+    expect(segments[0]).toBe('Stop.');
+    expect(segments.slice(1).every((s) => s.length <= 45)).toBe(true);
+    expect(segments.slice(1).join(' ')).toBe(
+      'Always inspect the ladder for cracked rails and missing feet before every single climb.'
+    );
+  });
+
+  it('keeps accented Latin text intact', () => {
+    expect(splitCaptionSegments('Đội mũ bảo hộ. Lưu ý an toàn!', false)).toEqual([
+      'Đội mũ bảo hộ.',
+      'Lưu ý an toàn!',
+    ]);
+  });
+
+  it('splits CJK text at full-width punctuation and by character count', () => {
+    const long = '在操作叉车之前请务必检查喇叭刹车和安全带是否正常工作并确认周围没有行人';
+    const segments = splitCaptionSegments(`注意安全。${long}`, true);
+    expect(segments[0]).toBe('注意安全。');
+    expect(segments.slice(1).every((s) => Array.from(s).length <= 22)).toBe(true);
+    expect(segments.slice(1).join('')).toBe(long);
+  });
+});
+
+describe('getCaptionFontSpec', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the default font for English', () => {
+    vi.stubEnv('CAPTION_FONT_FILE', '');
+    expect(getCaptionFontSpec(getLanguageOption('en'))).toBe('');
+  });
+
+  it('selects a CJK font family for Chinese', () => {
+    vi.stubEnv('CAPTION_FONT_FILE', '');
+    expect(getCaptionFontSpec(getLanguageOption('zh'))).toBe("font='Noto Sans CJK SC':");
+  });
+
+  it('prefers CAPTION_FONT_FILE and escapes the drive colon', () => {
+    vi.stubEnv('CAPTION_FONT_FILE', 'C:\\fonts\\NotoSans.ttf');
+    expect(getCaptionFontSpec(getLanguageOption('en'))).toBe("fontfile='C\\:/fonts/NotoSans.ttf':");
+  });
+});
@@ -0,0 +1,77 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { POST } from '@/app/api/jobs/route';
+import { loadJob } from '@/lib/job-store';
+import { saveStoredRegulation } from '@/lib/regulation-store';
+import { clearRegulatoryCache } from '@/lib/regulatory-api';
+import { startVideoJob } from '@/lib/video-generation-client';
+import { clearVideoJobState, startVideoJob as runVideoJob } from '@/lib/video-jobs';
+
+vi.mock('@/lib/scene-assets', () => ({
+  generateSceneAssetOnServer: vi.fn(async (_scene, sceneIndex: number) => ({
+    sceneIndex,
+    imageBase64: 'image',
+    audioBase64: 'audio',
+    durationSeconds: 4,
+  })),
+}));
+
+vi.mock('@/lib/video-assembly', () => ({
+  assembleVideoFromScenes: vi.fn(async () => Buffer.from('mp4')),
+}));
+
+vi.mock('@/lib/providers/video-providers', () => ({
+  isVideoProviderEnabled: () => false,
+}));
+
+describe('startVideoJob', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'video-client-'));
+    vi.stubEnv('JOBS_DIR', join(dataDir, 'jobs'));
+    vi.stubEnv('REGULATORY_CACHE_DIR', join(dataDir, 'regulations'));
+    vi.stubEnv('REGULATORY_API_OFFLINE', 'true');
+    // The client's relative URLs go straight to the route handler
+    vi.stubGlobal('fetch', (url: string, init?: RequestInit) => POST(new Request(`http://test${url}`, init)));
+    clearVideoJobState();
+    clearRegulatoryCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('sends the whole script, so the job records the regulations it cites', async () => {
+    saveStoredRegulation({
+      section: '1910.178',
+      sourceId: 'ecfr',
+      snippet: {
+        citation: '29 CFR 1910.178',
+        text: 'Operators shall be trained.',
+        source: 'eCFR',
+        effectiveDate: '2026-01-01',
+      },
+      fetchedAt: '2026-01-01T00:00:00.000Z',
+      origin: 'fetched',
+    });
+
+    const job = await startVideoJob(
+      {
+        title: 'Forklift Safety',
+        scenes: [{ narration: 'Only trained operators drive forklifts.', imagePrompt: 'Operator in a forklift' }],
+        regulatorySources: ['29 CFR 1910.178 (2026-01-01)'],
+      },
+      { highQuality: false, voice: 'onyx', draft: true, captions: true }
+    );
+    await runVideoJob(job.id);
+
+    expect(loadJob(job.id)?.regulations).toEqual([
+      { citation: '29 CFR 1910.178', effectiveDate: '2026-01-01', textHash: expect.any(String) },
+    ]);
+  });
+});
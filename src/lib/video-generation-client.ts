@@ -1,10 +1,12 @@
 /**
- * Client-side helpers for video generation: audio duration, scene assets, and assemble.
+ * Client-side helpers for video generation: audio duration, scene assets, assemble, and
+ * server-side video jobs.
  * Used by useVideoGeneration and the main page flow.
  */
 
 import { fetchJson, fetchWithRetry, getApiError } from '@/lib/api-client';
-import type { Scene, SceneAssets } from '@/lib/types';
+import type { LanguageCode } from '@/lib/constants';
+import type { Scene, SceneAssets, ScriptResult, VideoJobStatusResponse } from '@/lib/types';
 
 export interface GenerateSceneAssetOptions {
   styleGuide: string;
@@ -17,6 +19,8 @@ export interface GenerateSceneAssetOptions {
   useVideo?: boolean;
   /** Key safety concepts to emphasize in images. */
   safetyKeywords?: string;
+  /** Narration and caption language (default en). */
+  language?: LanguageCode;
 }
 
 export interface ProviderConfig {
@@ -107,7 +111,7 @@ export async function generateSceneAsset(
         ),
     fetchJson<{ audioBase64: string; contentType?: string }>(
       '/api/generate-audio',
-      { text: scene.narration, voice: options.voice, draft: options.draft },
+      { text: scene.narration, voice: options.voice, draft: options.draft, language: options.language },
       fetchOpts
     ),
   ]);
@@ -152,12 +156,12 @@ export async function generateSceneAsset(
 export async function assembleVideo(
   scenes: SceneAssets[],
   captions: boolean,
-  options?: { signal?: AbortSignal }
+  options?: { signal?: AbortSignal; language?: LanguageCode }
 ): Promise<Blob> {
   const res = await fetchWithRetry('/api/assemble-video', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ scenes, captions }),
+    body: JSON.stringify({ scenes, captions, language: options?.language }),
     signal: options?.signal,
   });
 
@@ -168,3 +172,60 @@ export async function assembleVideo(
 
   return res.blob();
 }
+
+/** localStorage key for the in-progress server job, so a reload can pick it back up. */
+export const ACTIVE_VIDEO_JOB_KEY = 'safety-video:active-job';
+
+/** Starts a server-side video job (POST /api/jobs). Throws on non-ok response. */
+export async function startVideoJob(
+  script: ScriptResult,
+  options: VideoGenerationOptions
+): Promise<VideoJobStatusResponse> {
+  const { signal, useVideo: _useVideo, ...jobOptions } = options;
+  // useVideo is decided server-side from the configured video provider
+  const result = await fetchJson<VideoJobStatusResponse>(
+    '/api/jobs',
+    { script, options: jobOptions },
+    signal ? { signal } : undefined
+  );
+  if (!result.ok) throw new Error(result.error.message);
+  return result.data;
+}
+
+/** Fetches job status. Returns null when the job no longer exists. */
+export async function getVideoJobStatus(
+  jobId: string,
+  options?: { signal?: AbortSignal }
+): Promise<VideoJobStatusResponse | null> {
+  const res = await fetchWithRetry(`/api/jobs/${jobId}`, { signal: options?.signal });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const err = await getApiError(res);
+    throw new Error(err.message);
+  }
+  return res.json();
+}
+
+/** Downloads the finished video and its scene assets for a completed job. */
+export async function fetchVideoJobResult(
+  jobId: string,
+  options?: { signal?: AbortSignal }
+): Promise<{ blob: Blob; assets: SceneAssets[] }> {
+  const [videoRes, assetsRes] = await Promise.all([
+    fetchWithRetry(`/api/jobs/${jobId}?format=mp4`, { signal: options?.signal }),
+    fetchWithRetry(`/api/jobs/${jobId}?format=assets`, { signal: options?.signal }),
+  ]);
+  if (!videoRes.ok) throw new Error((await getApiError(videoRes)).message);
+  if (!assetsRes.ok) throw new Error((await getApiError(assetsRes)).message);
+  const { assets } = (await assetsRes.json()) as { assets: SceneAssets[] };
+  return { blob: await videoRes.blob(), assets };
+}
+
+/** Asks the server to cancel a job. Best-effort; errors are ignored. */
+export async function cancelVideoJob(jobId: string): Promise<void> {
+  try {
+    await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+  } catch {
+    // Job keeps running server-side; nothing else to do from the client
+  }
+}
@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { loadJob, loadJobVideo, saveJob, saveSceneAsset } from '@/lib/job-store';
+import { generateSceneAssetOnServer } from '@/lib/scene-assets';
+import {
+  cancelVideoJob,
+  clearVideoJobState,
+  createVideoJob,
+  pruneVideoJobs,
+  resumeVideoJobs,
+  retryVideoJob,
+  startVideoJob,
+} from '@/lib/video-jobs';
+import type { ScriptResult, VideoJob } from '@/lib/types';
+
+vi.mock('@/lib/scene-assets', () => ({
+  generateSceneAssetOnServer: vi.fn(async (_scene, sceneIndex: number) => ({
+    sceneIndex,
+    imageBase64: `image-${sceneIndex}`,
+    audioBase64: `audio-${sceneIndex}`,
+    durationSeconds: 4,
+  })),
+}));
+
+vi.mock('@/lib/video-assembly', () => ({
+  assembleVideoFromScenes: vi.fn(async () => Buffer.from('mp4')),
+}));
+
+vi.mock('@/lib/providers/video-providers', () => ({
+  isVideoProviderEnabled: () => false,
+}));
+
+const script: ScriptResult = {
+  title: 'Forklift Safety',
+  scenes: [
+    { narration: 'Check the forks.', imagePrompt: 'Forklift inspection' },
+    { narration: 'Wear a seatbelt.', imagePrompt: 'Operator buckling seatbelt' },
+    { narration: 'Sound the horn at corners.', imagePrompt: 'Forklift at a blind corner' },
+  ],
+};
+const options = { highQuality: false, voice: 'onyx', draft: true, captions: true };
+
+function interruptedJob(completedScenes: number[]): VideoJob {
+  const now = new Date().toISOString();
+  return {
+    id: '00000000-0000-4000-8000-0000000000aa',
+    status: 'running',
+    phase: 'assets',
+    createdAt: now,
+    updatedAt: now,
+    script,
+    options,
+    useVideo: false,
+    scenes: script.scenes.map((_, i) => ({
+      status: completedScenes.includes(i) ? 'completed' : 'pending',
+    })),
+  };
+}
+
+describe('video-jobs', () => {
+  let jobsDir: string;
+
+  beforeEach(() => {
+    jobsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'video-jobs-'));
+    vi.stubEnv('JOBS_DIR', jobsDir);
+    vi.clearAllMocks();
+    clearVideoJobState();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(jobsDir, { recursive: true, force: true });
+  });
+
+  it('runs a new job through every scene and assembly', async () => {
+    const job = createVideoJob(script, options);
+    expect(job.status).toBe('queued');
+    await startVideoJob(job.id);
+
+    const done = loadJob(job.id)!;
+    expect(done.status).toBe('completed');
+    expect(done.phase).toBe('done');
+    expect(done.scenes.every((s) => s.status === 'completed')).toBe(true);
+    expect(loadJobVideo(job.id)?.toString()).toBe('mp4');
+    expect(generateSceneAssetOnServer).toHaveBeenCalledTimes(3);
+  });
+
+  it('resumes an interrupted job from the last completed scene', async () => {
+    const job = interruptedJob([0, 1]);
+    saveJob(job);
+    saveSceneAsset(job.id, { sceneIndex: 0, imageBase64: 'a', audioBase64: 'b', durationSeconds: 3 });
+    saveSceneAsset(job.id, { sceneIndex: 1, imageBase64: 'a', audioBase64: 'b', durationSeconds: 3 });
+
+    expect(resumeVideoJobs()).toBe(1);
+    await startVideoJob(job.id);
+
+    expect(generateSceneAssetOnServer).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(generateSceneAssetOnServer).mock.calls[0][1]).toBe(2);
+    expect(loadJob(job.id)?.status).toBe('completed');
+  });
+
+  it('regenerates a scene marked completed whose asset file is missing', async () => {
+    const job = interruptedJob([0, 1, 2]);
+    saveJob(job);
+    saveSceneAsset(job.id, { sceneIndex: 0, imageBase64: 'a', audioBase64: 'b', durationSeconds: 3 });
+    saveSceneAsset(job.id, { sceneIndex: 2, imageBase64: 'a', audioBase64: 'b', durationSeconds: 3 });
+
+    await startVideoJob(job.id);
+
+    expect(generateSceneAssetOnServer).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(generateSceneAssetOnServer).mock.calls[0][1]).toBe(1);
+    expect(loadJob(job.id)?.status).toBe('completed');
+  });
+
+  it('marks the job failed when a scene fails, and retry keeps completed scenes', async () => {
+    vi.mocked(generateSceneAssetOnServer).mockImplementationOnce(async () => {
+      throw new Error('provider down');
+    });
+    const job = createVideoJob(script, options);
+    await startVideoJob(job.id);
+
+    const failed = loadJob(job.id)!;
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toContain('provider down');
+    expect(failed.scenes.filter((s) => s.status === 'completed')).toHaveLength(2);
+
+    vi.mocked(generateSceneAssetOnServer).mockClear();
+    retryVideoJob(job.id);
+    await startVideoJob(job.id);
+
+    expect(generateSceneAssetOnServer).toHaveBeenCalledTimes(1);
+    expect(loadJob(job.id)?.status).toBe('completed');
+  });
+
+  it('cancels a job that is not running', () => {
+    const job = interruptedJob([]);
+    saveJob({ ...job, status: 'queued' });
+    expect(cancelVideoJob(job.id)?.status).toBe('cancelled');
+    expect(loadJob(job.id)?.status).toBe('cancelled');
+  });
+
+  it('prunes finished jobs past the retention period, at most once an hour', () => {
+    const now = Date.parse('2026-06-01T00:00:00.000Z');
+    const old = '2026-04-01T00:00:00.000Z';
+    const base = interruptedJob([]);
+    const ids = ['b1', 'b2', 'b3'].map((n) => base.id.replace(/aa$/, n));
+    saveJob({ ...base, id: ids[0], status: 'completed', updatedAt: old });
+    saveJob({ ...base, id: ids[1], status: 'queued', updatedAt: old });
+    saveJob({ ...base, id: ids[2], status: 'failed', updatedAt: '2026-05-30T00:00:00.000Z' });
+
+    expect(pruneVideoJobs(now)).toBe(1);
+    expect(loadJob(ids[0])).toBeNull();
+    expect(fs.existsSync(path.join(jobsDir, ids[0]))).toBe(false);
+    expect(loadJob(ids[1])?.status).toBe('queued');
+    expect(loadJob(ids[2])?.status).toBe('failed');
+
+    saveJob({ ...base, id: ids[0], status: 'cancelled', updatedAt: old });
+    expect(pruneVideoJobs(now + 60_000)).toBe(0);
+    expect(loadJob(ids[0])).not.toBeNull();
+  });
+
+  it('returns null for unknown jobs', () => {
+    expect(cancelVideoJob('00000000-0000-4000-8000-00000000ffff')).toBeNull();
+    expect(retryVideoJob('not-a-uuid')).toBeNull();
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Server-side video generation jobs.
+ *
+ * Runs the same pipeline useVideoGeneration used to orchestrate in the browser
+ * (scene assets with bounded concurrency, then FFmpeg assembly) inside the server
+ * process. Progress is persisted after every scene (see job-store.ts), so closing
+ * the tab does not lose work and a restarted process resumes from the last
+ * completed scene instead of starting over.
+ */
+
+import { randomUUID } from 'crypto';
+import { runWithConcurrency } from '@/lib/concurrency';
+import { JOB_RETENTION_DAYS, SCENE_ASSET_CONCURRENCY } from '@/lib/constants';
+import {
+  listJobs,
+  loadJob,
+  loadSceneAsset,
+  pruneJobs,
+  saveJob,
+  saveJobVideo,
+  saveSceneAsset,
+} from '@/lib/job-store';
+import { logError, logInfo } from '@/lib/logger';
+import { isVideoProviderEnabled } from '@/lib/providers/video-providers';
+import { generateSceneAssetOnServer, type SceneAssetOptions } from '@/lib/scene-assets';
+import { assembleVideoFromScenes } from '@/lib/video-assembly';
+import type {
+  RegulationBaseline,
+  SceneAssets,
+  ScriptResult,
+  VideoJob,
+  VideoJobOptions,
+  VideoJobStatusResponse,
+} from '@/lib/types';
+
+/** In-flight runs keyed by job id; guarantees one runner per job per process. */
+const activeRuns = new Map<string, Promise<void>>();
+const cancelRequested = new Set<string>();
+let resumeChecked = false;
+let lastPrunedAt = 0;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Expired jobs are looked for at most this often. */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Persist a new job and start it in the background. `regulations` are hashes of the regulation
+ * text the script cited, for change detection (see regulation-changes.ts).
+ */
+export function createVideoJob(
+  script: ScriptResult,
+  options: VideoJobOptions,
+  regulations: RegulationBaseline[] = []
+): VideoJob {
+  const now = new Date().toISOString();
+  const job: VideoJob = {
+    id: randomUUID(),
+    status: 'queued',
+    phase: 'assets',
+    createdAt: now,
+    updatedAt: now,
+    script,
+    options,
+    useVideo: isVideoProviderEnabled(),
+    scenes: script.scenes.map(() => ({ status: 'pending' })),
+    ...(regulations.length > 0 && { regulations }),
+  };
+  saveJob(job);
+  void startVideoJob(job.id);
+  return job;
+}
+
+/** Start (or join) the runner for a job. Completed and cancelled jobs are no-ops. */
+export function startVideoJob(id: string): Promise<void> {
+  const existing = activeRuns.get(id);
+  if (existing) return existing;
+  const run = runVideoJob(id).finally(() => {
+    activeRuns.delete(id);
+    cancelRequested.delete(id);
+  });
+  activeRuns.set(id, run);
+  return run;
+}
+
+/**
+ * Restart jobs left queued or running by a previous process. Runs once per process;
+ * API routes call it so jobs resume on the first request after a restart.
+ */
+export function resumeVideoJobs(): number {
+  if (resumeChecked) return 0;
+  resumeChecked = true;
+  let resumed = 0;
+  for (const job of listJobs()) {
+    if ((job.status === 'queued' || job.status === 'running') && !activeRuns.has(job.id)) {
+      logInfo(`Resuming video job ${job.id}`, { route: 'jobs', phase: job.phase });
+      void startVideoJob(job.id);
+      resumed += 1;
+    }
+  }
+  return resumed;
+}
+
+/**
+ * Delete finished jobs not updated for JOB_RETENTION_DAYS. API routes call it on each request;
+ * it scans JOBS_DIR at most once an hour. Returns the number of jobs removed.
+ */
+export function pruneVideoJobs(now = Date.now()): number {
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return 0;
+  lastPrunedAt = now;
+  const removed = pruneJobs(now - JOB_RETENTION_DAYS * DAY_MS);
+  if (removed.length > 0) {
+    logInfo(`Pruned ${removed.length} finished video jobs`, { route: 'jobs', retentionDays: JOB_RETENTION_DAYS });
+  }
+  return removed.length;
+}
+
+/**
+ * Retry a failed job. Scenes that already completed are kept; only failed or
+ * pending scenes are regenerated. Returns null if the job does not exist.
+ */
+export function retryVideoJob(id: string): VideoJob | null {
+  const job = loadJob(id);
+  if (!job) return null;
+  if (job.status !== 'failed') return job;
+  job.status = 'queued';
+  job.error = undefined;
+  job.scenes = job.scenes.map((s) => (s.status === 'completed' ? s : { status: 'pending' }));
+  job.updatedAt = new Date().toISOString();
+  saveJob(job);
+  void startVideoJob(id);
+  return job;
+}
+
+/**
+ * Request cancellation. A running job stops before its next scene; scenes already
+ * in flight finish and are kept. Returns null if the job does not exist.
+ */
+export function cancelVideoJob(id: string): VideoJob | null {
+  const job = loadJob(id);
+  if (!job) return null;
+  if (job.status === 'completed' || job.status === 'cancelled') return job;
+  if (activeRuns.has(id)) {
+    cancelRequested.add(id);
+    return job;
+  }
+  job.status = 'cancelled';
+  job.updatedAt = new Date().toISOString();
+  saveJob(job);
+  return job;
+}
+
+/** Public status shape for GET /api/jobs/:id. */
+export function toJobStatusResponse(job: VideoJob): VideoJobStatusResponse {
+  return {
+    ...job,
+    completedScenes: job.scenes.filter((s) => s.status === 'completed').length,
+    ...(job.status === 'completed' && { videoUrl: `/api/jobs/${job.id}?format=mp4` }),
+  };
+}
+
+/** Scene assets for a job in scene order (for single-scene regeneration on the client). */
+export function getVideoJobAssets(id: string): SceneAssets[] | null {
+  const job = loadJob(id);
+  if (!job) return null;
+  const assets = job.scenes.map((_, i) => loadSceneAsset(id, i));
+  return assets.every((a): a is SceneAssets => a !== null) ? assets : null;
+}
+
+async function runVideoJob(id: string): Promise<void> {
+  const job = loadJob(id);
+  if (!job || job.status === 'completed' || job.status === 'cancelled') return;
+
+  const update = (patch: Partial<VideoJob> = {}) => {
+    Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+    saveJob(job);
+  };
+
+  // A scene marked completed whose asset file is missing (e.g. crash between writes) is redone
+  job.scenes = job.scenes.map((s, i) =>
+    s.status === 'completed' && !loadSceneAsset(id, i) ? { status: 'pending' } : s
+  );
+  if (job.phase !== 'assets' && job.scenes.some((s) => s.status !== 'completed')) {
+    job.phase = 'assets';
+  }
+  update({ status: 'running', error: undefined });
+
+  const options: SceneAssetOptions = {
+    ...job.options,
+    styleGuide: job.script.visualStyle ?? job.script.title,
+    useVideo: job.useVideo,
+    language: job.options.language ?? job.script.language,
+  };
+
+  try {
+    if (job.phase === 'assets') {
+      const pending = job.scenes
+        .map((s, i) => (s.status === 'completed' ? -1 : i))
+        .filter((i) => i >= 0);
+
+      await runWithConcurrency(pending, SCENE_ASSET_CONCURRENCY, async (sceneIndex) => {
+        if (cancelRequested.has(id)) return;
+        try {
+          const asset = await generateSceneAssetOnServer(
+            job.script.scenes[sceneIndex],
+            sceneIndex,
+            options
+          );
+          saveSceneAsset(id, asset);
+          job.scenes[sceneIndex] = { status: 'completed' };
+        } catch (err) {
+          logError('jobs', err, id);
+          job.scenes[sceneIndex] = {
+            status: 'failed',
+            error: err instanceof Error ? err.message : 'Scene generation failed',
+          };
+        }
+        update();
+      });
+
+      if (cancelRequested.has(id)) {
+        update({ status: 'cancelled' });
+        return;
+      }
+      const failed = job.scenes.findIndex((s) => s.status === 'failed');
+      if (failed >= 0) {
+        update({
+          status: 'failed',
+          error: `Scene ${failed + 1}: ${job.scenes[failed].error ?? 'generation failed'}`,
+        });
+        return;
+      }
+      update({ phase: 'assembly' });
+    }
+
+    const assets = job.scenes.map((_, i) => loadSceneAsset(id, i));
+    if (assets.some((a) => a === null)) throw new Error('Scene assets missing for assembly');
+    const video = await assembleVideoFromScenes(
+      assets as SceneAssets[],
+      job.options.captions,
+      options.language
+    );
+    saveJobVideo(id, video);
+
+    if (cancelRequested.has(id)) {
+      update({ status: 'cancelled' });
+      return;
+    }
+    update({ status: 'completed', phase: 'done' });
+  } catch (err) {
+    logError('jobs', err, id);
+    update({ status: 'failed', error: err instanceof Error ? err.message : 'Video job failed' });
+  }
+}
+
+/** Reset process-level state (for testing). */
+export function clearVideoJobState(): void {
+  activeRuns.clear();
+  cancelRequested.clear();
+  resumeChecked = false;
+  lastPrunedAt = 0;
+}